@@ -0,0 +1,288 @@
+use borsh::{BorshDeserialize, BorshSerialize};
+use solana_program::{
+    account_info::{next_account_info, AccountInfo},
+    entrypoint::ProgramResult,
+    msg,
+    program::invoke_signed,
+    clock::Clock,
+    program_error::ProgramError,
+    pubkey::Pubkey,
+    rent::Rent,
+    system_instruction, system_program,
+    sysvar::Sysvar,
+};
+
+// Replaced with the deployed program ID by scripts/deploy.sh; vote_program
+// and verifier_program link against this crate and only accept proposals
+// owned by it.
+solana_program::declare_id!("Fg6PaFpoGXkYsidMpWTK6W2BeZ7FEfcYkg476zPFsLnS");
+
+#[cfg(not(feature = "no-entrypoint"))]
+solana_program::entrypoint!(process_instruction);
+
+pub const PROPOSAL_SEED: &[u8] = b"proposal";
+pub const IDENTITY_SEED: &[u8] = b"identity";
+
+pub const MAX_TITLE_LEN: usize = 64;
+
+// Bitmask over vote choices: bit 0 = NO, bit 1 = YES, bit 2 = ABSTAIN
+pub const ALL_CHOICES: u8 = 0b111;
+
+#[derive(BorshSerialize, BorshDeserialize, Debug, Clone)]
+pub struct Proposal {
+    pub proposal_id: u64,
+    pub creator: Pubkey,
+    // Voting is open for open_slot <= slot < close_slot
+    pub open_slot: u64,
+    pub close_slot: u64,
+    pub allowed_choices: u8,
+    pub title: String,
+}
+
+// The eligibility root sits after the padded title, at a fixed offset.
+// Proposals created before it existed end here and are open to anyone.
+pub const ELIGIBILITY_ROOT_OFFSET: usize = 8 + 32 + 8 + 8 + 1 + 4 + MAX_TITLE_LEN;
+
+pub const PROPOSAL_SPACE: usize = ELIGIBILITY_ROOT_OFFSET + 32;
+
+/// Root of the proposal's eligibility tree: a merkle tree over the identity
+/// commitments of the members allowed to vote, as a big-endian field
+/// element. All zero when anyone may vote.
+pub fn eligibility_root(data: &[u8]) -> [u8; 32] {
+    let mut root = [0u8; 32];
+    if data.len() >= PROPOSAL_SPACE {
+        root.copy_from_slice(&data[ELIGIBILITY_ROOT_OFFSET..PROPOSAL_SPACE]);
+    }
+    root
+}
+
+/// A member's registered identity commitment, poseidon(voter_secret).
+/// Snapshots of these accounts become eligibility trees.
+#[derive(BorshSerialize, BorshDeserialize, Debug, Clone)]
+pub struct Identity {
+    pub member: Pubkey,
+    pub commitment: [u8; 32],
+    // Slot of the latest registration; snapshots can leave out late ones
+    pub registered_slot: u64,
+}
+
+pub const IDENTITY_SPACE: usize = 32 + 32 + 8;
+
+impl Proposal {
+    /// Decode a proposal account. The title is variable length, so the
+    /// account may carry trailing zero bytes after it.
+    pub fn unpack(data: &[u8]) -> Result<Self, ProgramError> {
+        Self::deserialize(&mut &data[..]).map_err(|_| ProgramError::InvalidAccountData)
+    }
+
+    pub fn is_open(&self, slot: u64) -> bool {
+        self.open_slot <= slot && slot < self.close_slot
+    }
+
+    pub fn allows_choice(&self, choice: u8) -> bool {
+        choice < 8 && self.allowed_choices & (1 << choice) != 0
+    }
+}
+
+#[derive(BorshSerialize, BorshDeserialize, Debug, Clone)]
+pub enum ProposalInstruction {
+    /// Accounts: proposal PDA (writable), creator (signer, writable), system program
+    CreateProposal {
+        proposal_id: u64,
+        title: String,
+        open_slot: u64,
+        close_slot: u64,
+        allowed_choices: u8,
+        // All zero to let anyone vote
+        eligibility_root: [u8; 32],
+    },
+    /// Register or replace the signer's identity commitment
+    ///
+    /// Accounts: identity PDA (writable), member (signer, writable), system program
+    RegisterIdentity { commitment: [u8; 32] },
+}
+
+pub fn find_proposal_address(proposal_id: u64) -> (Pubkey, u8) {
+    Pubkey::find_program_address(&[PROPOSAL_SEED, &proposal_id.to_le_bytes()], &id())
+}
+
+pub fn find_identity_address(member: &Pubkey) -> (Pubkey, u8) {
+    Pubkey::find_program_address(&[IDENTITY_SEED, member.as_ref()], &id())
+}
+
+pub fn process_instruction(
+    program_id: &Pubkey,
+    accounts: &[AccountInfo],
+    instruction_data: &[u8],
+) -> ProgramResult {
+    let instruction = ProposalInstruction::try_from_slice(instruction_data).map_err(|_| {
+        msg!("Invalid instruction data");
+        ProgramError::InvalidInstructionData
+    })?;
+
+    match instruction {
+        ProposalInstruction::CreateProposal {
+            proposal_id,
+            title,
+            open_slot,
+            close_slot,
+            allowed_choices,
+            eligibility_root,
+        } => create_proposal(
+            program_id,
+            accounts,
+            proposal_id,
+            title,
+            open_slot,
+            close_slot,
+            allowed_choices,
+            &eligibility_root,
+        ),
+        ProposalInstruction::RegisterIdentity { commitment } => {
+            register_identity(program_id, accounts, &commitment)
+        }
+    }
+}
+
+#[allow(clippy::too_many_arguments)]
+fn create_proposal(
+    program_id: &Pubkey,
+    accounts: &[AccountInfo],
+    proposal_id: u64,
+    title: String,
+    open_slot: u64,
+    close_slot: u64,
+    allowed_choices: u8,
+    eligibility_root: &[u8; 32],
+) -> ProgramResult {
+    if title.is_empty() || title.len() > MAX_TITLE_LEN {
+        msg!("Title must be 1-{} bytes", MAX_TITLE_LEN);
+        return Err(ProgramError::InvalidInstructionData);
+    }
+    if close_slot <= open_slot {
+        msg!("close_slot must be after open_slot");
+        return Err(ProgramError::InvalidInstructionData);
+    }
+    if allowed_choices == 0 || allowed_choices & !ALL_CHOICES != 0 {
+        msg!("Invalid allowed choices");
+        return Err(ProgramError::InvalidInstructionData);
+    }
+
+    let account_info_iter = &mut accounts.iter();
+    let proposal_account = next_account_info(account_info_iter)?;
+    let creator = next_account_info(account_info_iter)?;
+    let system_program_account = next_account_info(account_info_iter)?;
+
+    if !creator.is_signer {
+        msg!("Creator must sign");
+        return Err(ProgramError::MissingRequiredSignature);
+    }
+    if system_program_account.key != &system_program::id() {
+        msg!("Missing system program");
+        return Err(ProgramError::IncorrectProgramId);
+    }
+
+    let proposal_id_le = proposal_id.to_le_bytes();
+    let (proposal_address, proposal_bump) =
+        Pubkey::find_program_address(&[PROPOSAL_SEED, &proposal_id_le], program_id);
+    if proposal_account.key != &proposal_address {
+        msg!("Proposal account mismatch");
+        return Err(ProgramError::InvalidSeeds);
+    }
+    if proposal_account.lamports() > 0 {
+        msg!("Proposal already exists");
+        return Err(ProgramError::AccountAlreadyInitialized);
+    }
+
+    let lamports = Rent::get()?.minimum_balance(PROPOSAL_SPACE);
+    invoke_signed(
+        &system_instruction::create_account(
+            creator.key,
+            proposal_account.key,
+            lamports,
+            PROPOSAL_SPACE as u64,
+            program_id,
+        ),
+        &[creator.clone(), proposal_account.clone(), system_program_account.clone()],
+        &[&[PROPOSAL_SEED, &proposal_id_le, &[proposal_bump]]],
+    )?;
+
+    let proposal = Proposal {
+        proposal_id,
+        creator: *creator.key,
+        open_slot,
+        close_slot,
+        allowed_choices,
+        title,
+    };
+    let mut data = proposal_account.data.borrow_mut();
+    proposal
+        .serialize(&mut &mut data[..ELIGIBILITY_ROOT_OFFSET])
+        .map_err(|_| ProgramError::InvalidAccountData)?;
+    data[ELIGIBILITY_ROOT_OFFSET..PROPOSAL_SPACE].copy_from_slice(eligibility_root);
+
+    msg!("VeilProof proposal_program::create");
+    msg!("proposal_id: {}", proposal_id);
+    msg!("slots: {}..{}", open_slot, close_slot);
+    if eligibility_root != &[0u8; 32] {
+        msg!("members only");
+    }
+
+    Ok(())
+}
+
+fn register_identity(program_id: &Pubkey, accounts: &[AccountInfo], commitment: &[u8; 32]) -> ProgramResult {
+    if commitment == &[0u8; 32] {
+        msg!("Identity commitment must be nonzero");
+        return Err(ProgramError::InvalidInstructionData);
+    }
+
+    let account_info_iter = &mut accounts.iter();
+    let identity_account = next_account_info(account_info_iter)?;
+    let member = next_account_info(account_info_iter)?;
+    let system_program_account = next_account_info(account_info_iter)?;
+
+    if !member.is_signer {
+        msg!("Member must sign");
+        return Err(ProgramError::MissingRequiredSignature);
+    }
+    if system_program_account.key != &system_program::id() {
+        msg!("Missing system program");
+        return Err(ProgramError::IncorrectProgramId);
+    }
+
+    let (identity_address, identity_bump) =
+        Pubkey::find_program_address(&[IDENTITY_SEED, member.key.as_ref()], program_id);
+    if identity_account.key != &identity_address {
+        msg!("Identity account mismatch");
+        return Err(ProgramError::InvalidSeeds);
+    }
+    if identity_account.lamports() == 0 {
+        let lamports = Rent::get()?.minimum_balance(IDENTITY_SPACE);
+        invoke_signed(
+            &system_instruction::create_account(
+                member.key,
+                identity_account.key,
+                lamports,
+                IDENTITY_SPACE as u64,
+                program_id,
+            ),
+            &[member.clone(), identity_account.clone(), system_program_account.clone()],
+            &[&[IDENTITY_SEED, member.key.as_ref(), &[identity_bump]]],
+        )?;
+    }
+
+    let identity = Identity {
+        member: *member.key,
+        commitment: *commitment,
+        registered_slot: Clock::get()?.slot,
+    };
+    identity
+        .serialize(&mut &mut identity_account.data.borrow_mut()[..])
+        .map_err(|_| ProgramError::InvalidAccountData)?;
+
+    msg!("VeilProof proposal_program::register_identity");
+    msg!("slot: {}", identity.registered_slot);
+
+    Ok(())
+}
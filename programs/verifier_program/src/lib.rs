@@ -1,110 +1,685 @@
 use borsh::{BorshDeserialize, BorshSerialize};
 use solana_program::{
     account_info::{next_account_info, AccountInfo},
-    ed25519_program,
+    alt_bn128::prelude::{alt_bn128_addition, alt_bn128_multiplication, alt_bn128_pairing},
+    bpf_loader_upgradeable, ed25519_program,
     entrypoint,
     entrypoint::ProgramResult,
     hash::hashv,
     instruction::Instruction,
     msg,
+    program::{invoke, invoke_signed},
     program_error::ProgramError,
     pubkey::Pubkey,
-    sysvar,
+    rent::Rent,
+    system_instruction, system_program,
+    sysvar::{self, clock::Clock, Sysvar},
 };
 
 entrypoint!(process_instruction);
 
+pub const VOTE_CHOICE_NO: u8 = 0;
+pub const VOTE_CHOICE_YES: u8 = 1;
+pub const VOTE_CHOICE_ABSTAIN: u8 = 2;
+
+pub const STATE_SEED: &[u8] = b"veilproof";
+pub const NULLIFIER_SEED: &[u8] = b"nullifier";
+pub const SIGNER_CONFIG_SEED: &[u8] = b"signer_config";
+pub const GROTH16_VK_SEED: &[u8] = b"groth16_vk";
+
+// Most attestation signers a config can list
+pub const MAX_SIGNERS: usize = 10;
+
+// Public inputs of noir/vote_proof: expected_program_id, expected_proposal_id,
+// vote_root, eligibility_root, vote_choice, nullifier, weight
+pub const GROTH16_PUBLIC_INPUTS: usize = 7;
+
+// BN254 base field modulus, big-endian; negating a G1 point works in it
+const BN254_FIELD_MODULUS: [u8; 32] = [
+    0x30, 0x64, 0x4e, 0x72, 0xe1, 0x31, 0xa0, 0x29, 0xb8, 0x50, 0x45, 0xb6, 0x81, 0x81, 0x58, 0x5d,
+    0x97, 0x81, 0x6a, 0x91, 0x68, 0x71, 0xca, 0x8d, 0x3c, 0x20, 0x8c, 0x16, 0xd8, 0x7c, 0xfd, 0x47,
+];
+// BN254 scalar field modulus, big-endian; every public input must be below it
+const BN254_SCALAR_MODULUS: [u8; 32] = [
+    0x30, 0x64, 0x4e, 0x72, 0xe1, 0x31, 0xa0, 0x29, 0xb8, 0x50, 0x45, 0xb6, 0x81, 0x81, 0x58, 0x5d,
+    0x28, 0x33, 0xe8, 0x48, 0x79, 0xb9, 0x70, 0x91, 0x43, 0xe1, 0xf5, 0x93, 0xf0, 0x00, 0x00, 0x01,
+];
+
+// How a proof was accepted, recorded in its nullifier account
+pub const TRUST_MODEL_ATTESTATION: u8 = 0;
+pub const TRUST_MODEL_GROTH16: u8 = 1;
+
 #[derive(BorshSerialize, BorshDeserialize, Debug, Default, Clone)]
 pub struct VerifiedVoteState {
     pub proposal_id: u64,
     pub yes_proofs: u64,
+    pub no_proofs: u64,
+    pub abstain_proofs: u64,
+    // Sums of the weights of the counted proofs
+    pub yes_weight: u64,
+    pub no_weight: u64,
+    pub abstain_weight: u64,
 }
 
-const ATTESTATION_SIGNER_PUBKEY: [u8; 32] = [
-    0x16, 0x93, 0x5c, 0xb5, 0x14, 0x21, 0xe6, 0x4f, 0x44, 0xb2, 0xac, 0xe1, 0x4b, 0xa2,
-    0xe6, 0x90, 0x1d, 0xe0, 0x0d, 0x92, 0xcb, 0x1e, 0xe3, 0xca, 0x69, 0x47, 0x3d, 0x75,
-    0x02, 0xab, 0xdb, 0x8d,
-];
+const STATE_SPACE: usize = 8 * 7;
+// Tally accounts created before weighted votes hold only the proof counts
+const LEGACY_STATE_SPACE: usize = 8 * 4;
+
+#[derive(BorshDeserialize)]
+struct LegacyVerifiedVoteState {
+    proposal_id: u64,
+    yes_proofs: u64,
+    no_proofs: u64,
+    abstain_proofs: u64,
+}
+
+impl VerifiedVoteState {
+    /// Decode a tally account. Every proof a legacy account counted weighed
+    /// 1, so its weights are its counts.
+    pub fn unpack(data: &[u8]) -> Result<Self, ProgramError> {
+        if data.len() == LEGACY_STATE_SPACE {
+            let legacy = LegacyVerifiedVoteState::try_from_slice(data)
+                .map_err(|_| ProgramError::InvalidAccountData)?;
+            return Ok(Self {
+                proposal_id: legacy.proposal_id,
+                yes_proofs: legacy.yes_proofs,
+                no_proofs: legacy.no_proofs,
+                abstain_proofs: legacy.abstain_proofs,
+                yes_weight: legacy.yes_proofs,
+                no_weight: legacy.no_proofs,
+                abstain_weight: legacy.abstain_proofs,
+            });
+        }
+        Self::try_from_slice(data).map_err(|_| ProgramError::InvalidAccountData)
+    }
+}
+
+/// Verifier instances whose ed25519 attestations the program accepts, and
+/// how many of them must sign each proof
+#[derive(BorshSerialize, BorshDeserialize, Debug, Clone)]
+pub struct SignerConfig {
+    // May rotate the signer set
+    pub authority: Pubkey,
+    pub threshold: u8,
+    // Bumped on every rotation
+    pub epoch: u64,
+    pub signers: Vec<[u8; 32]>,
+}
+
+pub const SIGNER_CONFIG_SPACE: usize = 32 + 1 + 8 + 4 + 32 * MAX_SIGNERS;
+
+/// Where VEILPROOF_V2 attestations must be aimed, stored in the signer config
+/// account right after `SIGNER_CONFIG_SPACE`. Configs created before V2 end
+/// there and have no domain until `SetAttestationDomain` grows them.
+#[derive(BorshSerialize, BorshDeserialize, Debug, Clone, Copy)]
+pub struct AttestationDomain {
+    // Genesis hash of the cluster the program runs on
+    pub genesis_hash: [u8; 32],
+    // VEILPROOF_V1 attestations are accepted before this slot
+    pub v1_until_slot: u64,
+}
+
+pub const ATTESTATION_DOMAIN_SPACE: usize = 32 + 8;
+
+impl AttestationDomain {
+    /// The domain in a signer config account's data, or None before one was set
+    pub fn unpack(config_data: &[u8]) -> Option<Self> {
+        let bytes = config_data.get(SIGNER_CONFIG_SPACE..SIGNER_CONFIG_SPACE + ATTESTATION_DOMAIN_SPACE)?;
+        let domain = Self::try_from_slice(bytes).ok()?;
+        if domain.genesis_hash == [0; 32] {
+            return None;
+        }
+        Some(domain)
+    }
+}
+
+impl SignerConfig {
+    /// Decode a signer config account. The signer list is variable length,
+    /// so the account may carry trailing zero bytes after it.
+    pub fn unpack(data: &[u8]) -> Result<Self, ProgramError> {
+        Self::deserialize(&mut &data[..]).map_err(|_| ProgramError::InvalidAccountData)
+    }
+}
+
+/// Groth16 verifying key of vote_proof, points in the big-endian encoding of
+/// the alt_bn128 syscalls (EIP-197): G1 as x || y, G2 as x.c1 || x.c0 || y.c1 || y.c0
+#[derive(BorshSerialize, BorshDeserialize, Debug, Clone)]
+pub struct Groth16VerifyingKey {
+    pub alpha_g1: [u8; 64],
+    pub beta_g2: [u8; 128],
+    pub gamma_g2: [u8; 128],
+    pub delta_g2: [u8; 128],
+    pub ic: [[u8; 64]; GROTH16_PUBLIC_INPUTS + 1],
+}
+
+pub const GROTH16_VK_SPACE: usize = 64 + 128 * 3 + 64 * (GROTH16_PUBLIC_INPUTS + 1);
+
+// A nullifier PDA's existence marks the nullifier as spent; its one byte
+// says which trust model accepted the proof. Accounts created before the
+// Groth16 path have no data and were all attested.
+const NULLIFIER_SPACE: usize = 1;
+
+/// Custom program errors, surfaced to clients as `ProgramError::Custom(code)`.
+#[derive(Debug, Clone, Copy, PartialEq, Eq)]
+#[repr(u32)]
+pub enum VerifierError {
+    NullifierAlreadySpent = 0,
+    AttestationThresholdNotMet = 1,
+    ProofVerificationFailed = 2,
+    UnknownVoteRoot = 3,
+    AttestationExpired = 4,
+    AttestationV1Retired = 5,
+}
+
+impl From<VerifierError> for ProgramError {
+    fn from(e: VerifierError) -> Self {
+        ProgramError::Custom(e as u32)
+    }
+}
+
+#[derive(BorshSerialize, BorshDeserialize, Debug, Clone)]
+pub enum VerifierInstruction {
+    /// Count an attested proof toward its proposal's tally. Must follow
+    /// Ed25519Program instructions carrying at least `threshold` signatures
+    /// over the VEILPROOF_V1 message by signers in the signer config.
+    /// Weighted votes append their weight to the message. Once the
+    /// attestation domain is set, only accepted before its `v1_until_slot`.
+    ///
+    /// Accounts: state PDA (writable), instructions sysvar, nullifier PDA
+    /// (writable), payer (signer, writable), system program, signer config PDA
+    Verify {
+        expected_program_id: u64,
+        proposal_id: u64,
+        vote_choice: u8,
+        nullifier: [u8; 32],
+        // Root of the vote_program commitment tree the proof is anchored to;
+        // the attestation signers check it against the on-chain root history.
+        vote_root: [u8; 32],
+        vk_hash: [u8; 32],
+        public_inputs_hash: [u8; 32],
+        // The proof itself is too large for a transaction; the attested proof
+        // hash stands in for it and is bound by the signed message.
+        proof_hash: [u8; 32],
+        // What the vote adds to its choice's weighted tally; 1 unless the
+        // proposal's eligibility snapshot is weighted
+        weight: u64,
+    },
+    /// Create the signer config. Only the program's upgrade authority may,
+    /// and it becomes the config authority.
+    ///
+    /// Accounts: signer config PDA (writable), authority (signer, writable),
+    /// program data account, system program
+    InitializeSigners { threshold: u8, signers: Vec<[u8; 32]> },
+    /// Replace the signer set and threshold, starting a new epoch
+    ///
+    /// Accounts: signer config PDA (writable), config authority (signer)
+    RotateSigners { threshold: u8, signers: Vec<[u8; 32]> },
+    /// Write `bytes` into the Groth16 verifying key account at `offset`,
+    /// creating the account on the first write and growing a key written for
+    /// fewer public inputs. A borsh-encoded key does not
+    /// fit in one transaction, so it is written in chunks. Only the
+    /// program's upgrade authority may.
+    ///
+    /// Accounts: verifying key PDA (writable), authority (signer, writable),
+    /// program data account, system program
+    WriteGroth16VerifyingKey { offset: u32, bytes: Vec<u8> },
+    /// Count a proof toward its proposal's tally by checking it here, with
+    /// the alt_bn128 pairing syscalls, instead of trusting attestations.
+    /// The public inputs are rebuilt from the instruction fields.
+    ///
+    /// Accounts: state PDA (writable), nullifier PDA (writable), payer
+    /// (signer, writable), system program, verifying key PDA, vote_program's
+    /// vote tree for the proposal, the proposal's proposal_program account
+    VerifyGroth16 {
+        expected_program_id: u64,
+        proposal_id: u64,
+        vote_choice: u8,
+        nullifier: [u8; 32],
+        // Must be a recent root of the vote tree; nothing else vouches for it
+        vote_root: [u8; 32],
+        proof_a: [u8; 64],
+        proof_b: [u8; 128],
+        proof_c: [u8; 64],
+        // A public input of the proof, so the pairing check binds it
+        weight: u64,
+    },
+    /// `Verify` for VEILPROOF_V2 attestations, whose message also names this
+    /// program, the cluster's genesis hash from the attestation domain and the
+    /// last slot the attestation may be used in, so it cannot be replayed
+    /// later or on another deployment.
+    ///
+    /// Accounts: as `Verify`
+    VerifyV2 {
+        expected_program_id: u64,
+        proposal_id: u64,
+        vote_choice: u8,
+        nullifier: [u8; 32],
+        vote_root: [u8; 32],
+        vk_hash: [u8; 32],
+        public_inputs_hash: [u8; 32],
+        proof_hash: [u8; 32],
+        weight: u64,
+        expiry_slot: u64,
+    },
+    /// Set the cluster VEILPROOF_V2 attestations must name and the slot
+    /// VEILPROOF_V1 attestations stop being accepted at, growing a signer
+    /// config created before V2. Only the config authority may.
+    ///
+    /// Accounts: signer config PDA (writable), config authority (signer,
+    /// writable), system program
+    SetAttestationDomain { genesis_hash: [u8; 32], v1_until_slot: u64 },
+}
 
 pub fn process_instruction(
-    _program_id: &Pubkey,
+    program_id: &Pubkey,
     accounts: &[AccountInfo],
     instruction_data: &[u8],
 ) -> ProgramResult {
-    let min_len = 8 + 8 + 32 + 32 + 64 + 4;
-    if instruction_data.len() < min_len {
+    let instruction = VerifierInstruction::try_from_slice(instruction_data).map_err(|_| {
         msg!("Invalid instruction data length");
-        return Err(ProgramError::InvalidInstructionData);
+        ProgramError::InvalidInstructionData
+    })?;
+
+    match instruction {
+        VerifierInstruction::Verify {
+            expected_program_id,
+            proposal_id,
+            vote_choice,
+            nullifier,
+            vote_root,
+            vk_hash,
+            public_inputs_hash,
+            proof_hash,
+            weight,
+        } => process_verify(
+            program_id,
+            accounts,
+            expected_program_id,
+            proposal_id,
+            vote_choice,
+            &nullifier,
+            &vote_root,
+            &vk_hash,
+            &public_inputs_hash,
+            &proof_hash,
+            weight,
+            None,
+        ),
+        VerifierInstruction::InitializeSigners { threshold, signers } => {
+            process_initialize_signers(program_id, accounts, threshold, signers)
+        }
+        VerifierInstruction::RotateSigners { threshold, signers } => {
+            process_rotate_signers(program_id, accounts, threshold, signers)
+        }
+        VerifierInstruction::WriteGroth16VerifyingKey { offset, bytes } => {
+            process_write_groth16_verifying_key(program_id, accounts, offset, bytes)
+        }
+        VerifierInstruction::VerifyGroth16 {
+            expected_program_id,
+            proposal_id,
+            vote_choice,
+            nullifier,
+            vote_root,
+            proof_a,
+            proof_b,
+            proof_c,
+            weight,
+        } => process_verify_groth16(
+            program_id,
+            accounts,
+            expected_program_id,
+            proposal_id,
+            vote_choice,
+            &nullifier,
+            &vote_root,
+            &proof_a,
+            &proof_b,
+            &proof_c,
+            weight,
+        ),
+        VerifierInstruction::VerifyV2 {
+            expected_program_id,
+            proposal_id,
+            vote_choice,
+            nullifier,
+            vote_root,
+            vk_hash,
+            public_inputs_hash,
+            proof_hash,
+            weight,
+            expiry_slot,
+        } => process_verify(
+            program_id,
+            accounts,
+            expected_program_id,
+            proposal_id,
+            vote_choice,
+            &nullifier,
+            &vote_root,
+            &vk_hash,
+            &public_inputs_hash,
+            &proof_hash,
+            weight,
+            Some(expiry_slot),
+        ),
+        VerifierInstruction::SetAttestationDomain {
+            genesis_hash,
+            v1_until_slot,
+        } => process_set_attestation_domain(program_id, accounts, genesis_hash, v1_until_slot),
     }
+}
 
-    let expected_program_id = u64::from_le_bytes(
-        instruction_data[0..8]
-            .try_into()
-            .map_err(|_| ProgramError::InvalidInstructionData)?,
-    );
-    let proposal_id = u64::from_le_bytes(
-        instruction_data[8..16]
-            .try_into()
-            .map_err(|_| ProgramError::InvalidInstructionData)?,
-    );
-    let vk_hash = &instruction_data[16..48];
-    let public_inputs_hash = &instruction_data[48..80];
-    let signature = &instruction_data[80..144];
-    let proof_len = u32::from_le_bytes(
-        instruction_data[144..148]
-            .try_into()
-            .map_err(|_| ProgramError::InvalidInstructionData)?,
-    ) as usize;
-    if instruction_data.len() < 148 + proof_len {
-        msg!("Invalid proof length");
+#[allow(clippy::too_many_arguments)]
+fn process_verify(
+    program_id: &Pubkey,
+    accounts: &[AccountInfo],
+    expected_program_id: u64,
+    proposal_id: u64,
+    vote_choice: u8,
+    nullifier: &[u8; 32],
+    vote_root: &[u8; 32],
+    vk_hash: &[u8; 32],
+    public_inputs_hash: &[u8; 32],
+    proof_hash: &[u8; 32],
+    weight: u64,
+    // Set for VEILPROOF_V2 attestations, None for VEILPROOF_V1
+    expiry_slot: Option<u64>,
+) -> ProgramResult {
+    if vote_choice > VOTE_CHOICE_ABSTAIN {
+        msg!("Invalid vote choice");
+        return Err(ProgramError::InvalidInstructionData);
+    }
+    if weight == 0 {
+        msg!("Invalid vote weight");
         return Err(ProgramError::InvalidInstructionData);
     }
-    let proof = &instruction_data[148..148 + proof_len];
-
-    let proof_hash = hashv(&[proof]).to_bytes();
-    let message_hash = hashv(&[
-        b"VEILPROOF_V1",
-        &expected_program_id.to_le_bytes(),
-        &proposal_id.to_le_bytes(),
-        vk_hash,
-        &proof_hash,
-        public_inputs_hash,
-    ])
-    .to_bytes();
 
     let account_info_iter = &mut accounts.iter();
     let state_account = next_account_info(account_info_iter)?;
     let instructions_sysvar = next_account_info(account_info_iter)?;
+    let nullifier_account = next_account_info(account_info_iter)?;
+    let payer = next_account_info(account_info_iter)?;
+    let system_program_account = next_account_info(account_info_iter)?;
+    let signer_config_account = next_account_info(account_info_iter)?;
 
     if instructions_sysvar.key != &sysvar::instructions::id() {
         msg!("Missing instruction sysvar");
         return Err(ProgramError::InvalidAccountData);
     }
+    if system_program_account.key != &system_program::id() {
+        msg!("Missing system program");
+        return Err(ProgramError::IncorrectProgramId);
+    }
+    if !payer.is_signer {
+        msg!("Payer must sign");
+        return Err(ProgramError::MissingRequiredSignature);
+    }
+
+    let config = load_signer_config(program_id, signer_config_account)?;
+    let domain = AttestationDomain::unpack(&signer_config_account.data.borrow());
+    let slot = Clock::get()?.slot;
+
+    let expected_program_id_le = expected_program_id.to_le_bytes();
+    let proposal_id_le = proposal_id.to_le_bytes();
+    let weight_le = weight.to_le_bytes();
+    let message_hash = match expiry_slot {
+        None => {
+            // V1 keeps working until the migration window set with the domain closes
+            if let Some(domain) = domain {
+                if slot >= domain.v1_until_slot {
+                    msg!("VEILPROOF_V1 attestations are no longer accepted");
+                    return Err(VerifierError::AttestationV1Retired.into());
+                }
+            }
+            let fields: [&[u8]; 9] = [
+                b"VEILPROOF_V1",
+                &expected_program_id_le,
+                &proposal_id_le,
+                &[vote_choice],
+                nullifier,
+                vote_root,
+                vk_hash,
+                proof_hash,
+                public_inputs_hash,
+            ];
+            // A weight of 1 leaves the message as it was before weighted votes
+            if weight == 1 {
+                hashv(&fields)
+            } else {
+                hashv(&[&fields[..], &[&weight_le[..]]].concat())
+            }
+        }
+        Some(expiry_slot) => {
+            let domain = match domain {
+                Some(domain) => domain,
+                None => {
+                    msg!("Attestation domain is not set");
+                    return Err(ProgramError::UninitializedAccount);
+                }
+            };
+            if slot > expiry_slot {
+                msg!("Attestation expired at slot {}", expiry_slot);
+                return Err(VerifierError::AttestationExpired.into());
+            }
+            let expiry_slot_le = expiry_slot.to_le_bytes();
+            let fields: [&[u8]; 13] = [
+                b"VEILPROOF_V2",
+                &expected_program_id_le,
+                &proposal_id_le,
+                &[vote_choice],
+                nullifier,
+                vote_root,
+                vk_hash,
+                proof_hash,
+                public_inputs_hash,
+                &weight_le,
+                &expiry_slot_le,
+                program_id.as_ref(),
+                &domain.genesis_hash,
+            ];
+            hashv(&fields)
+        }
+    }
+    .to_bytes();
 
-    if !verify_ed25519_instruction(
-        instructions_sysvar,
-        &ATTESTATION_SIGNER_PUBKEY,
-        signature,
-        &message_hash,
-    ) {
-        msg!("Attestation signature verification failed");
+    let attested = count_attestations(instructions_sysvar, &config, &message_hash);
+    if attested < config.threshold as usize {
+        msg!(
+            "Not enough attestations: {} of {} required signers",
+            attested,
+            config.threshold
+        );
+        return Err(VerifierError::AttestationThresholdNotMet.into());
+    }
+
+    record_verified_proof(
+        program_id,
+        state_account,
+        nullifier_account,
+        payer,
+        system_program_account,
+        proposal_id,
+        vote_choice,
+        weight,
+        nullifier,
+        TRUST_MODEL_ATTESTATION,
+    )
+}
+
+#[allow(clippy::too_many_arguments)]
+fn process_verify_groth16(
+    program_id: &Pubkey,
+    accounts: &[AccountInfo],
+    expected_program_id: u64,
+    proposal_id: u64,
+    vote_choice: u8,
+    nullifier: &[u8; 32],
+    vote_root: &[u8; 32],
+    proof_a: &[u8; 64],
+    proof_b: &[u8; 128],
+    proof_c: &[u8; 64],
+    weight: u64,
+) -> ProgramResult {
+    if vote_choice > VOTE_CHOICE_ABSTAIN {
+        msg!("Invalid vote choice");
+        return Err(ProgramError::InvalidInstructionData);
+    }
+    if weight == 0 {
+        msg!("Invalid vote weight");
         return Err(ProgramError::InvalidInstructionData);
     }
 
+    let account_info_iter = &mut accounts.iter();
+    let state_account = next_account_info(account_info_iter)?;
+    let nullifier_account = next_account_info(account_info_iter)?;
+    let payer = next_account_info(account_info_iter)?;
+    let system_program_account = next_account_info(account_info_iter)?;
+    let verifying_key_account = next_account_info(account_info_iter)?;
+    let vote_tree_account = next_account_info(account_info_iter)?;
+    let proposal_account = next_account_info(account_info_iter)?;
+
+    if system_program_account.key != &system_program::id() {
+        msg!("Missing system program");
+        return Err(ProgramError::IncorrectProgramId);
+    }
+    if !payer.is_signer {
+        msg!("Payer must sign");
+        return Err(ProgramError::MissingRequiredSignature);
+    }
+
+    // An attestation signer would check the root; here the program must.
+    // Any shard of the proposal's vote tree will do: vote_program owns only
+    // vote trees, and is_known_root checks the proposal they belong to.
+    if vote_tree_account.owner != &vote_program::id() {
+        msg!("Vote tree account mismatch");
+        return Err(ProgramError::InvalidSeeds);
+    }
+    if !vote_program::is_known_root(&vote_tree_account.data.borrow(), proposal_id, vote_root) {
+        msg!("Vote root is not a recent root of the proposal's vote tree");
+        return Err(VerifierError::UnknownVoteRoot.into());
+    }
+
+    // Likewise the eligibility root comes from the proposal, never the caller
+    let (proposal_address, _) = proposal_program::find_proposal_address(proposal_id);
+    if proposal_account.key != &proposal_address || proposal_account.owner != &proposal_program::id() {
+        msg!("Proposal account mismatch");
+        return Err(ProgramError::InvalidSeeds);
+    }
+    // The vote transaction hides the choice, so the proven one is checked here
+    let proposal = proposal_program::Proposal::unpack(&proposal_account.data.borrow())?;
+    if !proposal.allows_choice(vote_choice) {
+        msg!("Vote choice not allowed for this proposal");
+        return Err(ProgramError::InvalidArgument);
+    }
+    let eligibility_root = proposal_program::eligibility_root(&proposal_account.data.borrow());
+
+    let verifying_key = load_groth16_verifying_key(program_id, verifying_key_account)?;
+    let public_inputs = groth16_public_inputs(
+        expected_program_id,
+        proposal_id,
+        vote_root,
+        &eligibility_root,
+        vote_choice,
+        nullifier,
+        weight,
+    );
+    if !verify_groth16(&verifying_key, proof_a, proof_b, proof_c, &public_inputs)? {
+        msg!("Groth16 proof verification failed");
+        return Err(VerifierError::ProofVerificationFailed.into());
+    }
+
+    record_verified_proof(
+        program_id,
+        state_account,
+        nullifier_account,
+        payer,
+        system_program_account,
+        proposal_id,
+        vote_choice,
+        weight,
+        nullifier,
+        TRUST_MODEL_GROTH16,
+    )
+}
+
+/// Spend the nullifier and add the vote to its proposal's tally
+#[allow(clippy::too_many_arguments)]
+fn record_verified_proof<'a>(
+    program_id: &Pubkey,
+    state_account: &AccountInfo<'a>,
+    nullifier_account: &AccountInfo<'a>,
+    payer: &AccountInfo<'a>,
+    system_program_account: &AccountInfo<'a>,
+    proposal_id: u64,
+    vote_choice: u8,
+    weight: u64,
+    nullifier: &[u8; 32],
+    trust_model: u8,
+) -> ProgramResult {
+    // Record the nullifier first so a replayed proof never touches the tally
+    let (nullifier_address, nullifier_bump) =
+        Pubkey::find_program_address(&[NULLIFIER_SEED, nullifier], program_id);
+    if nullifier_account.key != &nullifier_address {
+        msg!("Nullifier account mismatch");
+        return Err(ProgramError::InvalidSeeds);
+    }
+    if is_initialized(program_id, nullifier_account) {
+        msg!("Nullifier already spent");
+        return Err(VerifierError::NullifierAlreadySpent.into());
+    }
+    create_pda_account(
+        payer,
+        nullifier_account,
+        system_program_account,
+        program_id,
+        NULLIFIER_SPACE,
+        &[NULLIFIER_SEED, nullifier, &[nullifier_bump]],
+    )?;
+    nullifier_account.data.borrow_mut()[0] = trust_model;
+
+    let proposal_id_le = proposal_id.to_le_bytes();
+    let (state_address, state_bump) =
+        Pubkey::find_program_address(&[STATE_SEED, &proposal_id_le], program_id);
+    if state_account.key != &state_address {
+        msg!("State account mismatch");
+        return Err(ProgramError::InvalidSeeds);
+    }
     if !state_account.is_writable {
         msg!("State account must be writable");
         return Err(ProgramError::InvalidAccountData);
     }
+    if !is_initialized(program_id, state_account) {
+        create_pda_account(
+            payer,
+            state_account,
+            system_program_account,
+            program_id,
+            STATE_SPACE,
+            &[STATE_SEED, &proposal_id_le, &[state_bump]],
+        )?;
+    }
 
     let mut state = if state_account.data_is_empty() {
         VerifiedVoteState {
             proposal_id,
-            yes_proofs: 0,
+            ..VerifiedVoteState::default()
         }
     } else {
-        VerifiedVoteState::try_from_slice(&state_account.data.borrow())
-            .map_err(|_| ProgramError::InvalidAccountData)?
+        VerifiedVoteState::unpack(&state_account.data.borrow())?
     };
+    if state_account.data_len() < STATE_SPACE {
+        // A legacy tally; grow it to hold the weights
+        let shortfall = Rent::get()?
+            .minimum_balance(STATE_SPACE)
+            .saturating_sub(state_account.lamports());
+        if shortfall > 0 {
+            invoke(
+                &system_instruction::transfer(payer.key, state_account.key, shortfall),
+                &[payer.clone(), state_account.clone(), system_program_account.clone()],
+            )?;
+        }
+        state_account.realloc(STATE_SPACE, true)?;
+    }
 
     if state.proposal_id == 0 {
         state.proposal_id = proposal_id;
@@ -114,87 +689,557 @@ pub fn process_instruction(
         return Err(ProgramError::InvalidInstructionData);
     }
 
-    state.yes_proofs = state.yes_proofs.saturating_add(1);
+    let label = match vote_choice {
+        VOTE_CHOICE_YES => {
+            state.yes_proofs = state.yes_proofs.saturating_add(1);
+            state.yes_weight = state.yes_weight.saturating_add(weight);
+            "YES"
+        }
+        VOTE_CHOICE_NO => {
+            state.no_proofs = state.no_proofs.saturating_add(1);
+            state.no_weight = state.no_weight.saturating_add(weight);
+            "NO"
+        }
+        _ => {
+            state.abstain_proofs = state.abstain_proofs.saturating_add(1);
+            state.abstain_weight = state.abstain_weight.saturating_add(weight);
+            "ABSTAIN"
+        }
+    };
     state
         .serialize(&mut &mut state_account.data.borrow_mut()[..])
         .map_err(|_| ProgramError::InvalidAccountData)?;
 
-    msg!("Verified anonymous YES proof for proposal {}", proposal_id);
+    msg!(
+        "Verified anonymous {} proof of weight {} for proposal {}",
+        label,
+        weight,
+        proposal_id
+    );
+    Ok(())
+}
+
+/// Public inputs in the order vote_proof commits to them, each a big-endian
+/// field element
+fn groth16_public_inputs(
+    expected_program_id: u64,
+    proposal_id: u64,
+    vote_root: &[u8; 32],
+    eligibility_root: &[u8; 32],
+    vote_choice: u8,
+    nullifier: &[u8; 32],
+    weight: u64,
+) -> [[u8; 32]; GROTH16_PUBLIC_INPUTS] {
+    let mut program_id_field = [0u8; 32];
+    program_id_field[24..].copy_from_slice(&expected_program_id.to_be_bytes());
+    let mut proposal_id_field = [0u8; 32];
+    proposal_id_field[24..].copy_from_slice(&proposal_id.to_be_bytes());
+    let mut vote_choice_field = [0u8; 32];
+    vote_choice_field[31] = vote_choice;
+    let mut weight_field = [0u8; 32];
+    weight_field[24..].copy_from_slice(&weight.to_be_bytes());
+    [
+        program_id_field,
+        proposal_id_field,
+        *vote_root,
+        *eligibility_root,
+        vote_choice_field,
+        *nullifier,
+        weight_field,
+    ]
+}
+
+/// -P for a G1 point: (x, q - y), with the point at infinity left as is
+fn negate_g1(point: &[u8; 64]) -> Result<[u8; 64], ProgramError> {
+    let mut negated = *point;
+    if point[32..].iter().all(|byte| *byte == 0) {
+        return Ok(negated);
+    }
+    if point[32..] >= BN254_FIELD_MODULUS[..] {
+        msg!("Groth16 proof is malformed");
+        return Err(ProgramError::InvalidInstructionData);
+    }
+    let mut borrow = 0i16;
+    for i in (0..32).rev() {
+        let mut diff = BN254_FIELD_MODULUS[i] as i16 - point[32 + i] as i16 - borrow;
+        borrow = if diff < 0 { 1 } else { 0 };
+        if diff < 0 {
+            diff += 256;
+        }
+        negated[32 + i] = diff as u8;
+    }
+    Ok(negated)
+}
+
+/// Groth16 check e(-A, B) * e(alpha, beta) * e(vk_x, gamma) * e(C, delta) == 1,
+/// where vk_x = ic[0] + sum(input_i * ic[i + 1]). Points the syscalls reject
+/// (off the curve, out of range) fail verification.
+fn verify_groth16(
+    verifying_key: &Groth16VerifyingKey,
+    proof_a: &[u8; 64],
+    proof_b: &[u8; 128],
+    proof_c: &[u8; 64],
+    public_inputs: &[[u8; 32]; GROTH16_PUBLIC_INPUTS],
+) -> Result<bool, ProgramError> {
+    let mut vk_x = verifying_key.ic[0];
+    for (input, ic) in public_inputs.iter().zip(verifying_key.ic[1..].iter()) {
+        if input[..] >= BN254_SCALAR_MODULUS[..] {
+            msg!("Public input is not a field element");
+            return Err(ProgramError::InvalidInstructionData);
+        }
+        let product = match alt_bn128_multiplication(&[&ic[..], &input[..]].concat()) {
+            Ok(product) => product,
+            Err(_) => return Ok(false),
+        };
+        match alt_bn128_addition(&[&vk_x[..], &product[..]].concat()) {
+            Ok(sum) if sum.len() == 64 => vk_x.copy_from_slice(&sum),
+            _ => return Ok(false),
+        }
+    }
+
+    let pairing_input = [
+        &negate_g1(proof_a)?[..],
+        &proof_b[..],
+        &verifying_key.alpha_g1[..],
+        &verifying_key.beta_g2[..],
+        &vk_x[..],
+        &verifying_key.gamma_g2[..],
+        &proof_c[..],
+        &verifying_key.delta_g2[..],
+    ]
+    .concat();
+    Ok(match alt_bn128_pairing(&pairing_input) {
+        Ok(result) => result.len() == 32 && result[..31].iter().all(|byte| *byte == 0) && result[31] == 1,
+        Err(_) => false,
+    })
+}
+
+
+fn validate_signer_set(threshold: u8, signers: &[[u8; 32]]) -> ProgramResult {
+    if signers.is_empty() || signers.len() > MAX_SIGNERS {
+        msg!("Signer set must have 1-{} signers", MAX_SIGNERS);
+        return Err(ProgramError::InvalidInstructionData);
+    }
+    if threshold == 0 || threshold as usize > signers.len() {
+        msg!("Threshold must be between 1 and the number of signers");
+        return Err(ProgramError::InvalidInstructionData);
+    }
+    for (i, signer) in signers.iter().enumerate() {
+        if signers[..i].contains(signer) {
+            msg!("Duplicate signer in signer set");
+            return Err(ProgramError::InvalidInstructionData);
+        }
+    }
+    Ok(())
+}
+
+/// The upgrade authority recorded in the program's ProgramData account:
+/// bincode `UpgradeableLoaderState::ProgramData { slot, upgrade_authority_address }`
+fn upgrade_authority(program_id: &Pubkey, program_data: &AccountInfo) -> Result<Pubkey, ProgramError> {
+    let (program_data_address, _) =
+        Pubkey::find_program_address(&[program_id.as_ref()], &bpf_loader_upgradeable::id());
+    if program_data.key != &program_data_address || program_data.owner != &bpf_loader_upgradeable::id() {
+        msg!("Program data account mismatch");
+        return Err(ProgramError::InvalidSeeds);
+    }
+    let data = program_data.data.borrow();
+    if data.len() < 45 || data[0..4] != [3, 0, 0, 0] || data[12] != 1 {
+        msg!("Program is not upgradeable");
+        return Err(ProgramError::InvalidAccountData);
+    }
+    Ok(Pubkey::new_from_array(
+        data[13..45].try_into().map_err(|_| ProgramError::InvalidAccountData)?,
+    ))
+}
+
+fn process_initialize_signers(
+    program_id: &Pubkey,
+    accounts: &[AccountInfo],
+    threshold: u8,
+    signers: Vec<[u8; 32]>,
+) -> ProgramResult {
+    let account_info_iter = &mut accounts.iter();
+    let config_account = next_account_info(account_info_iter)?;
+    let authority = next_account_info(account_info_iter)?;
+    let program_data = next_account_info(account_info_iter)?;
+    let system_program_account = next_account_info(account_info_iter)?;
+
+    if system_program_account.key != &system_program::id() {
+        msg!("Missing system program");
+        return Err(ProgramError::IncorrectProgramId);
+    }
+    if !authority.is_signer {
+        msg!("Authority must sign");
+        return Err(ProgramError::MissingRequiredSignature);
+    }
+    if upgrade_authority(program_id, program_data)? != *authority.key {
+        msg!("Only the upgrade authority may initialize signers");
+        return Err(ProgramError::MissingRequiredSignature);
+    }
+    validate_signer_set(threshold, &signers)?;
+
+    let (config_address, config_bump) =
+        Pubkey::find_program_address(&[SIGNER_CONFIG_SEED], program_id);
+    if config_account.key != &config_address {
+        msg!("Signer config account mismatch");
+        return Err(ProgramError::InvalidSeeds);
+    }
+    if is_initialized(program_id, config_account) {
+        msg!("Signer config already initialized");
+        return Err(ProgramError::AccountAlreadyInitialized);
+    }
+    create_pda_account(
+        authority,
+        config_account,
+        system_program_account,
+        program_id,
+        SIGNER_CONFIG_SPACE + ATTESTATION_DOMAIN_SPACE,
+        &[SIGNER_CONFIG_SEED, &[config_bump]],
+    )?;
+
+    let config = SignerConfig {
+        authority: *authority.key,
+        threshold,
+        epoch: 0,
+        signers,
+    };
+    config
+        .serialize(&mut &mut config_account.data.borrow_mut()[..])
+        .map_err(|_| ProgramError::InvalidAccountData)?;
+
+    msg!(
+        "Signer config initialized: {} of {} signers",
+        config.threshold,
+        config.signers.len()
+    );
+    Ok(())
+}
+
+fn process_write_groth16_verifying_key(
+    program_id: &Pubkey,
+    accounts: &[AccountInfo],
+    offset: u32,
+    bytes: Vec<u8>,
+) -> ProgramResult {
+    let account_info_iter = &mut accounts.iter();
+    let verifying_key_account = next_account_info(account_info_iter)?;
+    let authority = next_account_info(account_info_iter)?;
+    let program_data = next_account_info(account_info_iter)?;
+    let system_program_account = next_account_info(account_info_iter)?;
+
+    if system_program_account.key != &system_program::id() {
+        msg!("Missing system program");
+        return Err(ProgramError::IncorrectProgramId);
+    }
+    if !authority.is_signer {
+        msg!("Authority must sign");
+        return Err(ProgramError::MissingRequiredSignature);
+    }
+    if upgrade_authority(program_id, program_data)? != *authority.key {
+        msg!("Only the upgrade authority may set the verifying key");
+        return Err(ProgramError::MissingRequiredSignature);
+    }
+
+    let (verifying_key_address, verifying_key_bump) =
+        Pubkey::find_program_address(&[GROTH16_VK_SEED], program_id);
+    if verifying_key_account.key != &verifying_key_address {
+        msg!("Verifying key account mismatch");
+        return Err(ProgramError::InvalidSeeds);
+    }
+    let start = offset as usize;
+    let end = start + bytes.len();
+    if end > GROTH16_VK_SPACE {
+        msg!("Verifying key write out of bounds");
+        return Err(ProgramError::InvalidInstructionData);
+    }
+    if !is_initialized(program_id, verifying_key_account) {
+        create_pda_account(
+            authority,
+            verifying_key_account,
+            system_program_account,
+            program_id,
+            GROTH16_VK_SPACE,
+            &[GROTH16_VK_SEED, &[verifying_key_bump]],
+        )?;
+    } else if verifying_key_account.data_len() < GROTH16_VK_SPACE {
+        // A key for an older circuit with fewer public inputs
+        let shortfall = Rent::get()?
+            .minimum_balance(GROTH16_VK_SPACE)
+            .saturating_sub(verifying_key_account.lamports());
+        if shortfall > 0 {
+            invoke(
+                &system_instruction::transfer(authority.key, verifying_key_account.key, shortfall),
+                &[authority.clone(), verifying_key_account.clone(), system_program_account.clone()],
+            )?;
+        }
+        verifying_key_account.realloc(GROTH16_VK_SPACE, true)?;
+    }
+    verifying_key_account.data.borrow_mut()[start..end].copy_from_slice(&bytes);
+
+    msg!("Wrote Groth16 verifying key bytes {}..{}", start, end);
+    Ok(())
+}
+
+fn process_rotate_signers(
+    program_id: &Pubkey,
+    accounts: &[AccountInfo],
+    threshold: u8,
+    signers: Vec<[u8; 32]>,
+) -> ProgramResult {
+    let account_info_iter = &mut accounts.iter();
+    let config_account = next_account_info(account_info_iter)?;
+    let authority = next_account_info(account_info_iter)?;
+
+    let mut config = load_signer_config(program_id, config_account)?;
+    if !authority.is_signer || authority.key != &config.authority {
+        msg!("Only the config authority may rotate signers");
+        return Err(ProgramError::MissingRequiredSignature);
+    }
+    if !config_account.is_writable {
+        msg!("Signer config must be writable");
+        return Err(ProgramError::InvalidAccountData);
+    }
+    validate_signer_set(threshold, &signers)?;
+
+    config.threshold = threshold;
+    config.signers = signers;
+    config.epoch = config.epoch.saturating_add(1);
+    // Clear the old set first: a shorter list leaves stale bytes behind.
+    // The attestation domain after it stays.
+    let mut data = config_account.data.borrow_mut();
+    data[..SIGNER_CONFIG_SPACE].fill(0);
+    config
+        .serialize(&mut &mut data[..SIGNER_CONFIG_SPACE])
+        .map_err(|_| ProgramError::InvalidAccountData)?;
+
+    msg!(
+        "Signer set rotated to epoch {}: {} of {} signers",
+        config.epoch,
+        config.threshold,
+        config.signers.len()
+    );
+    Ok(())
+}
+
+fn process_set_attestation_domain(
+    program_id: &Pubkey,
+    accounts: &[AccountInfo],
+    genesis_hash: [u8; 32],
+    v1_until_slot: u64,
+) -> ProgramResult {
+    let account_info_iter = &mut accounts.iter();
+    let config_account = next_account_info(account_info_iter)?;
+    let authority = next_account_info(account_info_iter)?;
+    let system_program_account = next_account_info(account_info_iter)?;
+
+    if system_program_account.key != &system_program::id() {
+        msg!("Missing system program");
+        return Err(ProgramError::IncorrectProgramId);
+    }
+    let config = load_signer_config(program_id, config_account)?;
+    if !authority.is_signer || authority.key != &config.authority {
+        msg!("Only the config authority may set the attestation domain");
+        return Err(ProgramError::MissingRequiredSignature);
+    }
+    if !config_account.is_writable {
+        msg!("Signer config must be writable");
+        return Err(ProgramError::InvalidAccountData);
+    }
+    if genesis_hash == [0; 32] {
+        msg!("Genesis hash must be nonzero");
+        return Err(ProgramError::InvalidInstructionData);
+    }
+
+    let space = SIGNER_CONFIG_SPACE + ATTESTATION_DOMAIN_SPACE;
+    if config_account.data_len() < space {
+        // A config created before VEILPROOF_V2
+        let shortfall = Rent::get()?
+            .minimum_balance(space)
+            .saturating_sub(config_account.lamports());
+        if shortfall > 0 {
+            invoke(
+                &system_instruction::transfer(authority.key, config_account.key, shortfall),
+                &[authority.clone(), config_account.clone(), system_program_account.clone()],
+            )?;
+        }
+        config_account.realloc(space, true)?;
+    }
+    let domain = AttestationDomain {
+        genesis_hash,
+        v1_until_slot,
+    };
+    domain
+        .serialize(&mut &mut config_account.data.borrow_mut()[SIGNER_CONFIG_SPACE..space])
+        .map_err(|_| ProgramError::InvalidAccountData)?;
+
+    msg!(
+        "Attestation domain set: VEILPROOF_V1 accepted before slot {}",
+        v1_until_slot
+    );
     Ok(())
 }
 
-fn verify_ed25519_instruction(
+fn load_signer_config(
+    program_id: &Pubkey,
+    config_account: &AccountInfo,
+) -> Result<SignerConfig, ProgramError> {
+    let (config_address, _) = Pubkey::find_program_address(&[SIGNER_CONFIG_SEED], program_id);
+    if config_account.key != &config_address {
+        msg!("Signer config account mismatch");
+        return Err(ProgramError::InvalidSeeds);
+    }
+    if config_account.owner != program_id || config_account.data_is_empty() {
+        msg!("Signer config is not initialized");
+        return Err(ProgramError::UninitializedAccount);
+    }
+    SignerConfig::unpack(&config_account.data.borrow())
+}
+
+fn load_groth16_verifying_key(
+    program_id: &Pubkey,
+    verifying_key_account: &AccountInfo,
+) -> Result<Groth16VerifyingKey, ProgramError> {
+    let (verifying_key_address, _) = Pubkey::find_program_address(&[GROTH16_VK_SEED], program_id);
+    if verifying_key_account.key != &verifying_key_address {
+        msg!("Verifying key account mismatch");
+        return Err(ProgramError::InvalidSeeds);
+    }
+    if verifying_key_account.owner != program_id || verifying_key_account.data_is_empty() {
+        msg!("Groth16 verifying key is not set");
+        return Err(ProgramError::UninitializedAccount);
+    }
+    Groth16VerifyingKey::try_from_slice(&verifying_key_account.data.borrow())
+        .map_err(|_| ProgramError::InvalidAccountData)
+}
+
+/// Whether this program has created the PDA. Lamports alone say nothing:
+/// anyone can transfer to a PDA's address before it exists. Ownership is
+/// enough, since only this program can assign an account to itself; nullifiers
+/// spent before the Groth16 path are owned but hold no data.
+fn is_initialized(program_id: &Pubkey, account: &AccountInfo) -> bool {
+    account.owner == program_id
+}
+
+/// Create a PDA owned by this program. `create_account` fails on an address
+/// that already holds lamports, so a pre-funded one is topped up to rent
+/// exemption, then allocated and assigned instead.
+fn create_pda_account<'a>(
+    payer: &AccountInfo<'a>,
+    account: &AccountInfo<'a>,
+    system_program_account: &AccountInfo<'a>,
+    program_id: &Pubkey,
+    space: usize,
+    signer_seeds: &[&[u8]],
+) -> ProgramResult {
+    let lamports = Rent::get()?.minimum_balance(space);
+    let accounts = [payer.clone(), account.clone(), system_program_account.clone()];
+    if account.lamports() == 0 {
+        return invoke_signed(
+            &system_instruction::create_account(
+                payer.key,
+                account.key,
+                lamports,
+                space as u64,
+                program_id,
+            ),
+            &accounts,
+            &[signer_seeds],
+        );
+    }
+
+    let shortfall = lamports.saturating_sub(account.lamports());
+    if shortfall > 0 {
+        invoke(&system_instruction::transfer(payer.key, account.key, shortfall), &accounts)?;
+    }
+    invoke_signed(
+        &system_instruction::allocate(account.key, space as u64),
+        &[account.clone(), system_program_account.clone()],
+        &[signer_seeds],
+    )?;
+    invoke_signed(
+        &system_instruction::assign(account.key, program_id),
+        &[account.clone(), system_program_account.clone()],
+        &[signer_seeds],
+    )
+}
+
+/// Number of distinct configured signers with a signature over
+/// `expected_message` in the Ed25519Program instructions before this one. The
+/// precompile has already checked every signature it carries.
+fn count_attestations(
     instructions_sysvar: &AccountInfo,
-    expected_pubkey: &[u8; 32],
-    expected_signature: &[u8],
+    config: &SignerConfig,
     expected_message: &[u8; 32],
-) -> bool {
+) -> usize {
     let current_index = match sysvar::instructions::load_current_index_checked(instructions_sysvar) {
         Ok(index) => index,
-        Err(_) => return false,
+        Err(_) => return 0,
     };
 
+    let mut attested: Vec<[u8; 32]> = Vec::new();
     for i in 0..current_index {
         let ix: Instruction =
             match sysvar::instructions::load_instruction_at_checked(i as usize, instructions_sysvar)
             {
                 Ok(ix) => ix,
-                Err(_) => return false,
+                Err(_) => return 0,
             };
         if ix.program_id != ed25519_program::id() {
             continue;
         }
 
-        if check_ed25519_ix(&ix, expected_pubkey, expected_signature, expected_message) {
-            return true;
+        for signer in attested_signers(&ix, expected_message) {
+            if config.signers.contains(&signer) && !attested.contains(&signer) {
+                attested.push(signer);
+            }
         }
     }
 
-    false
+    attested.len()
 }
 
-fn check_ed25519_ix(
-    ix: &Instruction,
-    expected_pubkey: &[u8; 32],
-    expected_signature: &[u8],
-    expected_message: &[u8; 32],
-) -> bool {
+/// Public keys of the signatures in an Ed25519Program instruction that cover
+/// `expected_message`. Only entries whose offsets point into the instruction
+/// itself count; anything else could borrow bytes from elsewhere.
+fn attested_signers(ix: &Instruction, expected_message: &[u8; 32]) -> Vec<[u8; 32]> {
+    let mut signers = Vec::new();
     if ix.data.len() < 2 {
-        return false;
+        return signers;
     }
     let num_signatures = ix.data[0] as usize;
-    if num_signatures != 1 {
-        return false;
-    }
-    let offsets_start = 2;
-    if ix.data.len() < offsets_start + 14 {
-        return false;
-    }
 
-    let sig_offset = u16::from_le_bytes([ix.data[2], ix.data[3]]) as usize;
-    let sig_ix_index = u16::from_le_bytes([ix.data[4], ix.data[5]]);
-    let pub_offset = u16::from_le_bytes([ix.data[6], ix.data[7]]) as usize;
-    let pub_ix_index = u16::from_le_bytes([ix.data[8], ix.data[9]]);
-    let msg_offset = u16::from_le_bytes([ix.data[10], ix.data[11]]) as usize;
-    let msg_size = u16::from_le_bytes([ix.data[12], ix.data[13]]) as usize;
-    let msg_ix_index = u16::from_le_bytes([ix.data[14], ix.data[15]]);
+    for i in 0..num_signatures {
+        let base = 2 + i * 14;
+        if ix.data.len() < base + 14 {
+            break;
+        }
+        let read_u16 = |at: usize| u16::from_le_bytes([ix.data[base + at], ix.data[base + at + 1]]);
 
-    if sig_ix_index != u16::MAX || pub_ix_index != u16::MAX || msg_ix_index != u16::MAX {
-        return false;
-    }
+        let sig_offset = read_u16(0) as usize;
+        let sig_ix_index = read_u16(2);
+        let pub_offset = read_u16(4) as usize;
+        let pub_ix_index = read_u16(6);
+        let msg_offset = read_u16(8) as usize;
+        let msg_size = read_u16(10) as usize;
+        let msg_ix_index = read_u16(12);
 
-    if ix.data.len() < sig_offset + 64 || ix.data.len() < pub_offset + 32 {
-        return false;
-    }
-    if ix.data.len() < msg_offset + msg_size || msg_size != 32 {
-        return false;
-    }
+        if sig_ix_index != u16::MAX || pub_ix_index != u16::MAX || msg_ix_index != u16::MAX {
+            continue;
+        }
+        if ix.data.len() < sig_offset + 64 || ix.data.len() < pub_offset + 32 {
+            continue;
+        }
+        if ix.data.len() < msg_offset + msg_size || msg_size != 32 {
+            continue;
+        }
+        if &ix.data[msg_offset..msg_offset + msg_size] != expected_message {
+            continue;
+        }
 
-    let sig = &ix.data[sig_offset..sig_offset + 64];
-    let pubkey = &ix.data[pub_offset..pub_offset + 32];
-    let message = &ix.data[msg_offset..msg_offset + msg_size];
+        let mut pubkey = [0u8; 32];
+        pubkey.copy_from_slice(&ix.data[pub_offset..pub_offset + 32]);
+        signers.push(pubkey);
+    }
 
-    sig == expected_signature
-        && pubkey == expected_pubkey
-        && message == expected_message
+    signers
 }
@@ -1,20 +1,82 @@
 use solana_program::{
-    account_info::AccountInfo,
-    entrypoint,
+    account_info::{next_account_info, AccountInfo},
+    clock::Clock,
     entrypoint::ProgramResult,
     msg,
+    program::{invoke, invoke_signed},
     program_error::ProgramError,
+    poseidon::{hashv, Endianness, Parameters},
     pubkey::Pubkey,
+    rent::Rent,
+    system_instruction, system_program,
+    sysvar::Sysvar,
 };
+use proposal_program::Proposal;
 
-entrypoint!(process_instruction);
+// Replaced with the deployed program ID by scripts/deploy.sh; verifier_program
+// links against this crate to check Groth16 proofs against recent vote roots.
+solana_program::declare_id!("ESVfm31CLr92wLMc2szQS7pvEvQryb7uY4GpYZPLzX9m");
+
+#[cfg(not(feature = "no-entrypoint"))]
+solana_program::entrypoint!(process_instruction);
+
+pub const VOTE_TREE_SEED: &[u8] = b"votes";
+
+// Must match TREE_DEPTH in noir/vote_proof and ui/web/src/lib/voteTree.ts.
+// Depth 8 is the deepest tree whose leaves fit an account created by CPI, so
+// a proposal takes as many trees ("shards") as it needs: votes go to the next
+// shard once one is full, and filling a tree cannot stop anyone voting.
+pub const TREE_DEPTH: usize = 8;
+pub const TREE_CAPACITY: usize = 1 << TREE_DEPTH;
+pub const ROOT_HISTORY: usize = 32;
+
+// Vote tree account layout. Kept as raw bytes: the leaves alone are 8 KiB,
+// which is too large to deserialize onto the BPF stack.
+//   proposal_id: u64 | next_index: u32 | root_cursor: u32
+//   filled_subtrees: [[u8; 32]; TREE_DEPTH]
+//   roots: [[u8; 32]; ROOT_HISTORY]
+//   leaves: [[u8; 32]; TREE_CAPACITY]
+const PROPOSAL_ID_OFFSET: usize = 0;
+const NEXT_INDEX_OFFSET: usize = 8;
+const ROOT_CURSOR_OFFSET: usize = 12;
+const FILLED_SUBTREES_OFFSET: usize = 16;
+const ROOTS_OFFSET: usize = FILLED_SUBTREES_OFFSET + TREE_DEPTH * 32;
+const LEAVES_OFFSET: usize = ROOTS_OFFSET + ROOT_HISTORY * 32;
+pub const VOTE_TREE_SPACE: usize = LEAVES_OFFSET + TREE_CAPACITY * 32;
+
+/// Shard 0 keeps the address trees had before shards, ["votes", proposal_id];
+/// later shards add their index, ["votes", proposal_id, shard (u32 LE)].
+pub fn find_vote_tree_address(proposal_id: u64, shard: u32) -> (Pubkey, u8) {
+    let proposal_id_le = proposal_id.to_le_bytes();
+    let shard_le = shard.to_le_bytes();
+    if shard == 0 {
+        Pubkey::find_program_address(&[VOTE_TREE_SEED, &proposal_id_le], &id())
+    } else {
+        Pubkey::find_program_address(&[VOTE_TREE_SEED, &proposal_id_le, &shard_le], &id())
+    }
+}
+
+/// Whether `root` is one of the last ROOT_HISTORY roots of a vote tree
+/// account for `proposal_id`. The all-zero root of an empty slot never counts.
+pub fn is_known_root(data: &[u8], proposal_id: u64, root: &[u8; 32]) -> bool {
+    if data.len() < VOTE_TREE_SPACE || root == &[0u8; 32] {
+        return false;
+    }
+    if data[PROPOSAL_ID_OFFSET..PROPOSAL_ID_OFFSET + 8] != proposal_id.to_le_bytes() {
+        return false;
+    }
+    (0..ROOT_HISTORY).any(|index| &data[slot(index, ROOTS_OFFSET)] == root)
+}
 
 pub fn process_instruction(
-    _program_id: &Pubkey,
-    _accounts: &[AccountInfo],
+    program_id: &Pubkey,
+    accounts: &[AccountInfo],
     instruction_data: &[u8],
 ) -> ProgramResult {
-    if instruction_data.len() != 9 {
+    // Only the commitment goes on chain: the choice stays hidden inside it,
+    // and the verifier checks the proven choice against the proposal.
+    // proposal_id | commitment | shard (u32 LE); without a shard, shard 0.
+    if instruction_data.len() != 40 && instruction_data.len() != 44 {
         msg!("Invalid instruction data length");
         return Err(ProgramError::InvalidInstructionData);
     }
@@ -24,11 +86,188 @@ pub fn process_instruction(
             .try_into()
             .map_err(|_| ProgramError::InvalidInstructionData)?,
     );
-    let choice = instruction_data[8];
+    let commitment: [u8; 32] = instruction_data[8..40]
+        .try_into()
+        .map_err(|_| ProgramError::InvalidInstructionData)?;
+    let shard = match instruction_data.get(40..44) {
+        Some(bytes) => u32::from_le_bytes(bytes.try_into().map_err(|_| ProgramError::InvalidInstructionData)?),
+        None => 0,
+    };
+
+    let account_info_iter = &mut accounts.iter();
+    let tree_account = next_account_info(account_info_iter)?;
+    let proposal_account = next_account_info(account_info_iter)?;
+    let payer = next_account_info(account_info_iter)?;
+    let system_program_account = next_account_info(account_info_iter)?;
+
+    if !payer.is_signer {
+        msg!("Payer must sign");
+        return Err(ProgramError::MissingRequiredSignature);
+    }
+    if system_program_account.key != &system_program::id() {
+        msg!("Missing system program");
+        return Err(ProgramError::IncorrectProgramId);
+    }
+
+    load_open_proposal(proposal_account, proposal_id)?;
+
+    let proposal_id_le = proposal_id.to_le_bytes();
+    let shard_le = shard.to_le_bytes();
+    let mut tree_seeds: Vec<&[u8]> = vec![VOTE_TREE_SEED, &proposal_id_le];
+    if shard != 0 {
+        tree_seeds.push(&shard_le);
+    }
+    let (tree_address, tree_bump) = Pubkey::find_program_address(&tree_seeds, program_id);
+    if tree_account.key != &tree_address {
+        msg!("Vote tree account mismatch");
+        return Err(ProgramError::InvalidSeeds);
+    }
+    let tree_bump = [tree_bump];
+    tree_seeds.push(&tree_bump);
+
+    // Lamports alone do not mean the tree exists: anyone can fund its address
+    if tree_account.owner != program_id {
+        create_pda_account(
+            payer,
+            tree_account,
+            system_program_account,
+            program_id,
+            VOTE_TREE_SPACE,
+            &tree_seeds,
+        )?;
+        tree_account.data.borrow_mut()[PROPOSAL_ID_OFFSET..PROPOSAL_ID_OFFSET + 8]
+            .copy_from_slice(&proposal_id_le);
+    }
+
+    let leaf_index = insert_leaf(&mut tree_account.data.borrow_mut(), &commitment)?;
 
     msg!("VeilProof vote_program::vote");
     msg!("proposal_id: {}", proposal_id);
-    msg!("choice: {}", choice);
+    msg!("shard: {}", shard);
+    msg!("leaf_index: {}", leaf_index);
 
     Ok(())
 }
+
+/// Create a PDA owned by this program. `create_account` fails on an address
+/// that already holds lamports, so a pre-funded one is topped up to rent
+/// exemption, then allocated and assigned instead.
+fn create_pda_account<'a>(
+    payer: &AccountInfo<'a>,
+    account: &AccountInfo<'a>,
+    system_program_account: &AccountInfo<'a>,
+    program_id: &Pubkey,
+    space: usize,
+    signer_seeds: &[&[u8]],
+) -> ProgramResult {
+    let lamports = Rent::get()?.minimum_balance(space);
+    let accounts = [payer.clone(), account.clone(), system_program_account.clone()];
+    if account.lamports() == 0 {
+        return invoke_signed(
+            &system_instruction::create_account(
+                payer.key,
+                account.key,
+                lamports,
+                space as u64,
+                program_id,
+            ),
+            &accounts,
+            &[signer_seeds],
+        );
+    }
+
+    let shortfall = lamports.saturating_sub(account.lamports());
+    if shortfall > 0 {
+        invoke(&system_instruction::transfer(payer.key, account.key, shortfall), &accounts)?;
+    }
+    invoke_signed(
+        &system_instruction::allocate(account.key, space as u64),
+        &[account.clone(), system_program_account.clone()],
+        &[signer_seeds],
+    )?;
+    invoke_signed(
+        &system_instruction::assign(account.key, program_id),
+        &[account.clone(), system_program_account.clone()],
+        &[signer_seeds],
+    )
+}
+
+/// Only proposals registered in proposal_program and open at the current
+/// slot accept votes.
+fn load_open_proposal(proposal_account: &AccountInfo, proposal_id: u64) -> Result<Proposal, ProgramError> {
+    if proposal_account.owner != &proposal_program::id() {
+        msg!("Unknown proposal");
+        return Err(ProgramError::IncorrectProgramId);
+    }
+    let (proposal_address, _) = proposal_program::find_proposal_address(proposal_id);
+    if proposal_account.key != &proposal_address {
+        msg!("Proposal account mismatch");
+        return Err(ProgramError::InvalidSeeds);
+    }
+
+    let proposal = Proposal::unpack(&proposal_account.data.borrow())?;
+    if !proposal.is_open(Clock::get()?.slot) {
+        msg!("Proposal is not open for voting");
+        return Err(ProgramError::InvalidArgument);
+    }
+    Ok(proposal)
+}
+
+fn poseidon_pair(left: &[u8; 32], right: &[u8; 32]) -> Result<[u8; 32], ProgramError> {
+    hashv(Parameters::Bn254X5, Endianness::BigEndian, &[&left[..], &right[..]])
+        .map(|hash| hash.to_bytes())
+        .map_err(|_| {
+            msg!("Poseidon hash failed");
+            ProgramError::InvalidInstructionData
+        })
+}
+
+fn read_u32(data: &[u8], offset: usize) -> u32 {
+    u32::from_le_bytes([data[offset], data[offset + 1], data[offset + 2], data[offset + 3]])
+}
+
+fn slot(index: usize, base: usize) -> std::ops::Range<usize> {
+    base + index * 32..base + (index + 1) * 32
+}
+
+/// Append a leaf to the incremental merkle tree and record the new root.
+fn insert_leaf(data: &mut [u8], leaf: &[u8; 32]) -> Result<u32, ProgramError> {
+    if data.len() < VOTE_TREE_SPACE {
+        msg!("Vote tree account too small");
+        return Err(ProgramError::AccountDataTooSmall);
+    }
+
+    let next_index = read_u32(data, NEXT_INDEX_OFFSET) as usize;
+    if next_index >= TREE_CAPACITY {
+        msg!("Vote tree is full; vote in the next shard");
+        return Err(ProgramError::AccountDataTooSmall);
+    }
+
+    data[slot(next_index, LEAVES_OFFSET)].copy_from_slice(leaf);
+
+    let mut zero = [0u8; 32];
+    let mut node = *leaf;
+    let mut index = next_index;
+    for level in 0..TREE_DEPTH {
+        let range = slot(level, FILLED_SUBTREES_OFFSET);
+        node = if index % 2 == 0 {
+            data[range].copy_from_slice(&node);
+            poseidon_pair(&node, &zero)?
+        } else {
+            let mut left = [0u8; 32];
+            left.copy_from_slice(&data[range]);
+            poseidon_pair(&left, &node)?
+        };
+        zero = poseidon_pair(&zero, &zero)?;
+        index /= 2;
+    }
+
+    let root_cursor = read_u32(data, ROOT_CURSOR_OFFSET) as usize % ROOT_HISTORY;
+    data[slot(root_cursor, ROOTS_OFFSET)].copy_from_slice(&node);
+    data[ROOT_CURSOR_OFFSET..ROOT_CURSOR_OFFSET + 4]
+        .copy_from_slice(&(((root_cursor + 1) % ROOT_HISTORY) as u32).to_le_bytes());
+    data[NEXT_INDEX_OFFSET..NEXT_INDEX_OFFSET + 4]
+        .copy_from_slice(&((next_index + 1) as u32).to_le_bytes());
+
+    Ok(next_index as u32)
+}
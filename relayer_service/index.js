@@ -0,0 +1,696 @@
+#!/usr/bin/env node
+const http = require("http");
+const crypto = require("crypto");
+const {
+  base58Decode,
+  base58Encode,
+  findProgramAddress,
+  loadKeypair,
+  sha256,
+  signLegacyTransaction,
+} = require("../scripts/solana");
+
+const PORT = process.env.PORT || process.env.RELAYER_PORT || 8788;
+const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || "https://api.devnet.solana.com";
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || "*").split(",");
+const VERIFIER_PROGRAM_ID = process.env.VERIFIER_PROGRAM_ID;
+// Needed only to relay Groth16 proofs, whose instruction reads the vote tree
+// and the proposal
+const VOTE_PROGRAM_ID = process.env.VOTE_PROGRAM_ID;
+const PROPOSAL_PROGRAM_ID = process.env.PROPOSAL_PROGRAM_ID;
+// Solana CLI keypair file (JSON array of 64 bytes) that pays for relayed transactions
+const RELAYER_KEYPAIR = process.env.RELAYER_KEYPAIR;
+// Relays allowed per client per window
+const RATE_LIMIT = Number(process.env.RELAYER_RATE_LIMIT || 5);
+const RATE_WINDOW_MS = Number(process.env.RELAYER_RATE_WINDOW_MS || 60_000);
+// Behind a proxy the client address comes from X-Forwarded-For
+const TRUST_PROXY = process.env.RELAYER_TRUST_PROXY === "true";
+const CONFIRM_POLL_MS = 1_000;
+// Far more than the ten attestations a signer config allows; larger bodies get 413
+const MAX_BODY_BYTES = 64 * 1024;
+
+const ED25519_PROGRAM_ID = "Ed25519SigVerify111111111111111111111111111";
+const SYSVAR_INSTRUCTIONS_ID = "Sysvar1nstructions1111111111111111111111111";
+const SYSTEM_PROGRAM_ID = "11111111111111111111111111111111";
+
+if (!VERIFIER_PROGRAM_ID || !RELAYER_KEYPAIR) {
+  console.error("VERIFIER_PROGRAM_ID and RELAYER_KEYPAIR are required.");
+  process.exit(1);
+}
+
+class HttpError extends Error {
+  constructor(status, message, extra = {}) {
+    super(message);
+    this.status = status;
+    this.extra = extra;
+  }
+}
+
+function isHex(value, byteLength) {
+  return typeof value === "string" && value.length === byteLength * 2 && /^[0-9a-f]*$/i.test(value);
+}
+
+function u64Le(value) {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64LE(BigInt(value));
+  return buf;
+}
+
+const verifierProgramId = base58Decode(VERIFIER_PROGRAM_ID, 32);
+const signerConfigAddress = findProgramAddress([Buffer.from("signer_config")], verifierProgramId);
+const groth16VkAddress = findProgramAddress([Buffer.from("groth16_vk")], verifierProgramId);
+const voteProgramId = VOTE_PROGRAM_ID ? base58Decode(VOTE_PROGRAM_ID, 32) : null;
+const proposalProgramId = PROPOSAL_PROGRAM_ID ? base58Decode(PROPOSAL_PROGRAM_ID, 32) : null;
+const feePayer = loadKeypair(RELAYER_KEYPAIR);
+
+// ============================================================================
+// Attestation checks (see ui/web/src/lib/attestation.ts)
+// ============================================================================
+
+// Raw 32-byte ed25519 key as a KeyObject
+function ed25519PublicKey(raw) {
+  const der = Buffer.concat([Buffer.from("302a300506032b6570032100", "hex"), raw]);
+  return crypto.createPublicKey({ key: der, format: "der", type: "spki" });
+}
+
+/**
+ * Rebuild the VEILPROOF_V1 or VEILPROOF_V2 message from the attested fields
+ * alone and check the signer's signature over it. The relayer never sees the proof.
+ */
+function checkAttestation(item, path) {
+  const { attestation, signature_base64: signatureBase64 } = item || {};
+  if (!attestation || typeof attestation !== "object" || typeof signatureBase64 !== "string") {
+    throw new HttpError(400, `${path}: attestation and signature_base64 are required`);
+  }
+  if (attestation.scheme !== "ed25519") {
+    throw new HttpError(400, `${path}: unsupported attestation scheme "${attestation.scheme}"`);
+  }
+  if (!isHex(attestation.signer_pubkey_hex, 32)) {
+    throw new HttpError(400, `${path}: attestation.signer_pubkey_hex must be 32 bytes of hex`);
+  }
+  const signer = attestation.signer_pubkey_hex.toLowerCase();
+  for (const field of ["nullifier_hex", "vote_root_hex", "vk_hash_hex", "proof_hash_hex", "public_inputs_hash_hex", "message_hash_hex"]) {
+    if (!isHex(attestation[field], 32)) {
+      throw new HttpError(400, `${path}: attestation.${field} must be 32 bytes of hex`);
+    }
+  }
+  for (const field of ["expected_program_id", "expected_proposal_id"]) {
+    if (!/^\d+$/.test(String(attestation[field])) || BigInt(attestation[field]) > 0xffffffffffffffffn) {
+      throw new HttpError(400, `${path}: attestation.${field} must be a u64`);
+    }
+  }
+  const voteChoice = Number(attestation.vote_choice);
+  if (![0, 1, 2].includes(voteChoice)) {
+    throw new HttpError(400, `${path}: attestation.vote_choice must be 0, 1 or 2`);
+  }
+  // Attestations for unweighted votes leave the weight out
+  const weight = parseWeight(attestation.weight, `${path}: attestation.weight`);
+  const domain = parseDomain(attestation, path);
+
+  const messageHash = sha256(
+    Buffer.concat([
+      Buffer.from(domain ? "VEILPROOF_V2" : "VEILPROOF_V1", "utf8"),
+      u64Le(attestation.expected_program_id),
+      u64Le(attestation.expected_proposal_id),
+      Buffer.from([voteChoice]),
+      Buffer.from(attestation.nullifier_hex, "hex"),
+      Buffer.from(attestation.vote_root_hex, "hex"),
+      Buffer.from(attestation.vk_hash_hex, "hex"),
+      Buffer.from(attestation.proof_hash_hex, "hex"),
+      Buffer.from(attestation.public_inputs_hash_hex, "hex"),
+      ...messageTail(weight, domain),
+    ])
+  );
+  if (messageHash.toString("hex") !== attestation.message_hash_hex.toLowerCase()) {
+    throw new HttpError(400, `${path}: attestation message hash mismatch`);
+  }
+  const signature = Buffer.from(signatureBase64, "base64");
+  if (signature.length !== 64 || !crypto.verify(null, messageHash, ed25519PublicKey(Buffer.from(signer, "hex")), signature)) {
+    throw new HttpError(400, `${path}: attestation signature is invalid`);
+  }
+  return { attestation, voteChoice, weight, domain, signer: Buffer.from(signer, "hex"), signature, messageHash };
+}
+
+// Same as messageTail in verifier_service/index.js
+function messageTail(weight, domain) {
+  if (!domain) {
+    // A weight of 1 leaves the message as it was before weighted votes
+    return weight === 1n ? [] : [u64Le(weight)];
+  }
+  return [u64Le(weight), u64Le(domain.expirySlot), verifierProgramId, domain.genesisHash];
+}
+
+// What a VEILPROOF_V2 attestation is bound to; null for VEILPROOF_V1 ones.
+// Attestations for another verifier program are refused here, as it would.
+function parseDomain(attestation, path) {
+  if (attestation.message_version == null || attestation.message_version === 1) {
+    return null;
+  }
+  if (attestation.message_version !== 2) {
+    throw new HttpError(400, `${path}: unsupported attestation message_version ${attestation.message_version}`);
+  }
+  if (!/^\d+$/.test(String(attestation.expiry_slot)) || BigInt(attestation.expiry_slot) > 0xffffffffffffffffn) {
+    throw new HttpError(400, `${path}: attestation.expiry_slot must be a u64`);
+  }
+  if (attestation.verifier_program_id !== VERIFIER_PROGRAM_ID) {
+    throw new HttpError(400, `${path}: attestation is for verifier program ${attestation.verifier_program_id}`, {
+      code: "attestation_domain_mismatch",
+    });
+  }
+  let genesisHash;
+  try {
+    genesisHash = base58Decode(String(attestation.genesis_hash), 32);
+  } catch {
+    throw new HttpError(400, `${path}: attestation.genesis_hash must be a base58 32-byte hash`);
+  }
+  return { expirySlot: BigInt(attestation.expiry_slot), genesisHash };
+}
+
+// A vote's weight: a u64 of at least 1, and 1 when absent
+function parseWeight(value, path) {
+  if (value == null) {
+    return 1n;
+  }
+  if (!/^\d+$/.test(String(value)) || BigInt(value) < 1n || BigInt(value) > 0xffffffffffffffffn) {
+    throw new HttpError(400, `${path} must be a u64 of at least 1`);
+  }
+  return BigInt(value);
+}
+
+/**
+ * Check every attestation in a relay request against the on-chain signer
+ * config and keep `threshold` of them from distinct trusted signers over one
+ * message. Attestations are grouped by the message they sign and the first
+ * group to reach the threshold is used; ones from signers outside the config,
+ * or that fail their checks, are skipped.
+ * A bare attestation body is the single-signer form older clients send.
+ * Mirrors verifyAttestationMessages in ui/web/src/lib/attestation.ts.
+ * @param slot - Refuses attestations the verifier program would no longer accept
+ */
+function checkAttestations(body, config, slot) {
+  const items = Array.isArray(body && body.attestations) ? body.attestations : [body];
+  const groups = new Map();
+  let firstFailure;
+  items.forEach((item, index) => {
+    const signer = String((item && item.attestation && item.attestation.signer_pubkey_hex) || "").toLowerCase();
+    // A verifier rotated out of the set does not spoil the others
+    if (!config.signers.includes(signer)) {
+      return;
+    }
+    let checked;
+    try {
+      checked = checkAttestation(item, `attestations[${index}]`);
+      if (checked.domain && !(config.domain && checked.domain.genesisHash.equals(config.domain.genesisHash))) {
+        throw new HttpError(400, `attestations[${index}]: attestation is not for this cluster`, {
+          code: "attestation_domain_mismatch",
+        });
+      }
+    } catch (err) {
+      // Nor does one that answered wrongly
+      if (!(err instanceof HttpError)) {
+        throw err;
+      }
+      firstFailure = firstFailure || err;
+      return;
+    }
+    const key = checked.messageHash.toString("hex");
+    if (!groups.has(key)) {
+      groups.set(key, new Map());
+    }
+    const group = groups.get(key);
+    if (!group.has(signer)) {
+      group.set(signer, checked);
+    }
+  });
+  const signers = [...groups.values()].find((group) => group.size >= config.threshold);
+  if (!signers) {
+    // With nothing verified, why the attestations failed says more than a count
+    if (groups.size === 0 && firstFailure) {
+      throw firstFailure;
+    }
+    const found = Math.max(0, ...[...groups.values()].map((group) => group.size));
+    throw new HttpError(403, `Only ${found} of ${config.threshold} required verifier signatures`, {
+      code: "insufficient_attestations",
+    });
+  }
+  // Signatures past the threshold would only make the transaction bigger
+  const checked = [...signers.values()].slice(0, config.threshold);
+  // They all sign one message, so they share a version and expiry
+  const { domain, messageHash } = checked[0];
+  const stale = domain ? BigInt(slot) > domain.expirySlot : config.domain && BigInt(slot) >= config.domain.v1UntilSlot;
+  if (stale) {
+    throw new HttpError(400, "Attestations are expired or no longer accepted", { code: "attestation_expired" });
+  }
+  return {
+    attestation: checked[0].attestation,
+    voteChoice: checked[0].voteChoice,
+    weight: checked[0].weight,
+    domain,
+    messageHash,
+    signatures: checked,
+  };
+}
+
+// Bytes of a Groth16 proof: A (G1) || B (G2) || C (G1)
+const GROTH16_PROOF_BYTES = 64 + 128 + 64;
+
+/**
+ * Check the shape of a Groth16 relay request. The relayer cannot check the
+ * pairing itself; preflight simulation runs the verifier program's check, so
+ * a bad proof is refused before it costs a fee.
+ */
+function checkGroth16(item) {
+  const path = "groth16";
+  if (!item || typeof item !== "object") {
+    throw new HttpError(400, `${path} must be an object`);
+  }
+  if (!voteProgramId || !proposalProgramId) {
+    throw new HttpError(
+      501,
+      "This relayer has no VOTE_PROGRAM_ID or PROPOSAL_PROGRAM_ID and cannot relay Groth16 proofs",
+      { code: "groth16_unsupported" }
+    );
+  }
+  for (const field of ["nullifier_hex", "vote_root_hex"]) {
+    if (!isHex(item[field], 32)) {
+      throw new HttpError(400, `${path}.${field} must be 32 bytes of hex`);
+    }
+  }
+  for (const field of ["expected_program_id", "expected_proposal_id"]) {
+    if (!/^\d+$/.test(String(item[field])) || BigInt(item[field]) > 0xffffffffffffffffn) {
+      throw new HttpError(400, `${path}.${field} must be a u64`);
+    }
+  }
+  const voteChoice = Number(item.vote_choice);
+  if (![0, 1, 2].includes(voteChoice)) {
+    throw new HttpError(400, `${path}.vote_choice must be 0, 1 or 2`);
+  }
+  const weight = parseWeight(item.weight, `${path}.weight`);
+  const proof = typeof item.proof_base64 === "string" ? Buffer.from(item.proof_base64, "base64") : Buffer.alloc(0);
+  if (proof.length !== GROTH16_PROOF_BYTES) {
+    throw new HttpError(400, `${path}.proof_base64 must be a ${GROTH16_PROOF_BYTES}-byte Groth16 proof`);
+  }
+  const voteTreeShard = Number(item.vote_tree_shard ?? 0);
+  if (!Number.isInteger(voteTreeShard) || voteTreeShard < 0 || voteTreeShard > 0xffffffff) {
+    throw new HttpError(400, `${path}.vote_tree_shard must be a u32`);
+  }
+  return { groth16: item, voteChoice, weight, proof, voteTreeShard };
+}
+
+// ============================================================================
+// Transaction (legacy message, see ui/web/src/lib/solana.ts for the layouts)
+// ============================================================================
+
+// One entry per signature, all over the shared message at the end
+function ed25519InstructionData(signatures, message) {
+  const headerLength = 2 + signatures.length * 14;
+  const messageOffset = headerLength + signatures.length * 96;
+  const data = Buffer.alloc(messageOffset + message.length);
+  data.writeUInt8(signatures.length, 0);
+  signatures.forEach(({ signer, signature }, i) => {
+    const base = 2 + i * 14;
+    const signatureOffset = headerLength + i * 96;
+    data.writeUInt16LE(signatureOffset, base);
+    data.writeUInt16LE(0xffff, base + 2);
+    data.writeUInt16LE(signatureOffset + 64, base + 4);
+    data.writeUInt16LE(0xffff, base + 6);
+    data.writeUInt16LE(messageOffset, base + 8);
+    data.writeUInt16LE(message.length, base + 10);
+    data.writeUInt16LE(0xffff, base + 12);
+    signature.copy(data, signatureOffset);
+    signer.copy(data, signatureOffset + 64);
+  });
+  message.copy(data, messageOffset);
+  return data;
+}
+
+function verifierInstructionData({ attestation, voteChoice, weight, domain }) {
+  return Buffer.concat([
+    Buffer.from([domain ? 5 : 0]), // VerifierInstruction::VerifyV2 or Verify
+    u64Le(attestation.expected_program_id),
+    u64Le(attestation.expected_proposal_id),
+    Buffer.from([voteChoice]),
+    Buffer.from(attestation.nullifier_hex, "hex"),
+    Buffer.from(attestation.vote_root_hex, "hex"),
+    Buffer.from(attestation.vk_hash_hex, "hex"),
+    Buffer.from(attestation.public_inputs_hash_hex, "hex"),
+    Buffer.from(attestation.proof_hash_hex, "hex"),
+    u64Le(weight),
+    ...(domain ? [u64Le(domain.expirySlot)] : []),
+  ]);
+}
+
+function groth16InstructionData({ groth16, voteChoice, weight, proof }) {
+  return Buffer.concat([
+    Buffer.from([4]), // VerifierInstruction::VerifyGroth16
+    u64Le(groth16.expected_program_id),
+    u64Le(groth16.expected_proposal_id),
+    Buffer.from([voteChoice]),
+    Buffer.from(groth16.nullifier_hex, "hex"),
+    Buffer.from(groth16.vote_root_hex, "hex"),
+    proof,
+    u64Le(weight),
+  ]);
+}
+
+function nullifierAddress(nullifierHex) {
+  return findProgramAddress([Buffer.from("nullifier"), Buffer.from(nullifierHex, "hex")], verifierProgramId);
+}
+
+function stateAddress(proposalId) {
+  return findProgramAddress([Buffer.from("veilproof"), u64Le(proposalId)], verifierProgramId);
+}
+
+// Shard 0 has the address vote trees had before shards
+function voteTreeAddress(proposalId, shard) {
+  const seeds = [Buffer.from("votes"), u64Le(proposalId)];
+  if (shard !== 0) {
+    const shardLe = Buffer.alloc(4);
+    shardLe.writeUInt32LE(shard);
+    seeds.push(shardLe);
+  }
+  return findProgramAddress(seeds, voteProgramId);
+}
+
+/**
+ * Sign the ed25519 + verifier instruction pair with the relayer as fee payer
+ * and only signer; the verifier program's `payer` account is the relayer too.
+ */
+function buildTransaction(checked, recentBlockhash) {
+  const { attestation, signatures, messageHash } = checked;
+  // Writable signer, writable non-signers, then read-only non-signers
+  const keys = [
+    feePayer.publicKey,
+    stateAddress(attestation.expected_proposal_id),
+    nullifierAddress(attestation.nullifier_hex),
+    base58Decode(SYSVAR_INSTRUCTIONS_ID, 32),
+    base58Decode(SYSTEM_PROGRAM_ID, 32),
+    signerConfigAddress,
+    base58Decode(ED25519_PROGRAM_ID, 32),
+    verifierProgramId,
+  ];
+  const instructions = [
+    { programIndex: 6, accounts: [], data: ed25519InstructionData(signatures, messageHash) },
+    // state, instructions sysvar, nullifier, payer, system program, signer config
+    { programIndex: 7, accounts: [1, 3, 2, 0, 4, 5], data: verifierInstructionData(checked) },
+  ];
+  return signLegacyTransaction(feePayer, keys, 5, instructions, recentBlockhash);
+}
+
+// The VerifyGroth16 instruction alone, with the relayer as payer as above
+function buildGroth16Transaction(checked, recentBlockhash) {
+  const { groth16, voteTreeShard } = checked;
+  const keys = [
+    feePayer.publicKey,
+    stateAddress(groth16.expected_proposal_id),
+    nullifierAddress(groth16.nullifier_hex),
+    base58Decode(SYSTEM_PROGRAM_ID, 32),
+    groth16VkAddress,
+    voteTreeAddress(groth16.expected_proposal_id, voteTreeShard),
+    findProgramAddress([Buffer.from("proposal"), u64Le(groth16.expected_proposal_id)], proposalProgramId),
+    verifierProgramId,
+  ];
+  const instructions = [
+    // state, nullifier, payer, system program, verifying key, vote tree, proposal
+    { programIndex: 7, accounts: [1, 2, 0, 3, 4, 5, 6], data: groth16InstructionData(checked) },
+  ];
+  return signLegacyTransaction(feePayer, keys, 5, instructions, recentBlockhash);
+}
+
+class RpcError extends Error {
+  constructor(method, error) {
+    super(`RPC ${method} failed: ${error.message}`);
+    this.logs = (error.data && error.data.logs) || [];
+  }
+}
+
+async function rpc(method, params) {
+  const response = await fetch(SOLANA_RPC_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+  });
+  const json = await response.json();
+  if (json.error) {
+    throw new RpcError(method, json.error);
+  }
+  return json.result;
+}
+
+// Signer config layout (see SIGNER_CONFIG_SPACE / ATTESTATION_DOMAIN_SPACE in
+// programs/verifier_program/src/lib.rs); configs from before VEILPROOF_V2 end
+// at SIGNER_CONFIG_SPACE, and an all-zero genesis hash means no domain is set
+const SIGNER_CONFIG_SPACE = 32 + 1 + 8 + 4 + 10 * 32;
+const ATTESTATION_DOMAIN_SPACE = 32 + 8;
+
+/**
+ * Read the verifier program's signer config (borsh `SignerConfig`) and its
+ * attestation domain. Read on every relay, so a rotation takes effect at once.
+ */
+async function fetchSignerConfig() {
+  const result = await rpc("getAccountInfo", [
+    base58Encode(signerConfigAddress),
+    { encoding: "base64", commitment: "confirmed" },
+  ]);
+  if (!result || !result.value) {
+    throw new HttpError(503, "The verifier program has no signer config");
+  }
+  const data = Buffer.from(result.value.data[0], "base64");
+  const count = data.length >= 45 ? data.readUInt32LE(41) : 0;
+  if (data.length < 45 + count * 32) {
+    throw new HttpError(502, "Signer config account is malformed");
+  }
+  const genesisHash = data.subarray(SIGNER_CONFIG_SPACE, SIGNER_CONFIG_SPACE + 32);
+  const hasDomain = data.length >= SIGNER_CONFIG_SPACE + ATTESTATION_DOMAIN_SPACE && genesisHash.some((byte) => byte !== 0);
+  return {
+    threshold: data.readUInt8(32),
+    signers: Array.from({ length: count }, (_, i) => data.subarray(45 + i * 32, 77 + i * 32).toString("hex")),
+    domain: hasDomain ? { genesisHash, v1UntilSlot: data.readBigUInt64LE(SIGNER_CONFIG_SPACE + 32) } : null,
+  };
+}
+
+async function isNullifierSpent(nullifierHex) {
+  const result = await rpc("getAccountInfo", [
+    base58Encode(nullifierAddress(nullifierHex)),
+    { encoding: "base64", commitment: "confirmed" },
+  ]);
+  // Anyone can fund the address; only the verifier program owns a spent nullifier
+  return Boolean(result && result.value && result.value.owner === VERIFIER_PROGRAM_ID);
+}
+
+async function sendAndConfirm(checked, build) {
+  const { value: blockhash } = await rpc("getLatestBlockhash", [{ commitment: "confirmed" }]);
+  const { signature, wire } = build(checked, blockhash.blockhash);
+  // Preflight simulation runs first, so a rejected relay costs no fee
+  await rpc("sendTransaction", [
+    wire.toString("base64"),
+    { encoding: "base64", preflightCommitment: "confirmed" },
+  ]);
+  for (;;) {
+    const { value } = await rpc("getSignatureStatuses", [[signature]]);
+    const status = value && value[0];
+    if (status && status.err) {
+      throw new Error(`Relayed transaction failed: ${JSON.stringify(status.err)}`);
+    }
+    if (status && (status.confirmationStatus === "confirmed" || status.confirmationStatus === "finalized")) {
+      return signature;
+    }
+    const blockHeight = await rpc("getBlockHeight", [{ commitment: "confirmed" }]);
+    if (blockHeight > blockhash.lastValidBlockHeight) {
+      throw new Error("Relayed transaction expired before it was confirmed");
+    }
+    await new Promise((resolve) => setTimeout(resolve, CONFIRM_POLL_MS));
+  }
+}
+
+// ============================================================================
+// Rate limiting and replay protection
+// ============================================================================
+
+// Client address -> timestamps of its recent relays; kept in memory only
+const recentRelays = new Map();
+// Nullifier -> signature of the transaction that spent it
+const relayedNullifiers = new Map();
+const pendingNullifiers = new Set();
+
+function clientAddress(req) {
+  if (TRUST_PROXY && typeof req.headers["x-forwarded-for"] === "string") {
+    return req.headers["x-forwarded-for"].split(",")[0].trim();
+  }
+  return req.socket.remoteAddress || "unknown";
+}
+
+function takeRateLimit(client, now = Date.now()) {
+  const recent = (recentRelays.get(client) || []).filter((at) => now - at < RATE_WINDOW_MS);
+  if (recent.length >= RATE_LIMIT) {
+    recentRelays.set(client, recent);
+    const retryAfterMs = RATE_WINDOW_MS - (now - recent[0]);
+    throw new HttpError(429, "Too many relay requests", { code: "rate_limited", retry_after_ms: retryAfterMs });
+  }
+  recent.push(now);
+  recentRelays.set(client, recent);
+}
+
+// Forget clients whose window has passed
+setInterval(() => {
+  const now = Date.now();
+  for (const [client, recent] of recentRelays) {
+    if (recent.every((at) => now - at >= RATE_WINDOW_MS)) {
+      recentRelays.delete(client);
+    }
+  }
+}, RATE_WINDOW_MS).unref();
+
+async function relay(body, client) {
+  // Before any RPC work, so a client over its limit costs nothing
+  takeRateLimit(client);
+
+  // Groth16 proofs are checked on chain and need no attestations
+  const isGroth16 = Boolean(body && body.groth16);
+  const checked = isGroth16
+    ? checkGroth16(body.groth16)
+    : checkAttestations(body, await fetchSignerConfig(), await rpc("getSlot", [{ commitment: "confirmed" }]));
+  const nullifier = (isGroth16 ? checked.groth16 : checked.attestation).nullifier_hex.toLowerCase();
+
+  const relayed = relayedNullifiers.get(nullifier);
+  if (relayed) {
+    throw new HttpError(409, "Nullifier already spent", { code: "nullifier_spent", signature: relayed });
+  }
+  if (pendingNullifiers.has(nullifier)) {
+    throw new HttpError(409, "This proof is already being relayed", { code: "relay_in_progress" });
+  }
+
+  pendingNullifiers.add(nullifier);
+  try {
+    if (await isNullifierSpent(nullifier)) {
+      throw new HttpError(409, "Nullifier already spent", { code: "nullifier_spent" });
+    }
+    let signature;
+    try {
+      signature = await sendAndConfirm(checked, isGroth16 ? buildGroth16Transaction : buildTransaction);
+    } catch (err) {
+      if (err instanceof RpcError && [err.message, ...err.logs].some((line) => line.includes("Nullifier already spent"))) {
+        throw new HttpError(409, "Nullifier already spent", { code: "nullifier_spent" });
+      }
+      if (err instanceof RpcError && err.logs.length > 0) {
+        throw new HttpError(400, `Verifier program rejected the ${isGroth16 ? "proof" : "attestation"}`, {
+          logs: err.logs,
+        });
+      }
+      throw new HttpError(502, err.message);
+    }
+    relayedNullifiers.set(nullifier, signature);
+    return signature;
+  } finally {
+    pendingNullifiers.delete(nullifier);
+  }
+}
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+function readJsonBody(req) {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => new HttpError(413, `Request body is larger than ${MAX_BODY_BYTES} bytes`);
+    if (Number(req.headers["content-length"]) > MAX_BODY_BYTES) {
+      reject(tooLarge());
+      return;
+    }
+    const chunks = [];
+    let size = 0;
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      // Keep reading so the 413 can be sent, but stop holding on to the body
+      if (size <= MAX_BODY_BYTES) {
+        chunks.push(chunk);
+      }
+    });
+    req.on("end", () => {
+      if (size > MAX_BODY_BYTES) {
+        reject(tooLarge());
+        return;
+      }
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}"));
+      } catch (err) {
+        reject(new HttpError(400, "Invalid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function respondJson(res, status, body, origin) {
+  const payload = JSON.stringify(body, null, 2);
+  const headers = {
+    "Content-Type": "application/json",
+    "Content-Length": Buffer.byteLength(payload),
+  };
+
+  if (origin && (ALLOWED_ORIGINS.includes("*") || ALLOWED_ORIGINS.includes(origin))) {
+    headers["Access-Control-Allow-Origin"] = origin;
+    headers["Access-Control-Allow-Methods"] = "POST, OPTIONS";
+    headers["Access-Control-Allow-Headers"] = "Content-Type";
+  }
+  if (status === 429 && body.retry_after_ms) {
+    headers["Retry-After"] = Math.ceil(body.retry_after_ms / 1000);
+  }
+
+  res.writeHead(status, headers);
+  res.end(payload);
+}
+
+const server = http.createServer(async (req, res) => {
+  const origin = req.headers.origin;
+
+  if (req.method === "OPTIONS") {
+    respondJson(res, 200, {}, origin);
+    return;
+  }
+
+  if (req.method === "GET" && req.url === "/health") {
+    respondJson(res, 200, {
+      status: "ok",
+      service: "veilproof-relayer",
+      fee_payer: base58Encode(feePayer.publicKey),
+      timestamp: new Date().toISOString(),
+    }, origin);
+    return;
+  }
+
+  // Route: /relay - pay for and send the verifier transaction for attestations or a Groth16 proof
+  if (req.method === "POST" && req.url === "/relay") {
+    let body;
+    try {
+      body = await readJsonBody(req);
+    } catch (err) {
+      const status = err instanceof HttpError ? err.status : 400;
+      respondJson(res, status, { error: err instanceof HttpError ? err.message : "Invalid JSON" }, origin);
+      return;
+    }
+    try {
+      const signature = await relay(body, clientAddress(req));
+      respondJson(res, 200, { ok: true, signature }, origin);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        respondJson(res, err.status, { error: err.message, ...err.extra }, origin);
+        return;
+      }
+      console.error("Relay failed:", err);
+      respondJson(res, 500, { error: "Relay failed" }, origin);
+    }
+    return;
+  }
+
+  respondJson(res, 404, { error: "Not Found" }, origin);
+});
+
+if (require.main === module) {
+  server.listen(PORT, "0.0.0.0", () => {
+    console.log(`VeilProof relayer listening on http://0.0.0.0:${PORT}`);
+    console.log(`Fee payer: ${base58Encode(feePayer.publicKey)}`);
+  });
+}
+
+module.exports = { server, checkAttestations, buildTransaction };
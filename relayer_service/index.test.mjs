@@ -0,0 +1,175 @@
+import crypto from "crypto";
+import fs from "fs";
+import { createRequire } from "module";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { computeMessageHash } from "../ui/web/src/lib/attestation";
+
+const require = createRequire(import.meta.url);
+const { base58Decode, base58Encode } = require("../scripts/solana");
+
+const VERIFIER_PROGRAM_ID = base58Encode(Buffer.alloc(32, 4));
+const GENESIS_HASH = Buffer.alloc(32, 9);
+const BLOCKHASH = base58Encode(Buffer.alloc(32, 5));
+
+// A Solana keypair file and its key objects
+function newKeypair() {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("ed25519");
+  const jwk = privateKey.export({ format: "jwk" });
+  const seed = Buffer.from(jwk.d, "base64url");
+  const raw = Buffer.from(jwk.x, "base64url");
+  return { privateKey, publicKey, raw, bytes: [...seed, ...raw] };
+}
+
+const signers = [newKeypair(), newKeypair(), newKeypair()];
+const feePayer = newKeypair();
+const config = {
+  threshold: 2,
+  signers: signers.map((signer) => signer.raw.toString("hex")),
+  domain: { genesisHash: GENESIS_HASH, v1UntilSlot: 1000n },
+};
+
+// What a verifier instance answers for one fixed proof, over either message version
+function attest(signer, { expirySlot } = {}) {
+  const fields = {
+    expected_program_id: "7",
+    expected_proposal_id: "42",
+    vote_choice: "1",
+    nullifier_hex: "11".repeat(32),
+    vote_root_hex: "22".repeat(32),
+    vk_hash_hex: "33".repeat(32),
+  };
+  const domain = expirySlot && {
+    expirySlot,
+    verifierProgramId: VERIFIER_PROGRAM_ID,
+    genesisHash: base58Encode(GENESIS_HASH),
+  };
+  const { messageHash, proofHash, publicInputsHash } = computeMessageHash({
+    expectedProgramId: fields.expected_program_id,
+    expectedProposalId: fields.expected_proposal_id,
+    voteChoice: Number(fields.vote_choice),
+    nullifier: Buffer.from(fields.nullifier_hex, "hex"),
+    voteRoot: Buffer.from(fields.vote_root_hex, "hex"),
+    vkHash: Buffer.from(fields.vk_hash_hex, "hex"),
+    proofBytes: Buffer.alloc(64, 5),
+    publicInputsCanonical: "{}",
+    domain,
+  });
+  return {
+    ok: true,
+    attestation: {
+      scheme: "ed25519",
+      signer_pubkey_hex: signer.raw.toString("hex"),
+      message_hash_hex: messageHash.toString("hex"),
+      ...fields,
+      proof_hash_hex: proofHash.toString("hex"),
+      public_inputs_hash_hex: publicInputsHash.toString("hex"),
+      ...(domain
+        ? {
+            message_version: 2,
+            expiry_slot: domain.expirySlot,
+            verifier_program_id: domain.verifierProgramId,
+            genesis_hash: domain.genesisHash,
+          }
+        : {}),
+    },
+    signature_base64: crypto.sign(null, messageHash, signer.privateKey).toString("base64"),
+  };
+}
+
+let relayer;
+let tmpDir;
+
+beforeAll(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "veilproof-relayer-test-"));
+  const keypairPath = path.join(tmpDir, "relayer.json");
+  fs.writeFileSync(keypairPath, JSON.stringify(feePayer.bytes));
+  Object.assign(process.env, { VERIFIER_PROGRAM_ID, RELAYER_KEYPAIR: keypairPath });
+  relayer = require("./index.js");
+});
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("checkAttestations", () => {
+  it("keeps the threshold of distinct trusted signers", () => {
+    const [a, b, c] = signers;
+    const checked = relayer.checkAttestations({ attestations: [attest(a), attest(a), attest(b), attest(c)] }, config, 10);
+    expect(checked.signatures.map(({ signer }) => signer.toString("hex"))).toEqual(config.signers.slice(0, 2));
+    expect(checked.messageHash.toString("hex")).toBe(attest(a).attestation.message_hash_hex);
+  });
+
+  it("skips signers outside the config and attestations that fail their checks", () => {
+    const [a, b, c] = signers;
+    const forged = { ...attest(a), signature_base64: attest(b).signature_base64 };
+    const body = { attestations: [attest(newKeypair()), forged, attest(b), attest(c)] };
+    const checked = relayer.checkAttestations(body, config, 10);
+    expect(checked.signatures.map(({ signer }) => signer.toString("hex"))).toEqual(config.signers.slice(1));
+  });
+
+  it("keeps the V2 attestations when they meet the threshold among V1 ones", () => {
+    const [a, b, c] = signers;
+    const body = { attestations: [attest(a), attest(b, { expirySlot: "5000" }), attest(c, { expirySlot: "5000" })] };
+    const checked = relayer.checkAttestations(body, config, 2000);
+    expect(checked.domain.expirySlot).toBe(5000n);
+    expect(checked.signatures.map(({ signer }) => signer.toString("hex"))).toEqual(config.signers.slice(1));
+  });
+
+  it("answers 403 when no message has enough signers", () => {
+    const [a, b] = signers;
+    const body = { attestations: [attest(a), attest(b, { expirySlot: "5000" })] };
+    expect(() => relayer.checkAttestations(body, config, 10)).toThrow(
+      expect.objectContaining({ status: 403, extra: { code: "insufficient_attestations" } })
+    );
+  });
+
+  it("answers 400 with the reason when no attestation verifies", () => {
+    const [a] = signers;
+    const forged = { ...attest(a), signature_base64: Buffer.alloc(64).toString("base64") };
+    expect(() => relayer.checkAttestations({ attestations: [forged] }, config, 10)).toThrow(
+      expect.objectContaining({ status: 400, message: "attestations[0]: attestation signature is invalid" })
+    );
+  });
+
+  it("refuses V1 attestations once the migration window has closed", () => {
+    const [a, b] = signers;
+    expect(() => relayer.checkAttestations({ attestations: [attest(a), attest(b)] }, config, 1000)).toThrow(
+      expect.objectContaining({ status: 400, extra: { code: "attestation_expired" } })
+    );
+  });
+});
+
+describe("buildTransaction", () => {
+  it("signs the ed25519 and verifier instructions with the relayer as fee payer", () => {
+    const [a, b] = signers;
+    const checked = relayer.checkAttestations({ attestations: [attest(a), attest(b)] }, config, 10);
+    const { signature, wire } = relayer.buildTransaction(checked, BLOCKHASH);
+
+    // One signature, then the message: header, keys, blockhash, instructions
+    expect(wire[0]).toBe(1);
+    const txSignature = wire.subarray(1, 65);
+    const message = wire.subarray(65);
+    expect(base58Encode(txSignature)).toBe(signature);
+    expect(crypto.verify(null, message, feePayer.publicKey, txSignature)).toBe(true);
+    expect([...message.subarray(0, 3)]).toEqual([1, 0, 5]);
+    const keyCount = message[3];
+    const key = (index) => message.subarray(4 + index * 32, 36 + index * 32);
+    expect(key(0).equals(feePayer.raw)).toBe(true);
+    expect(key(keyCount - 1).equals(base58Decode(VERIFIER_PROGRAM_ID, 32))).toBe(true);
+    expect(base58Encode(message.subarray(4 + keyCount * 32, 36 + keyCount * 32))).toBe(BLOCKHASH);
+
+    // The ed25519 instruction carries both signatures over the attested message
+    const instructions = message.subarray(36 + keyCount * 32);
+    expect(instructions[0]).toBe(2);
+    expect(base58Encode(key(instructions[1]))).toBe("Ed25519SigVerify111111111111111111111111111");
+    // No accounts, then the data length as a two-byte compact-u16
+    const data = instructions.subarray(5, 5 + ((instructions[3] & 0x7f) | (instructions[4] << 7)));
+    expect(data[0]).toBe(2);
+    for (const { signature: attestationSignature } of checked.signatures) {
+      expect(data.includes(attestationSignature)).toBe(true);
+    }
+    expect(data.subarray(data.length - 32).equals(checked.messageHash)).toBe(true);
+  });
+});
@@ -3,25 +3,72 @@ const { spawnSync } = require("child_process");
 const fs = require("fs");
 const os = require("os");
 const path = require("path");
+const { loadClient } = require("./verifier_client");
 
 async function main() {
   const proposalId = process.env.PROPOSAL_ID || "42";
   const programId = process.env.PROGRAM_ID || "7";
+  const voteChoice = Number(process.env.VOTE_CHOICE || "1");
+  const choiceLabel = ["NO", "YES", "ABSTAIN"][voteChoice];
+  if (!choiceLabel) {
+    console.error("VOTE_CHOICE must be 0 (NO), 1 (YES) or 2 (ABSTAIN).");
+    process.exit(1);
+  }
 
   const repoRoot = path.resolve(__dirname, "..");
   const noirDir = path.join(repoRoot, "noir", "vote_proof");
   const noirTargetDir = path.join(noirDir, "target");
   const userHome = os.homedir();
   const bbPath = process.env.BB_BIN || path.join(userHome, ".bb", "bb");
-  const verifierUrl = process.env.VERIFIER_URL || "http://127.0.0.1:8787/verify";
+  // One URL per verifier instance; the program needs its signer config's threshold of them
+  // Base URLs; a trailing /verify, as older setups wrote them, is dropped
+  const verifierUrls = (process.env.VERIFIER_URLS || process.env.VERIFIER_URL || "http://127.0.0.1:8787")
+    .split(",")
+    .map((url) => url.trim().replace(/\/verify\/*$/, ""))
+    .filter(Boolean);
+  // Membership of the vote commitment in vote_program's tree (see generate_proof.js)
+  const voterSecret = process.env.VOTER_SECRET;
+  const leafIndex = process.env.LEAF_INDEX || "0";
+  const merklePath = process.env.MERKLE_PATH;
+  const voteRoot = process.env.VOTE_ROOT;
+  if (!voterSecret || !merklePath || !voteRoot) {
+    console.error("VOTER_SECRET, MERKLE_PATH and VOTE_ROOT are required.");
+    process.exit(1);
+  }
+  // Members-only proposals also need the voter's eligibility path; open ones leave these unset
+  const eligibilityArgs = [
+    ["--identity-index", process.env.IDENTITY_INDEX],
+    ["--identity-path", process.env.IDENTITY_PATH],
+    ["--eligibility-root", process.env.ELIGIBILITY_ROOT],
+    // A weighted snapshot's balance for the voter, and the weight to vote with
+    ["--balance", process.env.BALANCE],
+    ["--weight", process.env.WEIGHT],
+  ].flatMap(([flag, value]) => (value ? [flag, value] : []));
 
-  console.log("1) User votes YES on proposal", proposalId);
-  console.log("   (In this demo, the vote transaction is mocked.)");
+  console.log(`1) User votes ${choiceLabel} on proposal`, proposalId);
+  console.log("   (In this demo, the vote transaction is mocked; pass its tree path via env.)");
 
   console.log("\n2) Generating Noir proof locally...");
   const gen = spawnSync(
     "node",
-    [path.join(__dirname, "generate_proof.js"), "--proposal", proposalId, "--program", programId, "--choice", "1"],
+    [
+      path.join(__dirname, "generate_proof.js"),
+      "--proposal",
+      proposalId,
+      "--program",
+      programId,
+      "--choice",
+      String(voteChoice),
+      "--secret",
+      voterSecret,
+      "--index",
+      leafIndex,
+      "--path",
+      merklePath,
+      "--root",
+      voteRoot,
+      ...eligibilityArgs,
+    ],
     { stdio: "inherit" },
   );
   if (gen.status !== 0) {
@@ -54,29 +101,38 @@ async function main() {
 
   const proofPath = path.join(__dirname, "out", "proof.json");
   const proofJson = JSON.parse(fs.readFileSync(proofPath, "utf8"));
-  const proofBytes = Buffer.from(proofJson.proof, "base64");
 
-  console.log("\n4) Requesting signed attestation from verifier service...");
-  const response = await fetch(verifierUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      proof_bytes_base64: proofJson.proof,
-      public_inputs_json: proofJson.publicInputs,
-      vk_hash_hex: proofJson.vkHash,
-      expected_program_id: programId,
-      expected_proposal_id: proposalId,
-    }),
-  });
-  const attestationJson = await response.json();
-  if (!response.ok) {
-    console.error(attestationJson);
-    process.exit(1);
+  console.log("\n4) Requesting signed attestations from", verifierUrls.length, "verifier service(s)...");
+  const attestations = [];
+  // VEILPROOF_V2 verifiers pick an expiry; the rest must sign the same one
+  let expirySlot;
+  const { VeilProofClient } = loadClient();
+  for (const verifierUrl of verifierUrls) {
+    let json;
+    try {
+      json = await new VeilProofClient(verifierUrl).verify(proofJson, {
+        voteTreeAddress: process.env.VOTE_TREE_ADDRESS,
+        proposalAddress: process.env.PROPOSAL_ADDRESS,
+        expirySlot,
+      });
+    } catch (err) {
+      console.error(verifierUrl, err.message);
+      process.exit(1);
+    }
+    console.log("   Signed by", json.attestation.signer_pubkey_hex);
+    expirySlot = expirySlot || json.attestation.expiry_slot;
+    attestations.push(json);
   }
+  const attestationJson = attestations[0];
 
-  const signatureBytes = Buffer.from(attestationJson.signature_base64, "base64");
   const publicInputsHash = Buffer.from(attestationJson.attestation.public_inputs_hash_hex, "hex");
   const vkHash = Buffer.from(attestationJson.attestation.vk_hash_hex, "hex");
+  const nullifier = Buffer.from(attestationJson.attestation.nullifier_hex, "hex");
+  const voteRootBytes = Buffer.from(attestationJson.attestation.vote_root_hex, "hex");
+  const proofHash = Buffer.from(attestationJson.attestation.proof_hash_hex, "hex");
+  // Absent for unweighted votes, which weigh 1
+  const weightLe = Buffer.alloc(8);
+  weightLe.writeBigUInt64LE(BigInt(attestationJson.attestation.weight || "1"));
 
   const expectedProgramIdLe = Buffer.alloc(8);
   expectedProgramIdLe.writeBigUInt64LE(BigInt(programId));
@@ -84,26 +140,35 @@ async function main() {
   const expectedProposalIdLe = Buffer.alloc(8);
   expectedProposalIdLe.writeBigUInt64LE(BigInt(proposalId));
 
-  const proofLen = Buffer.alloc(4);
-  proofLen.writeUInt32LE(proofBytes.length);
+  // VerifyV2 appends the expiry the attestations were signed with
+  const expirySlotLe = Buffer.alloc(expirySlot ? 8 : 0);
+  if (expirySlot) {
+    expirySlotLe.writeBigUInt64LE(BigInt(expirySlot));
+  }
 
+  // VerifierInstruction::Verify or VerifyV2; the signatures ride in the ed25519 instruction
   const verifierInstructionData = Buffer.concat([
+    Buffer.from([expirySlot ? 5 : 0]),
     expectedProgramIdLe,
     expectedProposalIdLe,
+    Buffer.from([voteChoice]),
+    nullifier,
+    voteRootBytes,
     vkHash,
     publicInputsHash,
-    signatureBytes,
-    proofLen,
-    proofBytes,
+    proofHash,
+    weightLe,
+    expirySlotLe,
   ]);
 
-  console.log("\n5) Submitting proof + attestation + signature to verifier program...");
+  console.log("\n5) Submitting proof + attestations to verifier program...");
   console.log("   Instruction data length:", verifierInstructionData.length, "bytes");
   console.log("   Instruction data (hex, prefix):", verifierInstructionData.toString("hex").slice(0, 64) + "...");
-  console.log("   Attestation signer pubkey:", attestationJson.attestation.signer_pubkey_hex);
+  console.log("   Ed25519 instruction signatures:", attestations.length);
+  console.log("   Nullifier:", attestationJson.attestation.nullifier_hex);
 
   console.log("\n6) Verifier confirms success");
-  console.log(`   \"A valid anonymous YES vote was proven for proposal ${proposalId}\"`);
+  console.log(`   \"A valid anonymous ${choiceLabel} vote was proven for proposal ${proposalId}\"`);
 }
 
 main().catch((err) => {
@@ -52,10 +52,29 @@ echo ""
 echo "🔨 Building Solana programs..."
 echo ""
 
-# Build vote_program
+# Build proposal_program first: vote_program and verifier_program link
+# against it and need its program ID baked in, which comes from the keypair cargo build-sbf generates.
+echo "Building proposal_program..."
+cd "$REPO_ROOT/programs/proposal_program"
+cargo build-sbf
+PROPOSAL_KEYPAIR="$REPO_ROOT/target/deploy/proposal_program-keypair.json"
+PROPOSAL_PROGRAM_ID=$(solana address -k "$PROPOSAL_KEYPAIR")
+sed -i.bak "s/declare_id!(\"[^\"]*\")/declare_id!(\"$PROPOSAL_PROGRAM_ID\")/" src/lib.rs
+rm -f src/lib.rs.bak
+cargo build-sbf
+
+# vote_program next, the same way: verifier_program links against it to find
+# vote trees for the Groth16 path (and against proposal_program for
+# eligibility roots)
+echo ""
 echo "Building vote_program..."
 cd "$REPO_ROOT/programs/vote_program"
 cargo build-sbf
+VOTE_KEYPAIR="$REPO_ROOT/target/deploy/vote_program-keypair.json"
+VOTE_PROGRAM_ID=$(solana address -k "$VOTE_KEYPAIR")
+sed -i.bak "s/declare_id!(\"[^\"]*\")/declare_id!(\"$VOTE_PROGRAM_ID\")/" src/lib.rs
+rm -f src/lib.rs.bak
+cargo build-sbf
 
 # Build verifier_program
 echo ""
@@ -69,7 +88,19 @@ echo ""
 echo "📤 Deploying programs to $NETWORK..."
 echo ""
 
+# Deploy proposal_program
+echo "Deploying proposal_program..."
+PROPOSAL_PROGRAM_SO="$REPO_ROOT/target/deploy/proposal_program.so"
+if [ ! -f "$PROPOSAL_PROGRAM_SO" ]; then
+    echo "❌ proposal_program.so not found at $PROPOSAL_PROGRAM_SO"
+    exit 1
+fi
+
+solana program deploy "$PROPOSAL_PROGRAM_SO" --program-id "$PROPOSAL_KEYPAIR" --url $NETWORK
+echo "✅ proposal_program deployed: $PROPOSAL_PROGRAM_ID"
+
 # Deploy vote_program
+echo ""
 echo "Deploying vote_program..."
 VOTE_PROGRAM_SO="$REPO_ROOT/target/deploy/vote_program.so"
 if [ ! -f "$VOTE_PROGRAM_SO" ]; then
@@ -77,15 +108,7 @@ if [ ! -f "$VOTE_PROGRAM_SO" ]; then
     exit 1
 fi
 
-VOTE_DEPLOY_OUTPUT=$(solana program deploy "$VOTE_PROGRAM_SO" --url $NETWORK 2>&1)
-VOTE_PROGRAM_ID=$(echo "$VOTE_DEPLOY_OUTPUT" | grep -oE '[A-Za-z0-9]{32,}' | head -1)
-
-if [ -z "$VOTE_PROGRAM_ID" ]; then
-    echo "❌ Failed to extract vote program ID"
-    echo "$VOTE_DEPLOY_OUTPUT"
-    exit 1
-fi
-
+solana program deploy "$VOTE_PROGRAM_SO" --program-id "$VOTE_KEYPAIR" --url $NETWORK
 echo "✅ vote_program deployed: $VOTE_PROGRAM_ID"
 
 # Deploy verifier_program
@@ -108,6 +131,29 @@ fi
 
 echo "✅ verifier_program deployed: $VERIFIER_PROGRAM_ID"
 
+# The signer config PDA every verify transaction reads
+SIGNER_CONFIG_ADDRESS=$(VERIFIER_PROGRAM_ID=$VERIFIER_PROGRAM_ID SOLANA_RPC_URL="https://api.$NETWORK.solana.com" \
+    node "$REPO_ROOT/scripts/signers.js" show 2>/dev/null | grep -oE '"address": "[^"]+"' | cut -d'"' -f4) || true
+# And the Groth16 verifying key PDA every trustless verify transaction reads
+GROTH16_VK_ADDRESS=$(VERIFIER_PROGRAM_ID=$VERIFIER_PROGRAM_ID SOLANA_RPC_URL="https://api.$NETWORK.solana.com" \
+    node "$REPO_ROOT/scripts/groth16.js" show 2>/dev/null | grep -oE '"address": "[^"]+"' | cut -d'"' -f4) || true
+
+# Create an address lookup table for v0 transactions (optional; the UI works without one)
+echo ""
+echo "Creating address lookup table..."
+LOOKUP_CREATE_OUTPUT=$(solana address-lookup-table create --url $NETWORK 2>&1) || true
+LOOKUP_TABLE_ADDRESS=$(echo "$LOOKUP_CREATE_OUTPUT" | grep -i "lookup table address" | grep -oE '[1-9A-HJ-NP-Za-km-z]{32,44}' | head -1)
+
+if [ -n "$LOOKUP_TABLE_ADDRESS" ] && solana address-lookup-table extend "$LOOKUP_TABLE_ADDRESS" \
+    --addresses "Sysvar1nstructions1111111111111111111111111,11111111111111111111111111111111,$VERIFIER_PROGRAM_ID,$VOTE_PROGRAM_ID,$PROPOSAL_PROGRAM_ID${SIGNER_CONFIG_ADDRESS:+,$SIGNER_CONFIG_ADDRESS}${GROTH16_VK_ADDRESS:+,$GROTH16_VK_ADDRESS}" \
+    --url $NETWORK > /dev/null 2>&1; then
+    echo "✅ Lookup table created: $LOOKUP_TABLE_ADDRESS"
+else
+    echo "⚠️  Could not create a lookup table; transactions will list every account"
+    echo "$LOOKUP_CREATE_OUTPUT"
+    LOOKUP_TABLE_ADDRESS=""
+fi
+
 # Save to .env file
 echo ""
 echo "💾 Saving program IDs to .env..."
@@ -118,15 +164,13 @@ SOLANA_NETWORK=$NETWORK
 SOLANA_RPC_URL=https://api.$NETWORK.solana.com
 
 # Deployed Program IDs
+PROPOSAL_PROGRAM_ID=$PROPOSAL_PROGRAM_ID
 VOTE_PROGRAM_ID=$VOTE_PROGRAM_ID
 VERIFIER_PROGRAM_ID=$VERIFIER_PROGRAM_ID
 
 # Verifier Service
 VERIFIER_SERVICE_URL=http://127.0.0.1:8787
 VERIFIER_PORT=8787
-
-# Attestation signer pubkey (from verifier_service/index.js)
-ATTESTATION_PUBKEY=16935cb51421e64f44b2ace14ba2e6901de00d92cb1ee3ca69473d7502abdb8d
 EOF
 
 echo "✅ Configuration saved to .env"
@@ -138,17 +182,21 @@ echo "💾 Creating UI environment files..."
 cat > "$REPO_ROOT/ui/web/.env.development" <<EOF
 VITE_SOLANA_RPC_URL=https://api.devnet.solana.com
 VITE_SOLANA_NETWORK=devnet
+VITE_PROPOSAL_PROGRAM_ID=$PROPOSAL_PROGRAM_ID
 VITE_VOTE_PROGRAM_ID=$VOTE_PROGRAM_ID
 VITE_VERIFIER_PROGRAM_ID=$VERIFIER_PROGRAM_ID
-VITE_VERIFIER_SERVICE_URL=http://127.0.0.1:8787
+VITE_VERIFIER_SERVICE_URLS=http://127.0.0.1:8787
+VITE_LOOKUP_TABLE_ADDRESS=$LOOKUP_TABLE_ADDRESS
 EOF
 
 cat > "$REPO_ROOT/ui/web/.env.production" <<EOF
 VITE_SOLANA_RPC_URL=https://api.devnet.solana.com
 VITE_SOLANA_NETWORK=devnet
+VITE_PROPOSAL_PROGRAM_ID=$PROPOSAL_PROGRAM_ID
 VITE_VOTE_PROGRAM_ID=$VOTE_PROGRAM_ID
 VITE_VERIFIER_PROGRAM_ID=$VERIFIER_PROGRAM_ID
-VITE_VERIFIER_SERVICE_URL=http://127.0.0.1:8787
+VITE_VERIFIER_SERVICE_URLS=http://127.0.0.1:8787
+VITE_LOOKUP_TABLE_ADDRESS=$LOOKUP_TABLE_ADDRESS
 EOF
 
 echo "✅ UI environment files created"
@@ -159,17 +207,27 @@ echo "🎉 Deployment Complete!"
 echo "=========================================="
 echo ""
 echo "Program IDs:"
+echo "  proposal_program: $PROPOSAL_PROGRAM_ID"
 echo "  vote_program:     $VOTE_PROGRAM_ID"
 echo "  verifier_program: $VERIFIER_PROGRAM_ID"
 echo ""
 echo "Next steps:"
 echo "  1. Verify deployment:"
+echo "     solana program show $PROPOSAL_PROGRAM_ID --url $NETWORK"
 echo "     solana program show $VOTE_PROGRAM_ID --url $NETWORK"
 echo "     solana program show $VERIFIER_PROGRAM_ID --url $NETWORK"
 echo ""
-echo "  2. Start the verifier service:"
-echo "     cd verifier_service && node index.js"
+echo "  2. Start each verifier service with its own signing key:"
+echo "     ATTESTATION_KEYPAIR=/path/to/signer.json VERIFIER_PORT=8787 node verifier_service/index.js"
+echo ""
+echo "  3. Register the verifiers as attestation signers (k of n):"
+echo "     VERIFIER_PROGRAM_ID=$VERIFIER_PROGRAM_ID node scripts/signers.js init --threshold 1 http://127.0.0.1:8787"
+echo "     and list every verifier in VITE_VERIFIER_SERVICE_URLS"
+echo ""
+echo "  4. Optionally, enable the trustless Groth16 path with the circuit's snarkjs verifying key:"
+echo "     VERIFIER_PROGRAM_ID=$VERIFIER_PROGRAM_ID node scripts/groth16.js vk verification_key.json"
+echo "     (the relayer submits Groth16 proofs once VOTE_PROGRAM_ID is set, as .env does)"
 echo ""
-echo "  3. Start the UI:"
+echo "  5. Start the UI:"
 echo "     cd ui/web && npm run dev"
 echo ""
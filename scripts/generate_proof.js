@@ -1,4 +1,5 @@
 #!/usr/bin/env node
+const crypto = require("crypto");
 const fs = require("fs");
 const path = require("path");
 const os = require("os");
@@ -27,9 +28,54 @@ function run(cmd, args, cwd, env) {
 const proposalId = BigInt(getArg("--proposal", "1"));
 const programId = BigInt(getArg("--program", "7"));
 const voteChoice = BigInt(getArg("--choice", "1"));
-
-if (voteChoice !== 1n) {
-  console.error("This demo only supports YES votes (choice == 1).");
+// Reuse the same --secret to get the same nullifier for a proposal.
+const voterSecret = getArg("--secret", `0x${crypto.randomBytes(31).toString("hex")}`);
+
+// Merkle membership of the vote commitment in vote_program's tree.
+// Read these from the vote tree account (the web UI builds them with buildMerklePath).
+const TREE_DEPTH = 8;
+const leafIndex = Number(getArg("--index", "0"));
+const merklePath = getArg("--path", "")
+  .split(",")
+  .filter(Boolean);
+const voteRoot = getArg("--root");
+
+// Membership of the voter's identity commitment in a members-only proposal's
+// eligibility tree; the defaults are for open proposals, whose root is zero.
+// `veilproof snapshot` writes the tree; the web UI builds paths with buildEligibilityWitness.
+const ELIGIBILITY_TREE_DEPTH = 16;
+const identityIndex = Number(getArg("--identity-index", "0"));
+const identityPath = getArg("--identity-path", Array(ELIGIBILITY_TREE_DEPTH).fill("0x0").join(","))
+  .split(",")
+  .filter(Boolean);
+const eligibilityRoot = getArg("--eligibility-root", "0x0");
+// A weighted snapshot's balance for the voter (private) and the weight to vote
+// with (public, 1..balance); open proposals and unweighted snapshots use 1.
+const balance = BigInt(getArg("--balance", "1"));
+const weight = BigInt(getArg("--weight", balance.toString()));
+
+if (voteChoice > 2n) {
+  console.error("--choice must be 0 (NO), 1 (YES) or 2 (ABSTAIN).");
+  process.exit(1);
+}
+if (!voteRoot || merklePath.length !== TREE_DEPTH) {
+  console.error(`--root and --path (${TREE_DEPTH} comma-separated fields) are required.`);
+  process.exit(1);
+}
+if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= 1 << TREE_DEPTH) {
+  console.error("--index must be a leaf index in the vote tree.");
+  process.exit(1);
+}
+if (weight < 1n || weight > balance || balance > 0xffffffffffffffffn) {
+  console.error("--weight must be from 1 to --balance, a u64.");
+  process.exit(1);
+}
+if (identityPath.length !== ELIGIBILITY_TREE_DEPTH) {
+  console.error(`--identity-path must be ${ELIGIBILITY_TREE_DEPTH} comma-separated fields.`);
+  process.exit(1);
+}
+if (!Number.isInteger(identityIndex) || identityIndex < 0 || identityIndex >= 2 ** ELIGIBILITY_TREE_DEPTH) {
+  console.error("--identity-index must be a leaf index in the eligibility tree.");
   process.exit(1);
 }
 
@@ -63,8 +109,17 @@ fs.writeFileSync(
     `program_id = ${programId}`,
     `proposal_id = ${proposalId}`,
     `vote_choice = ${voteChoice}`,
+    `voter_secret = "${voterSecret}"`,
+    `leaf_index = ${leafIndex}`,
+    `merkle_path = [${merklePath.map((node) => `"${node}"`).join(", ")}]`,
     `expected_program_id = ${programId}`,
     `expected_proposal_id = ${proposalId}`,
+    `vote_root = "${voteRoot}"`,
+    `identity_index = ${identityIndex}`,
+    `identity_path = [${identityPath.map((node) => `"${node}"`).join(", ")}]`,
+    `eligibility_root = "${eligibilityRoot}"`,
+    `balance = ${balance}`,
+    `weight = ${weight}`,
     "",
   ].join("\n"),
 );
@@ -99,6 +154,11 @@ run(
 const proofBytes = fs.readFileSync(path.join(proofOutDir, "proof"));
 const publicInputs = fs.readFileSync(path.join(proofOutDir, "public_inputs"));
 const vkHash = fs.readFileSync(path.join(proofOutDir, "vk_hash"));
+// Entry for this build in verifier_service/circuits.json
+const nargoVersion = /^version\s*=\s*"([^"]+)"/m.exec(fs.readFileSync(path.join(noirDir, "Nargo.toml"), "utf8"));
+const circuitId = `vote_proof@${nargoVersion ? nargoVersion[1] : "0.1.0"}`;
+// Public inputs end with the return values (vote_choice, nullifier, weight)
+const nullifier = publicInputs.subarray(publicInputs.length - 64, publicInputs.length - 32);
 
 const outputDir = path.join(__dirname, "out");
 fs.mkdirSync(outputDir, { recursive: true });
@@ -107,10 +167,16 @@ const proofJson = {
   publicInputs: {
     expected_program_id: programId.toString(),
     expected_proposal_id: proposalId.toString(),
+    vote_choice: voteChoice.toString(),
+    nullifier: nullifier.toString("hex"),
+    vote_root: BigInt(voteRoot).toString(16).padStart(64, "0"),
+    eligibility_root: BigInt(eligibilityRoot).toString(16).padStart(64, "0"),
+    weight: weight.toString(),
     raw: publicInputs.toString("base64"),
   },
   proof: proofBytes.toString("base64"),
   vkHash: vkHash.toString("hex"),
+  circuitId,
   meta: {
     mock: false,
     note: "Generated with Noir (nargo) + Barretenberg (bb).",
@@ -0,0 +1,292 @@
+#!/usr/bin/env node
+// Manage the trustless path: the verifier program's Groth16 verifying key,
+// and proofs made outside the browser.
+//
+//   node scripts/groth16.js show
+//   node scripts/groth16.js vk <verification_key.json>
+//   node scripts/groth16.js bundle <proof.json> <public.json> [--out bundle.json]
+//
+// Files are snarkjs JSON over BN254. `vk` converts the key to the program's
+// encoding, saves it where the circuit registry expects it and writes it on
+// chain in chunks, signed by the program's upgrade authority (AUTHORITY_KEYPAIR,
+// defaulting to the Solana CLI keypair). `bundle` turns a proof into a proof
+// bundle the UI imports and submits without attestations.
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const {
+  base58Decode,
+  base58Encode,
+  buildInstructionTransaction,
+  findProgramAddress,
+  loadKeypair,
+  sha256,
+} = require("./solana");
+
+const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || "https://api.devnet.solana.com";
+const VERIFIER_PROGRAM_ID = process.env.VERIFIER_PROGRAM_ID;
+const AUTHORITY_KEYPAIR =
+  process.env.AUTHORITY_KEYPAIR || path.join(os.homedir(), ".config", "solana", "id.json");
+
+const REPO_ROOT = path.resolve(__dirname, "..");
+// vk_path of the groth16 entry in verifier_service/circuits.json
+const VK_PATH = path.join(REPO_ROOT, "noir", "vote_proof", "target", "groth16-0.3.0", "vk.bin");
+const CIRCUIT = { name: "vote_proof_groth16", version: "0.3.0" };
+
+const SYSTEM_PROGRAM_ID = "11111111111111111111111111111111";
+const BPF_LOADER_UPGRADEABLE_ID = "BPFLoaderUpgradeab1e11111111111111111111111";
+// Must match GROTH16_PUBLIC_INPUTS / GROTH16_VK_SPACE in programs/verifier_program
+const PUBLIC_INPUTS = 7;
+const VK_BYTES = 64 + 3 * 128 + (PUBLIC_INPUTS + 1) * 64;
+// Borsh tag of VerifierInstruction::WriteGroth16VerifyingKey
+const WRITE_GROTH16_VK = 3;
+// As GROTH16_VK_CHUNK_BYTES in ui/web/src/lib/solana.ts
+const VK_CHUNK_BYTES = 544;
+const SCALAR_MODULUS = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+async function rpc(method, params) {
+  const response = await fetch(SOLANA_RPC_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+  });
+  const json = await response.json();
+  if (json.error) {
+    const logs = (json.error.data && json.error.data.logs) || [];
+    throw new Error(`RPC ${method} failed: ${json.error.message}\n${logs.join("\n")}`);
+  }
+  return json.result;
+}
+
+/**
+ * Sign and send a one-instruction transaction with the authority as fee
+ * payer. `accounts` lists the instruction's accounts after the authority:
+ * [key, writable].
+ */
+async function sendInstruction(authority, programId, accounts, data) {
+  const { value: blockhash } = await rpc("getLatestBlockhash", [{ commitment: "confirmed" }]);
+  const { signature, wire } = buildInstructionTransaction(authority, programId, accounts, data, blockhash.blockhash);
+  await rpc("sendTransaction", [wire.toString("base64"), { encoding: "base64", preflightCommitment: "confirmed" }]);
+  return signature;
+}
+
+// ============================================================================
+// snarkjs JSON to the verifier program's encoding (EIP-197, big-endian)
+// ============================================================================
+
+function field(value, modulus, what) {
+  const n = BigInt(value);
+  if (n < 0n || (modulus !== undefined && n >= modulus)) {
+    throw new Error(`${what} is out of range`);
+  }
+  return Buffer.from(n.toString(16).padStart(64, "0"), "hex");
+}
+
+// [x, y, z] in projective coordinates; snarkjs writes affine points with z = 1
+function g1(point, what) {
+  if (!Array.isArray(point) || BigInt(point[2] ?? 1) === 0n) {
+    return Buffer.alloc(64);
+  }
+  if (BigInt(point[2] ?? 1) !== 1n) {
+    throw new Error(`${what} is not in affine form`);
+  }
+  return Buffer.concat([field(point[0], undefined, what), field(point[1], undefined, what)]);
+}
+
+// [[x.c0, x.c1], [y.c0, y.c1], z]; the syscalls take c1 before c0
+function g2(point, what) {
+  if (!Array.isArray(point) || point.length < 2) {
+    throw new Error(`${what} is not a G2 point`);
+  }
+  const [x, y] = point;
+  return Buffer.concat([x[1], x[0], y[1], y[0]].map((coordinate) => field(coordinate, undefined, what)));
+}
+
+function encodeVerifyingKey(vk) {
+  if (vk.protocol !== "groth16" || (vk.curve && vk.curve !== "bn128")) {
+    throw new Error("Expected a snarkjs groth16 verification key over bn128");
+  }
+  if (!Array.isArray(vk.IC) || vk.IC.length !== PUBLIC_INPUTS + 1) {
+    throw new Error(`The circuit must have ${PUBLIC_INPUTS} public inputs`);
+  }
+  return Buffer.concat([
+    g1(vk.vk_alpha_1, "vk_alpha_1"),
+    g2(vk.vk_beta_2, "vk_beta_2"),
+    g2(vk.vk_gamma_2, "vk_gamma_2"),
+    g2(vk.vk_delta_2, "vk_delta_2"),
+    ...vk.IC.map((point, i) => g1(point, `IC[${i}]`)),
+  ]);
+}
+
+function encodeProof(proof) {
+  return Buffer.concat([g1(proof.pi_a, "pi_a"), g2(proof.pi_b, "pi_b"), g1(proof.pi_c, "pi_c")]);
+}
+
+/**
+ * Readable public inputs in the registry's order: expected_program_id,
+ * expected_proposal_id, vote_root, eligibility_root, vote_choice, nullifier, weight
+ */
+function publicInputFields(values) {
+  if (!Array.isArray(values) || values.length !== PUBLIC_INPUTS) {
+    throw new Error(`Expected ${PUBLIC_INPUTS} public inputs`);
+  }
+  const raw = values.map((value, i) => field(value, SCALAR_MODULUS, `Public input ${i}`));
+  const decimal = (bytes, max, name) => {
+    const n = BigInt("0x" + bytes.toString("hex"));
+    if (n > max) {
+      throw new Error(`${name} is out of range`);
+    }
+    return n.toString();
+  };
+  return {
+    expected_program_id: decimal(raw[0], 0xffffffffffffffffn, "expected_program_id"),
+    expected_proposal_id: decimal(raw[1], 0xffffffffffffffffn, "expected_proposal_id"),
+    vote_choice: decimal(raw[4], 2n, "vote_choice"),
+    nullifier: raw[5].toString("hex"),
+    vote_root: raw[2].toString("hex"),
+    eligibility_root: raw[3].toString("hex"),
+    weight: decimal(raw[6], 0xffffffffffffffffn, "weight"),
+    raw: Buffer.concat(raw).toString("base64"),
+  };
+}
+
+function readJson(file) {
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+function parseArgs(argv) {
+  const [command, ...rest] = argv;
+  const files = [];
+  let out;
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === "--out") {
+      out = rest[++i];
+    } else {
+      files.push(rest[i]);
+    }
+  }
+  return { command, files, out };
+}
+
+async function uploadVerifyingKey(encoded) {
+  const programId = base58Decode(VERIFIER_PROGRAM_ID, 32);
+  const vkAddress = findProgramAddress([Buffer.from("groth16_vk")], programId);
+  const programData = findProgramAddress([programId], base58Decode(BPF_LOADER_UPGRADEABLE_ID, 32));
+  const authority = loadKeypair(AUTHORITY_KEYPAIR);
+
+  // In order: the first write creates the account
+  for (let offset = 0; offset < encoded.length; offset += VK_CHUNK_BYTES) {
+    const chunk = encoded.subarray(offset, offset + VK_CHUNK_BYTES);
+    const header = Buffer.alloc(9);
+    header.writeUInt8(WRITE_GROTH16_VK, 0);
+    header.writeUInt32LE(offset, 1);
+    header.writeUInt32LE(chunk.length, 5);
+    const signature = await sendInstruction(
+      authority,
+      programId,
+      [
+        [vkAddress, true],
+        [programData, false],
+        [base58Decode(SYSTEM_PROGRAM_ID, 32), false],
+      ],
+      Buffer.concat([header, chunk])
+    );
+    console.log(`Wrote bytes ${offset}..${offset + chunk.length}: ${signature}`);
+    await waitForConfirmation(signature);
+  }
+  return base58Encode(vkAddress);
+}
+
+async function waitForConfirmation(signature) {
+  for (let attempt = 0; attempt < 60; attempt++) {
+    const { value } = await rpc("getSignatureStatuses", [[signature]]);
+    const status = value[0];
+    if (status && status.err) {
+      throw new Error(`Transaction ${signature} failed: ${JSON.stringify(status.err)}`);
+    }
+    if (status && ["confirmed", "finalized"].includes(status.confirmationStatus)) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+  throw new Error(`Transaction ${signature} was not confirmed`);
+}
+
+async function main() {
+  const { command, files, out } = parseArgs(process.argv.slice(2));
+  const usage =
+    "Usage: node scripts/groth16.js show | vk <verification_key.json> | bundle <proof.json> <public.json> [--out file]";
+  if (!["show", "vk", "bundle"].includes(command)) {
+    console.error(usage);
+    process.exit(1);
+  }
+
+  if (command === "bundle") {
+    if (files.length !== 2) {
+      console.error(usage);
+      process.exit(1);
+    }
+    if (!fs.existsSync(VK_PATH)) {
+      throw new Error(`${VK_PATH} is missing; run \`node scripts/groth16.js vk\` first`);
+    }
+    const bundle = {
+      version: 1,
+      circuit: CIRCUIT,
+      proof: {
+        publicInputs: publicInputFields(readJson(files[1])),
+        proof: encodeProof(readJson(files[0])).toString("base64"),
+        vkHash: sha256(fs.readFileSync(VK_PATH)).toString("hex"),
+        circuitId: `${CIRCUIT.name}@${CIRCUIT.version}`,
+      },
+      createdAt: new Date().toISOString(),
+    };
+    const json = JSON.stringify(bundle, null, 2);
+    if (out) {
+      fs.writeFileSync(out, json + "\n");
+      console.log(`Wrote ${out}`);
+    } else {
+      console.log(json);
+    }
+    return;
+  }
+
+  if (!VERIFIER_PROGRAM_ID) {
+    console.error("VERIFIER_PROGRAM_ID is required.");
+    process.exit(1);
+  }
+
+  if (command === "show") {
+    const programId = base58Decode(VERIFIER_PROGRAM_ID, 32);
+    const vkAddress = findProgramAddress([Buffer.from("groth16_vk")], programId);
+    const result = await rpc("getAccountInfo", [
+      base58Encode(vkAddress),
+      { encoding: "base64", commitment: "confirmed" },
+    ]);
+    const data = result && result.value ? Buffer.from(result.value.data[0], "base64") : null;
+    console.log(
+      JSON.stringify(
+        { address: base58Encode(vkAddress), vk_hash: data ? sha256(data.subarray(0, VK_BYTES)).toString("hex") : null },
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  if (files.length !== 1) {
+    console.error(usage);
+    process.exit(1);
+  }
+  const encoded = encodeVerifyingKey(readJson(files[0]));
+  fs.mkdirSync(path.dirname(VK_PATH), { recursive: true });
+  fs.writeFileSync(VK_PATH, encoded);
+  console.log(`Wrote ${VK_PATH} (vk hash ${sha256(encoded).toString("hex")})`);
+
+  const address = await uploadVerifyingKey(encoded);
+  console.log(`Groth16 verifying key set at ${address}`);
+}
+
+main().catch((err) => {
+  console.error(err.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,246 @@
+#!/usr/bin/env node
+// Manage the verifier program's attestation signer config.
+//
+//   node scripts/signers.js show
+//   node scripts/signers.js init   --threshold 2 <signer> <signer> ...
+//   node scripts/signers.js rotate --threshold 2 <signer> <signer> ...
+//   node scripts/signers.js domain --v1-until <slot>
+//
+// A signer is a hex ed25519 public key, or the URL of a running verifier
+// service, whose /health reports its key. `init` must be signed by the
+// program's upgrade authority, which becomes the config authority; `rotate`
+// by the config authority. Both use AUTHORITY_KEYPAIR, defaulting to the
+// Solana CLI keypair.
+//
+// `domain`, also by the config authority, binds VEILPROOF_V2 attestations to
+// the RPC's cluster (its genesis hash) and retires VEILPROOF_V1 ones from
+// slot --v1-until; verifier services need VERIFIER_PROGRAM_ID set to sign V2.
+const os = require("os");
+const path = require("path");
+const { base58Decode, base58Encode, buildInstructionTransaction, findProgramAddress, loadKeypair } = require("./solana");
+const { loadClient } = require("./verifier_client");
+
+const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || "https://api.devnet.solana.com";
+const VERIFIER_PROGRAM_ID = process.env.VERIFIER_PROGRAM_ID;
+const AUTHORITY_KEYPAIR =
+  process.env.AUTHORITY_KEYPAIR || path.join(os.homedir(), ".config", "solana", "id.json");
+
+const SYSTEM_PROGRAM_ID = "11111111111111111111111111111111";
+const BPF_LOADER_UPGRADEABLE_ID = "BPFLoaderUpgradeab1e11111111111111111111111";
+// Must match MAX_SIGNERS in programs/verifier_program
+const MAX_SIGNERS = 10;
+// Borsh tags of VerifierInstruction
+const INITIALIZE_SIGNERS = 1;
+const ROTATE_SIGNERS = 2;
+const SET_ATTESTATION_DOMAIN = 6;
+// Must match SIGNER_CONFIG_SPACE in programs/verifier_program; the attestation
+// domain (genesis hash, V1 cutoff slot) follows the signer set
+const SIGNER_CONFIG_SPACE = 32 + 1 + 8 + 4 + MAX_SIGNERS * 32;
+
+async function rpc(method, params) {
+  const response = await fetch(SOLANA_RPC_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+  });
+  const json = await response.json();
+  if (json.error) {
+    const logs = (json.error.data && json.error.data.logs) || [];
+    throw new Error(`RPC ${method} failed: ${json.error.message}\n${logs.join("\n")}`);
+  }
+  return json.result;
+}
+
+// ============================================================================
+// Signer config
+// ============================================================================
+
+function decodeSignerConfig(data) {
+  const count = data.readUInt32LE(41);
+  return {
+    authority: base58Encode(data.subarray(0, 32)),
+    threshold: data.readUInt8(32),
+    epoch: data.readBigUInt64LE(33).toString(),
+    signers: Array.from({ length: count }, (_, i) => data.subarray(45 + i * 32, 77 + i * 32).toString("hex")),
+    attestationDomain: decodeAttestationDomain(data),
+  };
+}
+
+// Null for configs from before VEILPROOF_V2, or whose domain was never set
+function decodeAttestationDomain(data) {
+  const genesisHash = data.subarray(SIGNER_CONFIG_SPACE, SIGNER_CONFIG_SPACE + 32);
+  if (genesisHash.length < 32 || genesisHash.every((byte) => byte === 0)) {
+    return null;
+  }
+  return {
+    genesisHash: base58Encode(genesisHash),
+    v1UntilSlot: data.readBigUInt64LE(SIGNER_CONFIG_SPACE + 32).toString(),
+  };
+}
+
+async function fetchSignerConfig(configAddress) {
+  const result = await rpc("getAccountInfo", [
+    base58Encode(configAddress),
+    { encoding: "base64", commitment: "confirmed" },
+  ]);
+  return result && result.value ? decodeSignerConfig(Buffer.from(result.value.data[0], "base64")) : null;
+}
+
+// Hex keys pass through; URLs are asked for the key they sign with
+async function resolveSigner(arg) {
+  if (/^https?:\/\//.test(arg)) {
+    const { VeilProofClient } = loadClient();
+    const health = await new VeilProofClient(arg).health();
+    if (!health.signerPubkeyHex) {
+      throw new Error(`${arg} did not report its signer_pubkey_hex`);
+    }
+    return health.signerPubkeyHex.toLowerCase();
+  }
+  if (!/^[0-9a-f]{64}$/i.test(arg)) {
+    throw new Error(`${arg} is neither a hex ed25519 public key nor a verifier URL`);
+  }
+  return arg.toLowerCase();
+}
+
+function signerSetData(tag, threshold, signers) {
+  if (signers.length === 0 || signers.length > MAX_SIGNERS) {
+    throw new Error(`A signer set has 1-${MAX_SIGNERS} signers`);
+  }
+  if (new Set(signers).size !== signers.length) {
+    throw new Error("Duplicate signer in signer set");
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > signers.length) {
+    throw new Error("--threshold must be between 1 and the number of signers");
+  }
+  const header = Buffer.alloc(6);
+  header.writeUInt8(tag, 0);
+  header.writeUInt8(threshold, 1);
+  header.writeUInt32LE(signers.length, 2);
+  return Buffer.concat([header, ...signers.map((signer) => Buffer.from(signer, "hex"))]);
+}
+
+function attestationDomainData(genesisHash, v1UntilSlot) {
+  if (!/^\d+$/.test(v1UntilSlot || "")) {
+    throw new Error("--v1-until must be a slot");
+  }
+  const slotLe = Buffer.alloc(8);
+  slotLe.writeBigUInt64LE(BigInt(v1UntilSlot));
+  return Buffer.concat([Buffer.from([SET_ATTESTATION_DOMAIN]), base58Decode(genesisHash, 32), slotLe]);
+}
+
+/**
+ * Sign and send a one-instruction transaction with the authority as fee
+ * payer. `accounts` lists the instruction's accounts after the authority:
+ * [key, writable].
+ */
+async function sendInstruction(authority, programId, accounts, data) {
+  const { value: blockhash } = await rpc("getLatestBlockhash", [{ commitment: "confirmed" }]);
+  const { signature, wire } = buildInstructionTransaction(authority, programId, accounts, data, blockhash.blockhash);
+  await rpc("sendTransaction", [wire.toString("base64"), { encoding: "base64", preflightCommitment: "confirmed" }]);
+  return signature;
+}
+
+function parseArgs(argv) {
+  const [command, ...rest] = argv;
+  const signers = [];
+  let threshold;
+  let v1Until;
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === "--threshold") {
+      threshold = Number(rest[++i]);
+    } else if (rest[i] === "--v1-until") {
+      v1Until = rest[++i];
+    } else {
+      signers.push(rest[i]);
+    }
+  }
+  return { command, threshold, signers, v1Until };
+}
+
+async function main() {
+  const { command, threshold, signers, v1Until } = parseArgs(process.argv.slice(2));
+  if (!["show", "init", "rotate", "domain"].includes(command)) {
+    console.error(
+      "Usage: node scripts/signers.js show | init|rotate --threshold <k> <signer>... | domain --v1-until <slot>"
+    );
+    process.exit(1);
+  }
+  if (!VERIFIER_PROGRAM_ID) {
+    console.error("VERIFIER_PROGRAM_ID is required.");
+    process.exit(1);
+  }
+
+  const programId = base58Decode(VERIFIER_PROGRAM_ID, 32);
+  const configAddress = findProgramAddress([Buffer.from("signer_config")], programId);
+  const current = await fetchSignerConfig(configAddress);
+
+  if (command === "show") {
+    console.log(JSON.stringify({ address: base58Encode(configAddress), config: current }, null, 2));
+    return;
+  }
+
+  const authority = loadKeypair(AUTHORITY_KEYPAIR);
+  if (command === "domain") {
+    if (!current) {
+      throw new Error("There is no signer config yet; use `init`");
+    }
+    if (current.authority !== base58Encode(authority.publicKey)) {
+      throw new Error(`${AUTHORITY_KEYPAIR} is not the config authority ${current.authority}`);
+    }
+    const genesisHash = await rpc("getGenesisHash", []);
+    // The config account grows to hold the domain; the authority pays its rent
+    const signature = await sendInstruction(
+      authority,
+      programId,
+      [
+        [configAddress, true],
+        [base58Decode(SYSTEM_PROGRAM_ID, 32), false],
+      ],
+      attestationDomainData(genesisHash, v1Until)
+    );
+    console.log(`Set attestation domain: genesis ${genesisHash}, VEILPROOF_V1 accepted until slot ${v1Until}`);
+    console.log(`Transaction: ${signature}`);
+    return;
+  }
+
+  const keys = await Promise.all(signers.map(resolveSigner));
+  let signature;
+  if (command === "init") {
+    if (current) {
+      throw new Error("The signer config already exists; use `rotate`");
+    }
+    const programData = findProgramAddress([programId], base58Decode(BPF_LOADER_UPGRADEABLE_ID, 32));
+    signature = await sendInstruction(
+      authority,
+      programId,
+      [
+        [configAddress, true],
+        [programData, false],
+        [base58Decode(SYSTEM_PROGRAM_ID, 32), false],
+      ],
+      signerSetData(INITIALIZE_SIGNERS, threshold, keys)
+    );
+  } else {
+    if (!current) {
+      throw new Error("There is no signer config yet; use `init`");
+    }
+    if (current.authority !== base58Encode(authority.publicKey)) {
+      throw new Error(`${AUTHORITY_KEYPAIR} is not the config authority ${current.authority}`);
+    }
+    signature = await sendInstruction(
+      authority,
+      programId,
+      [[configAddress, true]],
+      signerSetData(ROTATE_SIGNERS, threshold, keys)
+    );
+  }
+
+  console.log(`${command === "init" ? "Initialized" : "Rotated"} signer config: ${threshold} of ${keys.length}`);
+  keys.forEach((key) => console.log(`  ${key}`));
+  console.log(`Transaction: ${signature}`);
+}
+
+main().catch((err) => {
+  console.error(err.message || err);
+  process.exit(1);
+});
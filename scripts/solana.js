@@ -0,0 +1,167 @@
+// Base58, PDAs, keypairs and legacy transactions without @solana/web3.js,
+// shared by relayer_service/index.js and the scripts here. The layouts are
+// those of ui/web/src/lib/solana.ts.
+const crypto = require("crypto");
+const fs = require("fs");
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+function sha256(buf) {
+  return crypto.createHash("sha256").update(buf).digest();
+}
+
+function base58Encode(buf) {
+  let value = BigInt("0x" + (buf.toString("hex") || "0"));
+  let out = "";
+  while (value > 0n) {
+    out = BASE58_ALPHABET[Number(value % 58n)] + out;
+    value /= 58n;
+  }
+  for (const byte of buf) {
+    if (byte !== 0) break;
+    out = "1" + out;
+  }
+  return out;
+}
+
+function base58Decode(str, length) {
+  let value = 0n;
+  for (const char of str) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) {
+      throw new Error(`Invalid base58 string: ${str}`);
+    }
+    value = value * 58n + BigInt(digit);
+  }
+  const hex = value === 0n ? "" : value.toString(16).padStart(2, "0");
+  const body = Buffer.from(hex.length % 2 ? "0" + hex : hex, "hex");
+  const zeros = str.length - str.replace(/^1+/, "").length;
+  const out = Buffer.concat([Buffer.alloc(zeros), body]);
+  if (length !== undefined && out.length !== length) {
+    throw new Error(`Expected ${length} bytes in ${str}`);
+  }
+  return out;
+}
+
+// ed25519 field, to tell whether a PDA candidate is on the curve
+const FIELD_P = 2n ** 255n - 19n;
+
+function modPow(base, exponent) {
+  let result = 1n;
+  base %= FIELD_P;
+  while (exponent > 0n) {
+    if (exponent & 1n) result = (result * base) % FIELD_P;
+    base = (base * base) % FIELD_P;
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+const CURVE_D = (-121665n * modPow(121666n, FIELD_P - 2n)) % FIELD_P + FIELD_P;
+
+// Same test as CompressedEdwardsY::decompress: x^2 = (y^2 - 1) / (d y^2 + 1) has a root
+function isOnCurve(bytes) {
+  const le = Buffer.from(bytes).reverse();
+  le[0] &= 0x7f;
+  const y = BigInt("0x" + le.toString("hex")) % FIELD_P;
+  const y2 = (y * y) % FIELD_P;
+  const u = (y2 - 1n + FIELD_P) % FIELD_P;
+  const v = (CURVE_D * y2 + 1n) % FIELD_P;
+  const w = (u * modPow(v, FIELD_P - 2n)) % FIELD_P;
+  return w === 0n || modPow(w, (FIELD_P - 1n) / 2n) === 1n;
+}
+
+function findProgramAddress(seeds, programId) {
+  for (let bump = 255; bump >= 0; bump--) {
+    const candidate = sha256(
+      Buffer.concat([...seeds, Buffer.from([bump]), programId, Buffer.from("ProgramDerivedAddress")])
+    );
+    if (!isOnCurve(candidate)) {
+      return candidate;
+    }
+  }
+  throw new Error("Could not find a program address");
+}
+
+function loadKeypair(file) {
+  const bytes = Buffer.from(JSON.parse(fs.readFileSync(file, "utf8")));
+  if (bytes.length !== 64) {
+    throw new Error(`${file} is not a 64-byte Solana keypair`);
+  }
+  // PKCS#8 wrapper for a raw ed25519 seed
+  const der = Buffer.concat([Buffer.from("302e020100300506032b657004220420", "hex"), bytes.subarray(0, 32)]);
+  return {
+    publicKey: bytes.subarray(32),
+    privateKey: crypto.createPrivateKey({ key: der, format: "der", type: "pkcs8" }),
+  };
+}
+
+function compactU16(value) {
+  const bytes = [];
+  do {
+    let byte = value & 0x7f;
+    value >>= 7;
+    if (value) byte |= 0x80;
+    bytes.push(byte);
+  } while (value);
+  return Buffer.from(bytes);
+}
+
+/**
+ * Sign a legacy message whose only signer is the fee payer, `keys[0]`.
+ * `readonlyCount` trailing keys are read-only; instructions name their
+ * program and accounts by index into `keys`.
+ * @returns The base58 transaction signature and the transaction's wire bytes
+ */
+function signLegacyTransaction(payer, keys, readonlyCount, instructions, recentBlockhash) {
+  const message = Buffer.concat([
+    Buffer.from([1, 0, readonlyCount]),
+    compactU16(keys.length),
+    ...keys,
+    base58Decode(recentBlockhash, 32),
+    compactU16(instructions.length),
+    ...instructions.map(({ programIndex, accounts, data }) =>
+      Buffer.concat([
+        Buffer.from([programIndex]),
+        compactU16(accounts.length),
+        Buffer.from(accounts),
+        compactU16(data.length),
+        data,
+      ])
+    ),
+  ]);
+  const signature = crypto.sign(null, message, payer.privateKey);
+  return {
+    signature: base58Encode(signature),
+    wire: Buffer.concat([compactU16(1), signature, message]),
+  };
+}
+
+/**
+ * A one-instruction legacy transaction with `payer` as fee payer.
+ * `accounts` lists the instruction's accounts after the payer, which comes
+ * second in the instruction: [key, writable].
+ */
+function buildInstructionTransaction(payer, programId, accounts, data, recentBlockhash) {
+  const writable = accounts.filter(([, isWritable]) => isWritable).map(([key]) => key);
+  const readonly = accounts.filter(([, isWritable]) => !isWritable).map(([key]) => key);
+  const keys = [payer.publicKey, ...writable, ...readonly, programId];
+  const indexOf = (key) => keys.findIndex((candidate) => candidate.equals(key));
+  const instruction = {
+    programIndex: keys.length - 1,
+    accounts: [indexOf(accounts[0][0]), 0, ...accounts.slice(1).map(([key]) => indexOf(key))],
+    data,
+  };
+  return signLegacyTransaction(payer, keys, readonly.length + 1, [instruction], recentBlockhash);
+}
+
+module.exports = {
+  sha256,
+  base58Encode,
+  base58Decode,
+  isOnCurve,
+  findProgramAddress,
+  loadKeypair,
+  signLegacyTransaction,
+  buildInstructionTransaction,
+};
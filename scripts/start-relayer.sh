@@ -0,0 +1,29 @@
+#!/usr/bin/env bash
+set -e
+
+REPO_ROOT="$(cd "$(dirname "${BASH_SOURCE[0]}")/.." && pwd)"
+
+# Load environment variables
+if [ -f "$REPO_ROOT/.env" ]; then
+  export $(cat "$REPO_ROOT/.env" | grep -v '^#' | xargs)
+fi
+
+cd "$REPO_ROOT/relayer_service"
+
+echo "🔧 Starting VeilProof Relayer"
+echo "============================="
+echo ""
+echo "Configuration:"
+echo "  Port: ${RELAYER_PORT:-8788}"
+echo "  Solana RPC: ${SOLANA_RPC_URL:-https://api.devnet.solana.com}"
+echo "  Fee payer keypair: ${RELAYER_KEYPAIR:-<not set>}"
+echo "  Vote program: ${VOTE_PROGRAM_ID:-<not set; Groth16 proofs refused>}"
+echo "  Rate limit: ${RELAYER_RATE_LIMIT:-5} per ${RELAYER_RATE_WINDOW_MS:-60000} ms"
+echo ""
+echo "Endpoints:"
+echo "  POST /relay - Pay for and send the verifier transaction for an attestation or a Groth16 proof"
+echo ""
+echo "Press Ctrl+C to stop..."
+echo ""
+
+node index.js
@@ -8,6 +8,11 @@ if [ -f "$REPO_ROOT/.env" ]; then
   export $(cat "$REPO_ROOT/.env" | grep -v '^#' | xargs)
 fi
 
+if [ ! -f "$REPO_ROOT/ui/web/dist-cli/publicInputs.cjs" ]; then
+  echo "📦 Building the shared public-input encoder"
+  (cd "$REPO_ROOT/ui/web" && npm run build:client)
+fi
+
 cd "$REPO_ROOT/verifier_service"
 
 echo "🔧 Starting VeilProof Verifier Service"
@@ -17,9 +22,17 @@ echo "Configuration:"
 echo "  Port: ${VERIFIER_PORT:-8787}"
 echo "  Solana RPC: ${SOLANA_RPC_URL:-https://api.devnet.solana.com}"
 echo "  Noir directory: $REPO_ROOT/noir/vote_proof"
+echo "  Proof workers: ${PROOF_WORKERS:-2} (queue limit ${PROOF_QUEUE_LIMIT:-16})"
+if [ -z "$ATTESTATION_KEYPAIR" ] && [ -z "$ATTESTATION_SECRET_KEY" ]; then
+  echo "  Attestation key: none set, signing with a throwaway key"
+fi
+if [ -z "$VERIFIER_PROGRAM_ID" ]; then
+  echo "  Verifier program: none set, signing VEILPROOF_V1 attestations"
+fi
 echo ""
 echo "Endpoints:"
 echo "  POST /generate-proof - Generate ZK proof from vote data"
+echo "  POST /proof-jobs     - Queue a proof job (GET /proof-jobs/:id[/events], DELETE to cancel)"
 echo "  POST /verify         - Verify proof and sign attestation"
 echo ""
 echo "Press Ctrl+C to stop..."
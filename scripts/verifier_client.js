@@ -0,0 +1,16 @@
+// VeilProofClient from ui/web/src/lib/client.ts, built for Node with
+// `npm run build:client` in ui/web, so scripts get the same response
+// validation and errors as the UI
+const fs = require("fs");
+const path = require("path");
+
+const CLIENT_BUNDLE = path.join(__dirname, "..", "ui", "web", "dist-cli", "client.cjs");
+
+function loadClient() {
+  if (!fs.existsSync(CLIENT_BUNDLE)) {
+    throw new Error(`${CLIENT_BUNDLE} not found; run \`npm run build:client\` in ui/web first`);
+  }
+  return require(CLIENT_BUNDLE);
+}
+
+module.exports = { loadClient };
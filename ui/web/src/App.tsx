@@ -1,158 +1,389 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useWallet, useConnection } from "@solana/wallet-adapter-react";
 import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
 import { StepPanel } from "./components/StepPanel";
+import { ProofBundlePanel } from "./components/ProofBundlePanel";
 import { Stamp } from "./components/Stamp";
-import {
-  castVote,
-  generateZkProof,
-  submitProof,
-  setDemoMode,
-  setForceFailure,
-  createConnection,
-  type VoteContext,
-} from "./lib/api";
+import { TallyPanel } from "./components/TallyPanel";
+import { NullifierSpentError, type VoteContext } from "./lib/api";
+import { acceptedCircuit, proofWeight, trustModelOf } from "./lib/circuits";
+import { isMembersOnly } from "./lib/eligibility";
+import { describeError } from "./lib/errors";
+import { SigningBatch, type TransactionSigner } from "./lib/sender";
+import { useVeilProofBackend } from "./lib/BackendProvider";
+import { DEMO_LATENCY_MS } from "./lib/backends/demo";
+import type { BackendOperation, FaultRule } from "./lib/backends/faults";
+import { deriveVoterSecret, type VoterSecretSigner } from "./lib/nullifier";
+import { getProposalStatus } from "./lib/solana";
+import { canTransition, describeVoteSession } from "./lib/voteFlow";
 import { useVoteSession } from "./hooks/useVoteSession";
-import { DEFAULT_PROPOSAL_ID, VOTE_CHOICE_YES } from "./lib/constants";
-import type { ProofData } from "./types";
+import { useVoteTally } from "./hooks/useVoteTally";
+import { PROVER_SERVICE_URL, VERIFIER_PROGRAM_ID, VOTE_CHOICES, VOTE_CHOICE_LABELS } from "./lib/constants";
+import type { LocalHarness } from "./lib/local/harness";
+import type {
+  IdentityRegistration,
+  ProofBundle,
+  Proposal,
+  ProverProgress,
+  StepError,
+  StepStatus,
+  TransactionProgress,
+  TrustModel,
+  VoteSession,
+} from "./types";
 
-type StepStatus = "idle" | "working" | "success" | "error";
+const TRUST_MODEL_NOTES: Record<TrustModel, string> = {
+  attestation: "Accepted on the signatures of the verifier services, which checked the proof off chain.",
+  groth16: "Verified on chain by the verifier program's Groth16 check, with no verifier service involved.",
+};
 
-type ForceFailureState = {
-  cast: boolean;
-  proof: boolean;
-  submit: boolean;
+// What the demo-mode "Force Failure" toggles inject
+const FORCED_FAILURES: Partial<Record<BackendOperation, FaultRule>> = {
+  castVote: { latencyMs: DEMO_LATENCY_MS, error: "Vote transaction failed" },
+  generateZkProof: { latencyMs: DEMO_LATENCY_MS, error: "Proof generation failed" },
+  submitProof: { latencyMs: DEMO_LATENCY_MS, error: "Proof submission failed" },
 };
 
-const SAMPLE_PROPOSALS = [
-  { id: "1", title: "Increase treasury allocation" },
-  { id: "2", title: "Add new governance token" },
-  { id: "42", title: "Launch community rewards program" },
-  { id: "100", title: "Protocol upgrade v2.0" },
-];
+interface AppProps {
+  // Supplies the wallet and connection when the real backend runs on the local harness
+  localHarness?: LocalHarness | null;
+}
+
+export default function App({ localHarness }: AppProps) {
+  const adapterWallet = useWallet();
+  const { connection: adapterConnection } = useConnection();
+  const wallet = localHarness?.wallet ?? adapterWallet;
+  const connection = localHarness?.connection ?? adapterConnection;
+  const { backend, demoMode: demoModeState, setDemoMode, faults, setFault } = useVeilProofBackend();
 
-export default function App() {
-  const wallet = useWallet();
-  const { connection } = useConnection();
+  // Three-step state machine: cast -> prove -> submit, one resumable session per proposal
   const {
     session,
-    setTransactionSignature,
-    setProof: saveProof,
+    sessions,
+    restored,
+    dispatch,
     setProposalId,
+    setVoteChoice,
     clearSession
-  } = useVoteSession();
-
-  // Three-step state machine: cast -> prove -> submit.
-  const [demoModeState, setDemoModeState] = useState(true);
-  const [forceFailure, setForceFailureState] = useState<ForceFailureState>({
-    cast: false,
-    proof: false,
-    submit: false,
-  });
-  const [step1, setStep1] = useState<StepStatus>("idle");
-  const [step2, setStep2] = useState<StepStatus>("idle");
-  const [step3, setStep3] = useState<StepStatus>("idle");
-  const [proofData, setProofData] = useState<ProofData | null>(null);
+  } = useVoteSession(backend.kind);
+  const step1 = session.steps.cast.status;
+  const step2 = session.steps.prove.status;
+  const step3 = session.steps.submit.status;
+  const busy = [step1, step2, step3].includes("working");
+  const [proverProgress, setProverProgress] = useState<ProverProgress | null>(null);
+  // Aborts the proof being generated, if any
+  const proofAbort = useRef<AbortController | null>(null);
+  // Latest transaction update per proposal for the cast and submit steps
+  const [transactions, setTransactions] = useState<
+    Record<string, { cast?: TransactionProgress; submit?: TransactionProgress }>
+  >({});
+  const [voterSecret, setVoterSecret] = useState<string | null>(null);
+  // Membership step: the wallet's identity registration, once per wallet rather than per proposal
+  const [identity, setIdentity] = useState<{
+    status: StepStatus;
+    registration?: IdentityRegistration | null;
+    error?: StepError;
+    transaction?: TransactionProgress;
+  }>({ status: "idle" });
+
+  // Proposal browser, paged from the proposal registry
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [proposalSlot, setProposalSlot] = useState(0);
+  const [nextProposalCursor, setNextProposalCursor] = useState<number | undefined>(undefined);
+  const [proposalsLoading, setProposalsLoading] = useState(false);
+  const [proposalsError, setProposalsError] = useState<string | null>(null);
+
+  const { tally, error: tallyError } = useVoteTally(connection, session.proposalId);
+  const selectedProposal = proposals.find((p) => p.id === session.proposalId);
+  const membersOnly = Boolean(selectedProposal && isMembersOnly(selectedProposal));
 
   // Check if real mode is available (wallet connected)
   const realModeAvailable = wallet.connected && wallet.publicKey;
+  const choiceLabel = VOTE_CHOICE_LABELS[session.voteChoice];
 
   // Derive final result banner based on step 3 outcome.
   const finalStamp = useMemo(() => {
     if (step3 === "success") {
-      return { text: "YES vote accepted without revealing who voted.", variant: "success" as const };
+      return { label: "SUCCESS", text: `${choiceLabel} vote accepted without revealing who voted.`, variant: "success" as const };
+    }
+    if (step3 === "error" && session.alreadyProven) {
+      return { label: "ALREADY PROVEN", text: "This vote was already proven for this proposal. The tally was not changed.", variant: "idle" as const };
     }
     if (step3 === "error") {
-      return { text: "Proof rejected. No private information was revealed.", variant: "error" as const };
+      return { label: "ERROR", text: "Proof rejected. No private information was revealed.", variant: "error" as const };
+    }
+    return { label: "PENDING", text: "Awaiting verification.", variant: "pending" as const };
+  }, [step3, choiceLabel, session.alreadyProven]);
+
+  async function loadProposals(cursor: number) {
+    setProposalsLoading(true);
+    setProposalsError(null);
+    try {
+      const listing = await backend.listProposals(connection, cursor);
+      const loaded = cursor === 0 ? listing.proposals : [...proposals, ...listing.proposals];
+      setProposals(loaded);
+      setProposalSlot(listing.slot);
+      setNextProposalCursor(listing.nextCursor);
+      // Keep the selection on a proposal that can take votes
+      const firstOpen = loaded.find((p) => getProposalStatus(p, listing.slot) === "open");
+      if (cursor === 0 && firstOpen && !loaded.some((p) => p.id === session.proposalId)) {
+        setProposalId(firstOpen.id);
+      }
+    } catch (err) {
+      console.error("Load proposals error:", err);
+      setProposalsError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProposalsLoading(false);
+    }
+  }
+
+  // Demo and real mode read proposals from different sources
+  useEffect(() => {
+    loadProposals(0);
+  }, [backend, connection]);
+
+  // A wallet that registered earlier skips the membership step
+  useEffect(() => {
+    setIdentity({ status: "idle" });
+    if (!wallet.publicKey) {
+      return;
     }
-    return { text: "Awaiting verification.", variant: "pending" as const };
-  }, [step3]);
+    let cancelled = false;
+    backend
+      .fetchIdentity(connection, wallet.publicKey)
+      .then((registration) => {
+        if (!cancelled && registration) {
+          setIdentity({ status: "success", registration });
+        }
+      })
+      .catch((err) => console.error("Fetch identity error:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [backend, connection, wallet.publicKey]);
 
   function handleDemoModeToggle() {
-    const next = !demoModeState;
-    setDemoModeState(next);
-    setDemoMode(next);
+    setDemoMode?.(!demoModeState);
+    // Demo and real mode derive the voter secret differently
+    setVoterSecret(null);
   }
 
-  function handleForceFailureToggle(step: keyof ForceFailureState) {
-    const next = { ...forceFailure, [step]: !forceFailure[step] };
-    setForceFailureState(next);
-    setForceFailure(step, next[step]);
+  function handleForceFailureToggle(operation: BackendOperation) {
+    setFault(operation, faults[operation] ? undefined : FORCED_FAILURES[operation]);
   }
 
-  async function handleCastVote() {
-    setStep1("working");
-    setStep2("idle");
-    setStep3("idle");
-    setProofData(null);
+  // The wallet signs for this page's origin and the configured verifier program
+  function voterSecretSigner(): VoterSecretSigner | undefined {
+    if (demoModeState || !wallet.signMessage) {
+      return undefined;
+    }
+    if (!VERIFIER_PROGRAM_ID) {
+      throw new Error("VERIFIER_PROGRAM_ID not configured");
+    }
+    return {
+      signMessage: wallet.signMessage,
+      origin: window.location.origin,
+      verifierProgramId: VERIFIER_PROGRAM_ID.toBase58(),
+    };
+  }
+
+  // Deterministic per wallet in real mode, so re-deriving yields the same commitment and nullifier
+  async function getVoterSecret(): Promise<string> {
+    if (voterSecret) {
+      return voterSecret;
+    }
+    const secret = await deriveVoterSecret(voterSecretSigner());
+    setVoterSecret(secret);
+    return secret;
+  }
+
+  // Starts a step's transaction tracker over; updates can arrive after the handler returns
+  function trackTransaction(proposalId: string, step: "cast" | "submit") {
+    const update = (progress?: TransactionProgress) =>
+      setTransactions((current) => ({ ...current, [proposalId]: { ...current[proposalId], [step]: progress } }));
+    update(undefined);
+    return (progress: TransactionProgress) => update(progress);
+  }
+
+  async function handleRegisterIdentity() {
+    setIdentity({ status: "working" });
     try {
-      const context: VoteContext = {
+      await backend.registerIdentity({
         wallet,
         connection,
         proposalId: session.proposalId,
-        voteChoice: VOTE_CHOICE_YES, // Always YES
+        voterSecret: await getVoterSecret(),
+        onTransactionProgress: (transaction) => setIdentity((current) => ({ ...current, transaction })),
+      });
+      const registration = wallet.publicKey ? await backend.fetchIdentity(connection, wallet.publicKey) : null;
+      setIdentity((current) => ({ ...current, status: "success", registration }));
+    } catch (err) {
+      console.error("Register identity error:", err);
+      setIdentity((current) => ({ ...current, status: "error", error: describeError(err) }));
+    }
+  }
+
+  async function handleCastVote(target: VoteSession = session, signTransaction?: TransactionSigner) {
+    const { proposalId, voteChoice } = target;
+    if (!dispatch({ type: "cast/start" }, proposalId)) {
+      return;
+    }
+    try {
+      const context: VoteContext = {
+        wallet,
+        connection,
+        proposalId,
+        voteChoice,
+        voterSecret: await getVoterSecret(),
+        onTransactionProgress: trackTransaction(proposalId, "cast"),
+        signTransaction,
       };
-      const signature = await castVote(context);
-      setTransactionSignature(signature);
-      setStep1("success");
+      const signature = await backend.castVote(context);
+      dispatch({ type: "cast/success", transactionSignature: signature }, proposalId);
     } catch (err) {
       console.error("Cast vote error:", err);
-      setStep1("error");
+      dispatch({ type: "cast/failure", error: describeError(err) }, proposalId);
     }
   }
 
   async function handleGenerateProof() {
-    setStep2("working");
-    setStep3("idle");
-    try {
-      const result = await generateZkProof(
-        session.transactionSignature || "",
-        session.proposalId,
-        session.programId,
-        VOTE_CHOICE_YES // Always YES
+    const { proposalId, programId, voteChoice, transactionSignature } = session;
+    if (!dispatch({ type: "prove/start" }, proposalId)) {
+      return;
+    }
+    setProverProgress(null);
+    const controller = new AbortController();
+    proofAbort.current = controller;
+    const prove = (voterSecret: string) =>
+      backend.generateZkProof(
+        transactionSignature || "",
+        proposalId,
+        programId,
+        voteChoice,
+        voterSecret,
+        connection,
+        (progress) => {
+          if (!controller.signal.aborted) {
+            setProverProgress(progress);
+          }
+        },
+        controller.signal
       );
-      setProofData(result);
-      saveProof(result);
-      setStep2("success");
+    try {
+      let result;
+      try {
+        result = await prove(await getVoterSecret());
+      } catch (err) {
+        // Votes cast before v2 voter secrets are in the tree under the v1 secret
+        const signer = voterSecretSigner();
+        if (!signer || controller.signal.aborted || describeError(err).code !== "prover.vote_not_found") {
+          throw err;
+        }
+        result = await prove(await deriveVoterSecret({ ...signer, version: 1 }));
+      }
+      if (!controller.signal.aborted) {
+        dispatch({ type: "prove/success", proof: result }, proposalId);
+      }
     } catch (err) {
-      console.error("Generate proof error:", err);
-      setStep2("error");
+      // A cancelled proof already put the step back to idle
+      if (!controller.signal.aborted) {
+        console.error("Generate proof error:", err);
+        dispatch({ type: "prove/failure", error: describeError(err) }, proposalId);
+      }
+    } finally {
+      if (proofAbort.current === controller) {
+        proofAbort.current = null;
+      }
     }
   }
 
-  async function handleSubmitProof() {
-    setStep3("working");
+  function handleCancelProof() {
+    proofAbort.current?.abort();
+    dispatch({ type: "prove/cancel" }, session.proposalId);
+    setProverProgress(null);
+  }
+
+  async function handleSubmitProof(target: VoteSession = session, signTransaction?: TransactionSigner) {
+    const { proposalId, proof, attestations } = target;
+    if (!proof || !dispatch({ type: "submit/start" }, proposalId)) {
+      return;
+    }
     try {
-      if (!proofData) {
-        throw new Error("No proof data available");
-      }
       const context: VoteContext = {
         wallet,
         connection,
-        proposalId: session.proposalId,
+        proposalId,
+        onTransactionProgress: trackTransaction(proposalId, "submit"),
+        signTransaction,
       };
-      await submitProof(proofData, context);
-      setStep3("success");
+      const signature = await backend.submitProof(proof, context, attestations);
+      const trustModel = trustModelOf(acceptedCircuit(proof.circuitId));
+      dispatch({ type: "submit/success", transactionSignature: signature, trustModel }, proposalId);
     } catch (err) {
       console.error("Submit proof error:", err);
-      setStep3("error");
+      dispatch(
+        {
+          type: "submit/failure",
+          error: describeError(err),
+          alreadyProven: err instanceof NullifierSpentError,
+          trustModel: err instanceof NullifierSpentError ? err.trustModel : undefined,
+        },
+        proposalId
+      );
     }
   }
 
+  // The selected proposal's vote plus every proposal with a proof waiting to be submitted
+  const readyToCast = canTransition(session, { type: "cast/start" }) ? [session] : [];
+  const readyToSubmit = [session, ...sessions.filter((s) => s.proposalId !== session.proposalId)].filter(
+    (s) => s.proof && canTransition(s, { type: "submit/start" })
+  );
+  const readyCount = readyToCast.length + readyToSubmit.length;
+
+  // One wallet prompt for all of them; each step still lands or fails on its own
+  async function handleApproveAll() {
+    const batch = new SigningBatch(wallet, readyCount);
+    const run = async (step: (signTransaction: TransactionSigner) => Promise<void>) => {
+      const member = batch.member();
+      try {
+        await step(member.sign);
+      } finally {
+        member.leave();
+      }
+    };
+    await Promise.all([
+      ...readyToCast.map((target) => run((sign) => handleCastVote(target, sign))),
+      ...readyToSubmit.map((target) => run((sign) => handleSubmitProof(target, sign))),
+    ]);
+  }
+
+  // A bundle carries its own proposal, so the import lands on that proposal's session
+  function handleImportBundle(bundle: ProofBundle) {
+    const proposalId = bundle.proof.publicInputs.expected_proposal_id;
+    const imported = dispatch(
+      { type: "prove/import", proof: bundle.proof, attestations: bundle.attestations },
+      proposalId
+    );
+    if (!imported) {
+      throw new Error(`Proposal #${proposalId} cannot take this proof right now`);
+    }
+    setProposalId(proposalId);
+  }
+
   function resetDemo() {
-    setStep1("idle");
-    setStep2("idle");
-    setStep3("idle");
-    setProofData(null);
+    proofAbort.current?.abort();
+    setProverProgress(null);
     clearSession();
   }
 
+  // Each proposal keeps its own session, so switching resumes where it was left
   function handleProposalChange(e: React.ChangeEvent<HTMLSelectElement>) {
     setProposalId(e.target.value);
-    // Reset workflow when proposal changes
-    if (step1 !== "idle") {
-      resetDemo();
-    }
+  }
+
+  function handleVoteChoiceChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    // A proof is bound to its choice, so this starts the session over
+    setVoteChoice(Number(e.target.value));
   }
 
   return (
@@ -166,7 +397,12 @@ export default function App() {
         <div className="hero__controls">
           <WalletMultiButton />
           <label className="toggle">
-            <input type="checkbox" checked={demoModeState} onChange={handleDemoModeToggle} />
+            <input
+              type="checkbox"
+              checked={demoModeState}
+              onChange={handleDemoModeToggle}
+              disabled={!setDemoMode}
+            />
             <span>Demo Mode</span>
           </label>
           {!realModeAvailable && !demoModeState && (
@@ -185,40 +421,116 @@ export default function App() {
         </header>
         <div className="config-single">
           <label className="config-label" htmlFor="proposal-select">
-            Choose a proposal to vote YES on
+            Choose a proposal to vote on
           </label>
           <select
             id="proposal-select"
             className="config-select"
             value={session.proposalId}
             onChange={handleProposalChange}
-            disabled={step1 === "working"}
+            disabled={busy || proposals.length === 0}
+          >
+            {proposals.length === 0 && (
+              <option value={session.proposalId}>
+                {proposalsLoading ? "Loading proposals..." : "No proposals found"}
+              </option>
+            )}
+            {proposals.map((proposal) => {
+              const status = getProposalStatus(proposal, proposalSlot);
+              const inFlight = sessions.find((s) => s.proposalId === proposal.id);
+              const progress = inFlight && describeVoteSession(inFlight);
+              return (
+                <option key={proposal.id} value={proposal.id} disabled={status !== "open"}>
+                  #{proposal.id} - {proposal.title}
+                  {status !== "open" ? ` (${status})` : ""}
+                  {progress ? ` - ${progress}` : ""}
+                </option>
+              );
+            })}
+          </select>
+          {proposalsError && <p className="config-error">{proposalsError}</p>}
+          {nextProposalCursor !== undefined && (
+            <button
+              className="button"
+              onClick={() => loadProposals(nextProposalCursor)}
+              disabled={proposalsLoading}
+            >
+              {proposalsLoading ? "Loading..." : "Load More Proposals"}
+            </button>
+          )}
+          <label className="config-label" htmlFor="choice-select">
+            Your vote (kept private)
+          </label>
+          <select
+            id="choice-select"
+            className="config-select"
+            value={session.voteChoice}
+            onChange={handleVoteChoiceChange}
+            disabled={busy}
           >
-            {SAMPLE_PROPOSALS.map((proposal) => (
-              <option key={proposal.id} value={proposal.id}>
-                #{proposal.id} - {proposal.title}
+            {VOTE_CHOICES.map((choice) => (
+              <option key={choice} value={choice}>
+                {VOTE_CHOICE_LABELS[choice]}
               </option>
             ))}
           </select>
+          {!demoModeState && readyCount > 1 && (
+            <button
+              className="button button--primary"
+              onClick={handleApproveAll}
+              disabled={busy || !restored || !realModeAvailable}
+              title="Cast this vote and submit every ready proof with a single wallet approval"
+            >
+              Approve All Ready ({readyCount})
+            </button>
+          )}
         </div>
       </section>
 
       <main className="grid">
+        <StepPanel
+          step={0}
+          title="Register as a Member"
+          helper={
+            membersOnly
+              ? `Proposal #${session.proposalId} is members-only. Register your identity commitment before its snapshot is taken; the proof shows you are a member without revealing which one.`
+              : `Publishes an identity commitment derived from your voter secret, so members-only proposals can include you. Proposal #${session.proposalId} is open to anyone.`
+          }
+          status={identity.status}
+          error={identity.error}
+          buttonLabel={identity.status === "success" ? "Registered" : "Register Identity Commitment"}
+          transaction={identity.transaction}
+          onAction={handleRegisterIdentity}
+          disabled={
+            identity.status === "working" ||
+            identity.status === "success" ||
+            (!demoModeState && !realModeAvailable)
+          }
+        >
+          {identity.registration && (
+            <p className="panel__helper">Registered at slot {identity.registration.registeredSlot}.</p>
+          )}
+        </StepPanel>
+
         <StepPanel
           step={1}
           title="Cast Vote"
-          helper={`Sends a YES vote transaction for proposal #${session.proposalId}. Identity is not used for verification.`}
+          helper={`Sends a ${choiceLabel} vote transaction for proposal #${session.proposalId}. Identity is not used for verification.`}
           status={step1}
-          buttonLabel="Cast YES Vote"
-          onAction={handleCastVote}
-          disabled={step1 === "working" || (!demoModeState && !realModeAvailable)}
+          error={session.steps.cast.error}
+          buttonLabel={`Cast ${choiceLabel} Vote`}
+          transaction={transactions[session.proposalId]?.cast}
+          onAction={() => handleCastVote()}
+          disabled={
+            !restored || !canTransition(session, { type: "cast/start" }) || (!demoModeState && !realModeAvailable)
+          }
         >
           {demoModeState && (
             <label className="toggle toggle--inline">
               <input
                 type="checkbox"
-                checked={forceFailure.cast}
-                onChange={() => handleForceFailureToggle("cast")}
+                checked={Boolean(faults.castVote)}
+                onChange={() => handleForceFailureToggle("castVote")}
               />
               <span>Force Failure</span>
             </label>
@@ -228,18 +540,26 @@ export default function App() {
         <StepPanel
           step={2}
           title="Generate Proof"
-          helper="Generates a Noir proof locally. No wallet or tx hash is disclosed."
+          helper={
+            PROVER_SERVICE_URL && !demoModeState
+              ? "Generates a Noir proof on the prover service, which sees your private inputs. No wallet or tx hash is disclosed."
+              : "Generates a Noir proof in your browser. No wallet, tx hash or private input is disclosed."
+          }
           status={step2}
+          error={session.steps.prove.error}
           buttonLabel="Generate Zero-Knowledge Proof"
+          progress={proverProgress?.message}
+          progressFraction={proverProgress?.fraction}
           onAction={handleGenerateProof}
-          disabled={step1 !== "success" || step2 === "working"}
+          onCancel={handleCancelProof}
+          disabled={!restored || !canTransition(session, { type: "prove/start" })}
         >
           {demoModeState && (
             <label className="toggle toggle--inline">
               <input
                 type="checkbox"
-                checked={forceFailure.proof}
-                onChange={() => handleForceFailureToggle("proof")}
+                checked={Boolean(faults.generateZkProof)}
+                onChange={() => handleForceFailureToggle("generateZkProof")}
               />
               <span>Force Failure</span>
             </label>
@@ -249,18 +569,24 @@ export default function App() {
         <StepPanel
           step={3}
           title="Submit Proof"
-          helper="Submits proof to the on-chain verifier. Only validity is learned."
+          helper={
+            session.proof && proofWeight(session.proof.publicInputs) !== "1"
+              ? `Submits proof to the on-chain verifier. Only validity and the vote's weight (${proofWeight(session.proof.publicInputs)}) are learned.`
+              : "Submits proof to the on-chain verifier. Only validity is learned."
+          }
           status={step3}
+          error={session.steps.submit.error}
           buttonLabel="Submit Proof for Verification"
-          onAction={handleSubmitProof}
-          disabled={step2 !== "success" || step3 === "working"}
+          transaction={transactions[session.proposalId]?.submit}
+          onAction={() => handleSubmitProof()}
+          disabled={!restored || !canTransition(session, { type: "submit/start" })}
         >
           {demoModeState && (
             <label className="toggle toggle--inline">
               <input
                 type="checkbox"
-                checked={forceFailure.submit}
-                onChange={() => handleForceFailureToggle("submit")}
+                checked={Boolean(faults.submitProof)}
+                onChange={() => handleForceFailureToggle("submitProof")}
               />
               <span>Force Failure</span>
             </label>
@@ -270,14 +596,19 @@ export default function App() {
         <section className="panel panel--result">
           <header className="panel__header">
             <h2 className="panel__title">Final Result</h2>
-            <Stamp text={finalStamp.variant.toUpperCase()} variant={finalStamp.variant} size="lg" />
+            <Stamp text={finalStamp.label} variant={finalStamp.variant} size="lg" />
           </header>
           <p className="panel__helper">{finalStamp.text}</p>
           <div className="panel__note">
             <p>
               No wallet, transaction signature, or private inputs are shown or stored. The verifier only
-              learns that a YES vote was proven for proposal #{session.proposalId}.
+              learns that a {choiceLabel} vote was proven for proposal #{session.proposalId}.
             </p>
+            {session.trustModel && (
+              <p style={{ marginTop: "0.5rem" }}>
+                <strong>Trust model:</strong> {TRUST_MODEL_NOTES[session.trustModel]}
+              </p>
+            )}
             {session.transactionSignature && !demoModeState && (
               <p style={{ marginTop: "0.5rem", fontSize: "0.875rem", opacity: 0.7 }}>
                 Tx: {session.transactionSignature.substring(0, 8)}...
@@ -285,6 +616,20 @@ export default function App() {
             )}
           </div>
         </section>
+
+        <ProofBundlePanel
+          proof={session.proof}
+          attestations={session.attestations}
+          onAttest={
+            backend.kind === "demo"
+              ? undefined
+              : (proof) => backend.attestProof(proof, proof.publicInputs.expected_proposal_id, connection)
+          }
+          onImport={handleImportBundle}
+          disabled={!restored || busy}
+        />
+
+        <TallyPanel proposalId={session.proposalId} tally={tally} error={tallyError} />
       </main>
 
       <footer className="footer">
@@ -0,0 +1,19 @@
+// The CLI build maps import.meta.env to process.env, so lib/constants reads
+// the VITE_* variables as usual. The names scripts/ and the services use are
+// accepted too. Imported first, before anything that loads lib/constants.
+const ALIASES: Record<string, string> = {
+  VITE_SOLANA_RPC_URL: "SOLANA_RPC_URL",
+  VITE_VOTE_PROGRAM_ID: "VOTE_PROGRAM_ID",
+  VITE_VERIFIER_PROGRAM_ID: "VERIFIER_PROGRAM_ID",
+  VITE_PROPOSAL_PROGRAM_ID: "PROPOSAL_PROGRAM_ID",
+  VITE_PROVER_SERVICE_URL: "PROVER_URL",
+  VITE_LOOKUP_TABLE_ADDRESS: "LOOKUP_TABLE_ADDRESS",
+};
+
+for (const [name, alias] of Object.entries(ALIASES)) {
+  if (!process.env[name] && process.env[alias]) {
+    process.env[name] = process.env[alias];
+  }
+}
+
+export {};
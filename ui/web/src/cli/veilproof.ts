@@ -0,0 +1,709 @@
+#!/usr/bin/env node
+import "./env";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { Connection, Keypair, Transaction, clusterApiUrl, type TransactionInstruction } from "@solana/web3.js";
+import { ed25519 } from "@noble/curves/ed25519";
+import { NullifierSpentError, ProposalNotOpenError, assertProposalOpen, fetchAttestationPolicy } from "../lib/api";
+import {
+  attestationsUsable,
+  attestedDomain,
+  verifyAttestation,
+  verifyAttestationMessage,
+  verifyAttestations,
+} from "../lib/attestation";
+import { createProofBundle, importProofBundle, serializeProofBundle } from "../lib/bundle";
+import { acceptedCircuit, proofWeight, trustModelOf } from "../lib/circuits";
+import { RelayerClient, VeilProofClient } from "../lib/client";
+import {
+  ATTESTATION_TTL_SLOTS,
+  LOOKUP_TABLE_ADDRESS,
+  PROVER_SERVICE_URL,
+  RELAYER_URL,
+  SOLANA_RPC_URL,
+  VERIFIER_PROGRAM_ID,
+  VERIFIER_SERVICE_URLS,
+  VOTE_CHOICE_LABELS,
+  isValidVoteChoice,
+} from "../lib/constants";
+import {
+  buildEligibilityWitness,
+  computeIdentityCommitment,
+  importEligibilitySnapshot,
+  isMembersOnly,
+  loadEligibilitySnapshot,
+  serializeEligibilitySnapshot,
+  takeEligibilitySnapshot,
+} from "../lib/eligibility";
+import { describeError } from "../lib/errors";
+import { decodeGroth16Proof, decodeGroth16VerifyingKey, verifyGroth16 } from "../lib/groth16";
+import { VOTER_SECRET_VERSION, deriveVoterSecret } from "../lib/nullifier";
+import { createServiceProver } from "../lib/prover";
+import { parseProofBundle, parseProofData, parseVerifierAttestation } from "../lib/schema";
+import { keypairSigner, sendAndConfirmTransaction, type SendOptions } from "../lib/sender";
+import {
+  buildEd25519Instruction,
+  buildGroth16VerifierInstruction,
+  buildRegisterIdentityInstruction,
+  buildVerifierInstruction,
+  buildVoteInstruction,
+  deriveGroth16VkAddress,
+  deriveProposalAddress,
+  fetchIdentity,
+  fetchNullifierTrustModel,
+  fetchProposal,
+  fetchSignerConfig,
+} from "../lib/solana";
+import { fetchVerifiedVoteState } from "../lib/tally";
+import {
+  computeVoteCommitment,
+  deriveVoteTreeAddress,
+  fetchVoteRootShard,
+  fetchVoteTrees,
+  fieldToHex,
+  findVoteMerklePath,
+  openVoteTreeShard,
+} from "../lib/voteTree";
+import type { ProofBundle, ProofData, SignerConfig, VerifierAttestation } from "../types";
+
+const USAGE = `Usage: veilproof <command> [options]
+
+Commands:
+  register             Register the voter's identity commitment for members-only proposals
+  snapshot             Snapshot registered identities for a members-only proposal [--member <wallet>…]
+                       [--balances <file>] [--out <file>]
+  cast                 --proposal <id> --choice <yes|no|abstain>
+  prove                --proposal <id> --choice <yes|no|abstain> [--tx <signature>] [--snapshot <file>]
+                       [--weight <n>] [--out <file>]
+  verify <bundle>      Collect verifier attestations for a proof bundle [--out <file>]
+  submit <bundle>      Send a proof bundle to the verifier program
+  tally                --proposal <id>
+  inspect-attestation <file>
+                       Check an attestation, a list of them or a bundle's [--offline]
+
+Options:
+  -u, --rpc <url>      RPC URL, or localhost, devnet, testnet or mainnet-beta
+  -k, --keypair <file> Voter keypair (default ~/.config/solana/id.json)
+  --verifier <url>     Verifier service instance; repeat for several
+  --prover <url>       Prover service (default: the first verifier)
+  --relayer <url>      Submit through a relayer instead of paying with the keypair
+  --secret <hex>       Voter secret (default: derived from the keypair)
+  --origin <url>       Address of the UI the keypair votes through, which the derived secret is bound to
+                       (default: APP_ORIGIN)
+  --secret-version <n> 1 to derive the secret of a vote cast before voter secrets named the origin (default 2)
+  --program-id <id>    Circuit program ID (default 7)
+  --snapshot <file>    Eligibility snapshot of a members-only proposal (default: VITE_ELIGIBILITY_SNAPSHOT_URL)
+  --member <wallet>    Only snapshot this wallet's registration; repeat for several
+  --balances <file>    JSON object of wallet to stake for a weighted snapshot; other wallets are left out
+  --weight <n>         Vote with this weight, up to your snapshot balance (default: the balance, rounded down)
+  -o, --out <file>     Write the bundle or snapshot to a file instead of stdout
+
+Results are printed as JSON on stdout; progress goes to stderr.
+Bundles are read from a file, or from stdin when the file is "-".`;
+
+const CLUSTERS = ["devnet", "testnet", "mainnet-beta"] as const;
+const LOCAL_RPC_URL = "http://127.0.0.1:8899";
+const DEFAULT_KEYPAIR_PATH = path.join(os.homedir(), ".config", "solana", "id.json");
+const DEFAULT_CIRCUIT_PROGRAM_ID = "7";
+
+const CHOICE_NAMES: Record<string, number> = { no: 0, yes: 1, abstain: 2 };
+
+/**
+ * Thrown for a bad command line; printed with the usage text
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+type Options = ReturnType<typeof parseCommandLine>["values"];
+
+function parseCommandLine(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      rpc: { type: "string", short: "u" },
+      keypair: { type: "string", short: "k" },
+      verifier: { type: "string", multiple: true },
+      prover: { type: "string" },
+      relayer: { type: "string" },
+      proposal: { type: "string" },
+      choice: { type: "string" },
+      secret: { type: "string" },
+      origin: { type: "string" },
+      "secret-version": { type: "string" },
+      "program-id": { type: "string" },
+      tx: { type: "string" },
+      snapshot: { type: "string" },
+      member: { type: "string", multiple: true },
+      balances: { type: "string" },
+      weight: { type: "string" },
+      out: { type: "string", short: "o" },
+      offline: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
+
+function log(message: string) {
+  process.stderr.write(`${message}\n`);
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => (typeof item === "bigint" ? item.toString() : item), 2);
+}
+
+function required(value: string | undefined, flag: string): string {
+  if (!value) {
+    throw new UsageError(`${flag} is required`);
+  }
+  return value;
+}
+
+function proposalOption(options: Options): string {
+  const proposalId = required(options.proposal, "--proposal");
+  if (!/^\d+$/.test(proposalId)) {
+    throw new UsageError("--proposal must be a decimal proposal ID");
+  }
+  return proposalId;
+}
+
+function choiceOption(options: Options): number {
+  const value = required(options.choice, "--choice").toLowerCase();
+  const choice = CHOICE_NAMES[value] ?? (/^\d$/.test(value) ? Number(value) : NaN);
+  if (!isValidVoteChoice(choice)) {
+    throw new UsageError("--choice must be yes, no, abstain, or 1, 0, 2");
+  }
+  return choice;
+}
+
+function rpcUrl(options: Options): string {
+  const rpc = options.rpc;
+  if (!rpc) {
+    return SOLANA_RPC_URL;
+  }
+  if (rpc === "localhost") {
+    return LOCAL_RPC_URL;
+  }
+  return (CLUSTERS as readonly string[]).includes(rpc) ? clusterApiUrl(rpc as (typeof CLUSTERS)[number]) : rpc;
+}
+
+function expandHome(file: string): string {
+  return file === "~" || file.startsWith("~/") ? path.join(os.homedir(), file.slice(1)) : file;
+}
+
+/**
+ * Read a keypair file as written by `solana-keygen`: a JSON array of the 64
+ * secret key bytes
+ */
+function loadKeypair(options: Options): Keypair {
+  const file = expandHome(options.keypair ?? DEFAULT_KEYPAIR_PATH);
+  let bytes: unknown;
+  try {
+    bytes = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (err) {
+    throw new Error(`Cannot read keypair ${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!Array.isArray(bytes) || bytes.length !== 64) {
+    throw new Error(`Keypair ${file} must be a JSON array of 64 bytes`);
+  }
+  return Keypair.fromSecretKey(Uint8Array.from(bytes));
+}
+
+// The same secret the UI at --origin derives from a wallet holding this key
+function voterSecret(options: Options, keypair: () => Keypair): Promise<string> {
+  if (options.secret) {
+    return Promise.resolve(options.secret);
+  }
+  const appUrl = options.origin ?? process.env.APP_ORIGIN;
+  if (!appUrl) {
+    throw new UsageError("--origin (or APP_ORIGIN) is required to derive the voter secret; or pass --secret");
+  }
+  let origin: string;
+  try {
+    origin = new URL(appUrl).origin;
+  } catch {
+    throw new UsageError("--origin must be a URL, e.g. https://vote.example.org");
+  }
+  if (!VERIFIER_PROGRAM_ID) {
+    throw new Error("VERIFIER_PROGRAM_ID not configured");
+  }
+  const version = options["secret-version"] ?? String(VOTER_SECRET_VERSION);
+  if (version !== "1" && version !== "2") {
+    throw new UsageError("--secret-version must be 1 or 2");
+  }
+  const secretKey = keypair().secretKey.slice(0, 32);
+  return deriveVoterSecret({
+    signMessage: async (message) => ed25519.sign(message, secretKey),
+    origin,
+    verifierProgramId: VERIFIER_PROGRAM_ID.toBase58(),
+    version: version === "1" ? 1 : 2,
+  });
+}
+
+function u64Option(value: string, flag: string): bigint {
+  if (!/^\d+$/.test(value) || BigInt(value) > 0xffffffffffffffffn) {
+    throw new UsageError(`${flag} must be a whole number`);
+  }
+  return BigInt(value);
+}
+
+// --balances: {"<wallet>": "<amount>", …}, amounts as decimal strings or safe integers
+function balancesOption(text: string): Record<string, bigint> {
+  const value: unknown = JSON.parse(text);
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new UsageError("--balances must be a JSON object of wallet to amount");
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([wallet, amount]) => {
+      if (!(typeof amount === "string" || Number.isSafeInteger(amount))) {
+        throw new UsageError(`--balances: the amount for ${wallet} must be a whole number`);
+      }
+      return [wallet, u64Option(String(amount), `--balances: the amount for ${wallet}`)];
+    })
+  );
+}
+
+function readInput(file: string): string {
+  return fs.readFileSync(file === "-" ? 0 : file, "utf8");
+}
+
+// A bundle, or bare proof data as the prover service returns it
+function readBundle(file: string): ProofBundle {
+  const value: unknown = JSON.parse(readInput(file));
+  const isBareProof = typeof value === "object" && value !== null && "publicInputs" in value;
+  return importProofBundle(isBareProof ? createProofBundle(parseProofData(value)) : value);
+}
+
+function verifierClients(options: Options): VeilProofClient[] {
+  const urls = options.verifier?.length ? options.verifier : VERIFIER_SERVICE_URLS;
+  return urls.map((url) => new VeilProofClient(url));
+}
+
+function relayerClient(options: Options): RelayerClient | null {
+  const url = options.relayer ?? RELAYER_URL;
+  return url ? new RelayerClient(url) : null;
+}
+
+async function sendOptions(connection: Connection): Promise<SendOptions> {
+  const onProgress: SendOptions["onProgress"] = (progress) =>
+    log(`  ${progress.message} (${progress.signature.slice(0, 8)}…)`);
+  if (!LOOKUP_TABLE_ADDRESS) {
+    return { onProgress };
+  }
+  const { value } = await connection.getAddressLookupTable(LOOKUP_TABLE_ADDRESS);
+  return { onProgress, version: 0, lookupTables: value ? [value] : [] };
+}
+
+async function send(connection: Connection, keypair: Keypair, instructions: TransactionInstruction[]): Promise<string> {
+  return sendAndConfirmTransaction(
+    connection,
+    new Transaction().add(...instructions),
+    keypairSigner(keypair),
+    keypair.publicKey,
+    await sendOptions(connection)
+  );
+}
+
+// Ask every instance at once; the threshold check decides whether enough answered.
+// They are all given one expiry, so their VEILPROOF_V2 attestations sign one message.
+async function requestAttestations(
+  connection: Connection,
+  proof: ProofData,
+  clients: VeilProofClient[],
+  expirySlot: string
+): Promise<VerifierAttestation[]> {
+  const proposalId = proof.publicInputs.expected_proposal_id;
+  const shard = await fetchVoteRootShard(connection, proposalId, proof.publicInputs.vote_root);
+  const options = {
+    voteTreeAddress: deriveVoteTreeAddress(proposalId, shard).toBase58(),
+    proposalAddress: deriveProposalAddress(proposalId).toBase58(),
+    expirySlot,
+    verifierProgramId: VERIFIER_PROGRAM_ID?.toBase58(),
+  };
+  const results = await Promise.allSettled(clients.map((client) => client.verify(proof, options)));
+  return results.flatMap((result, index) => {
+    if (result.status === "fulfilled") {
+      return [result.value];
+    }
+    log(`  ${clients[index].baseUrl}: ${describeError(result.reason).message}`);
+    return [];
+  });
+}
+
+function isGroth16(proof: ProofData): boolean {
+  return trustModelOf(acceptedCircuit(proof.circuitId)) === "groth16";
+}
+
+interface Context {
+  options: Options;
+  positionals: string[];
+  connection: () => Connection;
+  keypair: () => Keypair;
+}
+
+async function register({ options, connection, keypair }: Context) {
+  const member = keypair().publicKey;
+  const commitment = fieldToHex(computeIdentityCommitment(await voterSecret(options, keypair)));
+  const existing = await fetchIdentity(connection(), member);
+  if (existing?.commitment === commitment) {
+    log(`${member.toBase58()} is already registered`);
+    return { signature: null, member: member.toBase58(), commitment, registeredSlot: existing.registeredSlot };
+  }
+  // Registering again replaces the commitment, for snapshots taken from then on
+  log(existing ? `Replacing the identity of ${member.toBase58()}` : `Registering ${member.toBase58()}`);
+  const signature = await send(connection(), keypair(), [buildRegisterIdentityInstruction(commitment, member)]);
+  return { signature, member: member.toBase58(), commitment };
+}
+
+// Create the members-only proposal with this snapshot's root, and publish the snapshot for voters
+async function snapshot({ options, connection }: Context) {
+  const balances = options.balances ? balancesOption(readInput(options.balances)) : undefined;
+  const taken = await takeEligibilitySnapshot(connection(), { members: options.member, balances });
+  log(
+    `${taken.commitments.length} members at slot ${taken.slot}${taken.balances ? " (weighted)" : ""}; ` +
+      `eligibility root ${taken.root}`
+  );
+  const text = serializeEligibilitySnapshot(taken);
+  if (options.out) {
+    fs.writeFileSync(options.out, `${text}\n`);
+    log(`Wrote ${options.out}`);
+    return { root: taken.root, members: taken.commitments.length, slot: taken.slot };
+  }
+  return taken;
+}
+
+async function cast({ options, connection, keypair }: Context) {
+  const proposalId = proposalOption(options);
+  const voteChoice = choiceOption(options);
+  const [proposal, slot] = await Promise.all([
+    fetchProposal(connection(), proposalId),
+    connection().getSlot("confirmed"),
+  ]);
+  assertProposalOpen(proposal, proposalId, slot, voteChoice);
+
+  const secret = await voterSecret(options, keypair);
+  const commitment = fieldToHex(computeVoteCommitment(secret, proposalId, voteChoice));
+  const shard = openVoteTreeShard(await fetchVoteTrees(connection(), proposalId));
+  log(`Voting ${VOTE_CHOICE_LABELS[voteChoice]} on proposal #${proposalId}`);
+  const signature = await send(connection(), keypair(), [
+    buildVoteInstruction(proposalId, commitment, keypair().publicKey, shard),
+  ]);
+  return { signature, proposalId, voteChoice, voter: keypair().publicKey.toBase58(), commitment };
+}
+
+async function prove({ options, connection, keypair }: Context) {
+  const proposalId = proposalOption(options);
+  const voteChoice = choiceOption(options);
+  const programId = options["program-id"] ?? DEFAULT_CIRCUIT_PROGRAM_ID;
+  const secret = await voterSecret(options, keypair);
+
+  if (options.tx) {
+    const status = await connection().getSignatureStatus(options.tx, { searchTransactionHistory: true });
+    if (status.value?.err || !status.value?.confirmationStatus) {
+      throw new Error("Vote transaction is not confirmed");
+    }
+  }
+
+  const commitment = computeVoteCommitment(secret, proposalId, voteChoice);
+  const [trees, proposal] = await Promise.all([
+    fetchVoteTrees(connection(), proposalId),
+    fetchProposal(connection(), proposalId),
+  ]);
+  if (!proposal) {
+    throw new ProposalNotOpenError(proposalId, "unknown");
+  }
+  const { leafIndex, path: merklePath, root } = findVoteMerklePath(trees, commitment);
+  let members = null;
+  if (isMembersOnly(proposal)) {
+    members = options.snapshot
+      ? importEligibilitySnapshot(readInput(options.snapshot))
+      : await loadEligibilitySnapshot(connection(), proposal);
+  }
+  const weight = options.weight === undefined ? undefined : u64Option(options.weight, "--weight");
+  const eligibility = buildEligibilityWitness(proposal, secret, members, weight);
+  if (eligibility.weight !== "1") {
+    log(`Voting with weight ${eligibility.weight} of a balance of ${eligibility.balance}`);
+  }
+
+  // The prover service sees the private inputs; run it yourself for that reason
+  const proverUrl = options.prover ?? (PROVER_SERVICE_URL || verifierClients(options)[0]?.baseUrl);
+  if (!proverUrl) {
+    throw new UsageError("--prover or a verifier service URL is required");
+  }
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+  const proof = await createServiceProver(new VeilProofClient(proverUrl))(
+    {
+      program_id: programId,
+      proposal_id: proposalId,
+      vote_choice: voteChoice,
+      voter_secret: secret,
+      leaf_index: leafIndex,
+      merkle_path: merklePath.map((node) => "0x" + fieldToHex(node)),
+      expected_program_id: programId,
+      expected_proposal_id: proposalId,
+      vote_root: "0x" + fieldToHex(root),
+      ...eligibility,
+    },
+    (progress) =>
+      log(
+        progress.fraction === undefined
+          ? `  ${progress.message}`
+          : `  ${progress.message} (${Math.round(progress.fraction * 100)}%)`
+      ),
+    controller.signal
+  );
+  return createProofBundle(proof);
+}
+
+async function verify({ options, positionals, connection }: Context) {
+  const bundle = readBundle(required(positionals[0], "A bundle file"));
+  const { proof } = bundle;
+
+  // Nothing to attest: the verifier program checks these against its own key
+  if (isGroth16(proof)) {
+    const account = await connection().getAccountInfo(deriveGroth16VkAddress(), "confirmed");
+    if (!account) {
+      throw new Error("The verifier program has no Groth16 verifying key yet; run `node scripts/groth16.js vk`");
+    }
+    const valid = verifyGroth16(
+      decodeGroth16VerifyingKey(account.data),
+      decodeGroth16Proof(Buffer.from(proof.proof, "base64")),
+      Buffer.from(proof.publicInputs.raw, "base64")
+    );
+    if (!valid) {
+      throw new Error("Groth16 proof does not verify against the on-chain verifying key");
+    }
+    log("Groth16 proof verifies against the on-chain verifying key");
+    return bundle;
+  }
+
+  // Stale bundled attestations are dropped; fresh ones take the expiry of those
+  // kept, as attestations with different expiries sign different messages
+  const policy = await fetchAttestationPolicy(connection());
+  const slot = await connection().getSlot("confirmed");
+  const kept = bundle.attestations && attestationsUsable(bundle.attestations, policy, slot) ? bundle.attestations : [];
+  const expirySlot =
+    kept.map((response) => attestedDomain(response)).find(Boolean)?.expirySlot ?? String(slot + ATTESTATION_TTL_SLOTS);
+  const fresh = await requestAttestations(connection(), proof, verifierClients(options), expirySlot);
+  const verified = verifyAttestations(proof, [...kept, ...fresh], policy);
+  log(`${verified.attestations.length} trusted attestations; the verifier program needs ${policy.threshold}`);
+  return createProofBundle(proof, verified.attestations);
+}
+
+async function submit({ options, positionals, connection, keypair }: Context) {
+  const { proof, attestations: bundled } = readBundle(required(positionals[0], "A bundle file"));
+  const { nullifier, expected_proposal_id: proposalId } = proof.publicInputs;
+  const relayer = relayerClient(options);
+
+  // Fail fast if this nullifier was already recorded
+  const spentBy = await fetchNullifierTrustModel(connection(), nullifier);
+  if (spentBy) {
+    throw new NullifierSpentError(nullifier, spentBy);
+  }
+  const result = (signature: string, trustModel: string) => ({
+    signature,
+    proposalId,
+    nullifier,
+    trustModel,
+    relayer: relayer?.baseUrl ?? null,
+  });
+
+  if (isGroth16(proof)) {
+    const shard = await fetchVoteRootShard(connection(), proposalId, proof.publicInputs.vote_root);
+    if (relayer) {
+      return result((await relayer.relayGroth16(proof, shard)).signature, "groth16");
+    }
+    const instruction = buildGroth16VerifierInstruction(
+      proposalId,
+      proof.publicInputs.expected_program_id,
+      Number(proof.publicInputs.vote_choice),
+      nullifier,
+      proof.publicInputs.vote_root,
+      Buffer.from(proof.proof, "base64"),
+      keypair().publicKey,
+      proofWeight(proof.publicInputs),
+      shard
+    );
+    return result(await send(connection(), keypair(), [instruction]), "groth16");
+  }
+
+  // Only `threshold` attestations go on chain, to keep the transaction small
+  const policy = await fetchAttestationPolicy(connection());
+  const slot = await connection().getSlot("confirmed");
+  const responses =
+    bundled?.length && attestationsUsable(bundled, policy, slot)
+      ? bundled
+      : await requestAttestations(connection(), proof, verifierClients(options), String(slot + ATTESTATION_TTL_SLOTS));
+  const verified = verifyAttestations(proof, responses, policy);
+  const accepted = verified.attestations.slice(0, policy.threshold);
+  if (relayer) {
+    return result((await relayer.relay(accepted)).signature, "attestation");
+  }
+
+  const ed25519Ix = buildEd25519Instruction(
+    accepted.map((attestation) => ({
+      publicKey: Buffer.from(attestation.attestation.signer_pubkey_hex, "hex"),
+      signature: Buffer.from(attestation.signature_base64, "base64"),
+    })),
+    verified.messageHash
+  );
+  const verifierIx = buildVerifierInstruction(
+    proposalId,
+    proof.publicInputs.expected_program_id,
+    Number(proof.publicInputs.vote_choice),
+    nullifier,
+    proof.publicInputs.vote_root,
+    accepted[0].attestation.vk_hash_hex,
+    accepted[0].attestation.public_inputs_hash_hex,
+    accepted[0].attestation.proof_hash_hex,
+    keypair().publicKey,
+    proofWeight(proof.publicInputs),
+    accepted[0].attestation.expiry_slot
+  );
+  return result(await send(connection(), keypair(), [ed25519Ix, verifierIx]), "attestation");
+}
+
+async function tally({ options, connection }: Context) {
+  const proposalId = proposalOption(options);
+  const state = await fetchVerifiedVoteState(connection(), proposalId);
+  return { ...state, proposalId };
+}
+
+// Whatever the attestation was issued for, checked without trusting its signer
+function inspectOne(response: VerifierAttestation, proof: ProofData | undefined, config: SignerConfig | null) {
+  const { attestation } = response;
+  const signer = attestation.signer_pubkey_hex.toLowerCase();
+  const check = (run: () => unknown) => {
+    try {
+      run();
+      return { ok: true };
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+  };
+  return {
+    signer,
+    proposalId: attestation.expected_proposal_id,
+    programId: attestation.expected_program_id,
+    voteChoice: Number(attestation.vote_choice),
+    nullifier: attestation.nullifier_hex,
+    voteRoot: attestation.vote_root_hex,
+    vkHash: attestation.vk_hash_hex,
+    messageHash: attestation.message_hash_hex,
+    messageVersion: attestation.message_version ?? 1,
+    expirySlot: attestation.expiry_slot ?? null,
+    verifierProgramId: attestation.verifier_program_id ?? null,
+    genesisHash: attestation.genesis_hash ?? null,
+    signature: check(() => verifyAttestationMessage(response, [signer])),
+    coversProof: proof ? check(() => verifyAttestation(proof, response, [signer])) : undefined,
+    trusted: config ? config.signers.includes(signer) : null,
+  };
+}
+
+async function inspectAttestation({ options, positionals, connection }: Context) {
+  const value: unknown = JSON.parse(readInput(required(positionals[0], "An attestation file")));
+  let proof: ProofData | undefined;
+  let responses: VerifierAttestation[];
+  if (Array.isArray(value)) {
+    responses = value.map((item, index) => parseVerifierAttestation(item, `attestations[${index}]`));
+  } else if (typeof value === "object" && value !== null && "proof" in value && "circuit" in value) {
+    // Not importProofBundle: a bundle with a bad attestation is what this is for
+    const bundle = parseProofBundle(value);
+    proof = bundle.proof;
+    responses = bundle.attestations ?? [];
+  } else {
+    responses = [parseVerifierAttestation(value)];
+  }
+
+  let config: SignerConfig | null = null;
+  if (!options.offline) {
+    try {
+      config = await fetchSignerConfig(connection());
+    } catch (err) {
+      log(`Could not read the signer config: ${describeError(err).message}`);
+    }
+  }
+  const inspected = responses.map((response) => inspectOne(response, proof, config));
+  const trusted = new Set(
+    inspected.filter((item) => item.trusted && item.signature.ok && item.coversProof?.ok !== false).map((item) => item.signer)
+  );
+  return {
+    attestations: inspected,
+    signerConfig: config && { epoch: config.epoch, threshold: config.threshold, signers: config.signers.length },
+    meetsThreshold: config ? trusted.size >= config.threshold : null,
+  };
+}
+
+const COMMANDS: Record<string, (context: Context) => Promise<unknown>> = {
+  register,
+  snapshot,
+  cast,
+  prove,
+  verify,
+  submit,
+  tally,
+  "inspect-attestation": inspectAttestation,
+};
+
+// Bundles go to --out when given; everything else is printed
+function writeResult(value: unknown, out: string | undefined): Promise<void> {
+  const isBundle = typeof value === "object" && value !== null && "circuit" in value;
+  const text = isBundle ? serializeProofBundle(value as ProofBundle) : toJson(value);
+  if (isBundle && out) {
+    fs.writeFileSync(out, `${text}\n`);
+    log(`Wrote ${out}`);
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => process.stdout.write(`${text}\n`, () => resolve()));
+}
+
+async function main(): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseCommandLine(process.argv.slice(2));
+  } catch (err) {
+    log(`${err instanceof Error ? err.message : String(err)}\n\n${USAGE}`);
+    return 2;
+  }
+  const [command, ...positionals] = parsed.positionals;
+  const options = parsed.values;
+  if (options.help || !command) {
+    log(USAGE);
+    return options.help ? 0 : 2;
+  }
+  const run = COMMANDS[command];
+  if (!run) {
+    log(`Unknown command "${command}"\n\n${USAGE}`);
+    return 2;
+  }
+
+  let connection: Connection | undefined;
+  let keypair: Keypair | undefined;
+  const context: Context = {
+    options,
+    positionals,
+    connection: () => (connection ??= new Connection(rpcUrl(options), "confirmed")),
+    keypair: () => (keypair ??= loadKeypair(options)),
+  };
+  try {
+    await writeResult(await run(context), options.out);
+    return 0;
+  } catch (err) {
+    if (err instanceof UsageError) {
+      log(`${err.message}\n\n${USAGE}`);
+      return 2;
+    }
+    process.stderr.write(`${toJson({ error: describeError(err) })}\n`);
+    return 1;
+  }
+}
+
+// Exit explicitly: finalization checks and open sockets would otherwise keep the process alive
+main().then((code) => process.exit(code));
@@ -0,0 +1,239 @@
+import React, { useEffect, useRef, useState } from "react";
+import QRCode from "qrcode";
+import jsQR from "jsqr";
+import { Stamp } from "./Stamp";
+import {
+  ProofBundleQrAssembler,
+  createProofBundle,
+  encodeProofBundleQr,
+  importProofBundle,
+  serializeProofBundle,
+} from "../lib/bundle";
+import type { ProofBundle, ProofData, VerifierAttestation } from "../types";
+
+interface ProofBundlePanelProps {
+  proof?: ProofData;
+  attestations?: VerifierAttestation[];
+  // Fetches attestations to ship with the proof; omitted when the backend has no verifier service
+  onAttest?: (proof: ProofData) => Promise<VerifierAttestation[]>;
+  onImport: (bundle: ProofBundle) => void;
+  disabled?: boolean;
+}
+
+// How long each QR part stays up while cycling
+const QR_CYCLE_MS = 1500;
+
+function errorMessage(err: unknown) {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Decode the QR code in an image file, if there is one
+async function readQrImage(file: File): Promise<string | null> {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas is not available");
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const image = context.getImageData(0, 0, canvas.width, canvas.height);
+  return jsQR(image.data, image.width, image.height)?.data ?? null;
+}
+
+// Moves a finished proof between devices, as a JSON file or a sequence of QR codes.
+export function ProofBundlePanel({ proof, attestations, onAttest, onImport, disabled }: ProofBundlePanelProps) {
+  const [includeAttestation, setIncludeAttestation] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [qrImages, setQrImages] = useState<string[]>([]);
+  const [qrIndex, setQrIndex] = useState(0);
+  const [qrCycling, setQrCycling] = useState(true);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const assemblerRef = useRef(new ProofBundleQrAssembler());
+  const [scanProgress, setScanProgress] = useState<string | null>(null);
+
+  // A QR sequence belongs to the proof it was made from
+  useEffect(() => {
+    setQrImages([]);
+  }, [proof]);
+
+  useEffect(() => {
+    if (!qrCycling || qrImages.length < 2) {
+      return;
+    }
+    const timer = setInterval(() => setQrIndex((index) => (index + 1) % qrImages.length), QR_CYCLE_MS);
+    return () => clearInterval(timer);
+  }, [qrCycling, qrImages]);
+
+  async function buildBundle(current: ProofData): Promise<ProofBundle> {
+    // Unchecked, the bundle carries only the proof, even when attestations are at hand
+    if (!includeAttestation) {
+      return createProofBundle(current);
+    }
+    return createProofBundle(current, attestations ?? (await onAttest?.(current)));
+  }
+
+  async function handleExport(format: "file" | "qr") {
+    if (!proof) {
+      return;
+    }
+    setExporting(true);
+    setMessage(null);
+    try {
+      const bundle = await buildBundle(proof);
+      if (format === "file") {
+        const blob = new Blob([serializeProofBundle(bundle)], { type: "application/json" });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `veilproof-proposal-${proof.publicInputs.expected_proposal_id}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+      } else {
+        const parts = encodeProofBundleQr(bundle);
+        setQrImages(await Promise.all(parts.map((part) => QRCode.toDataURL(part, { errorCorrectionLevel: "M" }))));
+        setQrIndex(0);
+        setQrCycling(true);
+      }
+    } catch (err) {
+      console.error("Export proof bundle error:", err);
+      setMessage({ text: errorMessage(err), error: true });
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  function accept(bundle: ProofBundle) {
+    onImport(bundle);
+    setMessage({
+      text: `Imported a proof for proposal #${bundle.proof.publicInputs.expected_proposal_id}.`,
+      error: false,
+    });
+  }
+
+  async function handleImportFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) {
+      return;
+    }
+    setMessage(null);
+    try {
+      accept(importProofBundle(await file.text()));
+    } catch (err) {
+      console.error("Import proof bundle error:", err);
+      setMessage({ text: errorMessage(err), error: true });
+    }
+  }
+
+  async function handleImportQr(e: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    setMessage(null);
+    const assembler = assemblerRef.current;
+    try {
+      for (const file of files) {
+        const payload = await readQrImage(file);
+        if (!payload) {
+          throw new Error(`No QR code found in ${file.name}`);
+        }
+        assembler.add(payload);
+      }
+      if (!assembler.complete) {
+        setScanProgress(`Scanned ${assembler.received} of ${assembler.expected ?? "?"} QR codes`);
+        return;
+      }
+      assemblerRef.current = new ProofBundleQrAssembler();
+      setScanProgress(null);
+      accept(assembler.assemble());
+    } catch (err) {
+      console.error("Import proof bundle QR error:", err);
+      setMessage({ text: errorMessage(err), error: true });
+    }
+  }
+
+  function handleClearScan() {
+    assemblerRef.current = new ProofBundleQrAssembler();
+    setScanProgress(null);
+  }
+
+  return (
+    <section className="panel panel--bundle">
+      <header className="panel__header">
+        <div>
+          <div className="panel__step">Offline</div>
+          <h2 className="panel__title">Proof Bundle</h2>
+        </div>
+        <Stamp text={proof ? "READY" : "EMPTY"} variant={proof ? "success" : "idle"} />
+      </header>
+      <p className="panel__helper">
+        Carry a finished proof to another device and submit it there. The bundle holds only public inputs and the proof.
+      </p>
+      <div className="panel__actions">
+        <button className="button" onClick={() => handleExport("file")} disabled={!proof || exporting}>
+          Download JSON
+        </button>
+        <button className="button" onClick={() => handleExport("qr")} disabled={!proof || exporting}>
+          Show QR Codes
+        </button>
+        {(onAttest || attestations) && (
+          <label className="toggle toggle--inline">
+            <input
+              type="checkbox"
+              checked={includeAttestation}
+              onChange={() => setIncludeAttestation(!includeAttestation)}
+            />
+            <span>Include Attestations</span>
+          </label>
+        )}
+      </div>
+      {qrImages.length > 0 && (
+        <div className="bundle-qr">
+          <img className="bundle-qr__image" src={qrImages[qrIndex]} alt={`Proof bundle QR ${qrIndex + 1}`} />
+          <div className="bundle-qr__controls">
+            <button
+              className="button"
+              onClick={() => setQrIndex((qrIndex + qrImages.length - 1) % qrImages.length)}
+              disabled={qrImages.length < 2}
+            >
+              Prev
+            </button>
+            <span className="bundle-qr__count">
+              {qrIndex + 1} / {qrImages.length}
+            </span>
+            <button
+              className="button"
+              onClick={() => setQrIndex((qrIndex + 1) % qrImages.length)}
+              disabled={qrImages.length < 2}
+            >
+              Next
+            </button>
+            <label className="toggle toggle--inline">
+              <input type="checkbox" checked={qrCycling} onChange={() => setQrCycling(!qrCycling)} />
+              <span>Auto</span>
+            </label>
+          </div>
+        </div>
+      )}
+      <div className="panel__actions">
+        <label className={`button${disabled ? " button--disabled" : ""}`}>
+          Import JSON
+          <input type="file" accept="application/json,.json" hidden onChange={handleImportFile} disabled={disabled} />
+        </label>
+        <label className={`button${disabled ? " button--disabled" : ""}`}>
+          Import QR Images
+          <input type="file" accept="image/*" multiple hidden onChange={handleImportQr} disabled={disabled} />
+        </label>
+        {scanProgress && (
+          <button className="button" onClick={handleClearScan}>
+            Clear Scans
+          </button>
+        )}
+      </div>
+      {scanProgress && <p className="panel__progress">{scanProgress}</p>}
+      {message && <p className={message.error ? "config-error" : "panel__progress"}>{message.text}</p>}
+    </section>
+  );
+}
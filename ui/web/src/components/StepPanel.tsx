@@ -1,5 +1,6 @@
 import React from "react";
 import { Stamp } from "./Stamp";
+import type { StepError, TransactionProgress, TransactionStage } from "../types";
 
 type StepStatus = "idle" | "working" | "success" | "error";
 
@@ -10,7 +11,16 @@ interface StepPanelProps {
   status: StepStatus;
   buttonLabel: string;
   disabled?: boolean;
+  progress?: string;
+  // 0 to 1; drawn as a bar while the step is working
+  progressFraction?: number;
+  // Why the step failed; shown while its status is "error"
+  error?: StepError;
+  // Latest update for the step's transaction; stays up after the step finishes
+  transaction?: TransactionProgress;
   onAction: () => void;
+  // Offered as a Cancel button while the step is working
+  onCancel?: () => void;
   children?: React.ReactNode;
 }
 
@@ -22,6 +32,13 @@ const statusMap: Record<StepStatus, { label: string; variant: "idle" | "pending"
   error: { label: "Failed", variant: "error" },
 };
 
+const transactionStages: { stage: TransactionStage; label: string }[] = [
+  { stage: "signed", label: "Signed" },
+  { stage: "sent", label: "Sent" },
+  { stage: "confirmed", label: "Confirmed" },
+  { stage: "finalized", label: "Finalized" },
+];
+
 export function StepPanel({
   step,
   title,
@@ -29,10 +46,16 @@ export function StepPanel({
   status,
   buttonLabel,
   disabled,
+  progress,
+  progressFraction,
+  error,
+  transaction,
   onAction,
+  onCancel,
   children,
 }: StepPanelProps) {
   const statusDisplay = statusMap[status];
+  const reached = transaction ? transactionStages.findIndex(({ stage }) => stage === transaction.stage) : -1;
 
   return (
     <section className="panel">
@@ -48,12 +71,47 @@ export function StepPanel({
         <button className="button button--primary" onClick={onAction} disabled={disabled || status === "working"}>
           {status === "working" ? "Processing..." : buttonLabel}
         </button>
+        {status === "working" && onCancel ? (
+          <button className="button" onClick={onCancel}>
+            Cancel
+          </button>
+        ) : null}
         {children ? <div className="panel__extras">{children}</div> : null}
       </div>
       <div className="panel__status">
         <span>Status:</span>
         <span className="panel__status-value">{statusDisplay.label}</span>
       </div>
+      {status === "working" && progressFraction !== undefined ? (
+        <div
+          className="progress-bar"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(progressFraction * 100)}
+        >
+          <div className="progress-bar__fill" style={{ width: `${Math.round(progressFraction * 100)}%` }} />
+        </div>
+      ) : null}
+      {status === "working" && progress ? <p className="panel__progress">{progress}</p> : null}
+      {status === "error" && error ? (
+        <div className="panel__error">
+          <p className="panel__error-message">{error.message}</p>
+          {error.hint ? <p className="panel__error-hint">{error.hint}</p> : null}
+        </div>
+      ) : null}
+      {transaction ? (
+        <div className="tx-progress">
+          <ol className="tx-progress__stages">
+            {transactionStages.map(({ stage, label }, index) => (
+              <li key={stage} className={`tx-progress__stage${index <= reached ? " tx-progress__stage--done" : ""}`}>
+                {label}
+              </li>
+            ))}
+          </ol>
+          <p className="panel__progress">{transaction.message}</p>
+        </div>
+      ) : null}
     </section>
   );
 }
@@ -0,0 +1,63 @@
+import React from "react";
+import { Stamp } from "./Stamp";
+import { VOTE_CHOICE_LABELS, VOTE_CHOICE_YES, VOTE_CHOICE_NO, VOTE_CHOICE_ABSTAIN } from "../lib/constants";
+import type { VerifiedVoteState } from "../lib/tally";
+
+interface TallyPanelProps {
+  proposalId: string;
+  tally: VerifiedVoteState | null;
+  error?: string | null;
+}
+
+// Proven results for one proposal, as recorded by the verifier program.
+// Bars show the weighted result; unweighted votes each weigh 1.
+export function TallyPanel({ proposalId, tally, error }: TallyPanelProps) {
+  const rows = tally
+    ? [
+        { choice: VOTE_CHOICE_YES, count: tally.yesProofs, weight: tally.yesWeight },
+        { choice: VOTE_CHOICE_NO, count: tally.noProofs, weight: tally.noWeight },
+        { choice: VOTE_CHOICE_ABSTAIN, count: tally.abstainProofs, weight: tally.abstainWeight },
+      ]
+    : [];
+  const total = rows.reduce((sum, row) => sum + row.count, 0n);
+  const totalWeight = rows.reduce((sum, row) => sum + row.weight, 0n);
+  const weighted = totalWeight !== total;
+
+  return (
+    <section className="panel panel--tally">
+      <header className="panel__header">
+        <div>
+          <div className="panel__step">Results</div>
+          <h2 className="panel__title">Proposal #{proposalId}</h2>
+        </div>
+        <Stamp text={error ? "OFFLINE" : "LIVE"} variant={error ? "error" : "success"} />
+      </header>
+      {error && <p className="panel__helper">Could not load the tally: {error}</p>}
+      {!error && !tally && <p className="panel__helper">Loading tally...</p>}
+      {tally && (
+        <ul className="tally">
+          {rows.map(({ choice, count, weight }) => {
+            const percent = totalWeight > 0n ? Number((weight * 100n) / totalWeight) : 0;
+            return (
+              <li key={choice} className="tally__row">
+                <span className="tally__label">{VOTE_CHOICE_LABELS[choice]}</span>
+                <span className="tally__bar">
+                  <span className="tally__fill" style={{ width: `${percent}%` }} />
+                </span>
+                <span className="tally__count" title={`${count} ${count === 1n ? "proof" : "proofs"}`}>
+                  {weight.toString()}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {tally && (
+        <p className="panel__helper">
+          {total.toString()} anonymous {total === 1n ? "vote" : "votes"} proven
+          {weighted && `, weighing ${totalWeight.toString()} in total`}. Counts update as proofs land.
+        </p>
+      )}
+    </section>
+  );
+}
@@ -1,74 +1,128 @@
-import { useState, useEffect } from "react";
-import type { VoteSession, ProofData } from "../types";
+import { useState, useEffect, useRef } from "react";
+import { DEFAULT_PROPOSAL_ID } from "../lib/constants";
+import { VoteSessionStore } from "../lib/sessionStore";
+import {
+  VoteFlowTransitionError,
+  newVoteSession,
+  resumeVoteSession,
+  transition,
+  type VoteFlowEvent,
+} from "../lib/voteFlow";
+import type { VoteSession } from "../types";
 
-const SESSION_STORAGE_KEY = "veilproof_vote_session";
+// The selected proposal; the sessions themselves live encrypted in IndexedDB
+const ACTIVE_PROPOSAL_STORAGE_KEY = "veilproof_active_proposal";
 
-export function useVoteSession() {
-  const [session, setSessionState] = useState<VoteSession>(() => {
-    const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        return {
-          proposalId: parsed.proposalId || "42",
-          programId: parsed.programId || "7",
-          voteChoice: parsed.voteChoice ?? 1, // Default to YES
-        };
-      } catch {
-        return {
-          proposalId: "42",
-          programId: "7",
-          voteChoice: 1, // Default to YES
-        };
-      }
-    }
-    return {
-      proposalId: "42",
-      programId: "7",
-      voteChoice: 1, // Default to YES
-    };
+// Opened once per page; null when IndexedDB or WebCrypto is unavailable
+let storePromise: Promise<VoteSessionStore | null> | null = null;
+
+function openStore(): Promise<VoteSessionStore | null> {
+  storePromise ??= VoteSessionStore.open().catch((err) => {
+    console.warn("Vote sessions will not survive a reload:", err);
+    return null;
   });
+  return storePromise;
+}
+
+// Saves run one at a time, in dispatch order, so a slow write of an older
+// state cannot land after a newer one
+let saveQueue: Promise<void> = Promise.resolve();
+
+function queueSave(session: VoteSession): void {
+  saveQueue = saveQueue
+    .then(openStore)
+    .then((store) => store?.save(session))
+    .catch((err) => console.error("Save session error:", err));
+}
+
+/**
+ * Vote sessions for one backend, one per proposal, driven through the
+ * `voteFlow` state machine and persisted after every transition. On mount the
+ * stored sessions are resumed, so a reload lands on the step it left.
+ */
+export function useVoteSession(mode: VoteSession["mode"]) {
+  const [sessions, setSessions] = useState<Record<string, VoteSession>>({});
+  const [restored, setRestored] = useState(false);
+  const [proposalId, setProposalIdState] = useState(
+    () => sessionStorage.getItem(ACTIVE_PROPOSAL_STORAGE_KEY) || DEFAULT_PROPOSAL_ID
+  );
+
+  // Latest sessions for transitions fired from async handlers
+  const sessionsRef = useRef(sessions);
+  sessionsRef.current = sessions;
+
+  useEffect(() => {
+    let cancelled = false;
+    setRestored(false);
+    setSessions({});
+    openStore()
+      .then((store) => store?.loadAll(mode) ?? [])
+      .then((stored) => {
+        if (!cancelled) {
+          setSessions(Object.fromEntries(stored.map((s) => [s.proposalId, resumeVoteSession(s)])));
+        }
+      })
+      .catch((err) => console.error("Restore sessions error:", err))
+      .finally(() => {
+        if (!cancelled) {
+          setRestored(true);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode]);
 
   useEffect(() => {
-    sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
-  }, [session]);
+    sessionStorage.setItem(ACTIVE_PROPOSAL_STORAGE_KEY, proposalId);
+  }, [proposalId]);
 
-  const setTransactionSignature = (signature: string) => {
-    setSessionState((prev) => ({
-      ...prev,
-      transactionSignature: signature,
-    }));
+  const sessionFor = (id: string) => sessionsRef.current[id] ?? newVoteSession(mode, id);
+  const session = sessions[proposalId] ?? newVoteSession(mode, proposalId);
+
+  /**
+   * Apply an event to a proposal's session (the selected one by default).
+   * Handlers should pass the proposal they started on, since the selection
+   * may change while they wait.
+   * @returns false if the transition was not allowed
+   */
+  const dispatch = (event: VoteFlowEvent, targetProposalId = proposalId): boolean => {
+    let next: VoteSession;
+    try {
+      next = transition(sessionFor(targetProposalId), event);
+    } catch (err) {
+      if (err instanceof VoteFlowTransitionError) {
+        console.warn(err.message);
+        return false;
+      }
+      throw err;
+    }
+    sessionsRef.current = { ...sessionsRef.current, [targetProposalId]: next };
+    setSessions(sessionsRef.current);
+    queueSave(next);
+    return true;
   };
 
-  const setProof = (proof: ProofData) => {
-    setSessionState((prev) => ({
-      ...prev,
-      proof,
-    }));
+  const setProposalId = (id: string) => {
+    setProposalIdState(id);
   };
 
-  const setProposalId = (proposalId: string) => {
-    setSessionState((prev) => ({
-      ...prev,
-      proposalId,
-    }));
+  // A proof is bound to its choice, so changing it starts the proposal over
+  const setVoteChoice = (voteChoice: number) => {
+    dispatch({ type: "reset", voteChoice });
   };
 
   const clearSession = () => {
-    const newSession: VoteSession = {
-      proposalId: session.proposalId,
-      programId: session.programId,
-      voteChoice: session.voteChoice,
-    };
-    setSessionState(newSession);
-    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    dispatch({ type: "reset" });
   };
 
   return {
     session,
-    setTransactionSignature,
-    setProof,
+    sessions: Object.values(sessions),
+    restored,
+    dispatch,
     setProposalId,
+    setVoteChoice,
     clearSession,
   };
 }
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import type { Connection } from "@solana/web3.js";
+import { useVeilProofBackend } from "../lib/BackendProvider";
+import type { VerifiedVoteState } from "../lib/tally";
+
+/**
+ * Live proven tally for a proposal, from the backend in context
+ */
+export function useVoteTally(connection: Connection, proposalId: string) {
+  const { backend } = useVeilProofBackend();
+  const [tally, setTally] = useState<VerifiedVoteState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTally(null);
+    setError(null);
+    try {
+      return backend.watchTally(connection, proposalId, setTally, (err) => {
+        console.error("Load tally error:", err);
+        setError(err instanceof Error ? err.message : String(err));
+      });
+    } catch (err) {
+      // Program IDs missing in real mode
+      setError(err instanceof Error ? err.message : String(err));
+      return undefined;
+    }
+  }, [backend, connection, proposalId]);
+
+  return { tally, error };
+}
@@ -0,0 +1,66 @@
+import React, { FC, ReactNode, createContext, useContext, useMemo, useRef, useState } from "react";
+import type { VeilProofBackend } from "./api";
+import { withFaults, type BackendOperation, type FaultPlan, type FaultRule } from "./backends/faults";
+
+interface VeilProofBackendContextValue {
+  // The selected backend, with the current fault plan applied
+  backend: VeilProofBackend;
+  demoMode: boolean;
+  // Only set when both a demo and a real backend were provided
+  setDemoMode?: (enabled: boolean) => void;
+  faults: FaultPlan;
+  setFault: (operation: BackendOperation, rule: FaultRule | undefined) => void;
+}
+
+const VeilProofBackendContext = createContext<VeilProofBackendContextValue | null>(null);
+
+type BackendPair =
+  | { demo: VeilProofBackend; real?: VeilProofBackend }
+  | { demo?: VeilProofBackend; real: VeilProofBackend };
+
+interface VeilProofBackendProviderProps {
+  backends: BackendPair;
+  initialFaults?: FaultPlan;
+  children: ReactNode;
+}
+
+/**
+ * Supplies the backend components call. Starts on `demo` when one is given;
+ * previews and tests can pass a single recorded or scripted backend instead.
+ */
+export const VeilProofBackendProvider: FC<VeilProofBackendProviderProps> = ({
+  backends,
+  initialFaults = {},
+  children,
+}) => {
+  const [demoMode, setDemoModeState] = useState(backends.demo !== undefined);
+  const [faults, setFaults] = useState<FaultPlan>(initialFaults);
+
+  // Read on every call, so toggling a fault does not replace the backend
+  const faultsRef = useRef(faults);
+  faultsRef.current = faults;
+
+  const selected = (demoMode ? backends.demo : backends.real) ?? backends.demo ?? backends.real;
+  const backend = useMemo(() => withFaults(selected!, () => faultsRef.current), [selected]);
+
+  const value = useMemo<VeilProofBackendContextValue>(
+    () => ({
+      backend,
+      demoMode,
+      setDemoMode: backends.demo && backends.real ? setDemoModeState : undefined,
+      faults,
+      setFault: (operation, rule) => setFaults((current) => ({ ...current, [operation]: rule })),
+    }),
+    [backend, demoMode, backends.demo, backends.real, faults]
+  );
+
+  return <VeilProofBackendContext.Provider value={value}>{children}</VeilProofBackendContext.Provider>;
+};
+
+export function useVeilProofBackend(): VeilProofBackendContextValue {
+  const value = useContext(VeilProofBackendContext);
+  if (!value) {
+    throw new Error("useVeilProofBackend must be used inside VeilProofBackendProvider");
+  }
+  return value;
+}
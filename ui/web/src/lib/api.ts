@@ -1,241 +1,663 @@
-import { Connection, PublicKey, Transaction } from "@solana/web3.js";
+import { AddressLookupTableAccount, Connection, PublicKey, Transaction } from "@solana/web3.js";
 import { WalletContextState } from "@solana/wallet-adapter-react";
 import {
   buildVoteInstruction,
   buildEd25519Instruction,
+  buildGroth16VerifierInstruction,
+  buildRegisterIdentityInstruction,
   buildVerifierInstruction,
-  sendAndConfirmTransaction,
+  deriveProposalAddress,
+  fetchIdentity,
+  fetchNullifierTrustModel,
+  fetchProposal,
+  fetchSignerConfig,
+  fetchProposalPage,
+  getProposalStatus,
 } from "./solana";
+import { sendAndConfirmTransaction, type SendOptions, type TransactionSigner } from "./sender";
 import {
+  ATTESTATION_TTL_SLOTS,
   SOLANA_RPC_URL,
-  VERIFIER_SERVICE_URL,
+  LOOKUP_TABLE_ADDRESS,
+  PROVER_SERVICE_URL,
+  RELAYER_URL,
+  VERIFIER_SERVICE_URLS,
+  VERIFIER_PROGRAM_ID,
   VOTE_PROGRAM_ID,
-  DEFAULT_PROPOSAL_ID,
+  VOTE_CHOICE_LABELS,
 } from "./constants";
-import type { ProofData, VerifierAttestation } from "../types";
-
-// Demo mode is the default for hackathon flow; real mode is a stub for later wiring.
-let demoMode = true;
-const forceFailure = {
-  cast: false,
-  proof: false,
-  submit: false,
-};
-
-function sleep(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+import { RelayerClient, VeilProofApiError, VeilProofClient } from "./client";
+import {
+  AttestationVerificationError,
+  attestationsUsable,
+  verifyAttestations,
+  type AttestationPolicy,
+} from "./attestation";
+import { acceptedCircuit, proofWeight, trustModelOf } from "./circuits";
+import { ProofCancelledError, createServiceProver, proveInBrowser, type Prover } from "./prover";
+import {
+  buildEligibilityWitness,
+  computeIdentityCommitment,
+  isMembersOnly,
+  loadEligibilitySnapshot,
+} from "./eligibility";
+import {
+  fetchVerifiedVoteState,
+  subscribeVerifiedVoteState,
+  type VerifiedVoteState,
+} from "./tally";
+import {
+  computeVoteCommitment,
+  deriveVoteTreeAddress,
+  fetchVoteRootShard,
+  fetchVoteTrees,
+  fieldToHex,
+  findVoteMerklePath,
+  openVoteTreeShard,
+} from "./voteTree";
+import type {
+  EligibilitySnapshot,
+  IdentityRegistration,
+  ProofData,
+  Proposal,
+  ProposalListing,
+  ProposalStatus,
+  ProverProgress,
+  TransactionProgress,
+  TrustModel,
+  VerifierAttestation,
+} from "../types";
+
+/**
+ * Thrown when a proof's nullifier has already been recorded on-chain
+ */
+export class NullifierSpentError extends Error {
+  readonly nullifier: string;
+  // How the earlier proof was accepted, when it could be read
+  readonly trustModel?: TrustModel;
+
+  constructor(nullifier: string, trustModel?: TrustModel) {
+    super("This vote has already been proven");
+    this.name = "NullifierSpentError";
+    this.nullifier = nullifier;
+    this.trustModel = trustModel;
+  }
 }
 
-function randomLatency() {
-  return 800 + Math.floor(Math.random() * 700);
+/**
+ * Thrown when voting on a proposal that is not registered or not open
+ */
+export class ProposalNotOpenError extends Error {
+  readonly proposalId: string;
+  readonly status: ProposalStatus | "unknown";
+
+  constructor(proposalId: string, status: ProposalStatus | "unknown") {
+    super(
+      status === "unknown"
+        ? `Proposal #${proposalId} does not exist`
+        : `Proposal #${proposalId} is ${status}, not open for voting`
+    );
+    this.name = "ProposalNotOpenError";
+    this.proposalId = proposalId;
+    this.status = status;
+  }
 }
 
-export function setDemoMode(enabled: boolean) {
-  demoMode = enabled;
+// The relayer answers 409 with this code for a nullifier it or the chain already has
+function isRelayerNullifierSpent(err: unknown): boolean {
+  return (
+    err instanceof VeilProofApiError &&
+    err.status === 409 &&
+    (err.body as { code?: unknown } | undefined)?.code === "nullifier_spent"
+  );
 }
 
-export function setForceFailure(step: "cast" | "proof" | "submit", enabled: boolean) {
-  forceFailure[step] = enabled;
+function isNullifierSpentFailure(err: unknown): boolean {
+  const logs = (err as { logs?: string[] } | null)?.logs ?? [];
+  const message = err instanceof Error ? err.message : String(err);
+  return [message, ...logs].some((line) => line.includes("Nullifier already spent"));
 }
 
-// ============================================================================
-// Real Mode API Functions
-// ============================================================================
+/**
+ * Signers and threshold the verifier program currently accepts
+ */
+export async function fetchAttestationPolicy(connection: Connection): Promise<AttestationPolicy> {
+  const config = await fetchSignerConfig(connection);
+  if (!config) {
+    throw new Error("The verifier program has no attestation signers yet; run `node scripts/signers.js init`");
+  }
+  return config;
+}
 
 export interface VoteContext {
   wallet: WalletContextState;
   connection: Connection;
   proposalId: string;
-  voteChoice?: number; // 1 = YES, 0 = NO
+  voteChoice?: number; // 1 = YES, 0 = NO, 2 = ABSTAIN
+  voterSecret?: string; // Required to cast: hidden inside the vote commitment
+  onTransactionProgress?: (progress: TransactionProgress) => void;
+  // Used in place of wallet.signTransaction, e.g. a `SigningBatch` member
+  signTransaction?: TransactionSigner;
 }
 
 /**
- * Cast a vote on a proposal
- * @returns Transaction signature
+ * Whether the connected wallet can sign v0 transactions. Adapters that do
+ * not declare their supported versions only handle legacy ones.
  */
-export async function castVote(context: VoteContext): Promise<string> {
-  const voteChoice = context.voteChoice ?? 1; // Default to YES
-  if (demoMode) {
-    await sleep(randomLatency());
-    if (forceFailure.cast) {
-      throw new Error("Vote transaction failed");
-    }
-    return "demo_tx_signature_" + Math.random().toString(36).substring(7);
-  }
-
-  const { wallet, connection, proposalId } = context;
+export function supportsVersionedTransactions(wallet: WalletContextState): boolean {
+  return wallet.wallet?.adapter.supportedTransactionVersions?.has(0) ?? false;
+}
 
-  // Note: For now, the Noir circuit only supports YES votes (vote_choice == 1)
-  // To support NO votes, the circuit would need to be updated
+/**
+ * Everything the UI asks of the chain, the prover and the verifier service.
+ * `createRealBackend` talks to devnet; `createDemoBackend` and
+ * `createRecordedBackend` (lib/backends) stand in for it. Components get one
+ * through `VeilProofBackendProvider`.
+ */
+export interface VeilProofBackend {
+  readonly kind: "demo" | "real" | "recorded";
+
+  /**
+   * List one page of proposals with the slot their status was read at
+   * @param cursor - `nextCursor` of the previous page, or 0 for the first page
+   */
+  listProposals(connection: Connection, cursor?: number): Promise<ProposalListing>;
+
+  /**
+   * Cast a vote on a proposal
+   * @returns Transaction signature
+   */
+  castVote(context: VoteContext): Promise<string>;
+
+  /**
+   * Register the voter's identity commitment, so that members-only proposals
+   * snapshotted afterwards can include them. Registering again replaces it.
+   * @returns Transaction signature
+   */
+  registerIdentity(context: VoteContext): Promise<string>;
+
+  /**
+   * Read a wallet's registered identity
+   * @returns null if it never registered
+   */
+  fetchIdentity(connection: Connection, member: PublicKey): Promise<IdentityRegistration | null>;
+
+  /**
+   * Generate ZK proof from a vote transaction
+   * @param transactionSignature - The vote transaction signature
+   * @param proposalId - Proposal ID
+   * @param programId - Program ID
+   * @param voteChoice - Vote choice (1 = YES, 0 = NO, 2 = ABSTAIN)
+   * @param voterSecret - Private secret behind the vote commitment and nullifier
+   * @param connection - RPC connection used to read the vote tree and the proposal
+   * @param onProgress - Receives prover stage updates
+   * @param signal - Cancels proof generation; the call then rejects with ProofCancelledError
+   * @returns Proof data
+   */
+  generateZkProof(
+    transactionSignature: string,
+    proposalId: string,
+    programId: string,
+    voteChoice: number,
+    voterSecret: string,
+    connection: Connection,
+    onProgress?: (progress: ProverProgress) => void,
+    signal?: AbortSignal
+  ): Promise<ProofData>;
+
+  /**
+   * Have every configured verifier instance check a proof and sign an
+   * attestation for it
+   * @param proposalId - Proposal whose vote tree the proof is anchored to
+   * @param connection - Read for the slot VEILPROOF_V2 attestations expire after
+   * @returns The attestations of the instances that accepted it
+   */
+  attestProof(proof: ProofData, proposalId: string, connection: Connection): Promise<VerifierAttestation[]>;
+
+  /**
+   * Submit proof to blockchain via verifier program. Groth16 proofs are
+   * checked by the program itself; others need verifier attestations.
+   * @param attestations - Attestations obtained earlier (e.g. from a proof bundle); fetched when omitted
+   * @returns Transaction signature
+   */
+  submitProof(proof: ProofData, context: VoteContext, attestations?: VerifierAttestation[]): Promise<string>;
+
+  /**
+   * Follow the proven tally for a proposal
+   * @param onChange - Called with the current tally, then on every change
+   * @param onError - Called if the initial read fails
+   * @returns Unsubscribe function
+   */
+  watchTally(
+    connection: Connection,
+    proposalId: string,
+    onChange: (state: VerifiedVoteState) => void,
+    onError?: (err: unknown) => void
+  ): () => void;
+}
 
-  if (!wallet.publicKey) {
-    throw new Error("Wallet not connected");
+/**
+ * Make sure a proposal exists, is open at `slot` and accepts the choice
+ */
+export function assertProposalOpen(
+  proposal: Proposal | null,
+  proposalId: string,
+  slot: number,
+  voteChoice: number
+): void {
+  if (!proposal) {
+    throw new ProposalNotOpenError(proposalId, "unknown");
   }
-
-  if (!wallet.signTransaction) {
-    throw new Error("Wallet does not support signing");
+  const status = getProposalStatus(proposal, slot);
+  if (status !== "open") {
+    throw new ProposalNotOpenError(proposalId, status);
   }
-
-  if (!VOTE_PROGRAM_ID) {
-    throw new Error("Vote program not deployed");
+  if (!proposal.allowedChoices.includes(voteChoice)) {
+    throw new Error(`Proposal #${proposalId} does not accept ${VOTE_CHOICE_LABELS[voteChoice]} votes`);
   }
+}
 
-  // Build vote instruction
-  const instruction = buildVoteInstruction(proposalId, wallet.publicKey);
-
-  // Create transaction
-  const transaction = new Transaction().add(instruction);
-
-  // Send and confirm
-  const signature = await sendAndConfirmTransaction(
-    connection,
-    transaction,
-    wallet.signTransaction,
-    wallet.publicKey
-  );
+// ============================================================================
+// Real Mode
+// ============================================================================
 
-  return signature;
+export interface RealBackendOptions {
+  // Defaults to one client per VITE_VERIFIER_SERVICE_URLS entry
+  verifierClients?: VeilProofClient[];
+  // Defaults to proof jobs on VITE_PROVER_SERVICE_URL, else the in-browser Noir prover
+  prove?: Prover;
+  // Defaults to VITE_RELAYER_URL; null (or no URL) submits with the voter's wallet
+  relayerClient?: RelayerClient | null;
+  // Defaults to VITE_LOOKUP_TABLE_ADDRESS; used for v0 transactions when the wallet supports them
+  lookupTable?: PublicKey | null;
+  // Finds the snapshot behind a members-only proposal's root; defaults to loadEligibilitySnapshot
+  loadEligibilitySnapshot?: (connection: Connection, proposal: Proposal) => Promise<EligibilitySnapshot>;
 }
 
 /**
- * Generate ZK proof from a vote transaction
- * @param transactionSignature - The vote transaction signature
- * @param proposalId - Proposal ID
- * @param programId - Program ID
- * @param voteChoice - Vote choice (1 = YES, 0 = NO)
- * @returns Proof data
+ * Backend for devnet: wallet-signed transactions, the in-browser prover and
+ * the verifier service. A `LocalHarness` can be passed as the options to run
+ * the same code against the in-memory bank and mock services.
  */
-export async function generateZkProof(
-  transactionSignature: string,
-  proposalId: string,
-  programId: string,
-  voteChoice: number = 1
-): Promise<ProofData> {
-  if (demoMode) {
-    await sleep(randomLatency());
-    if (forceFailure.proof) {
-      throw new Error("Proof generation failed");
+export function createRealBackend(options: RealBackendOptions = {}): VeilProofBackend {
+  const verifierClients = options.verifierClients ?? VERIFIER_SERVICE_URLS.map((url) => new VeilProofClient(url));
+  const prove =
+    options.prove ?? (PROVER_SERVICE_URL ? createServiceProver(new VeilProofClient(PROVER_SERVICE_URL)) : proveInBrowser);
+  const relayerClient =
+    options.relayerClient !== undefined ? options.relayerClient : RELAYER_URL ? new RelayerClient(RELAYER_URL) : null;
+
+  const lookupTable = options.lookupTable !== undefined ? options.lookupTable : LOOKUP_TABLE_ADDRESS ?? null;
+  const loadSnapshot = options.loadEligibilitySnapshot ?? ((connection, proposal) => loadEligibilitySnapshot(connection, proposal));
+  let lookupTables: Promise<AddressLookupTableAccount[]> | null = null;
+
+  // Fetched once; a missing table only means bigger transactions
+  function loadLookupTables(connection: Connection): Promise<AddressLookupTableAccount[]> {
+    if (!lookupTable) {
+      return Promise.resolve([]);
     }
-    // Placeholder base64 string; replace with real proof bytes later.
-    return {
-      publicInputs: {
-        expected_program_id: programId,
-        expected_proposal_id: proposalId,
-        raw: "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAcAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAKg==",
-      },
-      proof: "dmVpbHByb29mX2R1bW15X2Jhc2U2NA==",
-      vkHash: "21aad3031ddace2afb225e198b8b807b9384e8dc8f59903a71da07cbf28724f1",
-      meta: {
-        mock: true,
-        note: "Demo mode proof",
-      },
-    };
+    lookupTables ??= connection
+      .getAddressLookupTable(lookupTable)
+      .then(({ value }) => (value ? [value] : []))
+      .catch((err) => {
+        console.warn("Could not load the address lookup table:", err);
+        lookupTables = null;
+        return [];
+      });
+    return lookupTables;
   }
 
-  // Call verifier service /generate-proof endpoint
-  const response = await fetch(`${VERIFIER_SERVICE_URL}/generate-proof`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      proposal_id: proposalId,
-      program_id: programId,
-      vote_choice: voteChoice,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || "Proof generation failed");
+  // v0 with the lookup table where the wallet supports it, legacy otherwise
+  async function sendOptions(context: VoteContext): Promise<SendOptions> {
+    const onProgress = context.onTransactionProgress;
+    if (!supportsVersionedTransactions(context.wallet)) {
+      return { onProgress };
+    }
+    return { onProgress, version: 0, lookupTables: await loadLookupTables(context.connection) };
   }
 
-  const data = await response.json();
-  return data.proof;
-}
-
-/**
- * Submit proof to blockchain via verifier program
- * @param proof - The proof data
- * @param context - Wallet and connection context
- * @returns Transaction signature
- */
-export async function submitProof(
-  proof: ProofData,
-  context: VoteContext
-): Promise<string> {
-  if (demoMode) {
-    await sleep(randomLatency());
-    if (forceFailure.submit) {
-      throw new Error("Proof submission failed");
+  // Ask every instance at once; one that is down or refuses only matters if too few are left.
+  // They are all given the same expiry, so their VEILPROOF_V2 attestations sign one message.
+  async function requestAttestations(proof: ProofData, proposalId: string, needed: number, connection: Connection) {
+    const shard = await fetchVoteRootShard(connection, proposalId, proof.publicInputs.vote_root);
+    const options = {
+      voteTreeAddress: deriveVoteTreeAddress(proposalId, shard).toBase58(),
+      proposalAddress: deriveProposalAddress(proposalId).toBase58(),
+      expirySlot: String((await connection.getSlot("confirmed")) + ATTESTATION_TTL_SLOTS),
+      verifierProgramId: VERIFIER_PROGRAM_ID?.toBase58(),
+    };
+    const results = await Promise.allSettled(verifierClients.map((client) => client.verify(proof, options)));
+    const attestations = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+    if (attestations.length < needed && failure) {
+      throw failure.reason;
     }
-    return "demo_verify_tx_" + Math.random().toString(36).substring(7);
+    return attestations;
   }
 
-  const { wallet, connection, proposalId } = context;
+  const attestProof = (proof: ProofData, proposalId: string, connection: Connection) =>
+    requestAttestations(proof, proposalId, 1, connection);
 
-  if (!wallet.publicKey) {
-    throw new Error("Wallet not connected");
-  }
+  // The trustless path: one VerifyGroth16 instruction carrying the proof itself
+  async function submitGroth16Proof(proof: ProofData, context: VoteContext): Promise<string> {
+    const { wallet, connection, proposalId } = context;
+    const { nullifier } = proof.publicInputs;
+    if (proof.publicInputs.expected_proposal_id !== proposalId) {
+      throw new Error("Proof was generated for a different proposal");
+    }
+    const shard = await fetchVoteRootShard(connection, proposalId, proof.publicInputs.vote_root);
+
+    if (relayerClient) {
+      try {
+        const { signature } = await relayerClient.relayGroth16(proof, shard);
+        context.onTransactionProgress?.({
+          stage: "confirmed",
+          signature,
+          attempt: 1,
+          message: "Confirmed by the relayer",
+        });
+        return signature;
+      } catch (err) {
+        if (isRelayerNullifierSpent(err)) {
+          throw new NullifierSpentError(nullifier);
+        }
+        throw err;
+      }
+    }
+    if (!wallet.publicKey || !wallet.signTransaction) {
+      throw new Error("Wallet not connected");
+    }
 
-  if (!wallet.signTransaction) {
-    throw new Error("Wallet does not support signing");
+    const verifierIx = buildGroth16VerifierInstruction(
+      proposalId,
+      proof.publicInputs.expected_program_id,
+      Number(proof.publicInputs.vote_choice),
+      nullifier,
+      proof.publicInputs.vote_root,
+      Buffer.from(proof.proof, "base64"),
+      wallet.publicKey,
+      proofWeight(proof.publicInputs),
+      shard
+    );
+    try {
+      return await sendAndConfirmTransaction(
+        connection,
+        new Transaction().add(verifierIx),
+        context.signTransaction ?? wallet.signTransaction,
+        wallet.publicKey,
+        await sendOptions(context)
+      );
+    } catch (err) {
+      if (isNullifierSpentFailure(err)) {
+        throw new NullifierSpentError(nullifier);
+      }
+      throw err;
+    }
   }
 
-  // Step 1: Get signed attestation from verifier service
-  const verifyResponse = await fetch(`${VERIFIER_SERVICE_URL}/verify`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
+  return {
+    kind: "real",
+
+    async listProposals(connection, cursor = 0) {
+      const [page, slot] = await Promise.all([
+        fetchProposalPage(connection, cursor),
+        connection.getSlot("confirmed"),
+      ]);
+      return { ...page, slot };
     },
-    body: JSON.stringify({
-      proof_bytes_base64: proof.proof,
-      public_inputs_json: proof.publicInputs,
-      vk_hash_hex: proof.vkHash,
-      expected_program_id: proof.publicInputs.expected_program_id,
-      expected_proposal_id: proof.publicInputs.expected_proposal_id,
-    }),
-  });
-
-  if (!verifyResponse.ok) {
-    const error = await verifyResponse.json();
-    throw new Error(error.error || "Proof verification failed");
-  }
 
-  const attestation: VerifierAttestation = await verifyResponse.json();
-
-  // Step 2: Build Ed25519 instruction for signature verification
-  const signerPubkey = Buffer.from(attestation.attestation.signer_pubkey_hex, "hex");
-  const signature = Buffer.from(attestation.signature_base64, "base64");
-  const messageHash = Buffer.from(attestation.attestation.message_hash_hex, "hex");
-
-  const ed25519Ix = buildEd25519Instruction(signerPubkey, signature, messageHash);
-
-  // Step 3: Build verifier program instruction
-  // Note: We only send attestation data, not the full proof (too large for Solana tx)
-  const verifierIx = buildVerifierInstruction(
-    proposalId,
-    proof.publicInputs.expected_program_id,
-    attestation.attestation.vk_hash_hex,
-    attestation.attestation.public_inputs_hash_hex,
-    attestation.signature_base64,
-    "", // Empty proof - not needed on-chain, verified off-chain
-    wallet.publicKey
-  );
+    async castVote(context) {
+      const { wallet, connection, proposalId, voterSecret } = context;
+      const voteChoice = context.voteChoice ?? 1; // Default to YES
+      const [proposal, slot] = await Promise.all([
+        fetchProposal(connection, proposalId),
+        connection.getSlot("confirmed"),
+      ]);
+      assertProposalOpen(proposal, proposalId, slot, voteChoice);
+
+      if (!wallet.publicKey) {
+        throw new Error("Wallet not connected");
+      }
+
+      if (!wallet.signTransaction) {
+        throw new Error("Wallet does not support signing");
+      }
+
+      if (!VOTE_PROGRAM_ID) {
+        throw new Error("Vote program not deployed");
+      }
+
+      if (!voterSecret) {
+        throw new Error("Voter secret is required to cast a vote");
+      }
+
+      // A vote that could never be proven is not worth a transaction
+      if (proposal && isMembersOnly(proposal)) {
+        buildEligibilityWitness(proposal, voterSecret, await loadSnapshot(connection, proposal));
+      }
+
+      // Build vote instruction
+      const commitment = computeVoteCommitment(voterSecret, proposalId, voteChoice);
+      const shard = openVoteTreeShard(await fetchVoteTrees(connection, proposalId));
+      const instruction = buildVoteInstruction(proposalId, fieldToHex(commitment), wallet.publicKey, shard);
+
+      // Create transaction
+      const transaction = new Transaction().add(instruction);
+
+      // Send and confirm
+      const signature = await sendAndConfirmTransaction(
+        connection,
+        transaction,
+        context.signTransaction ?? wallet.signTransaction,
+        wallet.publicKey,
+        await sendOptions(context)
+      );
+
+      return signature;
+    },
 
-  // Step 4: Create and send transaction with both instructions
-  const transaction = new Transaction();
-  transaction.add(ed25519Ix);
-  transaction.add(verifierIx);
+    async registerIdentity(context) {
+      const { wallet, connection, voterSecret } = context;
+      if (!wallet.publicKey || !wallet.signTransaction) {
+        throw new Error("Wallet not connected");
+      }
+      if (!voterSecret) {
+        throw new Error("Voter secret is required to register");
+      }
+
+      const commitment = fieldToHex(computeIdentityCommitment(voterSecret));
+      return sendAndConfirmTransaction(
+        connection,
+        new Transaction().add(buildRegisterIdentityInstruction(commitment, wallet.publicKey)),
+        context.signTransaction ?? wallet.signTransaction,
+        wallet.publicKey,
+        await sendOptions(context)
+      );
+    },
 
-  const txSignature = await sendAndConfirmTransaction(
-    connection,
-    transaction,
-    wallet.signTransaction,
-    wallet.publicKey
-  );
+    fetchIdentity,
+
+    async generateZkProof(transactionSignature, proposalId, programId, voteChoice, voterSecret, connection, onProgress, signal) {
+      const commitment = computeVoteCommitment(voterSecret, proposalId, voteChoice);
+
+      // The proof must be anchored to a vote that actually landed
+      const status = await connection.getSignatureStatus(transactionSignature, {
+        searchTransactionHistory: true,
+      });
+      if (status.value?.err || !status.value?.confirmationStatus) {
+        throw new Error("Vote transaction is not confirmed");
+      }
+
+      onProgress?.({ stage: "loading-circuit", message: "Reading the on-chain vote tree", fraction: 0 });
+      const [trees, proposal] = await Promise.all([
+        fetchVoteTrees(connection, proposalId),
+        fetchProposal(connection, proposalId),
+      ]);
+      if (!proposal) {
+        throw new ProposalNotOpenError(proposalId, "unknown");
+      }
+      const { leafIndex, path, root } = findVoteMerklePath(trees, commitment);
+      // Members-only proposals also need the voter's place in the eligibility tree
+      const eligibility = buildEligibilityWitness(
+        proposal,
+        voterSecret,
+        isMembersOnly(proposal) ? await loadSnapshot(connection, proposal) : null
+      );
+      if (signal?.aborted) {
+        throw new ProofCancelledError();
+      }
+
+      // In the browser unless a prover service is configured, which sees the private inputs
+      return prove(
+        {
+          program_id: programId,
+          proposal_id: proposalId,
+          vote_choice: voteChoice,
+          voter_secret: voterSecret,
+          leaf_index: leafIndex,
+          merkle_path: path.map((node) => "0x" + fieldToHex(node)),
+          expected_program_id: programId,
+          expected_proposal_id: proposalId,
+          vote_root: "0x" + fieldToHex(root),
+          ...eligibility,
+        },
+        onProgress,
+        signal
+      );
+    },
 
-  return txSignature;
+    attestProof,
+
+    async submitProof(proof, context, bundledAttestations) {
+      const { wallet, connection, proposalId } = context;
+
+      // A relayer signs and pays instead, so the wallet is not needed at all
+      if (!relayerClient) {
+        if (!wallet.publicKey) {
+          throw new Error("Wallet not connected");
+        }
+
+        if (!wallet.signTransaction) {
+          throw new Error("Wallet does not support signing");
+        }
+      }
+
+      // Fail fast if this nullifier was already recorded
+      const nullifier = proof.publicInputs.nullifier;
+      const spentBy = await fetchNullifierTrustModel(connection, nullifier);
+      if (spentBy) {
+        throw new NullifierSpentError(nullifier, spentBy);
+      }
+
+      if (trustModelOf(acceptedCircuit(proof.circuitId)) === "groth16") {
+        return submitGroth16Proof(proof, context);
+      }
+
+      // Before any verifier is asked to attest a proof that cannot be used here
+      if (proof.publicInputs.expected_proposal_id !== proposalId) {
+        throw new AttestationVerificationError("Proof was generated for a different proposal");
+      }
+
+      // Step 1: Get signed attestations from enough verifier instances
+      const policy = await fetchAttestationPolicy(connection);
+      const usable =
+        bundledAttestations?.length &&
+        attestationsUsable(bundledAttestations, policy, await connection.getSlot("confirmed"));
+      const attestations: VerifierAttestation[] = usable
+        ? bundledAttestations
+        : await requestAttestations(proof, proposalId, policy.threshold, connection);
+
+      // Step 2: Check the attestations locally before paying for a transaction.
+      // Only `threshold` of them go on chain, to keep the transaction small.
+      const verified = verifyAttestations(proof, attestations, policy);
+      const messageHash = verified.messageHash;
+      const accepted = verified.attestations.slice(0, policy.threshold);
+
+      // The relayer builds the same two instructions with itself as fee payer
+      if (relayerClient) {
+        try {
+          const { signature } = await relayerClient.relay(accepted);
+          context.onTransactionProgress?.({
+            stage: "confirmed",
+            signature,
+            attempt: 1,
+            message: "Confirmed by the relayer",
+          });
+          return signature;
+        } catch (err) {
+          if (isRelayerNullifierSpent(err)) {
+            throw new NullifierSpentError(nullifier);
+          }
+          throw err;
+        }
+      }
+      if (!wallet.publicKey || !wallet.signTransaction) {
+        throw new Error("Wallet not connected");
+      }
+
+      // Step 3: Build Ed25519 instruction for signature verification
+      const ed25519Ix = buildEd25519Instruction(
+        accepted.map((attestation) => ({
+          publicKey: Buffer.from(attestation.attestation.signer_pubkey_hex, "hex"),
+          signature: Buffer.from(attestation.signature_base64, "base64"),
+        })),
+        messageHash
+      );
+
+      // Step 4: Build verifier program instruction
+      // Note: We only send attestation data and the proof hash, not the full proof (too large for Solana tx)
+      const verifierIx = buildVerifierInstruction(
+        proposalId,
+        proof.publicInputs.expected_program_id,
+        Number(proof.publicInputs.vote_choice),
+        nullifier,
+        proof.publicInputs.vote_root,
+        accepted[0].attestation.vk_hash_hex,
+        accepted[0].attestation.public_inputs_hash_hex,
+        accepted[0].attestation.proof_hash_hex,
+        wallet.publicKey,
+        proofWeight(proof.publicInputs),
+        accepted[0].attestation.expiry_slot
+      );
+
+      // Step 5: Create and send transaction with both instructions
+      const transaction = new Transaction();
+      transaction.add(ed25519Ix);
+      transaction.add(verifierIx);
+
+      try {
+        return await sendAndConfirmTransaction(
+          connection,
+          transaction,
+          context.signTransaction ?? wallet.signTransaction,
+          wallet.publicKey,
+          await sendOptions(context)
+        );
+      } catch (err) {
+        // Lost a race with another submission of the same vote
+        if (isNullifierSpentFailure(err)) {
+          throw new NullifierSpentError(nullifier);
+        }
+        throw err;
+      }
+    },
+
+    watchTally(connection, proposalId, onChange, onError) {
+      // Subscribe before the initial read so no update can slip in between
+      let latestSeen = false;
+      const unsubscribe = subscribeVerifiedVoteState(connection, proposalId, (state) => {
+        latestSeen = true;
+        onChange(state);
+      });
+      fetchVerifiedVoteState(connection, proposalId)
+        .then((state) => {
+          if (!latestSeen) {
+            onChange(state);
+          }
+        })
+        .catch((err) => onError?.(err));
+      return unsubscribe;
+    },
+  };
 }
 
 // ============================================================================
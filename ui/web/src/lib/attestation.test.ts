@@ -0,0 +1,115 @@
+import { ed25519 } from "@noble/curves/ed25519";
+import { PublicKey } from "@solana/web3.js";
+import { describe, expect, it } from "vitest";
+import {
+  AttestationVerificationError,
+  InsufficientAttestationsError,
+  computeMessageHash,
+  verifyAttestationMessages,
+  type AttestationPolicy,
+  type MessageDomain,
+} from "./attestation";
+import { VERIFIER_PROGRAM_ID } from "./constants";
+import type { VerifierAttestation } from "../types";
+
+const GENESIS_HASH = new PublicKey(Buffer.alloc(32, 9)).toBase58();
+const DOMAIN: MessageDomain = {
+  expirySlot: "5000",
+  verifierProgramId: (VERIFIER_PROGRAM_ID ?? new PublicKey(Buffer.alloc(32, 4))).toBase58(),
+  genesisHash: GENESIS_HASH,
+};
+
+const SECRET_KEYS = [1, 2, 3].map((n) => new Uint8Array(32).fill(n));
+const SIGNERS = SECRET_KEYS.map((key) => Buffer.from(ed25519.getPublicKey(key)).toString("hex"));
+
+function policy(threshold: number): AttestationPolicy {
+  return { signers: SIGNERS, threshold, attestationDomain: { genesisHash: GENESIS_HASH, v1UntilSlot: 1000 } };
+}
+
+// What a verifier instance answers for one fixed proof, over either message version
+function attest(secretKey: Uint8Array, domain?: MessageDomain): VerifierAttestation {
+  const fields = {
+    expected_program_id: "7",
+    expected_proposal_id: "42",
+    vote_choice: "1",
+    nullifier_hex: "11".repeat(32),
+    vote_root_hex: "22".repeat(32),
+    vk_hash_hex: "33".repeat(32),
+  };
+  const { messageHash, proofHash, publicInputsHash } = computeMessageHash({
+    expectedProgramId: fields.expected_program_id,
+    expectedProposalId: fields.expected_proposal_id,
+    voteChoice: Number(fields.vote_choice),
+    nullifier: Buffer.from(fields.nullifier_hex, "hex"),
+    voteRoot: Buffer.from(fields.vote_root_hex, "hex"),
+    vkHash: Buffer.from(fields.vk_hash_hex, "hex"),
+    proofBytes: Buffer.alloc(64, 5),
+    publicInputsCanonical: "{}",
+    domain,
+  });
+  return {
+    ok: true,
+    attestation: {
+      scheme: "ed25519",
+      signer_pubkey_hex: Buffer.from(ed25519.getPublicKey(secretKey)).toString("hex"),
+      message_hash_hex: messageHash.toString("hex"),
+      ...fields,
+      proof_hash_hex: proofHash.toString("hex"),
+      public_inputs_hash_hex: publicInputsHash.toString("hex"),
+      ...(domain
+        ? {
+            message_version: 2,
+            expiry_slot: domain.expirySlot,
+            verifier_program_id: domain.verifierProgramId,
+            genesis_hash: domain.genesisHash,
+          }
+        : {}),
+    },
+    signature_base64: Buffer.from(ed25519.sign(messageHash, secretKey)).toString("base64"),
+  };
+}
+
+describe("verifyAttestationMessages", () => {
+  it("keeps the VEILPROOF_V2 attestations when they meet the threshold among V1 ones", () => {
+    const [a, b, c] = SECRET_KEYS;
+    const v2 = [attest(b, DOMAIN), attest(c, DOMAIN)];
+    const verified = verifyAttestationMessages([attest(a), ...v2], policy(2));
+    expect(verified.attestations).toEqual(v2);
+    expect(verified.messageHash.toString("hex")).toBe(v2[0].attestation.message_hash_hex);
+  });
+
+  it("keeps the first threshold of distinct trusted signers", () => {
+    const [a, b, c] = SECRET_KEYS;
+    const verified = verifyAttestationMessages([attest(a), attest(a), attest(b), attest(c)], policy(2));
+    expect(verified.attestations.map((response) => response.attestation.signer_pubkey_hex)).toEqual(SIGNERS);
+  });
+
+  it("skips signers outside the config and attestations that fail their checks", () => {
+    const [a, b, c] = SECRET_KEYS;
+    const outsider = attest(new Uint8Array(32).fill(9));
+    const forged = { ...attest(a), signature_base64: attest(b).signature_base64 };
+    const verified = verifyAttestationMessages([outsider, forged, attest(b), attest(c)], policy(2));
+    expect(verified.attestations.map((response) => response.attestation.signer_pubkey_hex)).toEqual(SIGNERS.slice(1));
+  });
+
+  it("counts signers per message", () => {
+    const [a, b] = SECRET_KEYS;
+    expect(() => verifyAttestationMessages([attest(a), attest(b, DOMAIN)], policy(2))).toThrow(
+      new InsufficientAttestationsError(1, 2)
+    );
+  });
+
+  it("reports why attestations failed when none verify", () => {
+    const [a] = SECRET_KEYS;
+    const forged = { ...attest(a), signature_base64: Buffer.alloc(64).toString("base64") };
+    expect(() => verifyAttestationMessages([forged], policy(1))).toThrow(AttestationVerificationError);
+  });
+
+  it("refuses V2 attestations for another cluster", () => {
+    const [a, b] = SECRET_KEYS;
+    const elsewhere = { ...DOMAIN, genesisHash: new PublicKey(Buffer.alloc(32, 8)).toBase58() };
+    expect(() => verifyAttestationMessages([attest(a, elsewhere), attest(b, elsewhere)], policy(2))).toThrow(
+      "Attestation is for cluster"
+    );
+  });
+});
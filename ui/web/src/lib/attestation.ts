@@ -0,0 +1,432 @@
+import { ed25519 } from "@noble/curves/ed25519";
+import { sha256 } from "@noble/hashes/sha2";
+import bs58 from "bs58";
+import { proofWeight } from "./circuits";
+import { VERIFIER_PROGRAM_ID } from "./constants";
+import type { ProofData, SignerConfig, VerifierAttestation } from "../types";
+
+/**
+ * Thrown when a verifier attestation does not match the proof it claims to cover
+ */
+export class AttestationVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttestationVerificationError";
+  }
+}
+
+/**
+ * Thrown when fewer distinct trusted signers attested a proof than the
+ * verifier program's threshold
+ */
+export class InsufficientAttestationsError extends Error {
+  readonly found: number;
+  readonly threshold: number;
+
+  constructor(found: number, threshold: number) {
+    super(`Only ${found} of ${threshold} required verifier signatures`);
+    this.name = "InsufficientAttestationsError";
+    this.found = found;
+    this.threshold = threshold;
+  }
+}
+
+// The part of the on-chain signer config attestations are checked against
+export type AttestationPolicy = Pick<SignerConfig, "signers" | "threshold" | "attestationDomain">;
+
+export interface VerifiedAttestations {
+  // The message every accepted attestation signs
+  messageHash: Buffer;
+  // One per distinct trusted signer, in the order given
+  attestations: VerifierAttestation[];
+}
+
+export interface MessageHashInput {
+  expectedProgramId: string;
+  expectedProposalId: string;
+  voteChoice: number;
+  nullifier: Buffer;
+  voteRoot: Buffer;
+  vkHash: Buffer;
+  proofBytes: Buffer;
+  publicInputsCanonical: string;
+  // Decimal u64; appended to a VEILPROOF_V1 message only when it is not 1
+  weight?: string;
+  // Makes the message VEILPROOF_V2
+  domain?: MessageDomain;
+}
+
+// Where and until when a VEILPROOF_V2 attestation can be used
+export interface MessageDomain {
+  expirySlot: string; // decimal u64, the last slot it is accepted at
+  verifierProgramId: string; // base58
+  genesisHash: string; // base58, the cluster's
+}
+
+export interface MessageHashOutput {
+  messageHash: Buffer;
+  proofHash: Buffer;
+  publicInputsHash: Buffer;
+}
+
+function sha256Buf(data: Uint8Array): Buffer {
+  return Buffer.from(sha256(data));
+}
+
+function u64Le(value: string): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64LE(BigInt(value));
+  return buf;
+}
+
+function base58Bytes32(field: string, value: string): Buffer {
+  let bytes: Uint8Array;
+  try {
+    bytes = bs58.decode(value);
+  } catch {
+    throw new AttestationVerificationError(`Attestation ${field} is not base58`);
+  }
+  if (bytes.length !== 32) {
+    throw new AttestationVerificationError(`Attestation ${field} must be 32 bytes`);
+  }
+  return Buffer.from(bytes);
+}
+
+// Fields before the weight, shared by both message versions
+interface MessageFields {
+  expectedProgramId: string;
+  expectedProposalId: string;
+  voteChoice: number;
+  nullifier: Buffer;
+  voteRoot: Buffer;
+  vkHash: Buffer;
+  proofHash: Buffer;
+  publicInputsHash: Buffer;
+  weight: string;
+  domain?: MessageDomain;
+}
+
+// VEILPROOF_V1 weighted votes append their weight, a weight of 1 leaving the
+// message as it was; VEILPROOF_V2 always has it, then the domain
+function buildMessage(fields: MessageFields): Buffer {
+  const { weight, domain } = fields;
+  const tail = domain
+    ? [
+        u64Le(weight),
+        u64Le(domain.expirySlot),
+        base58Bytes32("verifier program ID", domain.verifierProgramId),
+        base58Bytes32("genesis hash", domain.genesisHash),
+      ]
+    : BigInt(weight) === 1n
+      ? []
+      : [u64Le(weight)];
+  return Buffer.concat([
+    Buffer.from(domain ? "VEILPROOF_V2" : "VEILPROOF_V1", "utf8"),
+    u64Le(fields.expectedProgramId),
+    u64Le(fields.expectedProposalId),
+    Buffer.from([fields.voteChoice]),
+    fields.nullifier,
+    fields.voteRoot,
+    fields.vkHash,
+    fields.proofHash,
+    fields.publicInputsHash,
+    ...tail,
+  ]);
+}
+
+/**
+ * The domain a VEILPROOF_V2 attestation names
+ * @returns undefined for VEILPROOF_V1 attestations
+ */
+export function attestedDomain({ attestation }: VerifierAttestation): MessageDomain | undefined {
+  if (attestation.message_version === undefined || attestation.message_version === 1) {
+    return undefined;
+  }
+  if (
+    attestation.message_version !== 2 ||
+    attestation.expiry_slot === undefined ||
+    attestation.verifier_program_id === undefined ||
+    attestation.genesis_hash === undefined
+  ) {
+    throw new AttestationVerificationError(`Unsupported attestation message version ${attestation.message_version}`);
+  }
+  return {
+    expirySlot: attestation.expiry_slot,
+    verifierProgramId: attestation.verifier_program_id,
+    genesisHash: attestation.genesis_hash,
+  };
+}
+
+/**
+ * Mirrors canonicalizeJson in verifier_service/index.js
+ */
+export function canonicalizeJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalizeJson).join(",")}]`;
+  }
+  const obj = value as Record<string, unknown>;
+  const entries = Object.keys(obj)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalizeJson(obj[key])}`);
+  return `{${entries.join(",")}}`;
+}
+
+/**
+ * Rebuild the VEILPROOF_V1 message hash, or the VEILPROOF_V2 one when a domain is given.
+ * Must match computeMessageHash in verifier_service/index.js and the verifier program.
+ */
+export function computeMessageHash({
+  expectedProgramId,
+  expectedProposalId,
+  voteChoice,
+  nullifier,
+  voteRoot,
+  vkHash,
+  proofBytes,
+  publicInputsCanonical,
+  weight = "1",
+  domain,
+}: MessageHashInput): MessageHashOutput {
+  const proofHash = sha256Buf(proofBytes);
+  const publicInputsHash = sha256Buf(Buffer.from(publicInputsCanonical, "utf8"));
+  const message = buildMessage({
+    expectedProgramId,
+    expectedProposalId,
+    voteChoice,
+    nullifier,
+    voteRoot,
+    vkHash,
+    proofHash,
+    publicInputsHash,
+    weight,
+    domain,
+  });
+  return {
+    messageHash: sha256Buf(message),
+    proofHash,
+    publicInputsHash,
+  };
+}
+
+function expectEqual(field: string, actual: string, expected: string) {
+  if (actual.toLowerCase() !== expected.toLowerCase()) {
+    throw new AttestationVerificationError(`Attestation ${field} mismatch`);
+  }
+}
+
+/**
+ * Check a verifier attestation against the proof it was issued for.
+ * Recomputes every hash locally, pins the signer and verifies the ed25519 signature.
+ * @returns The locally computed message hash to embed in the ed25519 instruction
+ */
+export function verifyAttestation(
+  proof: ProofData,
+  response: VerifierAttestation,
+  trustedSigners: string[]
+): Buffer {
+  const { attestation } = response;
+
+  if (attestation.scheme !== "ed25519") {
+    throw new AttestationVerificationError(`Unsupported attestation scheme "${attestation.scheme}"`);
+  }
+
+  const signer = attestation.signer_pubkey_hex.toLowerCase();
+  if (!trustedSigners.includes(signer)) {
+    throw new AttestationVerificationError(`Attestation signer ${signer} is not trusted`);
+  }
+
+  expectEqual("program ID", attestation.expected_program_id, proof.publicInputs.expected_program_id);
+  expectEqual("proposal ID", attestation.expected_proposal_id, proof.publicInputs.expected_proposal_id);
+  expectEqual("vote choice", attestation.vote_choice, proof.publicInputs.vote_choice);
+  expectEqual("nullifier", attestation.nullifier_hex, proof.publicInputs.nullifier);
+  expectEqual("vote root", attestation.vote_root_hex, proof.publicInputs.vote_root);
+  expectEqual("vk hash", attestation.vk_hash_hex, proof.vkHash);
+  expectEqual("weight", attestation.weight ?? "1", proofWeight(proof.publicInputs));
+
+  const { messageHash, proofHash, publicInputsHash } = computeMessageHash({
+    expectedProgramId: proof.publicInputs.expected_program_id,
+    expectedProposalId: proof.publicInputs.expected_proposal_id,
+    voteChoice: Number(proof.publicInputs.vote_choice),
+    nullifier: Buffer.from(proof.publicInputs.nullifier, "hex"),
+    voteRoot: Buffer.from(proof.publicInputs.vote_root, "hex"),
+    vkHash: Buffer.from(proof.vkHash, "hex"),
+    proofBytes: Buffer.from(proof.proof, "base64"),
+    publicInputsCanonical: canonicalizeJson(proof.publicInputs),
+    weight: proofWeight(proof.publicInputs),
+    domain: attestedDomain(response),
+  });
+
+  expectEqual("proof hash", attestation.proof_hash_hex, proofHash.toString("hex"));
+  expectEqual("public inputs hash", attestation.public_inputs_hash_hex, publicInputsHash.toString("hex"));
+  expectEqual("message hash", attestation.message_hash_hex, messageHash.toString("hex"));
+
+  checkSignature(response, messageHash);
+  return messageHash;
+}
+
+function checkSignature(response: VerifierAttestation, messageHash: Buffer) {
+  const signature = Buffer.from(response.signature_base64, "base64");
+  if (signature.length !== 64) {
+    throw new AttestationVerificationError("Attestation signature must be 64 bytes");
+  }
+
+  let valid = false;
+  try {
+    valid = ed25519.verify(signature, messageHash, Buffer.from(response.attestation.signer_pubkey_hex, "hex"));
+  } catch {
+    valid = false;
+  }
+  if (!valid) {
+    throw new AttestationVerificationError("Attestation signature is invalid");
+  }
+}
+
+/**
+ * Check an attestation without its proof, as a relayer does: the message hash
+ * is rebuilt from the attested proof and public inputs hashes.
+ * Mirrors checkAttestation in relayer_service/index.js.
+ * @returns The message hash the ed25519 instruction must carry
+ */
+export function verifyAttestationMessage(response: VerifierAttestation, trustedSigners: string[]): Buffer {
+  const { attestation } = response;
+
+  if (attestation.scheme !== "ed25519") {
+    throw new AttestationVerificationError(`Unsupported attestation scheme "${attestation.scheme}"`);
+  }
+
+  const signer = attestation.signer_pubkey_hex.toLowerCase();
+  if (!trustedSigners.includes(signer)) {
+    throw new AttestationVerificationError(`Attestation signer ${signer} is not trusted`);
+  }
+
+  const messageHash = sha256Buf(
+    buildMessage({
+      expectedProgramId: attestation.expected_program_id,
+      expectedProposalId: attestation.expected_proposal_id,
+      voteChoice: Number(attestation.vote_choice),
+      nullifier: Buffer.from(attestation.nullifier_hex, "hex"),
+      voteRoot: Buffer.from(attestation.vote_root_hex, "hex"),
+      vkHash: Buffer.from(attestation.vk_hash_hex, "hex"),
+      proofHash: Buffer.from(attestation.proof_hash_hex, "hex"),
+      publicInputsHash: Buffer.from(attestation.public_inputs_hash_hex, "hex"),
+      weight: attestation.weight ?? "1",
+      domain: attestedDomain(response),
+    })
+  );
+  expectEqual("message hash", attestation.message_hash_hex, messageHash.toString("hex"));
+
+  checkSignature(response, messageHash);
+  return messageHash;
+}
+
+/**
+ * Whether attestations kept from earlier are still accepted at `slot`:
+ * VEILPROOF_V2 ones expire, and VEILPROOF_V1 ones are refused once the
+ * program's migration window closes
+ */
+export function attestationsUsable(attestations: VerifierAttestation[], policy: AttestationPolicy, slot: number): boolean {
+  return attestations.every((response) => {
+    const domain = attestedDomain(response);
+    if (domain) {
+      return BigInt(slot) <= BigInt(domain.expirySlot);
+    }
+    return !policy.attestationDomain || slot < policy.attestationDomain.v1UntilSlot;
+  });
+}
+
+function isUntrustedSigner(response: VerifierAttestation, signers: string[]): boolean {
+  return !signers.includes(response.attestation.signer_pubkey_hex.toLowerCase());
+}
+
+// The verifier program refuses VEILPROOF_V2 attestations made for another
+// deployment or cluster; expiry is left to it, as only it knows the slot
+function checkDomain(domain: MessageDomain, policy: AttestationPolicy) {
+  if (VERIFIER_PROGRAM_ID && domain.verifierProgramId !== VERIFIER_PROGRAM_ID.toBase58()) {
+    throw new AttestationVerificationError(
+      `Attestation is for verifier program ${domain.verifierProgramId}, not ${VERIFIER_PROGRAM_ID.toBase58()}`
+    );
+  }
+  if (!policy.attestationDomain) {
+    throw new AttestationVerificationError("The verifier program has no attestation domain for VEILPROOF_V2 attestations");
+  }
+  if (domain.genesisHash !== policy.attestationDomain.genesisHash) {
+    throw new AttestationVerificationError(`Attestation is for cluster ${domain.genesisHash}, not this one`);
+  }
+}
+
+// Attestations are grouped by the message they sign, and the first group
+// with `policy.threshold` distinct trusted signers is kept. Attestations from
+// signers outside the policy, or that fail verification, are dropped, so a
+// verifier that was rotated out or answers wrongly, or a mix of VEILPROOF_V1
+// and V2 answers, does not spoil a set that still meets the threshold.
+function collectThreshold(
+  responses: VerifierAttestation[],
+  policy: AttestationPolicy,
+  verifyOne: (response: VerifierAttestation) => Buffer
+): VerifiedAttestations {
+  const signers = policy.signers.map((signer) => signer.toLowerCase());
+  const groups = new Map<string, { messageHash: Buffer; accepted: Map<string, VerifierAttestation> }>();
+  let firstFailure: unknown;
+
+  for (const response of responses) {
+    if (isUntrustedSigner(response, signers)) {
+      continue;
+    }
+    let hash: Buffer;
+    try {
+      hash = verifyOne(response);
+      const domain = attestedDomain(response);
+      if (domain) {
+        checkDomain(domain, policy);
+      }
+    } catch (err) {
+      firstFailure ??= err;
+      continue;
+    }
+    const key = hash.toString("hex");
+    const group = groups.get(key) ?? { messageHash: hash, accepted: new Map<string, VerifierAttestation>() };
+    groups.set(key, group);
+    const signer = response.attestation.signer_pubkey_hex.toLowerCase();
+    if (!group.accepted.has(signer)) {
+      group.accepted.set(signer, response);
+    }
+  }
+
+  const met = [...groups.values()].find((group) => group.accepted.size >= policy.threshold);
+  if (met) {
+    return { messageHash: met.messageHash, attestations: [...met.accepted.values()] };
+  }
+  // With nothing verified, why the attestations failed says more than a count
+  if (groups.size === 0 && firstFailure) {
+    throw firstFailure;
+  }
+  const found = Math.max(0, ...[...groups.values()].map((group) => group.accepted.size));
+  throw new InsufficientAttestationsError(found, policy.threshold);
+}
+
+/**
+ * Check attestations from several verifier instances against one proof, as
+ * `verifyAttestation` does for each
+ * @throws InsufficientAttestationsError if fewer than `policy.threshold` distinct trusted signers remain
+ */
+export function verifyAttestations(
+  proof: ProofData,
+  responses: VerifierAttestation[],
+  policy: AttestationPolicy
+): VerifiedAttestations {
+  return collectThreshold(responses, policy, (response) => verifyAttestation(proof, response, policy.signers));
+}
+
+/**
+ * `verifyAttestationMessage` for a set of attestations, as a relayer checks them.
+ * Mirrors checkAttestations in relayer_service/index.js.
+ */
+export function verifyAttestationMessages(
+  responses: VerifierAttestation[],
+  policy: AttestationPolicy
+): VerifiedAttestations {
+  return collectThreshold(responses, policy, (response) => verifyAttestationMessage(response, policy.signers));
+}
@@ -0,0 +1,167 @@
+import { placeholderVkHash } from "../circuits";
+import { encodePublicInputs, publicInputSchema } from "../publicInputs";
+import { CIRCUIT_ID, PROPOSAL_PAGE_SIZE } from "../constants";
+import { OPEN_ELIGIBILITY_ROOT, computeIdentityCommitment } from "../eligibility";
+import { demoNullifier } from "../nullifier";
+import { addVerifiedVote, emptyVerifiedVoteState, type VerifiedVoteState } from "../tally";
+import { buildMerklePath, computeVoteCommitment, fieldToHex } from "../voteTree";
+import { NullifierSpentError, assertProposalOpen, type VeilProofBackend } from "../api";
+import { ProofCancelledError } from "../prover";
+import { pickLatency, sleep, type Latency } from "./faults";
+import type { IdentityRegistration, Proposal, TransactionProgress } from "../../types";
+
+// Demo mode has no chain; proposals are judged against this fixed slot
+const DEMO_SLOT = 1_000;
+const DEMO_CREATOR = "11111111111111111111111111111111";
+export const DEMO_PROPOSALS: Proposal[] = [
+  { id: "1", title: "Increase treasury allocation", openSlot: 0, closeSlot: 500 },
+  { id: "2", title: "Add new governance token", openSlot: 0, closeSlot: 5_000 },
+  { id: "42", title: "Launch community rewards program", openSlot: 0, closeSlot: 5_000 },
+  { id: "100", title: "Protocol upgrade v2.0", openSlot: 0, closeSlot: 5_000 },
+].map((proposal) => ({ ...proposal, creator: DEMO_CREATOR, allowedChoices: [0, 1, 2] }));
+
+// Roughly how long a devnet round trip feels
+export const DEMO_LATENCY_MS: Latency = [800, 1500];
+
+export interface DemoBackendOptions {
+  proposals?: Proposal[];
+  // Per-call delay; the prover's two stages each take half
+  latencyMs?: Latency;
+}
+
+/**
+ * Backend with no chain, wallet or prover. Keeps its own spent nullifiers,
+ * tallies and identities, so re-submitting a proof and the results panel
+ * behave like on-chain. Its proposals are all open to anyone.
+ */
+export function createDemoBackend(options: DemoBackendOptions = {}): VeilProofBackend {
+  const proposals = options.proposals ?? DEMO_PROPOSALS;
+  const latency = () => pickLatency(options.latencyMs ?? DEMO_LATENCY_MS);
+  const spentNullifiers = new Set<string>();
+  const tallies = new Map<string, VerifiedVoteState>();
+  const tallyListeners = new Map<string, Set<(state: VerifiedVoteState) => void>>();
+  const identities = new Map<string, IdentityRegistration>();
+
+  function recordTally(proposalId: string, voteChoice: number) {
+    const current = tallies.get(proposalId) ?? emptyVerifiedVoteState(proposalId);
+    // Demo proposals are open, so every vote weighs 1
+    const next = addVerifiedVote(current, voteChoice, 1n);
+    tallies.set(proposalId, next);
+    tallyListeners.get(proposalId)?.forEach((listener) => listener(next));
+  }
+
+  // Walks a made-up transaction through the stages a real one reports
+  async function demoTransaction(
+    prefix: string,
+    onProgress?: (progress: TransactionProgress) => void
+  ): Promise<string> {
+    const signature = prefix + Math.random().toString(36).substring(7);
+    const report = (stage: TransactionProgress["stage"], message: string) =>
+      onProgress?.({ stage, signature, attempt: 1, message });
+    report("signed", "Signed");
+    await sleep(latency() / 2);
+    report("sent", "Sent, waiting for confirmation");
+    await sleep(latency() / 2);
+    report("confirmed", "Confirmed");
+    setTimeout(() => report("finalized", "Finalized"), latency());
+    return signature;
+  }
+
+  return {
+    kind: "demo",
+
+    async listProposals(_connection, cursor = 0) {
+      const nextCursor = cursor + PROPOSAL_PAGE_SIZE;
+      return {
+        proposals: proposals.slice(cursor, nextCursor),
+        nextCursor: nextCursor < proposals.length ? nextCursor : undefined,
+        slot: DEMO_SLOT,
+      };
+    },
+
+    async castVote({ proposalId, voteChoice = 1, onTransactionProgress }) {
+      const proposal = proposals.find((p) => p.id === proposalId) ?? null;
+      assertProposalOpen(proposal, proposalId, DEMO_SLOT, voteChoice);
+      return demoTransaction("demo_tx_signature_", onTransactionProgress);
+    },
+
+    async registerIdentity({ wallet, voterSecret, onTransactionProgress }) {
+      if (!voterSecret) {
+        throw new Error("Voter secret is required to register");
+      }
+      const member = wallet.publicKey?.toBase58() ?? DEMO_CREATOR;
+      const signature = await demoTransaction("demo_identity_tx_", onTransactionProgress);
+      identities.set(member, {
+        member,
+        commitment: fieldToHex(computeIdentityCommitment(voterSecret)),
+        registeredSlot: DEMO_SLOT,
+      });
+      return signature;
+    },
+
+    async fetchIdentity(_connection, member) {
+      return identities.get(member.toBase58()) ?? null;
+    },
+
+    async generateZkProof(_transactionSignature, proposalId, programId, voteChoice, voterSecret, _connection, onProgress, signal) {
+      const commitment = computeVoteCommitment(voterSecret, proposalId, voteChoice);
+      const step = async (stage: "executing" | "proving", message: string, fraction: number) => {
+        onProgress?.({ stage, message, fraction });
+        await sleep(latency() / 2);
+        if (signal?.aborted) {
+          throw new ProofCancelledError();
+        }
+      };
+      await step("executing", "Executing circuit to build witness", 0.25);
+      await step("proving", "Generating proof with Barretenberg", 0.6);
+      // Placeholder proof bytes; the public inputs are encoded like a real proof's
+      const demoTree = buildMerklePath([commitment], commitment);
+      const fields = {
+        expected_program_id: programId,
+        expected_proposal_id: proposalId,
+        vote_choice: String(voteChoice),
+        nullifier: demoNullifier(voterSecret, proposalId),
+        vote_root: fieldToHex(demoTree.root),
+        eligibility_root: OPEN_ELIGIBILITY_ROOT,
+        weight: "1",
+      };
+      return {
+        publicInputs: {
+          ...fields,
+          raw: Buffer.from(encodePublicInputs(fields, publicInputSchema(CIRCUIT_ID))).toString("base64"),
+        },
+        proof: "dmVpbHByb29mX2R1bW15X2Jhc2U2NA==",
+        vkHash: placeholderVkHash(CIRCUIT_ID),
+        circuitId: CIRCUIT_ID,
+        meta: {
+          mock: true,
+          note: "Demo mode proof",
+        },
+      };
+    },
+
+    async attestProof() {
+      throw new Error("Demo mode has no verifier service to attest proofs");
+    },
+
+    async submitProof(proof, { onTransactionProgress }) {
+      if (spentNullifiers.has(proof.publicInputs.nullifier)) {
+        throw new NullifierSpentError(proof.publicInputs.nullifier);
+      }
+      spentNullifiers.add(proof.publicInputs.nullifier);
+      const signature = await demoTransaction("demo_verify_tx_", onTransactionProgress);
+      recordTally(proof.publicInputs.expected_proposal_id, Number(proof.publicInputs.vote_choice));
+      return signature;
+    },
+
+    watchTally(_connection, proposalId, onChange) {
+      const listeners = tallyListeners.get(proposalId) ?? new Set();
+      listeners.add(onChange);
+      tallyListeners.set(proposalId, listeners);
+      onChange(tallies.get(proposalId) ?? emptyVerifiedVoteState(proposalId));
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+}
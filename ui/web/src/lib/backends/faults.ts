@@ -0,0 +1,120 @@
+import type { VeilProofBackend } from "../api";
+
+// Backend calls that can be delayed or failed; tally subscriptions are left alone
+export type BackendOperation =
+  | "listProposals"
+  | "castVote"
+  | "registerIdentity"
+  | "fetchIdentity"
+  | "generateZkProof"
+  | "attestProof"
+  | "submitProof";
+
+// Fixed delay, or a [min, max] range picked uniformly per call
+export type Latency = number | [number, number];
+
+export interface FaultRule {
+  // Delay before the call runs (or fails)
+  latencyMs?: Latency;
+  // Error to throw; a string becomes a plain Error. Without one the rule only adds latency
+  error?: Error | string | (() => Error);
+  // Chance in [0, 1] that a call fails; defaults to 1
+  probability?: number;
+  // Only the next `times` failures are injected, then calls pass through
+  times?: number;
+}
+
+export type FaultPlan = Partial<Record<BackendOperation, FaultRule>>;
+
+export interface FaultOptions {
+  // Source of randomness for latency ranges and `probability`; defaults to Math.random
+  random?: () => number;
+}
+
+export function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function pickLatency(latency: Latency, random: () => number = Math.random): number {
+  if (typeof latency === "number") {
+    return latency;
+  }
+  const [min, max] = latency;
+  return min + Math.floor(random() * (max - min));
+}
+
+function toError(error: NonNullable<FaultRule["error"]>): Error {
+  if (typeof error === "function") {
+    return error();
+  }
+  return typeof error === "string" ? new Error(error) : error;
+}
+
+/**
+ * Wrap a backend so calls are delayed or failed according to `plan`, without
+ * touching the backend itself. Pass a function to read the plan on every call,
+ * so one wrapped backend can follow changing settings.
+ */
+export function withFaults(
+  backend: VeilProofBackend,
+  plan: FaultPlan | (() => FaultPlan),
+  options: FaultOptions = {}
+): VeilProofBackend {
+  const random = options.random ?? Math.random;
+  const currentPlan = typeof plan === "function" ? plan : () => plan;
+  const injected = new Map<BackendOperation, number>();
+
+  async function inject(operation: BackendOperation) {
+    const rule = currentPlan()[operation];
+    if (!rule) {
+      return;
+    }
+    if (rule.latencyMs !== undefined) {
+      await sleep(pickLatency(rule.latencyMs, random));
+    }
+    if (!rule.error) {
+      return;
+    }
+    const count = injected.get(operation) ?? 0;
+    if (rule.times !== undefined && count >= rule.times) {
+      return;
+    }
+    if (random() < (rule.probability ?? 1)) {
+      injected.set(operation, count + 1);
+      throw toError(rule.error);
+    }
+  }
+
+  return {
+    kind: backend.kind,
+    async listProposals(...args) {
+      await inject("listProposals");
+      return backend.listProposals(...args);
+    },
+    async castVote(...args) {
+      await inject("castVote");
+      return backend.castVote(...args);
+    },
+    async registerIdentity(...args) {
+      await inject("registerIdentity");
+      return backend.registerIdentity(...args);
+    },
+    async fetchIdentity(...args) {
+      await inject("fetchIdentity");
+      return backend.fetchIdentity(...args);
+    },
+    async generateZkProof(...args) {
+      await inject("generateZkProof");
+      return backend.generateZkProof(...args);
+    },
+    async attestProof(...args) {
+      await inject("attestProof");
+      return backend.attestProof(...args);
+    },
+    async submitProof(...args) {
+      await inject("submitProof");
+      return backend.submitProof(...args);
+    },
+    watchTally: (...args) => backend.watchTally(...args),
+  };
+}
@@ -0,0 +1,243 @@
+import { emptyVerifiedVoteState, type VerifiedVoteState } from "../tally";
+import type { VeilProofBackend } from "../api";
+import { pickLatency, sleep, type BackendOperation, type Latency } from "./faults";
+import type {
+  IdentityRegistration,
+  ProofData,
+  ProposalListing,
+  ProverProgress,
+  TransactionProgress,
+  VerifierAttestation,
+} from "../../types";
+
+// `progress` holds prover updates for proofs and transaction updates for votes, registrations and submissions
+export type RecordedOutcome<T, P = ProverProgress> =
+  | { value: T; progress?: P[] }
+  | { error: unknown; progress?: P[] };
+
+/**
+ * Results of a backend session in call order, per operation. Tallies are the
+ * distinct states each proposal went through.
+ */
+export interface BackendRecording {
+  listProposals: RecordedOutcome<ProposalListing>[];
+  castVote: RecordedOutcome<string, TransactionProgress>[];
+  registerIdentity: RecordedOutcome<string, TransactionProgress>[];
+  fetchIdentity: RecordedOutcome<IdentityRegistration | null>[];
+  generateZkProof: RecordedOutcome<ProofData>[];
+  attestProof: RecordedOutcome<VerifierAttestation[]>[];
+  submitProof: RecordedOutcome<string, TransactionProgress>[];
+  tallies: Record<string, VerifiedVoteState[]>;
+}
+
+export function emptyRecording(): BackendRecording {
+  return {
+    listProposals: [],
+    castVote: [],
+    registerIdentity: [],
+    fetchIdentity: [],
+    generateZkProof: [],
+    attestProof: [],
+    submitProof: [],
+    tallies: {},
+  };
+}
+
+function sameTally(a: VerifiedVoteState, b: VerifiedVoteState) {
+  return (
+    a.yesProofs === b.yesProofs &&
+    a.noProofs === b.noProofs &&
+    a.abstainProofs === b.abstainProofs &&
+    a.yesWeight === b.yesWeight &&
+    a.noWeight === b.noWeight &&
+    a.abstainWeight === b.abstainWeight
+  );
+}
+
+/**
+ * Wrap a backend so every result it produces is appended to `recording`
+ */
+export function recordBackend(
+  backend: VeilProofBackend,
+  recording: BackendRecording = emptyRecording()
+): { backend: VeilProofBackend; recording: BackendRecording } {
+  async function capture<T, P = ProverProgress>(
+    outcomes: RecordedOutcome<T, P>[],
+    run: (onProgress: (progress: P) => void) => Promise<T>
+  ): Promise<T> {
+    const progress: P[] = [];
+    try {
+      const value = await run((update) => progress.push(update));
+      outcomes.push({ value, progress });
+      return value;
+    } catch (error) {
+      outcomes.push({ error, progress });
+      throw error;
+    }
+  }
+
+  return {
+    recording,
+    backend: {
+      kind: backend.kind,
+      listProposals: (connection, cursor) =>
+        capture(recording.listProposals, () => backend.listProposals(connection, cursor)),
+      castVote: (context) =>
+        capture(recording.castVote, (record) =>
+          backend.castVote({
+            ...context,
+            onTransactionProgress: (update) => {
+              record(update);
+              context.onTransactionProgress?.(update);
+            },
+          })
+        ),
+      registerIdentity: (context) =>
+        capture(recording.registerIdentity, (record) =>
+          backend.registerIdentity({
+            ...context,
+            onTransactionProgress: (update) => {
+              record(update);
+              context.onTransactionProgress?.(update);
+            },
+          })
+        ),
+      fetchIdentity: (connection, member) =>
+        capture(recording.fetchIdentity, () => backend.fetchIdentity(connection, member)),
+      generateZkProof: (signature, proposalId, programId, voteChoice, voterSecret, connection, onProgress, signal) =>
+        capture(recording.generateZkProof, (record) =>
+          backend.generateZkProof(
+            signature,
+            proposalId,
+            programId,
+            voteChoice,
+            voterSecret,
+            connection,
+            (update) => {
+              record(update);
+              onProgress?.(update);
+            },
+            signal
+          )
+        ),
+      attestProof: (proof, proposalId, connection) =>
+        capture(recording.attestProof, () => backend.attestProof(proof, proposalId, connection)),
+      submitProof: (proof, context, attestations) =>
+        capture(recording.submitProof, (record) =>
+          backend.submitProof(
+            proof,
+            {
+              ...context,
+              onTransactionProgress: (update) => {
+                record(update);
+                context.onTransactionProgress?.(update);
+              },
+            },
+            attestations
+          )
+        ),
+      watchTally: (connection, proposalId, onChange, onError) =>
+        backend.watchTally(
+          connection,
+          proposalId,
+          (state) => {
+            const states = (recording.tallies[proposalId] ??= []);
+            const last = states[states.length - 1];
+            if (!last || !sameTally(last, state)) {
+              states.push(state);
+            }
+            onChange(state);
+          },
+          onError
+        ),
+    },
+  };
+}
+
+/**
+ * Thrown when a recorded backend is asked for more results than were recorded
+ */
+export class RecordingExhaustedError extends Error {
+  readonly operation: BackendOperation;
+
+  constructor(operation: BackendOperation) {
+    super(`The recording has no more ${operation} results`);
+    this.name = "RecordingExhaustedError";
+    this.operation = operation;
+  }
+}
+
+export interface RecordedBackendOptions {
+  // Delay before each replayed result; none by default
+  latencyMs?: Latency;
+}
+
+/**
+ * Backend that replays a recording, ignoring its arguments. Each operation
+ * returns (or throws) its recorded outcomes in order. A proposal's tally moves
+ * to its next recorded state whenever a replayed `submitProof` for it succeeds.
+ */
+export function createRecordedBackend(
+  recording: BackendRecording,
+  options: RecordedBackendOptions = {}
+): VeilProofBackend {
+  const cursors = new Map<BackendOperation, number>();
+  const tallyCursors = new Map<string, number>();
+  const tallyListeners = new Map<string, Set<(state: VerifiedVoteState) => void>>();
+
+  const currentTally = (proposalId: string) =>
+    recording.tallies[proposalId]?.[tallyCursors.get(proposalId) ?? 0] ?? emptyVerifiedVoteState(proposalId);
+
+  async function replay<T, P = ProverProgress>(
+    operation: BackendOperation,
+    outcomes: RecordedOutcome<T, P>[],
+    onProgress?: (progress: P) => void
+  ): Promise<T> {
+    const index = cursors.get(operation) ?? 0;
+    const outcome = outcomes[index];
+    if (!outcome) {
+      throw new RecordingExhaustedError(operation);
+    }
+    cursors.set(operation, index + 1);
+    outcome.progress?.forEach((update) => onProgress?.(update));
+    if (options.latencyMs !== undefined) {
+      await sleep(pickLatency(options.latencyMs));
+    }
+    if ("error" in outcome) {
+      throw outcome.error;
+    }
+    return outcome.value;
+  }
+
+  return {
+    kind: "recorded",
+    listProposals: () => replay("listProposals", recording.listProposals),
+    castVote: (context) => replay("castVote", recording.castVote, context.onTransactionProgress),
+    registerIdentity: (context) =>
+      replay("registerIdentity", recording.registerIdentity, context.onTransactionProgress),
+    fetchIdentity: () => replay("fetchIdentity", recording.fetchIdentity),
+    generateZkProof: (_signature, _proposalId, _programId, _voteChoice, _voterSecret, _connection, onProgress) =>
+      replay("generateZkProof", recording.generateZkProof, onProgress),
+    attestProof: () => replay("attestProof", recording.attestProof),
+    async submitProof(proof, context) {
+      const signature = await replay("submitProof", recording.submitProof, context.onTransactionProgress);
+      const proposalId = proof.publicInputs.expected_proposal_id;
+      const states = recording.tallies[proposalId] ?? [];
+      const next = (tallyCursors.get(proposalId) ?? 0) + 1;
+      if (next < states.length) {
+        tallyCursors.set(proposalId, next);
+        tallyListeners.get(proposalId)?.forEach((listener) => listener(states[next]));
+      }
+      return signature;
+    },
+    watchTally(_connection, proposalId, onChange) {
+      const listeners = tallyListeners.get(proposalId) ?? new Set();
+      listeners.add(onChange);
+      tallyListeners.set(proposalId, listeners);
+      onChange(currentTally(proposalId));
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+}
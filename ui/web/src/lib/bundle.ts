@@ -0,0 +1,162 @@
+import { sha256 } from "@noble/hashes/sha2";
+import { AttestationVerificationError, verifyAttestation } from "./attestation";
+import { CIRCUITS, UnknownCircuitError, acceptedCircuit, formatCircuitId, parseCircuitId } from "./circuits";
+import { PublicInputsError, assertPublicInputsMatch, publicInputSchema } from "./publicInputs";
+import { parseProofBundle } from "./schema";
+import type { ProofBundle, ProofData, VerifierAttestation } from "../types";
+
+// Part header: VPB1:<index>/<total>:<bundle digest>:<chunk>
+const QR_PART_PREFIX = "VPB1";
+const QR_PART_PATTERN = /^VPB1:(\d+)\/(\d+):([0-9a-f]{16}):([\s\S]*)$/;
+
+// Characters of bundle JSON per QR code; small enough for phone cameras at medium ECC
+export const QR_CHUNK_SIZE = 700;
+
+/**
+ * Thrown when a proof bundle cannot be used: malformed, for another circuit,
+ * or carrying attestations for a different proof
+ */
+export class ProofBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProofBundleError";
+  }
+}
+
+function digest(json: string): string {
+  return Buffer.from(sha256(new TextEncoder().encode(json))).toString("hex").slice(0, 16);
+}
+
+export function createProofBundle(proof: ProofData, attestations?: VerifierAttestation[]): ProofBundle {
+  return {
+    version: 1,
+    circuit: parseCircuitId(proof.circuitId),
+    proof,
+    ...(attestations?.length ? { attestations } : {}),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function serializeProofBundle(bundle: ProofBundle): string {
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Parse and check a bundle from its JSON text or an already parsed value.
+ * Every attestation must cover the proof; whether enough of their signers
+ * are trusted is checked at submission.
+ */
+export function importProofBundle(input: string | unknown): ProofBundle {
+  let value = input;
+  if (typeof input === "string") {
+    try {
+      value = JSON.parse(input);
+    } catch {
+      throw new ProofBundleError("Proof bundle is not valid JSON");
+    }
+  }
+  const bundle = parseProofBundle(value);
+
+  // vote_proof, or a circuit with another proof system over the same statement
+  if (!CIRCUITS.some((circuit) => circuit.name === bundle.circuit.name)) {
+    throw new ProofBundleError(`Proof bundle is for unknown circuit "${bundle.circuit.name}"`);
+  }
+  if (formatCircuitId(bundle.circuit.name, bundle.circuit.version) !== bundle.proof.circuitId) {
+    throw new ProofBundleError(
+      `Proof bundle says circuit ${bundle.circuit.name}@${bundle.circuit.version} but its proof is from ${bundle.proof.circuitId}`
+    );
+  }
+  try {
+    acceptedCircuit(bundle.proof.circuitId);
+  } catch (err) {
+    if (err instanceof UnknownCircuitError) {
+      throw new ProofBundleError(`Proof bundle cannot be submitted: ${err.message}`);
+    }
+    throw err;
+  }
+  try {
+    assertPublicInputsMatch(bundle.proof.publicInputs, publicInputSchema(bundle.proof.circuitId));
+  } catch (err) {
+    if (err instanceof PublicInputsError) {
+      throw new ProofBundleError(`Proof bundle public inputs are inconsistent: ${err.message}`);
+    }
+    throw err;
+  }
+  for (const attestation of bundle.attestations ?? []) {
+    try {
+      verifyAttestation(bundle.proof, attestation, [attestation.attestation.signer_pubkey_hex.toLowerCase()]);
+    } catch (err) {
+      if (err instanceof AttestationVerificationError) {
+        throw new ProofBundleError(`Proof bundle attestation does not match its proof: ${err.message}`);
+      }
+      throw err;
+    }
+  }
+  return bundle;
+}
+
+/**
+ * Split a bundle into QR payloads, shown one after another and reassembled
+ * with `ProofBundleQrAssembler` in any order
+ */
+export function encodeProofBundleQr(bundle: ProofBundle, chunkSize = QR_CHUNK_SIZE): string[] {
+  const json = JSON.stringify(bundle);
+  const id = digest(json);
+  const total = Math.ceil(json.length / chunkSize);
+  return Array.from({ length: total }, (_, index) => {
+    const chunk = json.slice(index * chunkSize, (index + 1) * chunkSize);
+    return `${QR_PART_PREFIX}:${index + 1}/${total}:${id}:${chunk}`;
+  });
+}
+
+/**
+ * Collects scanned QR parts of one bundle. Duplicate scans are ignored; a
+ * part from a different bundle is rejected.
+ */
+export class ProofBundleQrAssembler {
+  private readonly parts = new Map<number, string>();
+  private total?: number;
+  private id?: string;
+
+  get received(): number {
+    return this.parts.size;
+  }
+
+  get expected(): number | undefined {
+    return this.total;
+  }
+
+  get complete(): boolean {
+    return this.total !== undefined && this.parts.size === this.total;
+  }
+
+  add(payload: string): void {
+    const match = QR_PART_PATTERN.exec(payload);
+    if (!match) {
+      throw new ProofBundleError("Not a VeilProof bundle QR code");
+    }
+    const index = Number(match[1]);
+    const total = Number(match[2]);
+    const id = match[3];
+    if (index < 1 || index > total) {
+      throw new ProofBundleError(`Invalid QR part ${index}/${total}`);
+    }
+    if (this.id !== undefined && (id !== this.id || total !== this.total)) {
+      throw new ProofBundleError("QR code belongs to a different proof bundle");
+    }
+    this.id = id;
+    this.total = total;
+    this.parts.set(index, match[4]);
+  }
+
+  assemble(): ProofBundle {
+    if (!this.complete || this.total === undefined) {
+      throw new ProofBundleError(`Missing QR parts: have ${this.received} of ${this.total ?? "?"}`);
+    }
+    const json = Array.from({ length: this.total }, (_, i) => this.parts.get(i + 1)).join("");
+    if (digest(json) !== this.id) {
+      throw new ProofBundleError("Reassembled proof bundle is corrupted");
+    }
+    return importProofBundle(json);
+  }
+}
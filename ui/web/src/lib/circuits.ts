@@ -0,0 +1,180 @@
+import { sha256 } from "@noble/hashes/sha2";
+import type { CircuitDefinition, PublicInputSpec, TrustModel } from "../types";
+
+/**
+ * Thrown when a proof names a circuit the registry does not have, or one
+ * that has been retired
+ */
+export class UnknownCircuitError extends Error {
+  readonly circuitId: string;
+
+  constructor(circuitId: string, message = `Unknown circuit ${circuitId}`) {
+    super(message);
+    this.name = "UnknownCircuitError";
+    this.circuitId = circuitId;
+  }
+}
+
+export function formatCircuitId(name: string, version: string): string {
+  return `${name}@${version}`;
+}
+
+export function parseCircuitId(circuitId: string): { name: string; version: string } {
+  const at = circuitId.lastIndexOf("@");
+  if (at <= 0 || at === circuitId.length - 1) {
+    throw new UnknownCircuitError(circuitId, `Malformed circuit ID "${circuitId}"`);
+  }
+  return { name: circuitId.slice(0, at), version: circuitId.slice(at + 1) };
+}
+
+// Proofs made before circuits had IDs all came from the first vote_proof release
+export const LEGACY_CIRCUIT_ID = "vote_proof@0.1.0";
+
+// Public inputs of noir/vote_proof 0.1.0, then its return values
+const VOTE_PROOF_V1_PUBLIC_INPUTS: PublicInputSpec[] = [
+  { name: "expected_program_id", type: "u64" },
+  { name: "expected_proposal_id", type: "u64" },
+  { name: "vote_root", type: "field" },
+  { name: "vote_choice", type: "vote_choice" },
+  { name: "nullifier", type: "field" },
+];
+
+// 0.2.0 adds the proposal's eligibility root (zero for open proposals)
+const VOTE_PROOF_V2_PUBLIC_INPUTS: PublicInputSpec[] = [
+  { name: "expected_program_id", type: "u64" },
+  { name: "expected_proposal_id", type: "u64" },
+  { name: "vote_root", type: "field" },
+  { name: "eligibility_root", type: "field" },
+  { name: "vote_choice", type: "vote_choice" },
+  { name: "nullifier", type: "field" },
+];
+
+// 0.3.0 returns the vote's weight as well
+const VOTE_PROOF_PUBLIC_INPUTS: PublicInputSpec[] = [
+  ...VOTE_PROOF_V2_PUBLIC_INPUTS,
+  { name: "weight", type: "u64" },
+];
+
+/**
+ * Mirror of verifier_service/circuits.json. vk hashes are left out: they
+ * depend on the build, so fetch them with `VeilProofClient.circuits()`.
+ */
+export const CIRCUITS: CircuitDefinition[] = [
+  // Cannot prove eligibility, so only verified for open proposals
+  {
+    id: "vote_proof@0.1.0",
+    name: "vote_proof",
+    version: "0.1.0",
+    status: "deprecated",
+    proofSystem: "ultraplonk",
+    publicInputs: VOTE_PROOF_V1_PUBLIC_INPUTS,
+  },
+  // Its proofs all weigh 1
+  {
+    id: "vote_proof@0.2.0",
+    name: "vote_proof",
+    version: "0.2.0",
+    status: "deprecated",
+    proofSystem: "ultraplonk",
+    publicInputs: VOTE_PROOF_V2_PUBLIC_INPUTS,
+  },
+  {
+    id: "vote_proof@0.3.0",
+    name: "vote_proof",
+    version: "0.3.0",
+    status: "active",
+    proofSystem: "ultraplonk",
+    publicInputs: VOTE_PROOF_PUBLIC_INPUTS,
+  },
+  // The same circuit proven with Groth16, which the verifier program checks
+  // on chain without attestations. The program holds one verifying key, now
+  // for seven public inputs, so older proofs can no longer be checked.
+  {
+    id: "vote_proof_groth16@0.1.0",
+    name: "vote_proof_groth16",
+    version: "0.1.0",
+    status: "retired",
+    proofSystem: "groth16",
+    publicInputs: VOTE_PROOF_V1_PUBLIC_INPUTS,
+  },
+  {
+    id: "vote_proof_groth16@0.2.0",
+    name: "vote_proof_groth16",
+    version: "0.2.0",
+    status: "retired",
+    proofSystem: "groth16",
+    publicInputs: VOTE_PROOF_V2_PUBLIC_INPUTS,
+  },
+  {
+    id: "vote_proof_groth16@0.3.0",
+    name: "vote_proof_groth16",
+    version: "0.3.0",
+    status: "active",
+    proofSystem: "groth16",
+    publicInputs: VOTE_PROOF_PUBLIC_INPUTS,
+  },
+];
+
+/**
+ * Stand-in vk hash for a circuit, for backends that do not run the prover
+ * (demo mode, the local harness)
+ */
+export function placeholderVkHash(circuitId: string): string {
+  return Buffer.from(sha256(new TextEncoder().encode(`VEILPROOF_MOCK_VK:${circuitId}`))).toString("hex");
+}
+
+export function findCircuit<T extends CircuitDefinition = CircuitDefinition>(
+  circuitId: string,
+  circuits: readonly T[] = CIRCUITS as T[]
+): T | undefined {
+  return circuits.find((circuit) => circuit.id === circuitId);
+}
+
+/**
+ * Whether proofs from a circuit commit to an eligibility root, and so can
+ * vote on members-only proposals
+ */
+export function provesEligibility(circuit: Pick<CircuitDefinition, "publicInputs">): boolean {
+  return circuit.publicInputs.some((input) => input.name === "eligibility_root");
+}
+
+/**
+ * Whether proofs from a circuit carry a public vote weight
+ */
+export function provesWeight(circuit: Pick<CircuitDefinition, "publicInputs">): boolean {
+  return circuit.publicInputs.some((input) => input.name === "weight");
+}
+
+/**
+ * The weight a proof's vote is tallied with. Circuits before weights count
+ * every vote once.
+ */
+export function proofWeight(publicInputs: { weight?: string }): string {
+  return publicInputs.weight ?? "1";
+}
+
+/**
+ * How the verifier program accepts proofs from a circuit: Groth16 proofs it
+ * checks itself, the rest on the word of the attestation signers
+ */
+export function trustModelOf(circuit: Pick<CircuitDefinition, "proofSystem">): TrustModel {
+  return circuit.proofSystem === "groth16" ? "groth16" : "attestation";
+}
+
+/**
+ * The registry entry a proof from `circuitId` is verified against
+ * @throws UnknownCircuitError if the circuit is missing or retired
+ */
+export function acceptedCircuit<T extends CircuitDefinition = CircuitDefinition>(
+  circuitId: string,
+  circuits: readonly T[] = CIRCUITS as T[]
+): T {
+  const circuit = findCircuit(circuitId, circuits);
+  if (!circuit) {
+    throw new UnknownCircuitError(circuitId);
+  }
+  if (circuit.status === "retired") {
+    throw new UnknownCircuitError(circuitId, `Circuit ${circuitId} is retired`);
+  }
+  return circuit;
+}
@@ -0,0 +1,413 @@
+import { proofWeight } from "./circuits";
+import {
+  parseCircuitRegistry,
+  parseHealthStatus,
+  parseProofData,
+  parseProofJob,
+  parseRelayResult,
+  parseVerifierAttestation,
+} from "./schema";
+import type { CircuitInfo, HealthStatus, ProofData, ProofJob, RelayResult, VerifierAttestation } from "../types";
+
+export type ApiService = "verifier" | "relayer";
+
+const SERVICE_NAMES: Record<ApiService, string> = {
+  verifier: "Verifier service",
+  relayer: "Relayer",
+};
+
+/**
+ * Thrown when the verifier service or the relayer answers with a non-2xx
+ * status, or cannot be reached (status 0)
+ */
+export class VeilProofApiError extends Error {
+  readonly service: ApiService;
+  readonly status: number;
+  readonly route: string;
+  readonly body: unknown;
+
+  constructor(service: ApiService, route: string, status: number, message: string, body?: unknown) {
+    super(message);
+    this.name = "VeilProofApiError";
+    this.service = service;
+    this.route = route;
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export interface VeilProofClientOptions {
+  fetch?: typeof fetch;
+}
+
+export interface GenerateProofRequest {
+  proposalId: string;
+  programId: string;
+  voteChoice: number;
+  voterSecret: string;
+  leafIndex: number;
+  merklePath: string[];
+  voteRoot: string;
+  // Membership in the proposal's eligibility tree; omitted for open proposals
+  identityIndex?: number;
+  identityPath?: string[];
+  eligibilityRoot?: string;
+  // Snapshot balance and vote weight, as decimal u64 strings; both 1 when omitted
+  balance?: string;
+  weight?: string;
+}
+
+export interface FollowProofJobOptions {
+  // Receives every state of the job, starting with the current one
+  onUpdate?: (job: ProofJob) => void;
+  // Stops following (the job itself keeps running; see cancelProofJob)
+  signal?: AbortSignal;
+  // Used when the event stream is unavailable (default 1000)
+  pollIntervalMs?: number;
+}
+
+export interface VerifyOptions {
+  // Base58 vote tree account the proof's vote_root is checked against
+  voteTreeAddress?: string;
+  // Base58 proposal account the proof's eligibility_root is checked against
+  proposalAddress?: string;
+  // Decimal slot a VEILPROOF_V2 attestation expires after; every signer of a
+  // threshold set must be given the same one so they sign the same message
+  expirySlot?: string;
+  // Base58 verifier program the attestation is for; a signer for another refuses
+  verifierProgramId?: string;
+}
+
+/**
+ * Typed client for the verifier service (verifier_service/index.js).
+ * Has no browser-only dependencies so scripts can share it with the UI.
+ */
+export class VeilProofClient {
+  readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(baseUrl: string, options: VeilProofClientOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+  }
+
+  /**
+   * GET /health
+   */
+  async health(): Promise<HealthStatus> {
+    const body = await this.request("GET", "/health");
+    return parseHealthStatus(body);
+  }
+
+  /**
+   * GET /circuits - the circuits the service makes and accepts proofs for
+   */
+  async circuits(): Promise<CircuitInfo[]> {
+    const body = await this.request("GET", "/circuits");
+    return parseCircuitRegistry(body, "response");
+  }
+
+  /**
+   * POST /generate-proof - blocks until the proof is made; prefer submitProofJob
+   */
+  async generateProof(request: GenerateProofRequest): Promise<ProofData> {
+    const body = await this.request("POST", "/generate-proof", proofRequestBody(request));
+    const proof = body && typeof body === "object" ? (body as { proof?: unknown }).proof : undefined;
+    return parseProofData(proof, "response.proof");
+  }
+
+  /**
+   * POST /proof-jobs - queue a proof; follow it with followProofJob
+   */
+  async submitProofJob(request: GenerateProofRequest): Promise<ProofJob> {
+    const body = await this.request("POST", "/proof-jobs", proofRequestBody(request));
+    return parseProofJob(field(body, "job"), "response.job");
+  }
+
+  /**
+   * GET /proof-jobs/:id
+   */
+  async proofJob(jobId: string, signal?: AbortSignal): Promise<ProofJob> {
+    const body = await this.request("GET", `/proof-jobs/${encodeURIComponent(jobId)}`, undefined, signal);
+    return parseProofJob(field(body, "job"), "response.job");
+  }
+
+  /**
+   * DELETE /proof-jobs/:id - stop a queued or running job
+   */
+  async cancelProofJob(jobId: string): Promise<ProofJob> {
+    const body = await this.request("DELETE", `/proof-jobs/${encodeURIComponent(jobId)}`);
+    return parseProofJob(field(body, "job"), "response.job");
+  }
+
+  /**
+   * Follow a job through GET /proof-jobs/:id/events, polling GET
+   * /proof-jobs/:id instead when the event stream cannot be read
+   * @returns The job once it succeeded, failed or was cancelled
+   * @throws The signal's reason when it aborts first
+   */
+  async followProofJob(jobId: string, options: FollowProofJobOptions = {}): Promise<ProofJob> {
+    const { onUpdate, signal, pollIntervalMs = 1000 } = options;
+    const route = `/proof-jobs/${encodeURIComponent(jobId)}`;
+
+    let streamed: ProofJob | undefined;
+    try {
+      streamed = await this.streamProofJob(route, (job) => onUpdate?.(job), signal);
+    } catch (err) {
+      // Job errors (e.g. an expired job) are final; anything else falls back to polling
+      if (signal?.aborted || err instanceof VeilProofApiError) {
+        throw signal?.aborted ? signal.reason : err;
+      }
+    }
+    if (streamed) {
+      return streamed;
+    }
+
+    for (;;) {
+      const job = await this.proofJob(jobId, signal);
+      onUpdate?.(job);
+      if (isFinished(job)) {
+        return job;
+      }
+      await abortableDelay(pollIntervalMs, signal);
+    }
+  }
+
+  // Read server-sent `job` events until the job finishes; undefined if the stream ends first
+  private async streamProofJob(
+    route: string,
+    onUpdate: (job: ProofJob) => void,
+    signal?: AbortSignal
+  ): Promise<ProofJob | undefined> {
+    const response = await this.fetchImpl(`${this.baseUrl}${route}/events`, {
+      headers: { Accept: "text/event-stream" },
+      signal,
+    });
+    if (response.status === 404) {
+      const body: unknown = await response.json().catch(() => undefined);
+      throw new VeilProofApiError("verifier", `${route}/events`, 404, errorMessage("verifier", body, response), body);
+    }
+    if (!response.ok || !response.body) {
+      return undefined;
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) {
+          return undefined;
+        }
+        buffer += value;
+        // Events end with a blank line
+        let end: number;
+        while ((end = buffer.indexOf("\n\n")) >= 0) {
+          const event = parseServerSentEvent(buffer.slice(0, end));
+          buffer = buffer.slice(end + 2);
+          if (event?.event === "job") {
+            const job = parseProofJob(JSON.parse(event.data), "event.job");
+            onUpdate(job);
+            if (isFinished(job)) {
+              return job;
+            }
+          }
+        }
+      }
+    } finally {
+      reader.cancel().catch(() => undefined);
+    }
+  }
+
+  /**
+   * POST /verify - returns the signed attestation for a proof
+   */
+  async verify(proof: ProofData, options: VerifyOptions = {}): Promise<VerifierAttestation> {
+    const body = await this.request("POST", "/verify", {
+      proof_bytes_base64: proof.proof,
+      public_inputs_json: proof.publicInputs,
+      vk_hash_hex: proof.vkHash,
+      circuit_id: proof.circuitId,
+      expected_program_id: proof.publicInputs.expected_program_id,
+      expected_proposal_id: proof.publicInputs.expected_proposal_id,
+      expected_vote_choice: proof.publicInputs.vote_choice,
+      vote_tree_address: options.voteTreeAddress,
+      proposal_address: options.proposalAddress,
+      expiry_slot: options.expirySlot,
+      verifier_program_id: options.verifierProgramId,
+    });
+    return parseVerifierAttestation(body, "response");
+  }
+
+  private request(method: HttpMethod, route: string, payload?: unknown, signal?: AbortSignal): Promise<unknown> {
+    return requestJson(this.fetchImpl, "verifier", this.baseUrl, method, route, payload, signal);
+  }
+}
+
+/**
+ * Typed client for the relayer (relayer_service/index.js), which pays for
+ * and sends the verifier transaction so the voter's wallet never signs it
+ */
+export class RelayerClient {
+  readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(baseUrl: string, options: VeilProofClientOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+  }
+
+  /**
+   * GET /health
+   */
+  async health(): Promise<HealthStatus> {
+    const body = await this.request("GET", "/health");
+    return parseHealthStatus(body);
+  }
+
+  /**
+   * POST /relay - only the attestations are sent, never the proof or a wallet
+   * @returns Signature of the verifier transaction
+   */
+  async relay(attestations: VerifierAttestation[]): Promise<RelayResult> {
+    const body = await this.request("POST", "/relay", { attestations });
+    return parseRelayResult(body, "response");
+  }
+
+  /**
+   * POST /relay with a Groth16 proof, which the verifier program checks
+   * itself; the relayer only pays for the transaction
+   * @param voteTreeShard - The vote tree shard whose roots include the proof's vote_root
+   * @returns Signature of the verifier transaction
+   */
+  async relayGroth16(proof: ProofData, voteTreeShard = 0): Promise<RelayResult> {
+    const body = await this.request("POST", "/relay", {
+      groth16: {
+        expected_program_id: proof.publicInputs.expected_program_id,
+        expected_proposal_id: proof.publicInputs.expected_proposal_id,
+        vote_choice: proof.publicInputs.vote_choice,
+        nullifier_hex: proof.publicInputs.nullifier,
+        vote_root_hex: proof.publicInputs.vote_root,
+        proof_base64: proof.proof,
+        weight: proofWeight(proof.publicInputs),
+        vote_tree_shard: voteTreeShard,
+      },
+    });
+    return parseRelayResult(body, "response");
+  }
+
+  private request(method: HttpMethod, route: string, payload?: unknown): Promise<unknown> {
+    return requestJson(this.fetchImpl, "relayer", this.baseUrl, method, route, payload);
+  }
+}
+
+type HttpMethod = "GET" | "POST" | "DELETE";
+
+function proofRequestBody(request: GenerateProofRequest) {
+  return {
+    proposal_id: request.proposalId,
+    program_id: request.programId,
+    vote_choice: request.voteChoice,
+    voter_secret: request.voterSecret,
+    leaf_index: request.leafIndex,
+    merkle_path: request.merklePath,
+    vote_root: request.voteRoot,
+    identity_index: request.identityIndex,
+    identity_path: request.identityPath,
+    eligibility_root: request.eligibilityRoot,
+    balance: request.balance,
+    weight: request.weight,
+  };
+}
+
+function field(body: unknown, name: string): unknown {
+  return body && typeof body === "object" ? (body as Record<string, unknown>)[name] : undefined;
+}
+
+function isFinished(job: ProofJob): boolean {
+  return job.status === "succeeded" || job.status === "failed" || job.status === "cancelled";
+}
+
+function parseServerSentEvent(block: string): { event: string; data: string } | undefined {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of block.split("\n")) {
+    // Lines starting with ":" are comments (heartbeats)
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      data.push(line.slice(5).trimStart());
+    }
+  }
+  return data.length > 0 ? { event, data: data.join("\n") } : undefined;
+}
+
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function requestJson(
+  fetchImpl: typeof fetch,
+  service: ApiService,
+  baseUrl: string,
+  method: HttpMethod,
+  route: string,
+  payload?: unknown,
+  signal?: AbortSignal
+): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetchImpl(`${baseUrl}${route}`, {
+      method,
+      headers: payload === undefined ? undefined : { "Content-Type": "application/json" },
+      body: payload === undefined ? undefined : JSON.stringify(payload),
+      signal,
+    });
+  } catch (err) {
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new VeilProofApiError(service, route, 0, `${SERVICE_NAMES[service]} unreachable: ${reason}`);
+  }
+
+  const text = await response.text();
+  let body: unknown = undefined;
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = text;
+    }
+  }
+
+  if (!response.ok) {
+    throw new VeilProofApiError(service, route, response.status, errorMessage(service, body, response), body);
+  }
+
+  return body;
+}
+
+function errorMessage(service: ApiService, body: unknown, response: Response): string {
+  if (body && typeof body === "object" && "error" in body) {
+    const error = (body as { error: unknown }).error;
+    if (typeof error === "string" && error) {
+      return error;
+    }
+  }
+  return `${SERVICE_NAMES[service]} returned ${response.status} ${response.statusText}`.trim();
+}
@@ -5,9 +5,23 @@ export const SOLANA_NETWORK = import.meta.env.VITE_SOLANA_NETWORK || "devnet";
 export const SOLANA_RPC_URL =
   import.meta.env.VITE_SOLANA_RPC_URL || "https://api.devnet.solana.com";
 
+// Run against the in-memory bank and mock verifier in lib/local instead of a cluster
+export const LOCAL_HARNESS = import.meta.env.VITE_LOCAL_HARNESS === "true";
+
+// Addresses the local harness loads its program ports under when none are configured
+const LOCAL_PROGRAM_IDS = {
+  vote: "ESVfm31CLr92wLMc2szQS7pvEvQryb7uY4GpYZPLzX9m",
+  verifier: "ChJie3sNPTzpWKqvvZWWjeW9vCkUaqCFw51NcqAuV8QD",
+  proposal: "BqMPBZLErsWwdkn7P4uorWWWqkCtPXDcL3QFMGM37eiU",
+};
+
 // Program IDs (set by deployment script)
-const voteProgramIdStr = import.meta.env.VITE_VOTE_PROGRAM_ID;
-const verifierProgramIdStr = import.meta.env.VITE_VERIFIER_PROGRAM_ID;
+const voteProgramIdStr =
+  import.meta.env.VITE_VOTE_PROGRAM_ID || (LOCAL_HARNESS ? LOCAL_PROGRAM_IDS.vote : undefined);
+const verifierProgramIdStr =
+  import.meta.env.VITE_VERIFIER_PROGRAM_ID || (LOCAL_HARNESS ? LOCAL_PROGRAM_IDS.verifier : undefined);
+const proposalProgramIdStr =
+  import.meta.env.VITE_PROPOSAL_PROGRAM_ID || (LOCAL_HARNESS ? LOCAL_PROGRAM_IDS.proposal : undefined);
 
 export const VOTE_PROGRAM_ID = voteProgramIdStr
   ? new PublicKey(voteProgramIdStr)
@@ -17,9 +31,45 @@ export const VERIFIER_PROGRAM_ID = verifierProgramIdStr
   ? new PublicKey(verifierProgramIdStr)
   : undefined;
 
-// Verifier Service
-export const VERIFIER_SERVICE_URL =
-  import.meta.env.VITE_VERIFIER_SERVICE_URL || "http://127.0.0.1:8787";
+export const PROPOSAL_PROGRAM_ID = proposalProgramIdStr
+  ? new PublicKey(proposalProgramIdStr)
+  : undefined;
+
+// Proposals loaded per page in the proposal browser
+export const PROPOSAL_PAGE_SIZE = 10;
+
+// Verifier service instances, comma separated. Each signs its own attestation;
+// the verifier program's signer config says how many it needs.
+const verifierServiceUrlsStr =
+  import.meta.env.VITE_VERIFIER_SERVICE_URLS ||
+  import.meta.env.VITE_VERIFIER_SERVICE_URL ||
+  "http://127.0.0.1:8787";
+
+export const VERIFIER_SERVICE_URLS: string[] = verifierServiceUrlsStr
+  .split(",")
+  .map((url: string) => url.trim())
+  .filter(Boolean);
+
+// Prover service that runs proof jobs (see verifier_service/index.js); when
+// unset proofs are made in the browser and private inputs never leave it
+export const PROVER_SERVICE_URL: string = import.meta.env.VITE_PROVER_SERVICE_URL || "";
+
+// Relayer that pays for verifier transactions; when unset the voter's wallet does
+export const RELAYER_URL: string = import.meta.env.VITE_RELAYER_URL || "";
+
+// Where the eligibility snapshots of members-only proposals are published,
+// with `{proposal}` standing for the proposal ID (see lib/eligibility.ts).
+// When unset the snapshot is rebuilt from the on-chain identity registrations.
+export const ELIGIBILITY_SNAPSHOT_URL: string = import.meta.env.VITE_ELIGIBILITY_SNAPSHOT_URL || "";
+
+// How long a VEILPROOF_V2 attestation stays usable; the verifier services
+// refuse expiries further out than their ATTESTATION_TTL_SLOTS (1500 by default)
+export const ATTESTATION_TTL_SLOTS = 1200;
+
+// Address lookup table for v0 transactions (see scripts/deploy.sh); optional
+export const LOOKUP_TABLE_ADDRESS = import.meta.env.VITE_LOOKUP_TABLE_ADDRESS
+  ? new PublicKey(import.meta.env.VITE_LOOKUP_TABLE_ADDRESS)
+  : undefined;
 
 // Default proposal ID for demo
 export const DEFAULT_PROPOSAL_ID = "42";
@@ -27,3 +77,26 @@ export const DEFAULT_PROPOSAL_ID = "42";
 // Vote choices
 export const VOTE_CHOICE_YES = 1;
 export const VOTE_CHOICE_NO = 0;
+export const VOTE_CHOICE_ABSTAIN = 2;
+
+export const VOTE_CHOICES = [VOTE_CHOICE_YES, VOTE_CHOICE_NO, VOTE_CHOICE_ABSTAIN] as const;
+
+export const VOTE_CHOICE_LABELS: Record<number, string> = {
+  [VOTE_CHOICE_YES]: "YES",
+  [VOTE_CHOICE_NO]: "NO",
+  [VOTE_CHOICE_ABSTAIN]: "ABSTAIN",
+};
+
+export function isValidVoteChoice(choice: number): boolean {
+  return (VOTE_CHOICES as readonly number[]).includes(choice);
+}
+
+// Circuit proofs are made with; keep in sync with noir/vote_proof/Nargo.toml
+export const CIRCUIT_NAME = "vote_proof";
+export const CIRCUIT_VERSION = "0.3.0";
+// Its entry in the circuit registry (verifier_service/circuits.json)
+export const CIRCUIT_ID = `${CIRCUIT_NAME}@${CIRCUIT_VERSION}`;
+
+// Compiled vote_proof circuit served to the in-browser prover (see `npm run copy-circuit`)
+export const CIRCUIT_ARTIFACT_URL =
+  import.meta.env.VITE_CIRCUIT_ARTIFACT_URL || "/circuits/vote_proof.json";
@@ -0,0 +1,323 @@
+import type { Connection } from "@solana/web3.js";
+import { poseidon1, poseidon2 } from "poseidon-lite";
+import { ELIGIBILITY_SNAPSHOT_URL } from "./constants";
+import { parseEligibilitySnapshot } from "./schema";
+import { fetchIdentityRegistrations } from "./solana";
+import { fieldToHex } from "./voteTree";
+import type { ProverInputs } from "./prover";
+import type { EligibilitySnapshot, Proposal } from "../types";
+
+// Must match ELIGIBILITY_TREE_DEPTH in noir/vote_proof
+export const ELIGIBILITY_TREE_DEPTH = 16;
+export const ELIGIBILITY_TREE_CAPACITY = 1 << ELIGIBILITY_TREE_DEPTH;
+
+// The root open proposals store; the circuit skips the membership check for it
+export const OPEN_ELIGIBILITY_ROOT = fieldToHex(0n);
+
+// Weighted votes are rounded down to this many significant digits, so the
+// public weight places a member among those with similar stake, not at their balance
+export const WEIGHT_BUCKET_DIGITS = 2;
+
+// A member of an eligibility snapshot; without a balance it weighs 1
+export interface EligibilityMember {
+  commitment: bigint | string;
+  balance?: bigint | string;
+}
+
+/**
+ * Thrown when the voter's identity commitment is not in a members-only
+ * proposal's eligibility snapshot
+ */
+export class NotEligibleError extends Error {
+  readonly proposalId: string;
+
+  constructor(proposalId: string) {
+    super(`This wallet is not an eligible member for proposal #${proposalId}`);
+    this.name = "NotEligibleError";
+    this.proposalId = proposalId;
+  }
+}
+
+/**
+ * Thrown when no snapshot matching a proposal's eligibility root can be found,
+ * or a snapshot does not hash to the root it claims
+ */
+export class EligibilitySnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EligibilitySnapshotError";
+  }
+}
+
+/**
+ * The commitment a member registers: hides the voter secret, which the
+ * circuit hashes the same way to prove membership
+ */
+export function computeIdentityCommitment(voterSecret: string): bigint {
+  return poseidon1([BigInt(voterSecret)]);
+}
+
+/**
+ * The weight a member votes with by default: their balance rounded down to
+ * WEIGHT_BUCKET_DIGITS significant digits, e.g. 123456 to 120000
+ */
+export function bucketWeight(balance: bigint): bigint {
+  const digits = balance.toString().length;
+  if (digits <= WEIGHT_BUCKET_DIGITS) {
+    return balance;
+  }
+  const unit = 10n ** BigInt(digits - WEIGHT_BUCKET_DIGITS);
+  return (balance / unit) * unit;
+}
+
+/**
+ * A member's leaf in the eligibility tree. A balance of 1 leaves the bare
+ * commitment, so unweighted trees are unchanged; the circuit does the same.
+ */
+export function eligibilityLeaf(commitment: bigint, balance = 1n): bigint {
+  return balance === 1n ? commitment : poseidon2([commitment, balance]);
+}
+
+export function isMembersOnly(proposal: Pick<Proposal, "eligibilityRoot">): boolean {
+  return Boolean(proposal.eligibilityRoot) && proposal.eligibilityRoot !== OPEN_ELIGIBILITY_ROOT;
+}
+
+// The sibling path of `leafIndex` and the root, with empty slots as zero subtrees
+function walkTree(leaves: bigint[], leafIndex: number, depth: number): { path: bigint[]; root: bigint } {
+  let zero = 0n;
+  let level = leaves;
+  let index = leafIndex;
+  const path: bigint[] = [];
+
+  for (let i = 0; i < depth; i++) {
+    const sibling = index ^ 1;
+    path.push(sibling < level.length ? level[sibling] : zero);
+
+    const next: bigint[] = [];
+    for (let j = 0; j < level.length; j += 2) {
+      next.push(poseidon2([level[j], j + 1 < level.length ? level[j + 1] : zero]));
+    }
+    level = next;
+    zero = poseidon2([zero, zero]);
+    index >>= 1;
+  }
+
+  return { path, root: level[0] ?? zero };
+}
+
+/**
+ * Build the eligibility tree over identity commitments. Leaves are sorted and
+ * deduplicated, so anyone holding the same commitments gets the same root.
+ * Members with a balance make a weighted snapshot; the balances of a
+ * commitment listed more than once add up.
+ * @param slot - Latest registration slot the commitments were taken from
+ */
+export function createEligibilitySnapshot(
+  members: Iterable<bigint | string | EligibilityMember>,
+  slot: number
+): EligibilitySnapshot {
+  const balances = new Map<bigint, bigint | undefined>();
+  for (const member of members) {
+    const { commitment, balance } = typeof member === "object" ? member : { commitment: member, balance: undefined };
+    const key = BigInt(commitment);
+    const previous = balances.get(key);
+    const next = balance === undefined ? undefined : BigInt(balance);
+    balances.set(key, previous === undefined ? next : next === undefined ? previous : previous + next);
+  }
+  const entries = [...balances].map(([commitment, balance]) => ({
+    commitment,
+    balance: balance ?? 1n,
+    leaf: eligibilityLeaf(commitment, balance ?? 1n),
+  }));
+  entries.sort((a, b) => (a.leaf < b.leaf ? -1 : a.leaf > b.leaf ? 1 : 0));
+
+  if (entries.length === 0) {
+    throw new EligibilitySnapshotError("An eligibility snapshot needs at least one member");
+  }
+  if (entries.length > ELIGIBILITY_TREE_CAPACITY) {
+    throw new EligibilitySnapshotError(`An eligibility tree holds at most ${ELIGIBILITY_TREE_CAPACITY} members`);
+  }
+  if (entries.some((entry) => entry.commitment === 0n)) {
+    throw new EligibilitySnapshotError("Identity commitments must be nonzero");
+  }
+  if (entries.some((entry) => entry.balance <= 0n || entry.balance > 0xffffffffffffffffn)) {
+    throw new EligibilitySnapshotError("Member balances must be positive u64 values");
+  }
+  const weighted = entries.some((entry) => entry.balance !== 1n);
+  return {
+    version: 1,
+    depth: ELIGIBILITY_TREE_DEPTH,
+    root: fieldToHex(
+      walkTree(
+        entries.map((entry) => entry.leaf),
+        0,
+        ELIGIBILITY_TREE_DEPTH
+      ).root
+    ),
+    commitments: entries.map((entry) => fieldToHex(entry.commitment)),
+    ...(weighted && { balances: entries.map((entry) => entry.balance.toString()) }),
+    slot,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// The snapshot's members, with balances when it is weighted
+function snapshotMembers(snapshot: EligibilitySnapshot): { commitment: bigint; balance: bigint }[] {
+  return snapshot.commitments.map((commitment, index) => ({
+    commitment: BigInt("0x" + commitment),
+    balance: BigInt(snapshot.balances?.[index] ?? 1),
+  }));
+}
+
+export function serializeEligibilitySnapshot(snapshot: EligibilitySnapshot): string {
+  return JSON.stringify(snapshot, null, 2);
+}
+
+/**
+ * Parse a snapshot and check that its commitments hash to its root
+ * @throws EligibilitySnapshotError if they do not
+ */
+export function importEligibilitySnapshot(input: string | unknown): EligibilitySnapshot {
+  let value = input;
+  if (typeof input === "string") {
+    try {
+      value = JSON.parse(input);
+    } catch {
+      throw new EligibilitySnapshotError("Eligibility snapshot is not valid JSON");
+    }
+  }
+  const snapshot = parseEligibilitySnapshot(value);
+  if (snapshot.depth !== ELIGIBILITY_TREE_DEPTH) {
+    throw new EligibilitySnapshotError(
+      `Eligibility snapshot has depth ${snapshot.depth}; the circuit proves depth ${ELIGIBILITY_TREE_DEPTH}`
+    );
+  }
+  const rebuilt = createEligibilitySnapshot(snapshotMembers(snapshot), snapshot.slot);
+  if (rebuilt.root !== snapshot.root.toLowerCase() || rebuilt.commitments.length !== snapshot.commitments.length) {
+    throw new EligibilitySnapshotError("Eligibility snapshot commitments do not hash to its root");
+  }
+  return { ...snapshot, root: rebuilt.root, commitments: rebuilt.commitments, balances: rebuilt.balances };
+}
+
+/**
+ * Snapshot of the identities registered with proposal_program, to create a
+ * members-only proposal with
+ * @param options.members - Wallets (base58) to include; all registered when omitted
+ * @param options.balances - Stake per wallet (base58), e.g. token balances at the slot, for a
+ *   weighted snapshot; wallets without a positive balance are left out
+ * @param options.slot - Leave out registrations after this slot; the current slot when omitted
+ */
+export async function takeEligibilitySnapshot(
+  connection: Connection,
+  options: { members?: string[]; balances?: Record<string, bigint | string>; slot?: number } = {}
+): Promise<EligibilitySnapshot> {
+  const [registrations, currentSlot] = await Promise.all([
+    fetchIdentityRegistrations(connection),
+    options.slot === undefined ? connection.getSlot("confirmed") : Promise.resolve(options.slot),
+  ]);
+  const members = options.members && new Set(options.members);
+  const { balances } = options;
+  const included = registrations.filter(
+    (registration) =>
+      registration.registeredSlot <= currentSlot &&
+      (!members || members.has(registration.member)) &&
+      (!balances || BigInt(balances[registration.member] ?? 0) > 0n)
+  );
+  return createEligibilitySnapshot(
+    included.map((registration) => ({
+      commitment: "0x" + registration.commitment,
+      balance: balances?.[registration.member],
+    })),
+    currentSlot
+  );
+}
+
+/**
+ * The snapshot a members-only proposal's root was built from: published at
+ * VITE_ELIGIBILITY_SNAPSHOT_URL, or else rebuilt from the current
+ * registrations, which only works while nobody has registered since
+ * @throws EligibilitySnapshotError if neither matches the proposal's root
+ */
+export async function loadEligibilitySnapshot(
+  connection: Connection,
+  proposal: Proposal,
+  snapshotUrl = ELIGIBILITY_SNAPSHOT_URL
+): Promise<EligibilitySnapshot> {
+  let snapshot: EligibilitySnapshot;
+  if (snapshotUrl) {
+    const url = snapshotUrl.replace("{proposal}", encodeURIComponent(proposal.id));
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new EligibilitySnapshotError(
+        `Could not load the eligibility snapshot for proposal #${proposal.id} (${response.status})`
+      );
+    }
+    snapshot = importEligibilitySnapshot(await response.text());
+  } else {
+    snapshot = await takeEligibilitySnapshot(connection);
+  }
+  if (snapshot.root !== proposal.eligibilityRoot) {
+    throw new EligibilitySnapshotError(
+      snapshotUrl
+        ? `The published snapshot for proposal #${proposal.id} does not match its eligibility root`
+        : `Members have registered since proposal #${proposal.id} was created; set VITE_ELIGIBILITY_SNAPSHOT_URL to its published snapshot`
+    );
+  }
+  return snapshot;
+}
+
+/**
+ * The eligibility inputs of the circuit. Open proposals take a zero root and
+ * an unused path, and weigh 1; members-only ones need the snapshot behind
+ * their root.
+ * @param weight - Weight to vote with, up to the member's balance; its bucketed balance by default
+ * @throws NotEligibleError if the voter is not in the snapshot
+ */
+export function buildEligibilityWitness(
+  proposal: Proposal,
+  voterSecret: string,
+  snapshot: EligibilitySnapshot | null,
+  weight?: bigint
+): Pick<ProverInputs, "identity_index" | "identity_path" | "eligibility_root" | "balance" | "weight"> {
+  if (!isMembersOnly(proposal)) {
+    if (weight !== undefined && weight !== 1n) {
+      throw new RangeError(`Votes on proposal #${proposal.id} weigh 1: it is open to anyone`);
+    }
+    return {
+      identity_index: 0,
+      identity_path: Array.from({ length: ELIGIBILITY_TREE_DEPTH }, () => "0x0"),
+      eligibility_root: "0x" + OPEN_ELIGIBILITY_ROOT,
+      balance: "1",
+      weight: "1",
+    };
+  }
+  if (!snapshot || snapshot.root !== proposal.eligibilityRoot) {
+    throw new EligibilitySnapshotError(`Proposal #${proposal.id} needs the snapshot its eligibility root was built from`);
+  }
+  const members = snapshotMembers(snapshot);
+  const identity = computeIdentityCommitment(voterSecret);
+  const identityIndex = members.findIndex((member) => member.commitment === identity);
+  if (identityIndex === -1) {
+    throw new NotEligibleError(proposal.id);
+  }
+  const { balance } = members[identityIndex];
+  const { path, root } = walkTree(
+    members.map((member) => eligibilityLeaf(member.commitment, member.balance)),
+    identityIndex,
+    snapshot.depth
+  );
+  if (fieldToHex(root) !== snapshot.root) {
+    throw new EligibilitySnapshotError("Eligibility snapshot commitments do not hash to its root");
+  }
+  const voteWeight = weight ?? bucketWeight(balance);
+  if (voteWeight < 1n || voteWeight > balance) {
+    throw new RangeError(`A vote on proposal #${proposal.id} can weigh from 1 to this member's balance`);
+  }
+  return {
+    identity_index: identityIndex,
+    identity_path: path.map((node) => "0x" + fieldToHex(node)),
+    eligibility_root: "0x" + snapshot.root,
+    balance: balance.toString(),
+    weight: voteWeight.toString(),
+  };
+}
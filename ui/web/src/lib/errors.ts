@@ -0,0 +1,567 @@
+import { NullifierSpentError, ProposalNotOpenError } from "./api";
+import { AttestationVerificationError, InsufficientAttestationsError } from "./attestation";
+import { VeilProofApiError } from "./client";
+import { EligibilitySnapshotError, NotEligibleError } from "./eligibility";
+import { ProofCancelledError, ProofJobFailedError } from "./prover";
+import { SchemaError } from "./schema";
+import {
+  TransactionExpiredError,
+  TransactionFailedError,
+  TransactionSimulationError,
+  decodeProgramLogs,
+} from "./sender";
+import type { StepError } from "../types";
+
+interface KnownFailure {
+  // Start of the program's `msg!` line
+  log: string;
+  code: string;
+  message: string;
+  hint?: string;
+}
+
+const ACCOUNT_MISMATCH_HINT = "The app derived accounts differently from the deployed program. Reload, or update the app.";
+
+// Failures the app also detects itself before sending a transaction
+const NULLIFIER_SPENT: KnownFailure = {
+  log: "Nullifier already spent",
+  code: "nullifier_spent",
+  message: "This vote has already been proven.",
+  hint: "Nothing to do: the tally already counts it.",
+};
+const PROPOSAL_UNKNOWN: KnownFailure = {
+  log: "Unknown proposal",
+  code: "proposal_unknown",
+  message: "This proposal is not registered.",
+  hint: "Pick a proposal from the list.",
+};
+const PROPOSAL_NOT_OPEN: KnownFailure = {
+  log: "Proposal is not open for voting",
+  code: "proposal_not_open",
+  message: "This proposal is not open for voting.",
+  hint: "Votes are only accepted between the proposal's open and close slots.",
+};
+
+// What each program logs right before it fails, from programs/*/src/lib.rs
+const PROGRAM_FAILURES: Record<string, KnownFailure[]> = {
+  verifier_program: [
+    {
+      log: "Not enough attestations",
+      code: "attestation_threshold",
+      message: "Too few of the verifier program's trusted signers attested this proof.",
+      hint: "The signer set may have been rotated since the proof was attested. Submit again to collect fresh attestations.",
+    },
+    {
+      log: "Signer config is not initialized",
+      code: "signers_uninitialized",
+      message: "The verifier program has no attestation signers yet.",
+      hint: "Its upgrade authority must run `node scripts/signers.js init` once after deploying.",
+    },
+    {
+      log: "Attestation expired",
+      code: "attestation_expired",
+      message: "The verifier attestations expired before the transaction landed.",
+      hint: "Submit again to collect fresh attestations.",
+    },
+    {
+      log: "VEILPROOF_V1 attestations are no longer accepted",
+      code: "attestation_v1_retired",
+      message: "The verifier program no longer accepts attestations without an expiry.",
+      hint: "The verifier services must be given VERIFIER_PROGRAM_ID so they sign VEILPROOF_V2 attestations.",
+    },
+    {
+      log: "Attestation domain is not set",
+      code: "attestation_domain_unset",
+      message: "The verifier program does not accept VEILPROOF_V2 attestations yet.",
+      hint: "Its config authority must run `node scripts/signers.js domain` once.",
+    },
+    {
+      log: "Proposal ID mismatch",
+      code: "proposal_mismatch",
+      message: "The proof is for a different proposal than the tally it was submitted to.",
+      hint: "Generate the proof again for this proposal.",
+    },
+    {
+      log: "Invalid instruction data length",
+      code: "invalid_proof_length",
+      message: "The verifier program expected a proof submission of a different length.",
+      hint: "The app and the deployed verifier program are out of step. Update the app or redeploy the program.",
+    },
+    {
+      log: "Invalid vote choice",
+      code: "invalid_choice",
+      message: "The proof carries a vote choice the verifier program does not know.",
+      hint: "Generate the proof again.",
+    },
+    {
+      log: "Vote choice not allowed for this proposal",
+      code: "choice_not_allowed",
+      message: "This proposal does not accept the proven choice.",
+      hint: "Vote again with one of the options the proposal allows.",
+    },
+    {
+      log: "Groth16 proof verification failed",
+      code: "groth16_rejected",
+      message: "The verifier program rejected the Groth16 proof.",
+      hint: "The proof does not match its public inputs or the verifying key on chain. Generate it again.",
+    },
+    {
+      log: "Groth16 proof is malformed",
+      code: "groth16_malformed",
+      message: "The Groth16 proof is not made of valid curve points.",
+      hint: "Generate the proof again.",
+    },
+    {
+      log: "Public input is not a field element",
+      code: "groth16_malformed",
+      message: "A public input of the Groth16 proof is out of range.",
+      hint: "Generate the proof again.",
+    },
+    {
+      log: "Vote root is not a recent root",
+      code: "unknown_vote_root",
+      message: "The proof is for a vote tree root the proposal no longer keeps.",
+      hint: "Too many votes landed since the proof was made. Generate it again.",
+    },
+    {
+      log: "Groth16 verifying key is not set",
+      code: "groth16_vk_missing",
+      message: "The verifier program has no Groth16 verifying key yet.",
+      hint: "Its upgrade authority must run `node scripts/groth16.js vk <verification_key.json>` once.",
+    },
+    { log: "Verifying key account mismatch", code: "account_mismatch", message: "Wrong verifying key account.", hint: ACCOUNT_MISMATCH_HINT },
+    NULLIFIER_SPENT,
+    { log: "Nullifier account mismatch", code: "account_mismatch", message: "Wrong nullifier account.", hint: ACCOUNT_MISMATCH_HINT },
+    { log: "State account mismatch", code: "account_mismatch", message: "Wrong tally account.", hint: ACCOUNT_MISMATCH_HINT },
+    { log: "Signer config account mismatch", code: "account_mismatch", message: "Wrong signer config account.", hint: ACCOUNT_MISMATCH_HINT },
+    { log: "Missing instruction sysvar", code: "account_mismatch", message: "The instructions sysvar is missing.", hint: ACCOUNT_MISMATCH_HINT },
+    { log: "Proposal account mismatch", code: "account_mismatch", message: "Wrong proposal account.", hint: ACCOUNT_MISMATCH_HINT },
+    { log: "Payer must sign", code: "payer_signature", message: "The fee payer did not sign.", hint: "Approve the transaction in your wallet." },
+  ],
+  vote_program: [
+    PROPOSAL_UNKNOWN,
+    PROPOSAL_NOT_OPEN,
+    {
+      log: "Vote tree is full",
+      code: "tree_full",
+      message: "The vote tree shard filled up before your vote landed.",
+      hint: "Cast the vote again; it goes to the next shard.",
+    },
+    { log: "Vote tree account mismatch", code: "account_mismatch", message: "Wrong vote tree account.", hint: ACCOUNT_MISMATCH_HINT },
+    { log: "Proposal account mismatch", code: "account_mismatch", message: "Wrong proposal account.", hint: ACCOUNT_MISMATCH_HINT },
+    { log: "Payer must sign", code: "payer_signature", message: "The fee payer did not sign.", hint: "Approve the transaction in your wallet." },
+  ],
+  proposal_program: [
+    {
+      log: "Proposal already exists",
+      code: "proposal_exists",
+      message: "A proposal with this ID already exists.",
+      hint: "Choose another proposal ID.",
+    },
+    { log: "Title must be", code: "invalid_title", message: "The proposal title is empty or too long." },
+    {
+      log: "close_slot must be after open_slot",
+      code: "invalid_window",
+      message: "The voting window closes before it opens.",
+    },
+    { log: "Invalid allowed choices", code: "invalid_choices", message: "The proposal must allow at least one known choice." },
+    { log: "Identity commitment must be nonzero", code: "invalid_identity", message: "The identity commitment is empty." },
+    { log: "Identity account mismatch", code: "account_mismatch", message: "Wrong identity account.", hint: ACCOUNT_MISMATCH_HINT },
+    { log: "Member must sign", code: "member_signature", message: "The member did not sign.", hint: "Approve the transaction in your wallet." },
+  ],
+};
+
+// `ProgramError::Custom` codes, keyed to the log line the program writes alongside
+const CUSTOM_ERRORS: Record<string, Record<number, string>> = {
+  verifier_program: {
+    0: "Nullifier already spent",
+    1: "Not enough attestations",
+    2: "Groth16 proof verification failed",
+    3: "Vote root is not a recent root",
+    4: "Attestation expired",
+    5: "VEILPROOF_V1 attestations are no longer accepted",
+  },
+};
+
+function programFailure(program: string, failure: KnownFailure): StepError {
+  return { kind: "program", code: `${program}.${failure.code}`, message: failure.message, hint: failure.hint };
+}
+
+function knownFailure(program: string, log: string): StepError | undefined {
+  const failure = PROGRAM_FAILURES[program]?.find((known) => log.startsWith(known.log));
+  return failure && programFailure(program, failure);
+}
+
+function insufficientFunds(lines: string[]): StepError | undefined {
+  const broke = lines.some((line) =>
+    /insufficient (funds|lamports)|no record of a prior credit/i.test(line)
+  );
+  return broke
+    ? {
+        kind: "wallet",
+        code: "wallet.insufficient_funds",
+        message: "The wallet cannot pay for this transaction.",
+        hint: "Fund it with devnet SOL, e.g. `solana airdrop 1 <address> --url devnet`.",
+      }
+    : undefined;
+}
+
+/**
+ * Work out why a transaction failed from its logs: the failing program's last
+ * message, else its `ProgramError`. Undefined when no program failed.
+ */
+export function describeProgramFailure(logs: string[]): StepError | undefined {
+  const lines = decodeProgramLogs(logs);
+  const failedIndex = lines.map((line) => / failed: /.test(line)).lastIndexOf(true);
+  if (failedIndex < 0) {
+    return insufficientFunds(logs);
+  }
+  const [program, reason] = lines[failedIndex].split(" failed: ");
+  const messages = lines
+    .slice(0, failedIndex)
+    .filter((line) => line.startsWith(`${program}: `))
+    .map((line) => line.slice(program.length + 2));
+  for (const message of [...messages].reverse()) {
+    const known = knownFailure(program, message);
+    if (known) {
+      return known;
+    }
+  }
+  const custom = /custom program error: 0x([0-9a-f]+)/i.exec(reason);
+  const customLog = custom ? CUSTOM_ERRORS[program]?.[parseInt(custom[1], 16)] : undefined;
+  if (customLog) {
+    return knownFailure(program, customLog);
+  }
+  return (
+    insufficientFunds([reason]) ?? {
+      kind: "program",
+      code: `${program}.${custom ? `custom_${parseInt(custom[1], 16)}` : "failed"}`,
+      message: `${program} rejected the transaction: ${messages[messages.length - 1] ?? reason}`,
+    }
+  );
+}
+
+function errorText(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function describeApiError(err: VeilProofApiError): StepError {
+  const body = (err.body ?? {}) as { code?: unknown; retry_after_ms?: unknown; logs?: unknown };
+  if (err.service === "relayer") {
+    if (err.status === 0) {
+      return {
+        kind: "relayer",
+        code: "relayer.unreachable",
+        message: err.message,
+        hint: "Start it with ./scripts/start-relayer.sh, or unset VITE_RELAYER_URL to pay with your wallet.",
+      };
+    }
+    if (body.code === "rate_limited") {
+      const seconds = typeof body.retry_after_ms === "number" ? Math.ceil(body.retry_after_ms / 1000) : undefined;
+      return {
+        kind: "relayer",
+        code: "relayer.rate_limited",
+        message: "The relayer is limiting how often one client can submit.",
+        hint: seconds ? `Try again in ${seconds} s.` : "Try again in a minute.",
+      };
+    }
+    if (body.code === "insufficient_attestations") {
+      return {
+        kind: "relayer",
+        code: "relayer.insufficient_attestations",
+        message: `The relayer refused the proof: ${err.message}`,
+        hint: "Too few verifier instances attested it. Check that enough of them are up and in the signer set.",
+      };
+    }
+    if (body.code === "attestation_expired") {
+      return {
+        kind: "relayer",
+        code: "relayer.attestation_expired",
+        message: "The attestations expired, or the verifier program no longer accepts their version.",
+        hint: "Submit again to collect fresh attestations.",
+      };
+    }
+    if (body.code === "attestation_domain_mismatch") {
+      return {
+        kind: "relayer",
+        code: "relayer.attestation_domain_mismatch",
+        message: `The relayer refused the proof: ${err.message}`,
+        hint: "The attestations are for another verifier program or cluster. Check VITE_VERIFIER_PROGRAM_ID and VITE_RELAYER_URL.",
+      };
+    }
+    if (body.code === "groth16_unsupported") {
+      return {
+        kind: "relayer",
+        code: "relayer.groth16_unsupported",
+        message: "This relayer cannot submit Groth16 proofs.",
+        hint: "Set VOTE_PROGRAM_ID and PROPOSAL_PROGRAM_ID on the relayer, or unset VITE_RELAYER_URL to submit with your wallet.",
+      };
+    }
+    if (body.code === "relay_in_progress") {
+      return {
+        kind: "relayer",
+        code: "relayer.in_progress",
+        message: "This proof is already being submitted.",
+        hint: "Wait a moment; the results panel updates when it lands.",
+      };
+    }
+    // The relayer passes on the program logs when its transaction fails
+    const failure = Array.isArray(body.logs) ? describeProgramFailure(body.logs.map(String)) : undefined;
+    return (
+      failure ?? {
+        kind: "relayer",
+        code: "relayer.rejected",
+        message: `The relayer refused the proof: ${err.message}`,
+        hint: "Generate the proof again, or unset VITE_RELAYER_URL to submit with your wallet.",
+      }
+    );
+  }
+  if (err.status === 0) {
+    return {
+      kind: "verifier-service",
+      code: "verifier-service.unreachable",
+      message: err.message,
+      hint: "Start it with ./scripts/start-verifier.sh, or check VITE_VERIFIER_SERVICE_URLS.",
+    };
+  }
+  if (body.code === "not_attestable") {
+    return {
+      kind: "verifier-service",
+      code: "verifier-service.not_attestable",
+      message: `The verifier service does not attest this proof: ${err.message}`,
+      hint: "Its circuit is checked by the verifier program itself; submit it without attestations.",
+    };
+  }
+  if (body.code === "eligibility_required") {
+    return {
+      kind: "verifier-service",
+      code: "verifier-service.eligibility_required",
+      message: `The verifier service refused the proof: ${err.message}`,
+      hint: "The proof was made with a circuit that cannot prove membership. Generate it again.",
+    };
+  }
+  if (body.code === "attestation_domain_mismatch") {
+    return {
+      kind: "verifier-service",
+      code: "verifier-service.attestation_domain_mismatch",
+      message: `The verifier service refused the proof: ${err.message}`,
+      hint: "It signs for another verifier program. Check VITE_VERIFIER_PROGRAM_ID against its VERIFIER_PROGRAM_ID.",
+    };
+  }
+  if (body.code === "choice_not_allowed") {
+    return {
+      kind: "verifier-service",
+      code: "verifier-service.choice_not_allowed",
+      message: "This proposal does not accept the proven choice.",
+      hint: "Vote again with one of the options the proposal allows.",
+    };
+  }
+  if (body.code === "eligibility_root_mismatch") {
+    return {
+      kind: "verifier-service",
+      code: "verifier-service.eligibility_root_mismatch",
+      message: "The proof was made against a different member list than the proposal's.",
+      hint: "Generate the proof again from the proposal's eligibility snapshot.",
+    };
+  }
+  if (body.code === "queue_full") {
+    return {
+      kind: "prover",
+      code: "prover.queue_full",
+      message: "The prover service is busy with other proofs.",
+      hint: "Try again in a minute, or unset VITE_PROVER_SERVICE_URL to prove in your browser.",
+    };
+  }
+  if (body.code === "unknown_job") {
+    return {
+      kind: "prover",
+      code: "prover.unknown_job",
+      message: "The prover service no longer has this proof job.",
+      hint: "It may have restarted. Generate the proof again.",
+    };
+  }
+  if (body.code === "unknown_circuit" || body.code === "circuit_retired" || body.code === "vk_hash_mismatch") {
+    return {
+      kind: "verifier-service",
+      code: `verifier-service.${body.code}`,
+      message: `The verifier service no longer accepts this proof's circuit: ${err.message}`,
+      hint: "Generate the proof again; it will use the current circuit.",
+    };
+  }
+  if (err.status >= 400 && err.status < 500) {
+    return {
+      kind: "verifier-service",
+      code: "verifier-service.rejected",
+      message: `The verifier service rejected the proof: ${err.message}`,
+      hint: "Generate the proof again.",
+    };
+  }
+  return {
+    kind: "verifier-service",
+    code: "verifier-service.error",
+    message: err.message,
+    hint: "The service failed; try again later.",
+  };
+}
+
+/**
+ * Turn anything a backend call throws into a reason and a suggested fix for
+ * the step panel
+ */
+export function describeError(err: unknown): StepError {
+  const text = errorText(err);
+
+  if (err instanceof NullifierSpentError) {
+    return programFailure("verifier_program", NULLIFIER_SPENT);
+  }
+  if (err instanceof ProposalNotOpenError) {
+    return programFailure("vote_program", err.status === "unknown" ? PROPOSAL_UNKNOWN : PROPOSAL_NOT_OPEN);
+  }
+  if (err instanceof VeilProofApiError) {
+    return describeApiError(err);
+  }
+  if (err instanceof NotEligibleError) {
+    return {
+      kind: "prover",
+      code: "prover.not_eligible",
+      message: text,
+      hint: "Only members in the proposal's eligibility snapshot can vote. Register as a member before the next members-only proposal.",
+    };
+  }
+  if (err instanceof EligibilitySnapshotError) {
+    return {
+      kind: "prover",
+      code: "prover.eligibility_snapshot",
+      message: text,
+      hint: "Ask the proposal's creator for the snapshot they published, and set VITE_ELIGIBILITY_SNAPSHOT_URL to it.",
+    };
+  }
+  if (err instanceof ProofCancelledError) {
+    return { kind: "prover", code: "prover.cancelled", message: "Proof generation was cancelled." };
+  }
+  if (err instanceof ProofJobFailedError) {
+    return {
+      kind: "prover",
+      code: "prover.job_failed",
+      message: `The prover service could not make the proof: ${text}`,
+      hint: "Try again. If it keeps failing, the vote may not be in the proposal's vote tree yet.",
+    };
+  }
+  if (err instanceof InsufficientAttestationsError) {
+    return {
+      kind: "verifier-service",
+      code: "verifier-service.insufficient_attestations",
+      message: `${text}: too few verifier instances in the signer set attested the proof.`,
+      hint: "Check that enough of VITE_VERIFIER_SERVICE_URLS are up and that their keys are in the verifier program's signer config.",
+    };
+  }
+  if (err instanceof AttestationVerificationError) {
+    return {
+      kind: "verifier-service",
+      code: "verifier-service.bad_attestation",
+      message: `The attestation does not match the proof: ${text}`,
+      hint: "Generate the proof again.",
+    };
+  }
+  if (err instanceof SchemaError) {
+    return {
+      kind: "verifier-service",
+      code: "verifier-service.malformed_response",
+      message: text,
+      hint: "The service and the app disagree on the response format. Update one of them.",
+    };
+  }
+  if (err instanceof TransactionExpiredError) {
+    return {
+      kind: "rpc",
+      code: "rpc.expired",
+      message: "The transaction did not land before its blockhash expired.",
+      hint: "The network is congested. Try again.",
+    };
+  }
+  if (err instanceof TransactionFailedError) {
+    const [index, reason] = (err.err as { InstructionError?: [number, unknown] } | null)?.InstructionError ?? [];
+    return {
+      kind: "program",
+      code: "program.failed",
+      message:
+        index === undefined
+          ? text
+          : `Instruction ${index} failed after it was sent: ${typeof reason === "string" ? reason : JSON.stringify(reason)}`,
+      hint: "State changed after simulation. Try again.",
+    };
+  }
+
+  // Simulation failures and preflight rejections carry program logs
+  const logs = err instanceof TransactionSimulationError ? err.logs : (err as { logs?: unknown } | null)?.logs;
+  if (Array.isArray(logs)) {
+    const failure = describeProgramFailure(logs.filter((line): line is string => typeof line === "string"));
+    if (failure) {
+      return failure;
+    }
+  }
+  const broke = insufficientFunds([text]);
+  if (broke) {
+    return broke;
+  }
+  if (/blockhash not found/i.test(text)) {
+    return { kind: "rpc", code: "rpc.expired", message: "The transaction's blockhash expired.", hint: "Try again." };
+  }
+
+  const name = err instanceof Error ? err.name : "";
+  if (name.startsWith("Wallet") || /wallet|user rejected/i.test(text)) {
+    if (/reject|denied|declined|cancel/i.test(text)) {
+      return {
+        kind: "wallet",
+        code: "wallet.rejected",
+        message: "The request was declined in the wallet.",
+        hint: "Approve it in your wallet to continue.",
+      };
+    }
+    if (/not connected/i.test(text)) {
+      return {
+        kind: "wallet",
+        code: "wallet.not_connected",
+        message: "No wallet is connected.",
+        hint: "Connect a wallet, or turn on Demo Mode.",
+      };
+    }
+    return { kind: "wallet", code: "wallet.error", message: text, hint: "Check your wallet and try again." };
+  }
+
+  if (name === "SolanaJSONRPCError" || /failed to fetch|fetch failed|network ?error|ECONNREFUSED|429|too many requests/i.test(text)) {
+    return {
+      kind: "rpc",
+      code: /429|too many requests/i.test(text) ? "rpc.rate_limited" : "rpc.error",
+      message: `The Solana RPC node failed: ${text}`,
+      hint: "Try again, or set VITE_SOLANA_RPC_URL to another RPC provider.",
+    };
+  }
+
+  if (/circuit artifact/i.test(text)) {
+    return {
+      kind: "prover",
+      code: "prover.circuit_missing",
+      message: text,
+      hint: "Compile the circuit first; see \"Generate a proof artifact\" in the README.",
+    };
+  }
+  if (/prover worker/i.test(text)) {
+    return {
+      kind: "prover",
+      code: "prover.crashed",
+      message: text,
+      hint: "Proving needs a few GB of memory. Close other tabs and reload.",
+    };
+  }
+  if (/commitment not found|no votes recorded/i.test(text)) {
+    return {
+      kind: "prover",
+      code: "prover.vote_not_found",
+      message: "Your vote is not in this proposal's vote tree.",
+      hint: "The vote may have been cast from another wallet. Cast it again.",
+    };
+  }
+
+  return { kind: "unknown", code: "unknown", message: text };
+}
@@ -0,0 +1,194 @@
+import { bn254 } from "@noble/curves/bn254";
+import { sha256 } from "@noble/hashes/sha2";
+import { PUBLIC_INPUT_BYTES } from "./publicInputs";
+
+// Byte layout of the verifier program's alt_bn128 syscalls (EIP-197): G1 as
+// x || y, G2 as x.c1 || x.c0 || y.c1 || y.c0, every coordinate 32 bytes big-endian
+export const G1_BYTES = 64;
+export const G2_BYTES = 128;
+// A || B || C
+export const GROTH16_PROOF_BYTES = G1_BYTES + G2_BYTES + G1_BYTES;
+
+// Must match GROTH16_PUBLIC_INPUTS / GROTH16_VK_SPACE in verifier_program
+export const GROTH16_PUBLIC_INPUTS = 7;
+export const GROTH16_VK_BYTES = G1_BYTES + 3 * G2_BYTES + (GROTH16_PUBLIC_INPUTS + 1) * G1_BYTES;
+
+const { G1, G2, fields } = bn254;
+type G1Point = InstanceType<typeof G1.Point>;
+type G2Point = InstanceType<typeof G2.Point>;
+
+/**
+ * Thrown when Groth16 proof or verifying key bytes are malformed
+ */
+export class Groth16EncodingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "Groth16EncodingError";
+  }
+}
+
+export interface Groth16Proof {
+  a: Uint8Array;
+  b: Uint8Array;
+  c: Uint8Array;
+}
+
+/**
+ * Groth16 verifying key as the verifier program stores it (borsh
+ * `Groth16VerifyingKey`)
+ */
+export interface Groth16VerifyingKey {
+  alpha: Uint8Array;
+  beta: Uint8Array;
+  gamma: Uint8Array;
+  delta: Uint8Array;
+  // One more than there are public inputs
+  ic: Uint8Array[];
+}
+
+/**
+ * Split a proof into its points
+ * @throws Groth16EncodingError if it is not A || B || C
+ */
+export function decodeGroth16Proof(bytes: Uint8Array): Groth16Proof {
+  if (bytes.length !== GROTH16_PROOF_BYTES) {
+    throw new Groth16EncodingError(`Expected a ${GROTH16_PROOF_BYTES}-byte Groth16 proof, got ${bytes.length} bytes`);
+  }
+  return {
+    a: bytes.slice(0, G1_BYTES),
+    b: bytes.slice(G1_BYTES, G1_BYTES + G2_BYTES),
+    c: bytes.slice(G1_BYTES + G2_BYTES),
+  };
+}
+
+export function encodeGroth16Proof(proof: Groth16Proof): Uint8Array {
+  return concat([proof.a, proof.b, proof.c]);
+}
+
+export function encodeGroth16VerifyingKey(vk: Groth16VerifyingKey): Uint8Array {
+  if (vk.ic.length !== GROTH16_PUBLIC_INPUTS + 1) {
+    throw new Groth16EncodingError(`Expected ${GROTH16_PUBLIC_INPUTS + 1} IC points, got ${vk.ic.length}`);
+  }
+  return concat([vk.alpha, vk.beta, vk.gamma, vk.delta, ...vk.ic]);
+}
+
+/**
+ * Decode the verifying key account
+ * @throws Groth16EncodingError if the account is too short
+ */
+export function decodeGroth16VerifyingKey(data: Uint8Array): Groth16VerifyingKey {
+  if (data.length < GROTH16_VK_BYTES) {
+    throw new Groth16EncodingError("Groth16 verifying key account has unexpected size");
+  }
+  const icOffset = G1_BYTES + 3 * G2_BYTES;
+  return {
+    alpha: data.slice(0, G1_BYTES),
+    beta: data.slice(G1_BYTES, G1_BYTES + G2_BYTES),
+    gamma: data.slice(G1_BYTES + G2_BYTES, G1_BYTES + 2 * G2_BYTES),
+    delta: data.slice(G1_BYTES + 2 * G2_BYTES, icOffset),
+    ic: Array.from({ length: GROTH16_PUBLIC_INPUTS + 1 }, (_, i) =>
+      data.slice(icOffset + i * G1_BYTES, icOffset + (i + 1) * G1_BYTES)
+    ),
+  };
+}
+
+/**
+ * The vk hash a Groth16 proof carries: sha256 of the encoded verifying key,
+ * as the verifier service hashes the registry's vk file
+ */
+export function groth16VkHash(vk: Groth16VerifyingKey): string {
+  return Buffer.from(sha256(encodeGroth16VerifyingKey(vk))).toString("hex");
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function toBigInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((n, byte) => (n << 8n) | BigInt(byte), 0n);
+}
+
+function fromBigInt(n: bigint): Uint8Array {
+  const bytes = new Uint8Array(32);
+  for (let i = 31; i >= 0; i--) {
+    bytes[i] = Number(n & 0xffn);
+    n >>= 8n;
+  }
+  return bytes;
+}
+
+// All-zero bytes encode the point at infinity, as in the syscalls
+export function g1ToBytes(point: G1Point): Uint8Array {
+  if (point.equals(G1.Point.ZERO)) {
+    return new Uint8Array(G1_BYTES);
+  }
+  const { x, y } = point.toAffine();
+  return concat([fromBigInt(x), fromBigInt(y)]);
+}
+
+export function g2ToBytes(point: G2Point): Uint8Array {
+  if (point.equals(G2.Point.ZERO)) {
+    return new Uint8Array(G2_BYTES);
+  }
+  const { x, y } = point.toAffine();
+  return concat([fromBigInt(x.c1), fromBigInt(x.c0), fromBigInt(y.c1), fromBigInt(y.c0)]);
+}
+
+function g1FromBytes(bytes: Uint8Array): G1Point {
+  if (bytes.every((byte) => byte === 0)) {
+    return G1.Point.ZERO;
+  }
+  const point = G1.Point.fromAffine({ x: toBigInt(bytes.subarray(0, 32)), y: toBigInt(bytes.subarray(32, 64)) });
+  point.assertValidity();
+  return point;
+}
+
+function g2FromBytes(bytes: Uint8Array): G2Point {
+  if (bytes.every((byte) => byte === 0)) {
+    return G2.Point.ZERO;
+  }
+  const coordinate = (offset: number) =>
+    fields.Fp2.create({ c0: toBigInt(bytes.subarray(offset + 32, offset + 64)), c1: toBigInt(bytes.subarray(offset, offset + 32)) });
+  const point = G2.Point.fromAffine({ x: coordinate(0), y: coordinate(64) });
+  point.assertValidity();
+  return point;
+}
+
+/**
+ * Check a proof the way the verifier program does:
+ * e(-A, B) * e(alpha, beta) * e(vk_x, gamma) * e(C, delta) == 1, with
+ * vk_x = ic[0] + sum(input_i * ic[i + 1]). Malformed points, and public
+ * inputs that are not field elements, fail verification.
+ * @param publicInputs - The proof's raw public inputs, 32 bytes each
+ */
+export function verifyGroth16(vk: Groth16VerifyingKey, proof: Groth16Proof, publicInputs: Uint8Array): boolean {
+  if (publicInputs.length !== (vk.ic.length - 1) * PUBLIC_INPUT_BYTES) {
+    return false;
+  }
+  try {
+    let vkX = g1FromBytes(vk.ic[0]);
+    for (let i = 1; i < vk.ic.length; i++) {
+      const input = toBigInt(publicInputs.subarray((i - 1) * PUBLIC_INPUT_BYTES, i * PUBLIC_INPUT_BYTES));
+      if (input >= fields.Fr.ORDER) {
+        return false;
+      }
+      vkX = vkX.add(g1FromBytes(vk.ic[i]).multiplyUnsafe(input));
+    }
+    const pairs = [
+      { g1: g1FromBytes(proof.a).negate(), g2: g2FromBytes(proof.b) },
+      { g1: g1FromBytes(vk.alpha), g2: g2FromBytes(vk.beta) },
+      { g1: vkX, g2: g2FromBytes(vk.gamma) },
+      { g1: g1FromBytes(proof.c), g2: g2FromBytes(vk.delta) },
+      // A pair with the point at infinity contributes 1
+    ].filter(({ g1, g2 }) => !g1.equals(G1.Point.ZERO) && !g2.equals(G2.Point.ZERO));
+    return pairs.length === 0 || fields.Fp12.eql(bn254.pairingBatch(pairs), fields.Fp12.ONE);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,455 @@
+import {
+  AddressLookupTableAccount,
+  Connection,
+  PublicKey,
+  SendTransactionError,
+  SystemProgram,
+  VersionedTransaction,
+  type AccountChangeCallback,
+  type AccountInfo,
+  type GetProgramAccountsConfig,
+  type RecentPrioritizationFees,
+  type SignatureStatus,
+} from "@solana/web3.js";
+import { ed25519 } from "@noble/curves/ed25519";
+import { sha256 } from "@noble/hashes/sha2";
+import bs58 from "bs58";
+
+/**
+ * Thrown by a local program to abort the transaction, like a returned
+ * `ProgramError`. `custom` mirrors `ProgramError::Custom(code)`.
+ */
+export class LocalProgramError extends Error {
+  readonly custom?: number;
+
+  constructor(message: string, custom?: number) {
+    super(message);
+    this.name = "LocalProgramError";
+    this.custom = custom;
+  }
+}
+
+export interface LocalAccount {
+  lamports: number;
+  owner: PublicKey;
+  data: Buffer;
+}
+
+export interface LocalAccountMeta {
+  pubkey: PublicKey;
+  isSigner: boolean;
+  isWritable: boolean;
+}
+
+export interface LocalInstruction {
+  programId: PublicKey;
+  keys: LocalAccountMeta[];
+  data: Buffer;
+}
+
+/**
+ * What a local program sees while it runs: its instruction, the rest of the
+ * transaction (for instruction-sysvar style checks) and the bank state.
+ */
+export interface LocalInvokeContext {
+  programId: PublicKey;
+  instruction: LocalInstruction;
+  instructionIndex: number;
+  instructions: LocalInstruction[];
+  slot: number;
+  log(message: string): void;
+  getAccount(pubkey: PublicKey): LocalAccount | null;
+  // Equivalent of create_pda_account for a PDA: create_account, or for an
+  // address someone already funded, a rent top-up, allocate and assign
+  createAccount(pubkey: PublicKey, space: number, owner: PublicKey): LocalAccount;
+}
+
+export type LocalProgram = (context: LocalInvokeContext) => void;
+
+interface TransactionRecord {
+  slot: number;
+  err: unknown;
+  logs: string[];
+}
+
+// Same expiry as a real cluster
+const BLOCKHASH_VALID_SLOTS = 150;
+// The bank does not meter compute; simulations report this much per instruction
+const LOCAL_UNITS_PER_INSTRUCTION = 2_000;
+
+// Roughly the rent-exempt minimum on mainnet (3480 lamports/byte-year, 2 years)
+export function rentExemptMinimum(space: number): number {
+  return (128 + space) * 6960;
+}
+
+function cloneAccount(account: LocalAccount): LocalAccount {
+  return { lamports: account.lamports, owner: account.owner, data: Buffer.from(account.data) };
+}
+
+function toAccountInfo(account: LocalAccount): AccountInfo<Buffer> {
+  return {
+    lamports: account.lamports,
+    owner: account.owner,
+    data: Buffer.from(account.data),
+    executable: false,
+    rentEpoch: 0,
+  };
+}
+
+/**
+ * In-memory stand-in for a Solana RPC node. Executes transactions against
+ * TypeScript ports of the programs registered with `registerProgram`, and
+ * implements the subset of `Connection` the app uses.
+ * Pass `asConnection()` wherever a `Connection` is expected.
+ */
+export class LocalBank {
+  private readonly accounts = new Map<string, LocalAccount>();
+  private readonly programs = new Map<string, LocalProgram>();
+  private readonly transactions = new Map<string, TransactionRecord>();
+  // Blockhash -> last block height it is valid for
+  private readonly blockhashes = new Map<string, number>();
+  private readonly lookupTables = new Map<string, AddressLookupTableAccount>();
+  private readonly listeners = new Map<number, { pubkey: string; callback: AccountChangeCallback }>();
+  private nextListenerId = 0;
+  private dropCount = 0;
+  private slot: number;
+  // The same for every bank, like a cluster's
+  readonly genesisHash = bs58.encode(sha256(new TextEncoder().encode("local-genesis")));
+  // Returned by getRecentPrioritizationFees
+  prioritizationFees: RecentPrioritizationFees[] = [];
+
+  constructor(options: { slot?: number } = {}) {
+    this.slot = options.slot ?? 1;
+  }
+
+  registerProgram(programId: PublicKey, program: LocalProgram) {
+    this.programs.set(programId.toBase58(), program);
+  }
+
+  /** Write an account directly, like a genesis account */
+  setAccount(pubkey: PublicKey, account: LocalAccount) {
+    this.accounts.set(pubkey.toBase58(), cloneAccount(account));
+    this.notify([pubkey.toBase58()]);
+  }
+
+  /** Create an active address lookup table holding `addresses` */
+  setAddressLookupTable(key: PublicKey, addresses: PublicKey[]): AddressLookupTableAccount {
+    const table = new AddressLookupTableAccount({
+      key,
+      state: {
+        deactivationSlot: BigInt("0xffffffffffffffff"),
+        lastExtendedSlot: this.slot,
+        lastExtendedSlotStartIndex: 0,
+        addresses,
+      },
+    });
+    this.lookupTables.set(key.toBase58(), table);
+    return table;
+  }
+
+  getSlotSync(): number {
+    return this.slot;
+  }
+
+  /** Move the clock forward, e.g. past a proposal's close slot */
+  advanceSlots(count: number) {
+    this.slot += count;
+  }
+
+  asConnection(): Connection {
+    return this as unknown as Connection;
+  }
+
+  // ==========================================================================
+  // Connection subset
+  // ==========================================================================
+
+  async getSlot(): Promise<number> {
+    return this.slot;
+  }
+
+  async getGenesisHash(): Promise<string> {
+    return this.genesisHash;
+  }
+
+  async getLatestBlockhash() {
+    const blockhash = bs58.encode(sha256(new TextEncoder().encode(`local-blockhash-${this.slot}`)));
+    const lastValidBlockHeight = this.slot + BLOCKHASH_VALID_SLOTS;
+    this.blockhashes.set(blockhash, lastValidBlockHeight);
+    return { blockhash, lastValidBlockHeight };
+  }
+
+  // Every slot has a block here, so block height and slot are the same
+  async getBlockHeight(): Promise<number> {
+    return this.slot;
+  }
+
+  async getRecentPrioritizationFees(): Promise<RecentPrioritizationFees[]> {
+    return this.prioritizationFees;
+  }
+
+  async getAddressLookupTable(key: PublicKey) {
+    return { context: { slot: this.slot }, value: this.lookupTables.get(key.toBase58()) ?? null };
+  }
+
+  async getAccountInfo(pubkey: PublicKey): Promise<AccountInfo<Buffer> | null> {
+    const account = this.accounts.get(pubkey.toBase58());
+    return account ? toAccountInfo(account) : null;
+  }
+
+  async getMultipleAccountsInfo(pubkeys: PublicKey[]): Promise<(AccountInfo<Buffer> | null)[]> {
+    return Promise.all(pubkeys.map((pubkey) => this.getAccountInfo(pubkey)));
+  }
+
+  async getProgramAccounts(programId: PublicKey, config: GetProgramAccountsConfig = {}) {
+    const results: { pubkey: PublicKey; account: AccountInfo<Buffer> }[] = [];
+    for (const [address, account] of this.accounts) {
+      if (!account.owner.equals(programId)) {
+        continue;
+      }
+      const matches = (config.filters ?? []).every((filter) => {
+        if ("dataSize" in filter) {
+          return account.data.length === filter.dataSize;
+        }
+        const bytes =
+          filter.memcmp.encoding === "base64"
+            ? Buffer.from(filter.memcmp.bytes, "base64")
+            : Buffer.from(bs58.decode(filter.memcmp.bytes));
+        const offset = filter.memcmp.offset;
+        return account.data.subarray(offset, offset + bytes.length).equals(bytes);
+      });
+      if (!matches) {
+        continue;
+      }
+      const info = toAccountInfo(account);
+      if (config.dataSlice) {
+        const { offset, length } = config.dataSlice;
+        info.data = info.data.subarray(offset, offset + length);
+      }
+      results.push({ pubkey: new PublicKey(address), account: info });
+    }
+    return results;
+  }
+
+  async getSignatureStatus(signature: string): Promise<{ context: { slot: number }; value: SignatureStatus | null }> {
+    const record = this.transactions.get(signature);
+    return {
+      context: { slot: this.slot },
+      value: record
+        ? {
+            slot: record.slot,
+            confirmations: null,
+            err: record.err as SignatureStatus["err"],
+            // A single node has no forks to wait out
+            confirmationStatus: "finalized",
+          }
+        : null,
+    };
+  }
+
+  async getSignatureStatuses(signatures: string[]) {
+    const statuses = await Promise.all(signatures.map((signature) => this.getSignatureStatus(signature)));
+    return { context: { slot: this.slot }, value: statuses.map((status) => status.value) };
+  }
+
+  async confirmTransaction(strategy: { signature: string } | string) {
+    const signature = typeof strategy === "string" ? strategy : strategy.signature;
+    const record = this.transactions.get(signature);
+    return { context: { slot: this.slot }, value: { err: (record?.err ?? null) as SignatureStatus["err"] } };
+  }
+
+  onAccountChange(pubkey: PublicKey, callback: AccountChangeCallback): number {
+    const id = this.nextListenerId++;
+    this.listeners.set(id, { pubkey: pubkey.toBase58(), callback });
+    return id;
+  }
+
+  async removeAccountChangeListener(id: number): Promise<void> {
+    this.listeners.delete(id);
+  }
+
+  /**
+   * Execute a serialized legacy or v0 transaction. Failed transactions throw
+   * `SendTransactionError` with program logs, as preflight does on a real node.
+   */
+  async sendRawTransaction(raw: Buffer | Uint8Array | number[]): Promise<string> {
+    const tx = VersionedTransaction.deserialize(Uint8Array.from(raw));
+    const signature = bs58.encode(tx.signatures[0]);
+    // A rebroadcast of a landed transaction is ignored, as the cluster deduplicates by signature
+    if (this.transactions.has(signature)) {
+      return signature;
+    }
+    const { error, logs, scratch } = this.execute(tx, true);
+    if (error) {
+      throw new SendTransactionError({ action: "simulate", signature, transactionMessage: error, logs });
+    }
+    // Accepted but lost on the way to the leader; a rebroadcast can still land it
+    if (this.dropCount > 0) {
+      this.dropCount -= 1;
+      return signature;
+    }
+
+    for (const [address, account] of scratch) {
+      this.accounts.set(address, account);
+    }
+    this.transactions.set(signature, { slot: this.slot, err: null, logs });
+    this.slot += 1;
+    this.notify([...scratch.keys()]);
+    return signature;
+  }
+
+  /**
+   * Run a transaction without committing it. Signatures are not checked and
+   * the blockhash is not required to be known, like `sigVerify: false` with
+   * `replaceRecentBlockhash: true`.
+   */
+  async simulateTransaction(tx: VersionedTransaction) {
+    const { error, logs } = this.execute(tx, false);
+    return {
+      context: { slot: this.slot },
+      value: {
+        err: error ? { InstructionError: error } : null,
+        logs,
+        unitsConsumed: tx.message.compiledInstructions.length * LOCAL_UNITS_PER_INSTRUCTION,
+        accounts: null,
+        returnData: null,
+      },
+    };
+  }
+
+  /** Silently lose the next `count` sent transactions, as a congested network does */
+  dropNextTransactions(count: number) {
+    this.dropCount += count;
+  }
+
+  private execute(tx: VersionedTransaction, checkSignatures: boolean) {
+    const { message } = tx;
+    const scratch = new Map<string, LocalAccount>();
+    const logs: string[] = [];
+    const result = (error?: string) => ({ error, logs, scratch });
+
+    const tables: AddressLookupTableAccount[] = [];
+    for (const lookup of message.addressTableLookups) {
+      const table = this.lookupTables.get(lookup.accountKey.toBase58());
+      if (!table) {
+        return result("Transaction loads an address table account that doesn't exist");
+      }
+      tables.push(table);
+    }
+    const accountKeys =
+      message.version === 0 ? message.getAccountKeys({ addressLookupTableAccounts: tables }) : message.getAccountKeys();
+    if (checkSignatures) {
+      const lastValidBlockHeight = this.blockhashes.get(message.recentBlockhash);
+      if (lastValidBlockHeight === undefined || this.slot > lastValidBlockHeight) {
+        return result("Blockhash not found");
+      }
+      const messageBytes = message.serialize();
+      const signed = message.staticAccountKeys.slice(0, message.header.numRequiredSignatures);
+      if (signed.some((key, i) => !ed25519.verify(tx.signatures[i], messageBytes, key.toBytes()))) {
+        return result("Transaction signature verification failure");
+      }
+    }
+
+    const instructions: LocalInstruction[] = message.compiledInstructions.map((ix) => ({
+      programId: accountKeys.get(ix.programIdIndex)!,
+      keys: ix.accountKeyIndexes.map((index) => ({
+        pubkey: accountKeys.get(index)!,
+        isSigner: message.isAccountSigner(index),
+        isWritable: message.isAccountWritable(index),
+      })),
+      data: Buffer.from(ix.data),
+    }));
+
+    // Run against a scratch copy so a failing instruction leaves no trace
+    for (const [instructionIndex, instruction] of instructions.entries()) {
+      const program = this.programs.get(instruction.programId.toBase58());
+      logs.push(`Program ${instruction.programId.toBase58()} invoke [1]`);
+      if (!program) {
+        return result(`Program ${instruction.programId.toBase58()} is not loaded in the local bank`);
+      }
+      try {
+        program(this.createContext(instruction, instructionIndex, instructions, scratch, logs));
+        logs.push(`Program ${instruction.programId.toBase58()} success`);
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        const custom = err instanceof LocalProgramError ? err.custom : undefined;
+        logs.push(`Program ${instruction.programId.toBase58()} failed: ${reason}`);
+        return result(
+          custom !== undefined
+            ? `Error processing Instruction ${instructionIndex}: custom program error: 0x${custom.toString(16)}`
+            : `Error processing Instruction ${instructionIndex}: ${reason}`
+        );
+      }
+    }
+    return result();
+  }
+
+  private createContext(
+    instruction: LocalInstruction,
+    instructionIndex: number,
+    instructions: LocalInstruction[],
+    scratch: Map<string, LocalAccount>,
+    logs: string[]
+  ): LocalInvokeContext {
+    const writable = new Set(
+      instruction.keys.filter((key) => key.isWritable).map((key) => key.pubkey.toBase58())
+    );
+    const signers = new Set(
+      instruction.keys.filter((key) => key.isSigner).map((key) => key.pubkey.toBase58())
+    );
+
+    // Programs may mutate what they get back; only writable accounts persist
+    const getAccount = (pubkey: PublicKey): LocalAccount | null => {
+      const address = pubkey.toBase58();
+      const pending = scratch.get(address);
+      if (pending && writable.has(address)) {
+        return pending;
+      }
+      const existing = pending ?? this.accounts.get(address);
+      if (!existing) {
+        return null;
+      }
+      const copy = cloneAccount(existing);
+      if (writable.has(address)) {
+        scratch.set(address, copy);
+      }
+      return copy;
+    };
+
+    return {
+      programId: instruction.programId,
+      instruction,
+      instructionIndex,
+      instructions,
+      slot: this.slot,
+      log: (message) => logs.push(`Program log: ${message}`),
+      getAccount,
+      createAccount: (pubkey, space, owner) => {
+        const address = pubkey.toBase58();
+        if (!writable.has(address)) {
+          throw new LocalProgramError("Created account must be writable");
+        }
+        if (!instruction.keys.some((key) => signers.has(key.pubkey.toBase58()))) {
+          throw new LocalProgramError("Account creation needs a signing payer");
+        }
+        const existing = getAccount(pubkey);
+        if (existing && (!existing.owner.equals(SystemProgram.programId) || existing.data.length > 0)) {
+          throw new LocalProgramError(`Create Account: account ${address} already in use`);
+        }
+        const lamports = Math.max(existing?.lamports ?? 0, rentExemptMinimum(space));
+        const account = { lamports, owner, data: Buffer.alloc(space) };
+        scratch.set(address, account);
+        return account;
+      },
+    };
+  }
+
+  private notify(addresses: string[]) {
+    for (const { pubkey, callback } of this.listeners.values()) {
+      const account = addresses.includes(pubkey) ? this.accounts.get(pubkey) : undefined;
+      if (account) {
+        callback(toAccountInfo(account), { slot: this.slot });
+      }
+    }
+  }
+}
@@ -0,0 +1,308 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  type TransactionVersion,
+} from "@solana/web3.js";
+import type { WalletContextState } from "@solana/wallet-adapter-react";
+import { ed25519 } from "@noble/curves/ed25519";
+import bs58 from "bs58";
+import { RelayerClient, VeilProofClient } from "../client";
+import { PROPOSAL_PROGRAM_ID, VERIFIER_PROGRAM_ID, VOTE_PROGRAM_ID } from "../constants";
+import { keypairSigner, sendAndConfirmTransaction } from "../sender";
+import {
+  buildCreateProposalInstruction,
+  buildRotateSignersInstruction,
+  deriveGroth16VkAddress,
+  deriveProposalAddress,
+  deriveSignerConfigAddress,
+  lookupTableAddresses,
+} from "../solana";
+import { LocalBank, rentExemptMinimum } from "./bank";
+import {
+  BPF_LOADER_UPGRADEABLE_ID,
+  ED25519_PROGRAM_ID,
+  computeBudgetProgram,
+  createProposalProgram,
+  createVerifierProgram,
+  createVoteProgram,
+  ed25519Precompile,
+  encodeProgramDataAccount,
+  encodeProposalAccount,
+  encodeSignerConfigAccount,
+} from "./programs";
+import { encodeGroth16VerifyingKey } from "../groth16";
+import { createMockGroth16Prover, createMockGroth16Setup, type MockGroth16Setup } from "./mockGroth16";
+import { MockRelayerService } from "./mockRelayer";
+import { MockVerifierService, createMockProof } from "./mockVerifier";
+import { createServiceProver, type Prover } from "../prover";
+import type { CircuitInfo, ProofSystem } from "../../types";
+
+// Instance i answers at http://veilproof-<i>.local
+const localVerifierUrl = (index: number) => `http://veilproof-${index}.local`;
+const LOCAL_RELAYER_URL = "http://relayer.veilproof.local";
+
+export interface LocalProposalSeed {
+  id: string;
+  title: string;
+  openSlot?: number;
+  closeSlot?: number;
+  allowedChoices?: number[];
+  // Root of an eligibility snapshot (hex) to make the proposal members-only
+  eligibilityRoot?: string;
+}
+
+export interface LocalHarnessOptions {
+  slot?: number;
+  // Voter keypair; a fresh one by default
+  keypair?: Keypair;
+  // Mock verifier instances, each with its own signing key (default 3)
+  verifiers?: number;
+  // Attestations the signer config requires (default 2)
+  threshold?: number;
+  // Attestation signing seeds, one per verifier instance; fresh ones by default
+  attestationSecretKeys?: Uint8Array[];
+  // Proposals present from the start, without a create transaction
+  proposals?: LocalProposalSeed[];
+  // Submit proofs through the mock relayer (default) or with the voter's wallet
+  relayer?: boolean;
+  // A wallet that only signs legacy transactions, like older adapters
+  legacyWallet?: boolean;
+  // Build v0 transactions against a lookup table (default) or without one
+  lookupTable?: boolean;
+  // Circuit registry of the mock verifier, to try out a rollout
+  circuits?: CircuitInfo[];
+  // Proofs `prove` makes: attested ultraplonk (default) or on-chain Groth16
+  proofSystem?: ProofSystem;
+  // Prove through the first mock verifier's proof jobs, like VITE_PROVER_SERVICE_URL
+  proverService?: boolean;
+  // Verifier instances sign VEILPROOF_V1 attestations, like services without VERIFIER_PROGRAM_ID
+  v1Attestations?: boolean;
+  // First slot the verifier program refuses VEILPROOF_V1 attestations at (default 0);
+  // null leaves the attestation domain unset, as before `scripts/signers.js domain`
+  v1AttestationsUntil?: number | null;
+}
+
+export interface LocalHarness {
+  bank: LocalBank;
+  connection: Connection;
+  wallet: WalletContextState;
+  verifiers: MockVerifierService[];
+  verifierClients: VeilProofClient[];
+  relayer: MockRelayerService;
+  // null when the harness was created with `relayer: false`
+  relayerClient: RelayerClient | null;
+  // null when the harness was created with `lookupTable: false`
+  lookupTable: PublicKey | null;
+  prove: Prover;
+  // Verifying key (and trapdoor) the verifier program checks Groth16 proofs with
+  groth16: MockGroth16Setup;
+  // Upgrade authority of the verifier program and authority of its signer config
+  signerAuthority: Keypair;
+  // Registers a proposal through a real proposal_program transaction
+  createProposal(seed: LocalProposalSeed): Promise<string>;
+  // Replaces the signer set through a real verifier_program transaction
+  rotateSigners(signers: string[], threshold: number): Promise<string>;
+}
+
+export const LOCAL_SAMPLE_PROPOSALS: LocalProposalSeed[] = [
+  { id: "1", title: "Increase treasury allocation" },
+  { id: "2", title: "Add new governance token" },
+  { id: "42", title: "Launch community rewards program" },
+  { id: "100", title: "Protocol upgrade v2.0" },
+];
+
+const ALL_CHOICES = [0, 1, 2];
+const DEFAULT_VOTING_SLOTS = 1_000_000;
+
+/**
+ * Wallet adapter state backed by a local keypair. A `legacyOnly` wallet
+ * declares no versioned transaction support, so the app falls back to legacy.
+ */
+export function createLocalWallet(keypair: Keypair, options: { legacyOnly?: boolean } = {}): WalletContextState {
+  const signTransaction = keypairSigner(keypair);
+  // Only the parts of an adapter the app reads
+  const adapter = {
+    name: "Local Keypair",
+    supportedTransactionVersions: options.legacyOnly ? null : new Set<TransactionVersion>(["legacy", 0]),
+  };
+
+  return {
+    publicKey: keypair.publicKey,
+    connected: true,
+    connecting: false,
+    disconnecting: false,
+    autoConnect: false,
+    wallets: [],
+    wallet: { adapter, readyState: "Installed" } as unknown as WalletContextState["wallet"],
+    select: () => undefined,
+    connect: async () => undefined,
+    disconnect: async () => undefined,
+    sendTransaction: async () => {
+      throw new Error("Use signTransaction with the local bank");
+    },
+    signTransaction,
+    signAllTransactions: async (txs) => Promise.all(txs.map(signTransaction)),
+    signMessage: async (message) => ed25519.sign(message, keypair.secretKey.slice(0, 32)),
+    signIn: undefined,
+  } as WalletContextState;
+}
+
+function requireProgramIds() {
+  if (!PROPOSAL_PROGRAM_ID || !VOTE_PROGRAM_ID || !VERIFIER_PROGRAM_ID) {
+    throw new Error(
+      "The local harness needs program IDs: set VITE_LOCAL_HARNESS=true or the VITE_*_PROGRAM_ID variables"
+    );
+  }
+  return { proposal: PROPOSAL_PROGRAM_ID, vote: VOTE_PROGRAM_ID, verifier: VERIFIER_PROGRAM_ID };
+}
+
+/**
+ * Build a self-contained stand-in for devnet, the wallet, the prover, the
+ * verifier service instances and the relayer. The bank runs ports of the three programs under the
+ * configured program IDs, so the real instruction builders work unchanged.
+ * The signer config starts out trusting every verifier instance.
+ */
+export function createLocalHarness(options: LocalHarnessOptions = {}): LocalHarness {
+  const ids = requireProgramIds();
+  const bank = new LocalBank({ slot: options.slot });
+  const verifierCount = options.attestationSecretKeys?.length ?? options.verifiers ?? 3;
+  const verifiers = Array.from(
+    { length: verifierCount },
+    (_, index) =>
+      new MockVerifierService({
+        secretKey: options.attestationSecretKeys?.[index],
+        bank,
+        circuits: options.circuits,
+        verifierProgramId: options.v1Attestations ? undefined : ids.verifier,
+      })
+  );
+
+  bank.registerProgram(ids.proposal, createProposalProgram());
+  bank.registerProgram(ids.vote, createVoteProgram(ids));
+  bank.registerProgram(ids.verifier, createVerifierProgram(ids));
+  bank.registerProgram(ED25519_PROGRAM_ID, ed25519Precompile);
+  bank.registerProgram(ComputeBudgetProgram.programId, computeBudgetProgram);
+
+  // As if deployed and initialized by scripts/deploy.sh, scripts/signers.js and scripts/groth16.js
+  const signerAuthority = Keypair.generate();
+  const [programData] = PublicKey.findProgramAddressSync([ids.verifier.toBuffer()], BPF_LOADER_UPGRADEABLE_ID);
+  const programDataBytes = encodeProgramDataAccount(signerAuthority.publicKey);
+  bank.setAccount(programData, {
+    lamports: rentExemptMinimum(programDataBytes.length),
+    owner: BPF_LOADER_UPGRADEABLE_ID,
+    data: programDataBytes,
+  });
+  const v1UntilSlot = options.v1AttestationsUntil === undefined ? 0 : options.v1AttestationsUntil;
+  const signerConfig = encodeSignerConfigAccount(
+    {
+      authority: signerAuthority.publicKey,
+      threshold: Math.min(options.threshold ?? 2, verifierCount),
+      epoch: 0n,
+      signers: verifiers.map((verifier) => Buffer.from(verifier.signerPubkeyHex, "hex")),
+    },
+    v1UntilSlot === null
+      ? undefined
+      : { genesisHash: Buffer.from(bs58.decode(bank.genesisHash)), v1UntilSlot: BigInt(v1UntilSlot) }
+  );
+  bank.setAccount(deriveSignerConfigAddress(), {
+    lamports: rentExemptMinimum(signerConfig.length),
+    owner: ids.verifier,
+    data: signerConfig,
+  });
+  const groth16 = createMockGroth16Setup();
+  const verifyingKey = Buffer.from(encodeGroth16VerifyingKey(groth16.verifyingKey));
+  bank.setAccount(deriveGroth16VkAddress(), {
+    lamports: rentExemptMinimum(verifyingKey.length),
+    owner: ids.verifier,
+    data: verifyingKey,
+  });
+
+  const relayer = new MockRelayerService({ bank });
+  const verifierClients = verifiers.map(
+    (verifier, index) => new VeilProofClient(localVerifierUrl(index), { fetch: verifier.fetch })
+  );
+  const prove = options.proverService
+    ? createServiceProver(verifierClients[0])
+    : options.proofSystem === "groth16"
+      ? createMockGroth16Prover(groth16)
+      : createMockProof;
+
+  const keypair = options.keypair ?? Keypair.generate();
+  const wallet = createLocalWallet(keypair, { legacyOnly: options.legacyWallet });
+  const lookupTable = options.lookupTable === false ? null : Keypair.generate().publicKey;
+  if (lookupTable) {
+    bank.setAddressLookupTable(lookupTable, lookupTableAddresses());
+  }
+  const connection = bank.asConnection();
+  const signTransaction = keypairSigner(keypair);
+
+  const withDefaults = (seed: LocalProposalSeed) => {
+    const openSlot = seed.openSlot ?? 0;
+    return {
+      ...seed,
+      openSlot,
+      closeSlot: seed.closeSlot ?? bank.getSlotSync() + DEFAULT_VOTING_SLOTS,
+      allowedChoices: seed.allowedChoices ?? ALL_CHOICES,
+    };
+  };
+
+  for (const seed of (options.proposals ?? []).map(withDefaults)) {
+    const data = encodeProposalAccount({
+      proposalId: BigInt(seed.id),
+      creator: keypair.publicKey,
+      openSlot: BigInt(seed.openSlot),
+      closeSlot: BigInt(seed.closeSlot),
+      allowedChoices: seed.allowedChoices.reduce((mask, choice) => mask | (1 << choice), 0),
+      title: seed.title,
+      eligibilityRoot: seed.eligibilityRoot ? Buffer.from(seed.eligibilityRoot, "hex") : undefined,
+    });
+    bank.setAccount(deriveProposalAddress(seed.id), {
+      lamports: rentExemptMinimum(data.length),
+      owner: ids.proposal,
+      data,
+    });
+  }
+
+  return {
+    bank,
+    connection,
+    wallet,
+    verifiers,
+    verifierClients,
+    relayer,
+    relayerClient: options.relayer === false ? null : new RelayerClient(LOCAL_RELAYER_URL, { fetch: relayer.fetch }),
+    lookupTable,
+    prove,
+    groth16,
+    signerAuthority,
+    async createProposal(seed) {
+      const { id, title, openSlot, closeSlot, allowedChoices, eligibilityRoot } = withDefaults(seed);
+      const instruction = buildCreateProposalInstruction(
+        id,
+        title,
+        openSlot,
+        closeSlot,
+        allowedChoices,
+        keypair.publicKey,
+        eligibilityRoot
+      );
+      return sendAndConfirmTransaction(
+        connection,
+        new Transaction().add(instruction),
+        signTransaction,
+        keypair.publicKey
+      );
+    },
+    async rotateSigners(signers, threshold) {
+      return sendAndConfirmTransaction(
+        connection,
+        new Transaction().add(buildRotateSignersInstruction(threshold, signers, signerAuthority.publicKey)),
+        keypairSigner(signerAuthority),
+        signerAuthority.publicKey
+      );
+    },
+  };
+}
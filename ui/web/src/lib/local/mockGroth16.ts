@@ -0,0 +1,90 @@
+import { bn254 } from "@noble/curves/bn254";
+import {
+  GROTH16_PUBLIC_INPUTS,
+  encodeGroth16Proof,
+  g1ToBytes,
+  g2ToBytes,
+  groth16VkHash,
+  type Groth16VerifyingKey,
+} from "../groth16";
+import { PUBLIC_INPUT_BYTES } from "../publicInputs";
+import { createMockProof } from "./mockVerifier";
+import type { ProofData } from "../../types";
+
+// Registry entry the harness's Groth16 proofs claim
+export const MOCK_GROTH16_CIRCUIT_ID = "vote_proof_groth16@0.3.0";
+
+const { G1, G2, fields } = bn254;
+const Fr = fields.Fr;
+
+/**
+ * A Groth16 verifying key whose trapdoor is kept, so proofs for any public
+ * inputs can be forged without a circuit. Forged proofs pass the real
+ * pairing check, which is what the verifier program port runs.
+ */
+export interface MockGroth16Setup {
+  verifyingKey: Groth16VerifyingKey;
+  vkHash: string;
+  // A || B || C for the raw public inputs
+  prove(publicInputs: Uint8Array): Uint8Array;
+}
+
+// Nonzero, and 48 random bytes keep the reduction mod r unbiased enough
+function randomScalar(): bigint {
+  const n = Fr.create(crypto.getRandomValues(new Uint8Array(48)).reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n));
+  return n === 0n ? randomScalar() : n;
+}
+
+export function createMockGroth16Setup(): MockGroth16Setup {
+  const [alpha, beta, gamma, delta] = [randomScalar(), randomScalar(), randomScalar(), randomScalar()];
+  const ic = Array.from({ length: GROTH16_PUBLIC_INPUTS + 1 }, randomScalar);
+  const verifyingKey: Groth16VerifyingKey = {
+    alpha: g1ToBytes(G1.Point.BASE.multiply(alpha)),
+    beta: g2ToBytes(G2.Point.BASE.multiply(beta)),
+    gamma: g2ToBytes(G2.Point.BASE.multiply(gamma)),
+    delta: g2ToBytes(G2.Point.BASE.multiply(delta)),
+    ic: ic.map((scalar) => g1ToBytes(G1.Point.BASE.multiply(scalar))),
+  };
+
+  return {
+    verifyingKey,
+    vkHash: groth16VkHash(verifyingKey),
+    prove(publicInputs) {
+      // x = ic[0] + sum(input_i * ic[i + 1]) in the exponent
+      let x = ic[0];
+      for (let i = 0; i < GROTH16_PUBLIC_INPUTS; i++) {
+        const chunk = publicInputs.subarray(i * PUBLIC_INPUT_BYTES, (i + 1) * PUBLIC_INPUT_BYTES);
+        const input = chunk.reduce((n, byte) => (n << 8n) | BigInt(byte), 0n);
+        x = Fr.add(x, Fr.mul(Fr.create(input), ic[i + 1]));
+      }
+      // Pick A and B, then solve a*b = alpha*beta + x*gamma + c*delta for C
+      const a = randomScalar();
+      const b = randomScalar();
+      const c = Fr.div(Fr.sub(Fr.sub(Fr.mul(a, b), Fr.mul(alpha, beta)), Fr.mul(x, gamma)), delta);
+      return encodeGroth16Proof({
+        a: g1ToBytes(G1.Point.BASE.multiply(a)),
+        b: g2ToBytes(G2.Point.BASE.multiply(b)),
+        c: g1ToBytes(G1.Point.BASE.multiplyUnsafe(c)),
+      });
+    },
+  };
+}
+
+/**
+ * `createMockProof` for the Groth16 circuit: the same circuit constraints,
+ * with a proof the verifier program accepts on its own
+ */
+export function createMockGroth16Prover(setup: MockGroth16Setup): typeof createMockProof {
+  return async (inputs, onProgress, signal, circuitId = MOCK_GROTH16_CIRCUIT_ID) => {
+    const proof: ProofData = await createMockProof(inputs, onProgress, signal, circuitId);
+    return {
+      ...proof,
+      proof: Buffer.from(setup.prove(Buffer.from(proof.publicInputs.raw, "base64"))).toString("base64"),
+      vkHash: setup.vkHash,
+      meta: {
+        mock: true,
+        note: "Local harness Groth16 proof, forged with the harness's verifying key trapdoor.",
+      },
+    };
+  };
+}
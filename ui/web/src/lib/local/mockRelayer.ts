@@ -0,0 +1,319 @@
+import { Keypair, SendTransactionError, Transaction } from "@solana/web3.js";
+import {
+  AttestationVerificationError,
+  InsufficientAttestationsError,
+  attestationsUsable,
+  verifyAttestationMessages,
+  type VerifiedAttestations,
+} from "../attestation";
+import { SchemaError, parseVerifierAttestation } from "../schema";
+import { TransactionSimulationError, keypairSigner, sendAndConfirmTransaction } from "../sender";
+import {
+  buildEd25519Instruction,
+  buildGroth16VerifierInstruction,
+  buildVerifierInstruction,
+  fetchNullifierTrustModel,
+  fetchSignerConfig,
+} from "../solana";
+import { GROTH16_PROOF_BYTES } from "../groth16";
+import { PROPOSAL_PROGRAM_ID, VOTE_PROGRAM_ID } from "../constants";
+import type { VerifierAttestation } from "../../types";
+import type { LocalBank } from "./bank";
+
+// Matches the relayer service's defaults
+const DEFAULT_RATE_LIMIT = 5;
+const DEFAULT_RATE_WINDOW_MS = 60_000;
+// The service's MAX_BODY_BYTES
+const MAX_BODY_BYTES = 64 * 1024;
+// Requests without it share one client, like calls from a single address
+const CLIENT_HEADER = "X-Client-Id";
+
+export interface MockRelayerOptions {
+  bank: LocalBank;
+  // Fee payer; a fresh one by default
+  keypair?: Keypair;
+  // Relays allowed per client per window
+  rateLimit?: number;
+  rateWindowMs?: number;
+  now?: () => number;
+}
+
+type JsonBody = Record<string, unknown>;
+
+class MockHttpError extends Error {
+  readonly status: number;
+  readonly extra: JsonBody;
+
+  constructor(status: number, message: string, extra: JsonBody = {}) {
+    super(message);
+    this.status = status;
+    this.extra = extra;
+  }
+}
+
+/**
+ * In-process mock of relayer_service/index.js. Checks attestations against
+ * the verifier program's signer config (or the shape of a Groth16 proof), applies
+ * the same per-client rate limit and nullifier replay protection, and sends
+ * the verifier transaction to the bank with its own keypair as fee payer.
+ * Hand `fetch` to `RelayerClient`.
+ */
+export class MockRelayerService {
+  readonly feePayer: Keypair;
+  // Every relayed transaction, for asserting that the voter never signed
+  readonly relayed: { nullifier: string; signature: string }[] = [];
+  private readonly bank: LocalBank;
+  private readonly rateLimit: number;
+  private readonly rateWindowMs: number;
+  private readonly now: () => number;
+  private readonly recentRelays = new Map<string, number[]>();
+  private readonly relayedNullifiers = new Map<string, string>();
+  private readonly pendingNullifiers = new Set<string>();
+
+  constructor(options: MockRelayerOptions) {
+    this.bank = options.bank;
+    this.feePayer = options.keypair ?? Keypair.generate();
+    this.rateLimit = options.rateLimit ?? DEFAULT_RATE_LIMIT;
+    this.rateWindowMs = options.rateWindowMs ?? DEFAULT_RATE_WINDOW_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  readonly fetch: typeof fetch = async (input, init) => {
+    const url = new URL(typeof input === "string" || input instanceof URL ? input : input.url);
+    const method = init?.method ?? "GET";
+    try {
+      if (method === "GET" && url.pathname === "/health") {
+        return this.respond(200, {
+          status: "ok",
+          service: "veilproof-relayer-mock",
+          fee_payer: this.feePayer.publicKey.toBase58(),
+          timestamp: new Date().toISOString(),
+        });
+      }
+      if (method === "POST" && url.pathname === "/relay") {
+        const client = new Headers(init?.headers).get(CLIENT_HEADER) ?? "local";
+        const signature = await this.relay(this.parseBody(init?.body), client);
+        return this.respond(200, { ok: true, signature });
+      }
+      throw new MockHttpError(404, "Not Found");
+    } catch (err) {
+      if (err instanceof MockHttpError) {
+        return this.respond(err.status, { error: err.message, ...err.extra });
+      }
+      throw err;
+    }
+  };
+
+  private respond(status: number, body: unknown): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  private parseBody(body: unknown): JsonBody {
+    const text = String(body ?? "");
+    if (Buffer.byteLength(text) > MAX_BODY_BYTES) {
+      throw new MockHttpError(413, `Request body is larger than ${MAX_BODY_BYTES} bytes`);
+    }
+    try {
+      const parsed = JSON.parse(text);
+      return parsed && typeof parsed === "object" ? parsed : {};
+    } catch {
+      throw new MockHttpError(400, "Invalid JSON");
+    }
+  }
+
+  private async checkAttestations(body: JsonBody): Promise<VerifiedAttestations> {
+    let attestations: VerifierAttestation[];
+    try {
+      // A bare attestation is the single-signer form older clients send.
+      // The service ignores `ok`; only the attestation and signature matter.
+      const list = Array.isArray(body.attestations) ? body.attestations : [body];
+      attestations = list.map((item, index) =>
+        parseVerifierAttestation({ ...(item as JsonBody), ok: true }, `body.attestations[${index}]`)
+      );
+    } catch (err) {
+      if (err instanceof SchemaError) {
+        throw new MockHttpError(400, err.message);
+      }
+      throw err;
+    }
+    const config = await fetchSignerConfig(this.bank.asConnection());
+    if (!config) {
+      throw new MockHttpError(503, "The verifier program has no signer config");
+    }
+    try {
+      // Signatures past the threshold would only make the transaction bigger
+      const verified = verifyAttestationMessages(attestations, config);
+      if (!attestationsUsable(verified.attestations, config, this.bank.getSlotSync())) {
+        throw new MockHttpError(400, "Attestations are expired or no longer accepted", { code: "attestation_expired" });
+      }
+      return { ...verified, attestations: verified.attestations.slice(0, config.threshold) };
+    } catch (err) {
+      if (err instanceof InsufficientAttestationsError) {
+        throw new MockHttpError(403, err.message, { code: "insufficient_attestations" });
+      }
+      if (err instanceof AttestationVerificationError) {
+        throw new MockHttpError(400, err.message);
+      }
+      throw err;
+    }
+  }
+
+  // Shape checks only, as in the service; the bank's preflight runs the pairing check
+  private checkGroth16(item: unknown) {
+    if (!item || typeof item !== "object") {
+      throw new MockHttpError(400, "groth16 must be an object");
+    }
+    if (!VOTE_PROGRAM_ID || !PROPOSAL_PROGRAM_ID) {
+      throw new MockHttpError(
+        501,
+        "This relayer has no VOTE_PROGRAM_ID or PROPOSAL_PROGRAM_ID and cannot relay Groth16 proofs",
+        { code: "groth16_unsupported" }
+      );
+    }
+    const fields = item as Record<string, unknown>;
+    for (const field of ["nullifier_hex", "vote_root_hex"]) {
+      if (typeof fields[field] !== "string" || !/^[0-9a-f]{64}$/i.test(fields[field] as string)) {
+        throw new MockHttpError(400, `groth16.${field} must be 32 bytes of hex`);
+      }
+    }
+    for (const field of ["expected_program_id", "expected_proposal_id"]) {
+      if (!/^\d+$/.test(String(fields[field])) || BigInt(String(fields[field])) > 0xffffffffffffffffn) {
+        throw new MockHttpError(400, `groth16.${field} must be a u64`);
+      }
+    }
+    const voteChoice = Number(fields.vote_choice);
+    if (![0, 1, 2].includes(voteChoice)) {
+      throw new MockHttpError(400, "groth16.vote_choice must be 0, 1 or 2");
+    }
+    const weight = String(fields.weight ?? "1");
+    if (!/^\d+$/.test(weight) || BigInt(weight) < 1n || BigInt(weight) > 0xffffffffffffffffn) {
+      throw new MockHttpError(400, "groth16.weight must be a u64 of at least 1");
+    }
+    const proof = typeof fields.proof_base64 === "string" ? Buffer.from(fields.proof_base64, "base64") : Buffer.alloc(0);
+    if (proof.length !== GROTH16_PROOF_BYTES) {
+      throw new MockHttpError(400, `groth16.proof_base64 must be a ${GROTH16_PROOF_BYTES}-byte Groth16 proof`);
+    }
+    const voteTreeShard = Number(fields.vote_tree_shard ?? 0);
+    if (!Number.isInteger(voteTreeShard) || voteTreeShard < 0 || voteTreeShard > 0xffffffff) {
+      throw new MockHttpError(400, "groth16.vote_tree_shard must be a u32");
+    }
+    return {
+      programId: String(fields.expected_program_id),
+      proposalId: String(fields.expected_proposal_id),
+      voteChoice,
+      nullifier: (fields.nullifier_hex as string).toLowerCase(),
+      voteRoot: (fields.vote_root_hex as string).toLowerCase(),
+      proof,
+      weight,
+      voteTreeShard,
+    };
+  }
+
+  private takeRateLimit(client: string) {
+    const now = this.now();
+    const recent = (this.recentRelays.get(client) ?? []).filter((at) => now - at < this.rateWindowMs);
+    if (recent.length >= this.rateLimit) {
+      this.recentRelays.set(client, recent);
+      throw new MockHttpError(429, "Too many relay requests", {
+        code: "rate_limited",
+        retry_after_ms: this.rateWindowMs - (now - recent[0]),
+      });
+    }
+    recent.push(now);
+    this.recentRelays.set(client, recent);
+  }
+
+  private async relay(body: JsonBody, client: string): Promise<string> {
+    // Before any RPC work, so a client over its limit costs nothing
+    this.takeRateLimit(client);
+
+    // Groth16 proofs are checked on chain and need no attestations
+    const groth16 = body.groth16 ? this.checkGroth16(body.groth16) : null;
+    const attested = groth16 ? null : await this.checkAttestations(body);
+    const nullifier = groth16 ? groth16.nullifier : attested!.attestations[0].attestation.nullifier_hex.toLowerCase();
+
+    const relayed = this.relayedNullifiers.get(nullifier);
+    if (relayed) {
+      throw new MockHttpError(409, "Nullifier already spent", { code: "nullifier_spent", signature: relayed });
+    }
+    if (this.pendingNullifiers.has(nullifier)) {
+      throw new MockHttpError(409, "This proof is already being relayed", { code: "relay_in_progress" });
+    }
+
+    this.pendingNullifiers.add(nullifier);
+    try {
+      if (await fetchNullifierTrustModel(this.bank.asConnection(), nullifier)) {
+        throw new MockHttpError(409, "Nullifier already spent", { code: "nullifier_spent" });
+      }
+      const transaction = groth16
+        ? new Transaction().add(
+            buildGroth16VerifierInstruction(
+              groth16.proposalId,
+              groth16.programId,
+              groth16.voteChoice,
+              nullifier,
+              groth16.voteRoot,
+              groth16.proof,
+              this.feePayer.publicKey,
+              groth16.weight,
+              groth16.voteTreeShard
+            )
+          )
+        : this.attestedTransaction(attested!, nullifier);
+
+      let signature: string;
+      try {
+        signature = await sendAndConfirmTransaction(
+          this.bank.asConnection(),
+          transaction,
+          keypairSigner(this.feePayer),
+          this.feePayer.publicKey
+        );
+      } catch (err) {
+        // Rejected in preflight, as the relayer service sends with it
+        if (err instanceof SendTransactionError || err instanceof TransactionSimulationError) {
+          const logs = err.logs ?? [];
+          if ([err.message, ...logs].some((line) => line.includes("Nullifier already spent"))) {
+            throw new MockHttpError(409, "Nullifier already spent", { code: "nullifier_spent" });
+          }
+          throw new MockHttpError(400, `Verifier program rejected the ${groth16 ? "proof" : "attestation"}`, { logs });
+        }
+        throw err;
+      }
+      this.relayedNullifiers.set(nullifier, signature);
+      this.relayed.push({ nullifier, signature });
+      return signature;
+    } finally {
+      this.pendingNullifiers.delete(nullifier);
+    }
+  }
+
+  private attestedTransaction({ attestations, messageHash }: VerifiedAttestations, nullifier: string): Transaction {
+    const fields = attestations[0].attestation;
+    return new Transaction().add(
+      buildEd25519Instruction(
+        attestations.map((attestation) => ({
+          publicKey: Buffer.from(attestation.attestation.signer_pubkey_hex, "hex"),
+          signature: Buffer.from(attestation.signature_base64, "base64"),
+        })),
+        messageHash
+      ),
+      buildVerifierInstruction(
+        fields.expected_proposal_id,
+        fields.expected_program_id,
+        Number(fields.vote_choice),
+        nullifier,
+        fields.vote_root_hex,
+        fields.vk_hash_hex,
+        fields.public_inputs_hash_hex,
+        fields.proof_hash_hex,
+        this.feePayer.publicKey,
+        fields.weight ?? "1",
+        fields.expiry_slot
+      )
+    );
+  }
+}
@@ -0,0 +1,719 @@
+import { PublicKey } from "@solana/web3.js";
+import { ed25519 } from "@noble/curves/ed25519";
+import { sha256 } from "@noble/hashes/sha2";
+import { poseidon2 } from "poseidon-lite";
+import { canonicalizeJson, computeMessageHash, type MessageDomain } from "../attestation";
+import { demoNullifier } from "../nullifier";
+import { decodeProposal } from "../solana";
+import { VOTE_TREE_DEPTH, computeVoteCommitment, decodeVoteTree, fieldToHex } from "../voteTree";
+import { CIRCUITS, placeholderVkHash, provesEligibility, provesWeight } from "../circuits";
+import { ELIGIBILITY_TREE_DEPTH, OPEN_ELIGIBILITY_ROOT, computeIdentityCommitment, eligibilityLeaf } from "../eligibility";
+import { PublicInputsError, assertPublicInputsMatch, encodePublicInputs, publicInputSchema } from "../publicInputs";
+import { CIRCUIT_ID, PROPOSAL_PROGRAM_ID, VOTE_PROGRAM_ID } from "../constants";
+import { ProofCancelledError } from "../prover";
+import type { ProverInputs } from "../prover.worker";
+import type { CircuitInfo, ProofData, ProofJobStatus, ProverProgress, ProverStage } from "../../types";
+import type { LocalBank } from "./bank";
+
+// Mock proofs are raw public inputs || MAC, standing in for raw || proof body
+const MOCK_PROOF_TAG = "VEILPROOF_MOCK_PROOF";
+
+function mockProofMac(raw: Buffer): Buffer {
+  return Buffer.from(sha256(Buffer.concat([Buffer.from(MOCK_PROOF_TAG), raw])));
+}
+
+/**
+ * Stand-in for the in-browser prover. Enforces the same constraints as
+ * noir/vote_proof (IDs match, choice <= 2, commitment is in the vote tree,
+ * voter is in a nonzero eligibility tree, weight is within the balance) and
+ * emits a proof only
+ * MockVerifierService accepts.
+ */
+export async function createMockProof(
+  inputs: ProverInputs,
+  onProgress?: (progress: ProverProgress) => void,
+  signal?: AbortSignal,
+  circuitId = CIRCUIT_ID
+): Promise<ProofData> {
+  if (signal?.aborted) {
+    throw new ProofCancelledError();
+  }
+  onProgress?.({ stage: "executing", message: "Executing circuit to build witness", fraction: 0.3 });
+  if (inputs.program_id !== inputs.expected_program_id) {
+    throw new Error("Circuit constraint failed: program_id != expected_program_id");
+  }
+  if (inputs.proposal_id !== inputs.expected_proposal_id) {
+    throw new Error("Circuit constraint failed: proposal_id != expected_proposal_id");
+  }
+  if (inputs.vote_choice > 2) {
+    throw new Error("Circuit constraint failed: vote_choice > 2");
+  }
+
+  let node = computeVoteCommitment(inputs.voter_secret, inputs.proposal_id, inputs.vote_choice);
+  inputs.merkle_path.forEach((sibling, level) => {
+    node = (inputs.leaf_index >> level) & 1
+      ? poseidon2([BigInt(sibling), node])
+      : poseidon2([node, BigInt(sibling)]);
+  });
+  if (node !== BigInt(inputs.vote_root)) {
+    throw new Error("Circuit constraint failed: commitment is not in the vote tree");
+  }
+  const schema = publicInputSchema(circuitId);
+  const eligibilityRoot = BigInt(inputs.eligibility_root);
+  const weighted = provesWeight({ publicInputs: schema });
+  const balance = BigInt(inputs.balance);
+  const weight = BigInt(inputs.weight);
+  if (weighted && weight < 1n) {
+    throw new Error("Circuit constraint failed: weight < 1");
+  }
+  if (provesEligibility({ publicInputs: schema }) && eligibilityRoot !== 0n) {
+    const commitment = computeIdentityCommitment(inputs.voter_secret);
+    let identity = weighted ? eligibilityLeaf(commitment, balance) : commitment;
+    inputs.identity_path.forEach((sibling, level) => {
+      identity = (inputs.identity_index >> level) & 1
+        ? poseidon2([BigInt(sibling), identity])
+        : poseidon2([identity, BigInt(sibling)]);
+    });
+    if (identity !== eligibilityRoot) {
+      throw new Error("Circuit constraint failed: voter is not in the eligibility tree");
+    }
+    if (weighted && weight > balance) {
+      throw new Error("Circuit constraint failed: weight > balance");
+    }
+  } else if (weighted && weight !== 1n) {
+    throw new Error("Circuit constraint failed: open proposal vote with weight != 1");
+  }
+
+  if (signal?.aborted) {
+    throw new ProofCancelledError();
+  }
+  onProgress?.({ stage: "proving", message: "Generating mock proof", fraction: 0.5 });
+  const nullifier = demoNullifier(inputs.voter_secret, inputs.proposal_id);
+  const fields = {
+    expected_program_id: inputs.expected_program_id,
+    expected_proposal_id: inputs.expected_proposal_id,
+    vote_choice: String(inputs.vote_choice),
+    nullifier,
+    vote_root: fieldToHex(BigInt(inputs.vote_root)),
+    ...(provesEligibility({ publicInputs: schema }) ? { eligibility_root: fieldToHex(eligibilityRoot) } : {}),
+    ...(weighted ? { weight: weight.toString() } : {}),
+  };
+  const raw = Buffer.from(encodePublicInputs(fields, schema));
+
+  onProgress?.({ stage: "done", message: "Proof generated", fraction: 1 });
+  return {
+    publicInputs: { ...fields, raw: raw.toString("base64") },
+    proof: Buffer.concat([raw, mockProofMac(raw)]).toString("base64"),
+    vkHash: placeholderVkHash(circuitId),
+    circuitId,
+    meta: {
+      mock: true,
+      note: "Local harness proof; only the mock verifier accepts it.",
+    },
+  };
+}
+
+export interface MockVerifierOptions {
+  // 32-byte ed25519 seed; a fresh one by default, like a service started without a key
+  secretKey?: Uint8Array;
+  // When set, /verify checks vote_root and eligibility_root against this bank
+  // like VOTE_PROGRAM_ID and PROPOSAL_PROGRAM_ID do
+  bank?: LocalBank;
+  // Defaults to the registry in lib/circuits.ts with placeholder vk hashes
+  circuits?: CircuitInfo[];
+  // Pause between proof job stages, so jobs can be followed and cancelled (default 10)
+  proofJobStepMs?: number;
+  // Signs VEILPROOF_V2 attestations for this verifier program, like
+  // VERIFIER_PROGRAM_ID; needs `bank` for the slot and genesis hash
+  verifierProgramId?: PublicKey;
+  // Furthest a requested expiry may be past the current slot (default 1500)
+  attestationTtlSlots?: number;
+}
+
+type JsonBody = Record<string, unknown>;
+
+// Same as JOB_STAGE_FRACTIONS in the service
+const JOB_STAGE_FRACTIONS: Record<ProverStage, number> = {
+  queued: 0,
+  "loading-circuit": 0.1,
+  executing: 0.3,
+  proving: 0.5,
+  done: 1,
+};
+
+interface MockProofJob {
+  id: string;
+  status: ProofJobStatus;
+  stage: ProverStage;
+  message: string;
+  circuitId: string;
+  proof?: ProofData;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  controller: AbortController;
+  listeners: Set<() => void>;
+}
+
+const isFinished = (job: MockProofJob) =>
+  job.status === "succeeded" || job.status === "failed" || job.status === "cancelled";
+
+class MockHttpError extends Error {
+  readonly status: number;
+  readonly code?: string;
+
+  constructor(status: number, message: string, code?: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * In-process mock of verifier_service/index.js. Validates requests the same
+ * way, checks mock proofs instead of running bb, and signs real ed25519
+ * attestations. Hand `fetch` to `VeilProofClient`.
+ */
+export class MockVerifierService {
+  readonly signerPubkeyHex: string;
+  readonly circuits: CircuitInfo[];
+  private readonly secretKey: Uint8Array;
+  private readonly bank?: LocalBank;
+  private readonly proofJobStepMs: number;
+  private readonly verifierProgramId?: PublicKey;
+  private readonly attestationTtlSlots: number;
+  private readonly jobs = new Map<string, MockProofJob>();
+
+  constructor(options: MockVerifierOptions = {}) {
+    this.secretKey = options.secretKey ?? ed25519.utils.randomPrivateKey();
+    this.signerPubkeyHex = Buffer.from(ed25519.getPublicKey(this.secretKey)).toString("hex");
+    this.bank = options.bank;
+    this.circuits = options.circuits ?? CIRCUITS.map((circuit) => ({ ...circuit, vkHash: placeholderVkHash(circuit.id) }));
+    this.proofJobStepMs = options.proofJobStepMs ?? 10;
+    this.verifierProgramId = options.verifierProgramId;
+    this.attestationTtlSlots = options.attestationTtlSlots ?? 1500;
+    if (this.verifierProgramId && !this.bank) {
+      throw new Error("VEILPROOF_V2 attestations need a bank to read the slot and genesis hash from");
+    }
+  }
+
+  readonly fetch: typeof fetch = async (input, init) => {
+    const url = new URL(typeof input === "string" || input instanceof URL ? input : input.url);
+    const method = init?.method ?? "GET";
+    try {
+      if (method === "GET" && url.pathname === "/health") {
+        return this.respond(200, {
+          status: "ok",
+          service: "veilproof-verifier-mock",
+          signer_pubkey_hex: this.signerPubkeyHex,
+          timestamp: new Date().toISOString(),
+        });
+      }
+      if (method === "GET" && url.pathname === "/circuits") {
+        return this.respond(200, {
+          circuits: this.circuits.map((circuit) => ({
+            id: circuit.id,
+            name: circuit.name,
+            version: circuit.version,
+            status: circuit.status,
+            proof_system: circuit.proofSystem,
+            vk_hash_hex: circuit.vkHash,
+            public_inputs: circuit.publicInputs,
+          })),
+        });
+      }
+      if (method === "POST" && url.pathname === "/verify") {
+        return this.respond(200, await this.verify(this.parseBody(init?.body)));
+      }
+      if (method === "POST" && url.pathname === "/proof-jobs") {
+        return this.respond(202, { ok: true, job: this.describeJob(this.submitJob(this.parseBody(init?.body))) });
+      }
+      if (method === "POST" && url.pathname === "/generate-proof") {
+        const job = this.submitJob(this.parseBody(init?.body));
+        await new Promise<void>((resolve) => {
+          const listener = () => {
+            if (isFinished(job)) {
+              job.listeners.delete(listener);
+              resolve();
+            }
+          };
+          job.listeners.add(listener);
+        });
+        if (!job.proof) {
+          throw new MockHttpError(500, "Proof generation failed: " + (job.error ?? job.message));
+        }
+        return this.respond(200, { ok: true, proof: job.proof });
+      }
+      const jobRoute = /^\/proof-jobs\/([0-9a-f]+)(\/events)?$/.exec(url.pathname);
+      if (jobRoute) {
+        const job = this.jobs.get(jobRoute[1]);
+        if (!job) {
+          throw new MockHttpError(404, "Unknown or expired proof job", "unknown_job");
+        }
+        if (method === "GET" && jobRoute[2]) {
+          return this.streamJob(job, init?.signal ?? undefined);
+        }
+        if (method === "GET") {
+          return this.respond(200, { ok: true, job: this.describeJob(job) });
+        }
+        if (method === "DELETE" && !jobRoute[2]) {
+          this.cancelJob(job);
+          return this.respond(200, { ok: true, job: this.describeJob(job) });
+        }
+      }
+      throw new MockHttpError(404, "Not Found");
+    } catch (err) {
+      if (err instanceof MockHttpError) {
+        return this.respond(err.status, { error: err.message, ...(err.code ? { code: err.code } : {}) });
+      }
+      throw err;
+    }
+  };
+
+  private respond(status: number, body: unknown): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  private parseBody(body: unknown): JsonBody {
+    try {
+      const parsed = JSON.parse(String(body ?? ""));
+      return parsed && typeof parsed === "object" ? parsed : {};
+    } catch {
+      throw new MockHttpError(400, "Invalid JSON");
+    }
+  }
+
+  // The service's parseProofRequest, down to the error messages
+  private submitJob(body: JsonBody): MockProofJob {
+    const {
+      proposal_id: proposalId,
+      program_id: programId,
+      vote_choice: voteChoice = 1,
+      voter_secret: voterSecret,
+      leaf_index: leafIndex,
+      merkle_path: merklePath,
+      vote_root: voteRoot,
+      identity_index: identityIndex = 0,
+      identity_path: identityPath = Array(ELIGIBILITY_TREE_DEPTH).fill("0x0"),
+      eligibility_root: eligibilityRoot = "0x0",
+      balance = "1",
+      weight = "1",
+    } = body;
+    if (proposalId == null || programId == null) {
+      throw new MockHttpError(400, "Missing proposal_id or program_id");
+    }
+    if (!/^\d+$/.test(String(proposalId)) || !/^\d+$/.test(String(programId))) {
+      throw new MockHttpError(400, "proposal_id and program_id must be decimal integers");
+    }
+    if (![0, 1, 2].includes(Number(voteChoice))) {
+      throw new MockHttpError(400, "vote_choice must be 0 (NO), 1 (YES) or 2 (ABSTAIN)");
+    }
+    if (typeof voterSecret !== "string" || !/^0x[0-9a-fA-F]{1,62}$/.test(voterSecret)) {
+      throw new MockHttpError(400, "voter_secret must be a 0x-prefixed hex string of at most 31 bytes");
+    }
+    const isField = (value: unknown) => typeof value === "string" && /^0x[0-9a-fA-F]{1,64}$/.test(value);
+    if (
+      !Number.isInteger(leafIndex) ||
+      (leafIndex as number) < 0 ||
+      !Array.isArray(merklePath) ||
+      merklePath.length !== VOTE_TREE_DEPTH ||
+      !merklePath.every(isField) ||
+      !isField(voteRoot)
+    ) {
+      throw new MockHttpError(400, `leaf_index, merkle_path (${VOTE_TREE_DEPTH} fields) and vote_root are required`);
+    }
+    if (
+      !Number.isInteger(identityIndex) ||
+      (identityIndex as number) < 0 ||
+      !Array.isArray(identityPath) ||
+      identityPath.length !== ELIGIBILITY_TREE_DEPTH ||
+      !identityPath.every(isField) ||
+      !isField(eligibilityRoot)
+    ) {
+      throw new MockHttpError(
+        400,
+        `identity_index, identity_path (${ELIGIBILITY_TREE_DEPTH} fields) and eligibility_root must be given together`
+      );
+    }
+    const isU64 = (value: unknown) =>
+      typeof value === "string" && /^\d{1,20}$/.test(value) && BigInt(value) <= 0xffffffffffffffffn;
+    if (!isU64(balance) || !isU64(weight) || BigInt(weight as string) < 1n) {
+      throw new MockHttpError(400, "balance and weight must be decimal u64 strings, with weight at least 1");
+    }
+    const circuit = this.circuits.find(
+      (candidate) => candidate.name === "vote_proof" && candidate.status === "active" && candidate.proofSystem === "ultraplonk"
+    );
+    if (!circuit) {
+      throw new MockHttpError(500, "No active vote_proof circuit in the registry");
+    }
+
+    const now = new Date().toISOString();
+    const job: MockProofJob = {
+      id: Buffer.from(crypto.getRandomValues(new Uint8Array(16))).toString("hex"),
+      status: "queued",
+      stage: "queued",
+      message: "Waiting for a free prover",
+      circuitId: circuit.id,
+      createdAt: now,
+      updatedAt: now,
+      controller: new AbortController(),
+      listeners: new Set(),
+    };
+    this.jobs.set(job.id, job);
+    const inputs: ProverInputs = {
+      program_id: String(programId),
+      proposal_id: String(proposalId),
+      vote_choice: Number(voteChoice),
+      voter_secret: voterSecret,
+      leaf_index: leafIndex as number,
+      merkle_path: merklePath as string[],
+      expected_program_id: String(programId),
+      expected_proposal_id: String(proposalId),
+      vote_root: voteRoot as string,
+      identity_index: identityIndex as number,
+      identity_path: identityPath as string[],
+      eligibility_root: eligibilityRoot as string,
+      balance: balance as string,
+      weight: weight as string,
+    };
+    void this.runJob(job, inputs);
+    return job;
+  }
+
+  private async runJob(job: MockProofJob, inputs: ProverInputs) {
+    const { signal } = job.controller;
+    const pause = () => new Promise((resolve) => setTimeout(resolve, this.proofJobStepMs));
+    try {
+      await pause();
+      this.updateJob(job, { status: "running", stage: "loading-circuit", message: "Compiling vote_proof circuit" });
+      await pause();
+      const proof = await createMockProof(
+        inputs,
+        (progress) => {
+          this.updateJob(job, { stage: progress.stage, message: progress.message });
+        },
+        signal,
+        job.circuitId
+      );
+      await pause();
+      if (signal.aborted) {
+        throw new ProofCancelledError();
+      }
+      this.updateJob(job, { status: "succeeded", stage: "done", message: "Proof generated", proof });
+    } catch (err) {
+      if (!(err instanceof ProofCancelledError) && !isFinished(job)) {
+        this.updateJob(job, {
+          status: "failed",
+          message: "Proof generation failed",
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }
+
+  private updateJob(job: MockProofJob, changes: Partial<MockProofJob>) {
+    if (isFinished(job)) {
+      return;
+    }
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    job.listeners.forEach((listener) => listener());
+  }
+
+  private cancelJob(job: MockProofJob) {
+    if (!isFinished(job)) {
+      this.updateJob(job, { status: "cancelled", message: "Proof job cancelled" });
+      job.controller.abort();
+    }
+  }
+
+  private describeJob(job: MockProofJob) {
+    return {
+      job_id: job.id,
+      status: job.status,
+      stage: job.stage,
+      message: job.message,
+      fraction: JOB_STAGE_FRACTIONS[job.stage],
+      ...(job.status === "queued" ? { queue_position: 0 } : {}),
+      ...(job.proof ? { proof: job.proof } : {}),
+      ...(job.error ? { error: job.error } : {}),
+      circuit_id: job.circuitId,
+      created_at: job.createdAt,
+      updated_at: job.updatedAt,
+    };
+  }
+
+  // Server-sent events like the service's streamJob; aborting the request ends the stream
+  private streamJob(job: MockProofJob, signal?: AbortSignal): Response {
+    const encoder = new TextEncoder();
+    let listener = () => {};
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        let open = true;
+        const end = (reason?: unknown) => {
+          job.listeners.delete(listener);
+          if (open) {
+            open = false;
+            if (reason === undefined) {
+              controller.close();
+            } else {
+              controller.error(reason);
+            }
+          }
+        };
+        listener = () => {
+          if (!open) {
+            return;
+          }
+          controller.enqueue(encoder.encode(`event: job\ndata: ${JSON.stringify(this.describeJob(job))}\n\n`));
+          if (isFinished(job)) {
+            end();
+          }
+        };
+        job.listeners.add(listener);
+        signal?.addEventListener("abort", () => end(signal.reason), { once: true });
+        listener();
+      },
+      cancel: () => {
+        job.listeners.delete(listener);
+      },
+    });
+    return new Response(body, { status: 200, headers: { "Content-Type": "text/event-stream" } });
+  }
+
+  private async verify(body: JsonBody) {
+    const {
+      proof_bytes_base64: proofBytesBase64,
+      public_inputs_json: publicInputsJson,
+      vk_hash_hex: vkHashHex,
+      circuit_id: circuitId,
+      expected_program_id: expectedProgramId,
+      expected_proposal_id: expectedProposalId,
+      expected_vote_choice: expectedVoteChoiceRaw,
+      vote_tree_address: voteTreeAddress,
+      proposal_address: proposalAddress,
+      expiry_slot: expirySlot,
+      verifier_program_id: requestedProgramId,
+    } = body as {
+      proof_bytes_base64?: string;
+      public_inputs_json?: Record<string, string>;
+      vk_hash_hex?: string;
+      circuit_id?: string;
+      expected_program_id?: string;
+      expected_proposal_id?: string;
+      expected_vote_choice?: string;
+      vote_tree_address?: string;
+      proposal_address?: string;
+      expiry_slot?: string;
+      verifier_program_id?: string;
+    };
+
+    if (!proofBytesBase64 || !publicInputsJson || !vkHashHex || expectedProgramId == null || expectedProposalId == null || expectedVoteChoiceRaw == null) {
+      throw new MockHttpError(400, "Missing required fields");
+    }
+    const expectedVoteChoice = Number(expectedVoteChoiceRaw);
+    if (![0, 1, 2].includes(expectedVoteChoice)) {
+      throw new MockHttpError(400, "Invalid expected_vote_choice");
+    }
+    const circuit = this.resolveCircuit(circuitId, vkHashHex);
+    const domain = await this.messageDomain(expirySlot, requestedProgramId);
+    if (String(publicInputsJson.expected_program_id) !== String(expectedProgramId)) {
+      throw new MockHttpError(400, "expected_program_id mismatch");
+    }
+    if (String(publicInputsJson.expected_proposal_id) !== String(expectedProposalId)) {
+      throw new MockHttpError(400, "expected_proposal_id mismatch");
+    }
+    if (Number(publicInputsJson.vote_choice) !== expectedVoteChoice) {
+      throw new MockHttpError(400, "vote_choice mismatch");
+    }
+    for (const field of ["nullifier", "vote_root"]) {
+      if (!/^[0-9a-f]{64}$/i.test(publicInputsJson[field] ?? "")) {
+        throw new MockHttpError(400, `public_inputs_json.${field} must be 32 bytes of hex`);
+      }
+    }
+    try {
+      assertPublicInputsMatch(publicInputsJson as ProofData["publicInputs"], circuit.publicInputs);
+    } catch (err) {
+      if (err instanceof PublicInputsError) {
+        throw new MockHttpError(400, err.message, "public_inputs_mismatch");
+      }
+      throw err;
+    }
+    if (this.bank) {
+      if (!voteTreeAddress) {
+        throw new MockHttpError(400, "vote_tree_address is required");
+      }
+      if (!(await this.isKnownVoteRoot(voteTreeAddress, expectedProposalId, publicInputsJson.vote_root))) {
+        throw new MockHttpError(400, "vote_root is not a recent root of the proposal's vote tree");
+      }
+      if (!proposalAddress) {
+        throw new MockHttpError(400, "proposal_address is required");
+      }
+      const rules = await this.fetchProposalRules(proposalAddress, expectedProposalId);
+      if (rules === null) {
+        throw new MockHttpError(400, "proposal_address is not the proposal's account");
+      }
+      if (!rules.allowedChoices.includes(expectedVoteChoice)) {
+        throw new MockHttpError(
+          400,
+          `Proposal #${expectedProposalId} does not accept this vote choice`,
+          "choice_not_allowed"
+        );
+      }
+      const { eligibilityRoot } = rules;
+      if (!provesEligibility(circuit) && eligibilityRoot !== OPEN_ELIGIBILITY_ROOT) {
+        throw new MockHttpError(
+          400,
+          `Proposal #${expectedProposalId} is members-only; circuit ${circuit.id} cannot prove eligibility`,
+          "eligibility_required"
+        );
+      }
+      if (provesEligibility(circuit) && String(publicInputsJson.eligibility_root).toLowerCase() !== eligibilityRoot) {
+        throw new MockHttpError(400, "eligibility_root does not match the proposal", "eligibility_root_mismatch");
+      }
+    }
+
+    // Stand-in for `bb verify`: the proof must have been made for these raw inputs
+    const proofBytes = Buffer.from(proofBytesBase64, "base64");
+    const raw = Buffer.from(publicInputsJson.raw, "base64");
+    if (!proofBytes.equals(Buffer.concat([raw, mockProofMac(raw)]))) {
+      throw new MockHttpError(400, "Proof verification failed");
+    }
+
+    // Proofs from circuits before weighted votes weigh 1
+    const weight = provesWeight(circuit) ? String(publicInputsJson.weight) : "1";
+    const { messageHash, proofHash, publicInputsHash } = computeMessageHash({
+      expectedProgramId: String(expectedProgramId),
+      expectedProposalId: String(expectedProposalId),
+      voteChoice: expectedVoteChoice,
+      nullifier: Buffer.from(publicInputsJson.nullifier, "hex"),
+      voteRoot: Buffer.from(publicInputsJson.vote_root, "hex"),
+      vkHash: Buffer.from(vkHashHex, "hex"),
+      proofBytes,
+      publicInputsCanonical: canonicalizeJson(publicInputsJson),
+      weight,
+      domain,
+    });
+    const signature = ed25519.sign(messageHash, this.secretKey);
+
+    return {
+      ok: true,
+      attestation: {
+        scheme: "ed25519",
+        signer_pubkey_hex: this.signerPubkeyHex,
+        message_hash_hex: messageHash.toString("hex"),
+        expected_program_id: String(expectedProgramId),
+        expected_proposal_id: String(expectedProposalId),
+        vote_choice: String(expectedVoteChoice),
+        nullifier_hex: publicInputsJson.nullifier.toLowerCase(),
+        vote_root_hex: publicInputsJson.vote_root.toLowerCase(),
+        vk_hash_hex: vkHashHex,
+        proof_hash_hex: proofHash.toString("hex"),
+        public_inputs_hash_hex: publicInputsHash.toString("hex"),
+        weight,
+        ...(domain && {
+          message_version: 2,
+          expiry_slot: domain.expirySlot,
+          verifier_program_id: domain.verifierProgramId,
+          genesis_hash: domain.genesisHash,
+        }),
+      },
+      signature_base64: Buffer.from(signature).toString("base64"),
+    };
+  }
+
+  // Same checks as the service's attestationDomain; VEILPROOF_V1 without a verifier program
+  private async messageDomain(expirySlot?: string, requestedProgramId?: string): Promise<MessageDomain | undefined> {
+    if (!this.verifierProgramId || !this.bank) {
+      return undefined;
+    }
+    const verifierProgramId = this.verifierProgramId.toBase58();
+    if (requestedProgramId !== undefined && requestedProgramId !== verifierProgramId) {
+      throw new MockHttpError(
+        400,
+        `This verifier signs for program ${verifierProgramId}, not ${requestedProgramId}`,
+        "attestation_domain_mismatch"
+      );
+    }
+    const slot = BigInt(this.bank.getSlotSync());
+    const ttl = BigInt(this.attestationTtlSlots);
+    if (expirySlot !== undefined && !/^\d+$/.test(String(expirySlot))) {
+      throw new MockHttpError(400, "expiry_slot must be a decimal slot");
+    }
+    const expiry = expirySlot === undefined ? slot + ttl : BigInt(expirySlot);
+    if (expiry <= slot || expiry > slot + ttl) {
+      throw new MockHttpError(400, `expiry_slot must be after slot ${slot} and at most ${ttl} slots ahead`);
+    }
+    return {
+      expirySlot: expiry.toString(),
+      verifierProgramId,
+      genesisHash: this.bank.genesisHash,
+    };
+  }
+
+  // Same lookup as the service, including the vk hash fallback for proofs without an ID
+  private resolveCircuit(circuitId: string | undefined, vkHashHex: string): CircuitInfo {
+    const circuit =
+      circuitId === undefined
+        ? this.circuits.find((candidate) => candidate.vkHash === vkHashHex.toLowerCase())
+        : this.circuits.find((candidate) => candidate.id === circuitId);
+    if (!circuit) {
+      const message = circuitId === undefined ? "vk_hash does not match any registered circuit" : `Unknown circuit ${circuitId}`;
+      throw new MockHttpError(400, message, "unknown_circuit");
+    }
+    if (circuit.status === "retired") {
+      throw new MockHttpError(400, `Circuit ${circuit.id} is retired`, "circuit_retired");
+    }
+    if (circuit.proofSystem !== "ultraplonk") {
+      throw new MockHttpError(
+        400,
+        `Circuit ${circuit.id} is a ${circuit.proofSystem} circuit; submit its proofs to the verifier program directly`,
+        "not_attestable"
+      );
+    }
+    if (circuit.vkHash !== vkHashHex.toLowerCase()) {
+      throw new MockHttpError(400, `vk_hash mismatch for circuit ${circuit.id}`, "vk_hash_mismatch");
+    }
+    return circuit;
+  }
+
+  private async isKnownVoteRoot(address: string, proposalId: string, voteRootHex: string): Promise<boolean> {
+    if (/^0{64}$/.test(voteRootHex)) {
+      return false;
+    }
+    const account = await this.bank?.getAccountInfo(new PublicKey(address));
+    if (!account || !VOTE_PROGRAM_ID || !account.owner.equals(VOTE_PROGRAM_ID)) {
+      return false;
+    }
+    const tree = decodeVoteTree(account.data);
+    return (
+      tree.proposalId === BigInt(proposalId) &&
+      tree.roots.some((root) => fieldToHex(root) === voteRootHex.toLowerCase())
+    );
+  }
+
+  // The service's fetchProposalRules: null unless the account is the proposal's
+  private async fetchProposalRules(
+    address: string,
+    proposalId: string
+  ): Promise<{ eligibilityRoot: string; allowedChoices: number[] } | null> {
+    const account = await this.bank?.getAccountInfo(new PublicKey(address));
+    if (!account || !PROPOSAL_PROGRAM_ID || !account.owner.equals(PROPOSAL_PROGRAM_ID)) {
+      return null;
+    }
+    try {
+      const proposal = decodeProposal(account.data);
+      if (proposal.id !== String(proposalId)) {
+        return null;
+      }
+      return {
+        eligibilityRoot: proposal.eligibilityRoot ?? OPEN_ELIGIBILITY_ROOT,
+        allowedChoices: proposal.allowedChoices,
+      };
+    } catch {
+      return null;
+    }
+  }
+}
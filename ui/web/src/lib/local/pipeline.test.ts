@@ -0,0 +1,175 @@
+import { SystemProgram, Transaction } from "@solana/web3.js";
+import { describe, expect, it, vi } from "vitest";
+import { createRealBackend, NullifierSpentError, ProposalNotOpenError } from "../api";
+import { VERIFIER_PROGRAM_ID, VOTE_PROGRAM_ID } from "../constants";
+import { describeError } from "../errors";
+import { sendAndConfirmTransaction } from "../sender";
+import { buildVoteInstruction, deriveNullifierAddress, deriveVerifiedStateAddress } from "../solana";
+import { fetchVerifiedVoteState } from "../tally";
+import {
+  VOTE_TREE_ACCOUNT_SIZE,
+  VOTE_TREE_CAPACITY,
+  computeVoteCommitment,
+  deriveVoteTreeAddress,
+  fetchVoteTrees,
+  fieldToHex,
+} from "../voteTree";
+import { createLocalHarness, LOCAL_SAMPLE_PROPOSALS, type LocalHarnessOptions } from "./harness";
+
+const PROGRAM_ID = "7";
+
+function setup(options: LocalHarnessOptions = {}) {
+  const harness = createLocalHarness({ proposals: LOCAL_SAMPLE_PROPOSALS, ...options });
+  const backend = createRealBackend(harness);
+  const { wallet, connection } = harness;
+  let voters = 0;
+
+  // A fresh voter secret per call, so each vote has its own nullifier
+  const newSecret = () => `0x${(0x20 + voters++).toString(16).repeat(31)}`;
+
+  async function castAndProve(proposalId: string, voteChoice: number, voterSecret = newSecret()) {
+    const signature = await backend.castVote({ wallet, connection, proposalId, voteChoice, voterSecret });
+    const proof = await backend.generateZkProof(signature, proposalId, PROGRAM_ID, voteChoice, voterSecret, connection);
+    return { signature, proof, voterSecret };
+  }
+
+  const submit = (proof: Awaited<ReturnType<typeof castAndProve>>["proof"], proposalId: string) =>
+    backend.submitProof(proof, { wallet, connection, proposalId });
+
+  return { harness, backend, castAndProve, submit, newSecret };
+}
+
+const pipelines: [string, LocalHarnessOptions][] = [
+  ["attestations from the wallet", { relayer: false }],
+  ["attestations through the relayer", { relayer: true }],
+  ["Groth16 from the wallet", { relayer: false, proofSystem: "groth16" }],
+];
+
+describe.each(pipelines)("local pipeline: %s", (_name, options) => {
+  it("casts, proves, submits and tallies votes", async () => {
+    const { harness, castAndProve, submit } = setup(options);
+
+    const yes = await castAndProve("42", 1);
+    expect(yes.proof.publicInputs.vote_choice).toBe("1");
+    await submit(yes.proof, "42");
+    const no = await castAndProve("42", 0);
+    await submit(no.proof, "42");
+
+    const tally = await fetchVerifiedVoteState(harness.connection, "42");
+    expect(tally).toMatchObject({ yesProofs: 1n, noProofs: 1n, abstainProofs: 0n, yesWeight: 1n, noWeight: 1n });
+  });
+
+  it("rejects the same proof twice", async () => {
+    const { harness, castAndProve, submit } = setup(options);
+    const { proof } = await castAndProve("42", 1);
+    await submit(proof, "42");
+
+    await expect(submit(proof, "42")).rejects.toBeInstanceOf(NullifierSpentError);
+    expect((await fetchVerifiedVoteState(harness.connection, "42")).yesProofs).toBe(1n);
+  });
+
+  it("refuses a proof for another proposal before asking any verifier", async () => {
+    const { harness, castAndProve, submit } = setup(options);
+    const { proof } = await castAndProve("42", 1);
+    const verify = vi.spyOn(harness.verifierClients[0], "verify");
+
+    await expect(submit(proof, "100")).rejects.toThrow("Proof was generated for a different proposal");
+    expect(verify).not.toHaveBeenCalled();
+  });
+
+  it("counts a second vote by the same voter once", async () => {
+    const { harness, castAndProve, submit, newSecret } = setup(options);
+    const voterSecret = newSecret();
+    const first = await castAndProve("42", 1, voterSecret);
+    await submit(first.proof, "42");
+
+    // Voting again lands in the vote tree, but proves the same nullifier
+    const second = await castAndProve("42", 0, voterSecret);
+    expect(second.proof.publicInputs.nullifier).toBe(first.proof.publicInputs.nullifier);
+    await expect(submit(second.proof, "42")).rejects.toBeInstanceOf(NullifierSpentError);
+
+    const tally = await fetchVerifiedVoteState(harness.connection, "42");
+    expect(tally).toMatchObject({ yesProofs: 1n, noProofs: 0n });
+  });
+
+  it("sends votes to the next shard once a vote tree is full", async () => {
+    const { harness, castAndProve, submit } = setup(options);
+    const full = Buffer.alloc(VOTE_TREE_ACCOUNT_SIZE);
+    full.writeBigUInt64LE(42n, 0);
+    full.writeUInt32LE(VOTE_TREE_CAPACITY, 8);
+    harness.bank.setAccount(deriveVoteTreeAddress("42"), { lamports: 1_000_000, owner: VOTE_PROGRAM_ID!, data: full });
+
+    const { proof } = await castAndProve("42", 1);
+    const trees = await fetchVoteTrees(harness.connection, "42");
+    expect(trees.map((tree) => tree.leaves.length)).toEqual([VOTE_TREE_CAPACITY, 1]);
+    await submit(proof, "42");
+    expect((await fetchVerifiedVoteState(harness.connection, "42")).yesProofs).toBe(1n);
+  });
+
+  it("counts a vote whose tree, nullifier and tally addresses were funded first", async () => {
+    const { harness, castAndProve, submit } = setup(options);
+    // Anyone can send lamports to a PDA before its program creates it
+    const funded = { lamports: 1, owner: SystemProgram.programId, data: Buffer.alloc(0) };
+    harness.bank.setAccount(deriveVoteTreeAddress("42"), funded);
+    const { proof } = await castAndProve("42", 1);
+    harness.bank.setAccount(deriveNullifierAddress(proof.publicInputs.nullifier), funded);
+    harness.bank.setAccount(deriveVerifiedStateAddress("42"), funded);
+
+    await submit(proof, "42");
+    expect((await fetchVerifiedVoteState(harness.connection, "42")).yesProofs).toBe(1n);
+    await expect(submit(proof, "42")).rejects.toBeInstanceOf(NullifierSpentError);
+  });
+});
+
+describe("local pipeline: closed proposals", () => {
+  it("refuses to cast a vote after the voting window", async () => {
+    const { harness, backend, newSecret } = setup({ relayer: false });
+    harness.bank.advanceSlots(1_000_000);
+
+    const cast = backend.castVote({
+      wallet: harness.wallet,
+      connection: harness.connection,
+      proposalId: "42",
+      voteChoice: 1,
+      voterSecret: newSecret(),
+    });
+    await expect(cast).rejects.toBeInstanceOf(ProposalNotOpenError);
+  });
+
+  it("has vote_program reject a vote the app did not check", async () => {
+    const { harness, newSecret } = setup({ relayer: false });
+    harness.bank.advanceSlots(1_000_000);
+
+    const commitment = fieldToHex(computeVoteCommitment(newSecret(), "42", 1));
+    const transaction = new Transaction().add(buildVoteInstruction("42", commitment, harness.wallet.publicKey!));
+    const sent = sendAndConfirmTransaction(
+      harness.connection,
+      transaction,
+      harness.wallet.signTransaction!,
+      harness.wallet.publicKey!
+    );
+    await expect(sent.catch((err) => describeError(err).code)).resolves.toBe("vote_program.proposal_not_open");
+  });
+});
+
+describe("local pipeline: tally", () => {
+  it("saturates weights at u64::MAX like verifier_program", async () => {
+    const { harness, castAndProve, submit } = setup({ relayer: false });
+    const max = 0xffffffffffffffffn;
+    const state = Buffer.alloc(8 * 7);
+    state.writeBigUInt64LE(42n, 0);
+    state.writeBigUInt64LE(max, 8);
+    state.writeBigUInt64LE(max, 32);
+    harness.bank.setAccount(deriveVerifiedStateAddress("42"), {
+      lamports: 1_000_000,
+      owner: VERIFIER_PROGRAM_ID!,
+      data: state,
+    });
+
+    const { proof } = await castAndProve("42", 1);
+    await submit(proof, "42");
+
+    const tally = await fetchVerifiedVoteState(harness.connection, "42");
+    expect(tally).toMatchObject({ yesProofs: max, yesWeight: max });
+  });
+});
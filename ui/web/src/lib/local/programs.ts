@@ -0,0 +1,1042 @@
+import { PublicKey, SYSVAR_INSTRUCTIONS_PUBKEY, SystemProgram } from "@solana/web3.js";
+import { ed25519 } from "@noble/curves/ed25519";
+import { sha256 } from "@noble/hashes/sha2";
+import { poseidon2 } from "poseidon-lite";
+import {
+  GROTH16_PROOF_BYTES,
+  GROTH16_PUBLIC_INPUTS,
+  GROTH16_VK_BYTES,
+  decodeGroth16Proof,
+  decodeGroth16VerifyingKey,
+  verifyGroth16,
+} from "../groth16";
+import { VOTE_TREE_ACCOUNT_SIZE, VOTE_TREE_DEPTH, VOTE_TREE_ROOT_HISTORY } from "../voteTree";
+import {
+  LocalProgramError,
+  rentExemptMinimum,
+  type LocalAccount,
+  type LocalInvokeContext,
+  type LocalProgram,
+} from "./bank";
+
+// TypeScript ports of programs/*/src/lib.rs for the local bank. Each port
+// follows its Rust counterpart check for check, so instruction bytes that pass
+// here should pass on chain. Keep them in sync when the programs change.
+
+export const ED25519_PROGRAM_ID = new PublicKey("Ed25519SigVerify111111111111111111111111111");
+
+export interface LocalProgramIds {
+  proposal: PublicKey;
+  vote: PublicKey;
+  verifier: PublicKey;
+}
+
+const U64_MAX = 0xffffffffffffffffn;
+
+function u64Le(value: bigint): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64LE(value);
+  return buf;
+}
+
+function nextAccount(context: LocalInvokeContext, index: number) {
+  const meta = context.instruction.keys[index];
+  if (!meta) {
+    throw new LocalProgramError("NotEnoughAccountKeys");
+  }
+  return meta;
+}
+
+function requireSigner(context: LocalInvokeContext, index: number, message: string) {
+  if (!nextAccount(context, index).isSigner) {
+    context.log(message);
+    throw new LocalProgramError("MissingRequiredSignature");
+  }
+}
+
+function requireSystemProgram(context: LocalInvokeContext, index: number) {
+  if (!nextAccount(context, index).pubkey.equals(SystemProgram.programId)) {
+    context.log("Missing system program");
+    throw new LocalProgramError("IncorrectProgramId");
+  }
+}
+
+// Mirrors is_initialized: lamports alone do not mean the program created the account
+function initializedAccount(context: LocalInvokeContext, pubkey: PublicKey): LocalAccount | null {
+  const account = context.getAccount(pubkey);
+  return account && account.owner.equals(context.programId) ? account : null;
+}
+
+function requirePda(
+  context: LocalInvokeContext,
+  index: number,
+  seeds: Buffer[],
+  programId: PublicKey,
+  message: string
+) {
+  const [address] = PublicKey.findProgramAddressSync(seeds, programId);
+  if (!nextAccount(context, index).pubkey.equals(address)) {
+    context.log(message);
+    throw new LocalProgramError("InvalidSeeds");
+  }
+}
+
+// ============================================================================
+// proposal_program
+// ============================================================================
+
+const PROPOSAL_SEED = Buffer.from("proposal");
+const IDENTITY_SEED = Buffer.from("identity");
+const MAX_TITLE_LEN = 64;
+const ALL_CHOICES = 0b111;
+const ELIGIBILITY_ROOT_OFFSET = 8 + 32 + 8 + 8 + 1 + 4 + MAX_TITLE_LEN;
+const PROPOSAL_SPACE = ELIGIBILITY_ROOT_OFFSET + 32;
+const IDENTITY_SPACE = 32 + 32 + 8;
+
+interface LocalProposal {
+  proposalId: bigint;
+  creator: PublicKey;
+  openSlot: bigint;
+  closeSlot: bigint;
+  allowedChoices: number;
+  title: string;
+  // All zero (or omitted) to let anyone vote
+  eligibilityRoot?: Buffer;
+}
+
+/**
+ * Borsh encoding of `Proposal`, padded, then the eligibility root
+ */
+export function encodeProposalAccount(proposal: LocalProposal): Buffer {
+  const title = Buffer.from(proposal.title, "utf8");
+  const data = Buffer.alloc(PROPOSAL_SPACE);
+  let offset = data.writeBigUInt64LE(proposal.proposalId, 0);
+  offset += proposal.creator.toBuffer().copy(data, offset);
+  offset = data.writeBigUInt64LE(proposal.openSlot, offset);
+  offset = data.writeBigUInt64LE(proposal.closeSlot, offset);
+  offset = data.writeUInt8(proposal.allowedChoices, offset);
+  offset = data.writeUInt32LE(title.length, offset);
+  title.copy(data, offset);
+  proposal.eligibilityRoot?.copy(data, ELIGIBILITY_ROOT_OFFSET);
+  return data;
+}
+
+// proposal_program::eligibility_root
+function eligibilityRoot(data: Buffer): Buffer {
+  return data.length >= PROPOSAL_SPACE
+    ? Buffer.from(data.subarray(ELIGIBILITY_ROOT_OFFSET, PROPOSAL_SPACE))
+    : Buffer.alloc(32);
+}
+
+function unpackProposal(data: Buffer): LocalProposal {
+  try {
+    const titleLen = data.readUInt32LE(57);
+    const title = data.subarray(61, 61 + titleLen);
+    if (title.length !== titleLen) {
+      throw new Error("short title");
+    }
+    return {
+      proposalId: data.readBigUInt64LE(0),
+      creator: new PublicKey(data.subarray(8, 40)),
+      openSlot: data.readBigUInt64LE(40),
+      closeSlot: data.readBigUInt64LE(48),
+      allowedChoices: data.readUInt8(56),
+      title: new TextDecoder("utf-8", { fatal: true }).decode(title),
+    };
+  } catch {
+    throw new LocalProgramError("InvalidAccountData");
+  }
+}
+
+function processRegisterIdentity(context: LocalInvokeContext) {
+  const { data } = context.instruction;
+  // try_from_slice rejects trailing bytes
+  if (data.length !== 33) {
+    context.log("Invalid instruction data");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+  const commitment = data.subarray(1, 33);
+  if (commitment.every((byte) => byte === 0)) {
+    context.log("Identity commitment must be nonzero");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+
+  const identityMeta = nextAccount(context, 0);
+  const member = nextAccount(context, 1);
+  requireSigner(context, 1, "Member must sign");
+  requireSystemProgram(context, 2);
+  requirePda(context, 0, [IDENTITY_SEED, member.pubkey.toBuffer()], context.programId, "Identity account mismatch");
+  const account =
+    context.getAccount(identityMeta.pubkey) ??
+    context.createAccount(identityMeta.pubkey, IDENTITY_SPACE, context.programId);
+
+  let offset = member.pubkey.toBuffer().copy(account.data, 0);
+  offset += commitment.copy(account.data, offset);
+  account.data.writeBigUInt64LE(BigInt(context.slot), offset);
+
+  context.log("VeilProof proposal_program::register_identity");
+  context.log(`slot: ${context.slot}`);
+}
+
+export function createProposalProgram(): LocalProgram {
+  return (context) => {
+    const { data } = context.instruction;
+    if (data[0] === 1) {
+      processRegisterIdentity(context);
+      return;
+    }
+    let proposal: Omit<LocalProposal, "creator">;
+    try {
+      if (data.readUInt8(0) !== 0) {
+        throw new Error("unknown variant");
+      }
+      const proposalId = data.readBigUInt64LE(1);
+      const titleLen = data.readUInt32LE(9);
+      const titleEnd = 13 + titleLen;
+      const title = new TextDecoder("utf-8", { fatal: true }).decode(data.subarray(13, titleEnd));
+      // try_from_slice rejects trailing bytes
+      if (data.length !== titleEnd + 17 + 32) {
+        throw new Error("length");
+      }
+      proposal = {
+        proposalId,
+        title,
+        openSlot: data.readBigUInt64LE(titleEnd),
+        closeSlot: data.readBigUInt64LE(titleEnd + 8),
+        allowedChoices: data.readUInt8(titleEnd + 16),
+        eligibilityRoot: Buffer.from(data.subarray(titleEnd + 17)),
+      };
+    } catch {
+      context.log("Invalid instruction data");
+      throw new LocalProgramError("InvalidInstructionData");
+    }
+
+    const titleBytes = Buffer.byteLength(proposal.title, "utf8");
+    if (titleBytes === 0 || titleBytes > MAX_TITLE_LEN) {
+      context.log(`Title must be 1-${MAX_TITLE_LEN} bytes`);
+      throw new LocalProgramError("InvalidInstructionData");
+    }
+    if (proposal.closeSlot <= proposal.openSlot) {
+      context.log("close_slot must be after open_slot");
+      throw new LocalProgramError("InvalidInstructionData");
+    }
+    if (proposal.allowedChoices === 0 || (proposal.allowedChoices & ~ALL_CHOICES) !== 0) {
+      context.log("Invalid allowed choices");
+      throw new LocalProgramError("InvalidInstructionData");
+    }
+
+    const proposalMeta = nextAccount(context, 0);
+    const creator = nextAccount(context, 1);
+    requireSigner(context, 1, "Creator must sign");
+    requireSystemProgram(context, 2);
+    requirePda(
+      context,
+      0,
+      [PROPOSAL_SEED, u64Le(proposal.proposalId)],
+      context.programId,
+      "Proposal account mismatch"
+    );
+    if (context.getAccount(proposalMeta.pubkey)) {
+      context.log("Proposal already exists");
+      throw new LocalProgramError("AccountAlreadyInitialized");
+    }
+
+    const account = context.createAccount(proposalMeta.pubkey, PROPOSAL_SPACE, context.programId);
+    encodeProposalAccount({ ...proposal, creator: creator.pubkey }).copy(account.data);
+
+    context.log("VeilProof proposal_program::create");
+    context.log(`proposal_id: ${proposal.proposalId}`);
+    context.log(`slots: ${proposal.openSlot}..${proposal.closeSlot}`);
+    if (proposal.eligibilityRoot?.some((byte) => byte !== 0)) {
+      context.log("members only");
+    }
+  };
+}
+
+// ============================================================================
+// vote_program
+// ============================================================================
+
+const VOTE_TREE_SEED = Buffer.from("votes");
+const NEXT_INDEX_OFFSET = 8;
+const ROOT_CURSOR_OFFSET = 12;
+const FILLED_SUBTREES_OFFSET = 16;
+const ROOTS_OFFSET = FILLED_SUBTREES_OFFSET + VOTE_TREE_DEPTH * 32;
+const LEAVES_OFFSET = ROOTS_OFFSET + VOTE_TREE_ROOT_HISTORY * 32;
+
+function readField(data: Buffer, offset: number): bigint {
+  return BigInt("0x" + data.subarray(offset, offset + 32).toString("hex"));
+}
+
+function writeField(data: Buffer, offset: number, value: bigint) {
+  Buffer.from(value.toString(16).padStart(64, "0"), "hex").copy(data, offset);
+}
+
+function insertLeaf(data: Buffer, leaf: bigint): number {
+  const nextIndex = data.readUInt32LE(NEXT_INDEX_OFFSET);
+  if (nextIndex >= 1 << VOTE_TREE_DEPTH) {
+    throw new LocalProgramError("Vote tree is full; vote in the next shard");
+  }
+  writeField(data, LEAVES_OFFSET + nextIndex * 32, leaf);
+
+  let zero = 0n;
+  let node = leaf;
+  let index = nextIndex;
+  for (let level = 0; level < VOTE_TREE_DEPTH; level++) {
+    const offset = FILLED_SUBTREES_OFFSET + level * 32;
+    if (index % 2 === 0) {
+      writeField(data, offset, node);
+      node = poseidon2([node, zero]);
+    } else {
+      node = poseidon2([readField(data, offset), node]);
+    }
+    zero = poseidon2([zero, zero]);
+    index >>= 1;
+  }
+
+  const rootCursor = data.readUInt32LE(ROOT_CURSOR_OFFSET) % VOTE_TREE_ROOT_HISTORY;
+  writeField(data, ROOTS_OFFSET + rootCursor * 32, node);
+  data.writeUInt32LE((rootCursor + 1) % VOTE_TREE_ROOT_HISTORY, ROOT_CURSOR_OFFSET);
+  data.writeUInt32LE(nextIndex + 1, NEXT_INDEX_OFFSET);
+  return nextIndex;
+}
+
+// vote_program::is_known_root
+function isKnownRoot(data: Buffer, proposalId: bigint, root: Buffer): boolean {
+  if (data.length < VOTE_TREE_ACCOUNT_SIZE || root.every((byte) => byte === 0)) {
+    return false;
+  }
+  if (data.readBigUInt64LE(0) !== proposalId) {
+    return false;
+  }
+  return Array.from({ length: VOTE_TREE_ROOT_HISTORY }, (_, i) => ROOTS_OFFSET + i * 32).some((offset) =>
+    data.subarray(offset, offset + 32).equals(root)
+  );
+}
+
+export function createVoteProgram(ids: LocalProgramIds): LocalProgram {
+  return (context) => {
+    const { data } = context.instruction;
+    if (data.length !== 40 && data.length !== 44) {
+      context.log("Invalid instruction data length");
+      throw new LocalProgramError("InvalidInstructionData");
+    }
+    const proposalId = data.readBigUInt64LE(0);
+    const commitment = readField(data, 8);
+    const shard = data.length === 44 ? data.readUInt32LE(40) : 0;
+
+    const treeMeta = nextAccount(context, 0);
+    const proposalMeta = nextAccount(context, 1);
+    requireSigner(context, 2, "Payer must sign");
+    requireSystemProgram(context, 3);
+
+    // load_open_proposal
+    const proposalAccount = context.getAccount(proposalMeta.pubkey);
+    if (!proposalAccount || !proposalAccount.owner.equals(ids.proposal)) {
+      context.log("Unknown proposal");
+      throw new LocalProgramError("IncorrectProgramId");
+    }
+    requirePda(context, 1, [PROPOSAL_SEED, u64Le(proposalId)], ids.proposal, "Proposal account mismatch");
+    const proposal = unpackProposal(proposalAccount.data);
+    const slot = BigInt(context.slot);
+    if (!(proposal.openSlot <= slot && slot < proposal.closeSlot)) {
+      context.log("Proposal is not open for voting");
+      throw new LocalProgramError("InvalidArgument");
+    }
+
+    const treeSeeds = [VOTE_TREE_SEED, u64Le(proposalId)];
+    if (shard !== 0) {
+      const shardLe = Buffer.alloc(4);
+      shardLe.writeUInt32LE(shard);
+      treeSeeds.push(shardLe);
+    }
+    requirePda(context, 0, treeSeeds, context.programId, "Vote tree account mismatch");
+    let tree = initializedAccount(context, treeMeta.pubkey);
+    if (!tree) {
+      tree = context.createAccount(treeMeta.pubkey, VOTE_TREE_ACCOUNT_SIZE, context.programId);
+      tree.data.writeBigUInt64LE(proposalId, 0);
+    }
+    const leafIndex = insertLeaf(tree.data, commitment);
+
+    context.log("VeilProof vote_program::vote");
+    context.log(`proposal_id: ${proposalId}`);
+    context.log(`shard: ${shard}`);
+    context.log(`leaf_index: ${leafIndex}`);
+  };
+}
+
+// ============================================================================
+// verifier_program
+// ============================================================================
+
+const STATE_SEED = Buffer.from("veilproof");
+const NULLIFIER_SEED = Buffer.from("nullifier");
+const SIGNER_CONFIG_SEED = Buffer.from("signer_config");
+const GROTH16_VK_SEED = Buffer.from("groth16_vk");
+const STATE_SPACE = 8 * 7;
+// Tallies created before weighted votes hold only the proof counts
+const LEGACY_STATE_SPACE = 8 * 4;
+const MAX_SIGNERS = 10;
+const SIGNER_CONFIG_SPACE = 32 + 1 + 8 + 4 + 32 * MAX_SIGNERS;
+// The attestation domain follows the signer config; configs from before VEILPROOF_V2 end without it
+const ATTESTATION_DOMAIN_SPACE = 32 + 8;
+const NULLIFIER_ALREADY_SPENT = 0;
+const ATTESTATION_THRESHOLD_NOT_MET = 1;
+const PROOF_VERIFICATION_FAILED = 2;
+const UNKNOWN_VOTE_ROOT = 3;
+const ATTESTATION_EXPIRED = 4;
+const ATTESTATION_V1_RETIRED = 5;
+// Length of the borsh-encoded Verify variant, tag included
+const VERIFY_DATA_LEN = 1 + 8 + 8 + 1 + 32 * 5 + 8;
+// ...of VerifyV2, which adds the expiry slot
+const VERIFY_V2_DATA_LEN = VERIFY_DATA_LEN + 8;
+// ...and of VerifyGroth16
+const VERIFY_GROTH16_DATA_LEN = 1 + 8 + 8 + 1 + 32 * 2 + GROTH16_PROOF_BYTES + 8;
+const TRUST_MODEL_ATTESTATION = 0;
+const TRUST_MODEL_GROTH16 = 1;
+// Where the scalar and base field moduli of BN254 reject inputs on chain
+const BN254_SCALAR_MODULUS = 0x30644e72e131a029b85045b68181585d2833e84879b9709143e1f593f0000001n;
+const BN254_FIELD_MODULUS = 0x30644e72e131a029b85045b68181585d97816a916871ca8d3c208c16d87cfd47n;
+
+export const BPF_LOADER_UPGRADEABLE_ID = new PublicKey("BPFLoaderUpgradeab1e11111111111111111111111");
+
+interface LocalSignerConfig {
+  authority: PublicKey;
+  threshold: number;
+  epoch: bigint;
+  signers: Buffer[];
+}
+
+interface LocalAttestationDomain {
+  genesisHash: Buffer;
+  v1UntilSlot: bigint;
+}
+
+/**
+ * Borsh encoding of `SignerConfig`, padded to the account size, followed by
+ * the attestation domain (all zero when not given)
+ */
+export function encodeSignerConfigAccount(config: LocalSignerConfig, domain?: LocalAttestationDomain): Buffer {
+  const data = Buffer.alloc(SIGNER_CONFIG_SPACE + ATTESTATION_DOMAIN_SPACE);
+  let offset = config.authority.toBuffer().copy(data, 0);
+  offset = data.writeUInt8(config.threshold, offset);
+  offset = data.writeBigUInt64LE(config.epoch, offset);
+  offset = data.writeUInt32LE(config.signers.length, offset);
+  config.signers.forEach((signer, i) => signer.copy(data, offset + i * 32));
+  if (domain) {
+    domain.genesisHash.copy(data, SIGNER_CONFIG_SPACE);
+    data.writeBigUInt64LE(domain.v1UntilSlot, SIGNER_CONFIG_SPACE + 32);
+  }
+  return data;
+}
+
+// Null before SetAttestationDomain, as in `AttestationDomain::unpack`
+function unpackAttestationDomain(data: Buffer): LocalAttestationDomain | null {
+  if (data.length < SIGNER_CONFIG_SPACE + ATTESTATION_DOMAIN_SPACE) {
+    return null;
+  }
+  const genesisHash = Buffer.from(data.subarray(SIGNER_CONFIG_SPACE, SIGNER_CONFIG_SPACE + 32));
+  if (genesisHash.every((byte) => byte === 0)) {
+    return null;
+  }
+  return { genesisHash, v1UntilSlot: data.readBigUInt64LE(SIGNER_CONFIG_SPACE + 32) };
+}
+
+function unpackSignerConfig(data: Buffer): LocalSignerConfig {
+  try {
+    const count = data.readUInt32LE(41);
+    if (data.length < 45 + count * 32) {
+      throw new Error("short signer list");
+    }
+    return {
+      authority: new PublicKey(data.subarray(0, 32)),
+      threshold: data.readUInt8(32),
+      epoch: data.readBigUInt64LE(33),
+      signers: Array.from({ length: count }, (_, i) => Buffer.from(data.subarray(45 + i * 32, 77 + i * 32))),
+    };
+  } catch {
+    throw new LocalProgramError("InvalidAccountData");
+  }
+}
+
+/**
+ * Bincode `UpgradeableLoaderState::ProgramData` with no program bytes: what
+ * the upgrade authority check reads
+ */
+export function encodeProgramDataAccount(upgradeAuthority: PublicKey): Buffer {
+  const data = Buffer.alloc(45);
+  data.writeUInt32LE(3, 0);
+  data.writeUInt8(1, 12);
+  upgradeAuthority.toBuffer().copy(data, 13);
+  return data;
+}
+
+interface LocalSignerSet {
+  threshold: number;
+  signers: Buffer[];
+}
+
+// InitializeSigners and RotateSigners share their fields
+function parseSignerSet(context: LocalInvokeContext, data: Buffer): LocalSignerSet {
+  try {
+    const count = data.readUInt32LE(2);
+    if (data.length !== 6 + count * 32) {
+      throw new Error("length");
+    }
+    return {
+      threshold: data.readUInt8(1),
+      signers: Array.from({ length: count }, (_, i) => Buffer.from(data.subarray(6 + i * 32, 38 + i * 32))),
+    };
+  } catch {
+    context.log("Invalid instruction data length");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+}
+
+function validateSignerSet(context: LocalInvokeContext, { threshold, signers }: LocalSignerSet) {
+  if (signers.length === 0 || signers.length > MAX_SIGNERS) {
+    context.log(`Signer set must have 1-${MAX_SIGNERS} signers`);
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+  if (threshold === 0 || threshold > signers.length) {
+    context.log("Threshold must be between 1 and the number of signers");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+  if (signers.some((signer, i) => signers.slice(0, i).some((other) => other.equals(signer)))) {
+    context.log("Duplicate signer in signer set");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+}
+
+function loadSignerConfig(context: LocalInvokeContext, index: number): LocalSignerConfig {
+  requirePda(context, index, [SIGNER_CONFIG_SEED], context.programId, "Signer config account mismatch");
+  const account = context.getAccount(nextAccount(context, index).pubkey);
+  if (!account || !account.owner.equals(context.programId) || account.data.length === 0) {
+    context.log("Signer config is not initialized");
+    throw new LocalProgramError("UninitializedAccount");
+  }
+  return unpackSignerConfig(account.data);
+}
+
+// Public keys of the self-referencing entries in an Ed25519Program instruction that sign `expectedMessage`
+function attestedSigners(data: Buffer, expectedMessage: Buffer): Buffer[] {
+  const signers: Buffer[] = [];
+  const count = data.length >= 2 ? data[0] : 0;
+  for (let i = 0; i < count; i++) {
+    const base = 2 + i * 14;
+    if (data.length < base + 14) {
+      break;
+    }
+    const sigOffset = data.readUInt16LE(base);
+    const pubOffset = data.readUInt16LE(base + 4);
+    const msgOffset = data.readUInt16LE(base + 8);
+    const msgSize = data.readUInt16LE(base + 10);
+    if (
+      data.readUInt16LE(base + 2) !== 0xffff ||
+      data.readUInt16LE(base + 6) !== 0xffff ||
+      data.readUInt16LE(base + 12) !== 0xffff
+    ) {
+      continue;
+    }
+    if (data.length < sigOffset + 64 || data.length < pubOffset + 32) {
+      continue;
+    }
+    if (data.length < msgOffset + msgSize || msgSize !== 32) {
+      continue;
+    }
+    if (!data.subarray(msgOffset, msgOffset + msgSize).equals(expectedMessage)) {
+      continue;
+    }
+    signers.push(Buffer.from(data.subarray(pubOffset, pubOffset + 32)));
+  }
+  return signers;
+}
+
+function countAttestations(context: LocalInvokeContext, config: LocalSignerConfig, messageHash: Buffer): number {
+  const attested: Buffer[] = [];
+  for (const ix of context.instructions.slice(0, context.instructionIndex)) {
+    if (!ix.programId.equals(ED25519_PROGRAM_ID)) {
+      continue;
+    }
+    for (const signer of attestedSigners(ix.data, messageHash)) {
+      if (config.signers.some((s) => s.equals(signer)) && !attested.some((s) => s.equals(signer))) {
+        attested.push(signer);
+      }
+    }
+  }
+  return attested.length;
+}
+
+// VerifyV2 is Verify with the expiry slot appended
+function processVerify(context: LocalInvokeContext, v2: boolean) {
+  const { data } = context.instruction;
+  if (data.length !== (v2 ? VERIFY_V2_DATA_LEN : VERIFY_DATA_LEN)) {
+    context.log("Invalid instruction data length");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+  const proposalId = data.readBigUInt64LE(9);
+  const voteChoice = data.readUInt8(17);
+  if (voteChoice > 2) {
+    context.log("Invalid vote choice");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+  const nullifier = data.subarray(18, 50);
+  const weight = data.readBigUInt64LE(178);
+  if (weight === 0n) {
+    context.log("Invalid vote weight");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+
+  if (!nextAccount(context, 1).pubkey.equals(SYSVAR_INSTRUCTIONS_PUBKEY)) {
+    context.log("Missing instruction sysvar");
+    throw new LocalProgramError("InvalidAccountData");
+  }
+  requireSystemProgram(context, 4);
+  requireSigner(context, 3, "Payer must sign");
+
+  const config = loadSignerConfig(context, 5);
+  const domain = unpackAttestationDomain(context.getAccount(nextAccount(context, 5).pubkey)!.data);
+  const slot = BigInt(context.slot);
+  const fields = [
+    data.subarray(1, 18), // program id, proposal id, choice
+    nullifier,
+    data.subarray(50, 82), // vote root
+    data.subarray(82, 114), // vk hash
+    data.subarray(146, 178), // proof hash
+    data.subarray(114, 146), // public inputs hash
+  ];
+  let message: Buffer;
+  if (!v2) {
+    // V1 keeps working until the migration window set with the domain closes
+    if (domain && slot >= domain.v1UntilSlot) {
+      context.log("VEILPROOF_V1 attestations are no longer accepted");
+      throw new LocalProgramError("VEILPROOF_V1 attestations are no longer accepted", ATTESTATION_V1_RETIRED);
+    }
+    message = Buffer.concat([
+      Buffer.from("VEILPROOF_V1"),
+      ...fields,
+      // A weight of 1 leaves the message as it was before weighted votes
+      weight === 1n ? Buffer.alloc(0) : data.subarray(178, 186),
+    ]);
+  } else {
+    if (!domain) {
+      context.log("Attestation domain is not set");
+      throw new LocalProgramError("UninitializedAccount");
+    }
+    const expirySlot = data.readBigUInt64LE(186);
+    if (slot > expirySlot) {
+      context.log(`Attestation expired at slot ${expirySlot}`);
+      throw new LocalProgramError("Attestation expired", ATTESTATION_EXPIRED);
+    }
+    message = Buffer.concat([
+      Buffer.from("VEILPROOF_V2"),
+      ...fields,
+      data.subarray(178, 194), // weight, expiry slot
+      context.programId.toBuffer(),
+      domain.genesisHash,
+    ]);
+  }
+  const messageHash = Buffer.from(sha256(message));
+
+  const attested = countAttestations(context, config, messageHash);
+  if (attested < config.threshold) {
+    context.log(`Not enough attestations: ${attested} of ${config.threshold} required signers`);
+    throw new LocalProgramError("Attestation threshold not met", ATTESTATION_THRESHOLD_NOT_MET);
+  }
+
+  recordVerifiedProof(
+    context,
+    { state: 0, nullifier: 2, payer: 3 },
+    proposalId,
+    voteChoice,
+    weight,
+    nullifier,
+    TRUST_MODEL_ATTESTATION
+  );
+}
+
+function processVerifyGroth16(context: LocalInvokeContext, ids: LocalProgramIds) {
+  const { data } = context.instruction;
+  if (data.length !== VERIFY_GROTH16_DATA_LEN) {
+    context.log("Invalid instruction data length");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+  const proposalId = data.readBigUInt64LE(9);
+  const voteChoice = data.readUInt8(17);
+  if (voteChoice > 2) {
+    context.log("Invalid vote choice");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+  const nullifier = data.subarray(18, 50);
+  const voteRoot = data.subarray(50, 82);
+  const proof = decodeGroth16Proof(data.subarray(82, 82 + GROTH16_PROOF_BYTES));
+  const weight = data.readBigUInt64LE(82 + GROTH16_PROOF_BYTES);
+  if (weight === 0n) {
+    context.log("Invalid vote weight");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+
+  requireSystemProgram(context, 3);
+  requireSigner(context, 2, "Payer must sign");
+
+  const treeMeta = nextAccount(context, 5);
+  // Any shard of the proposal's vote tree; isKnownRoot checks the proposal
+  const tree = context.getAccount(treeMeta.pubkey);
+  if (!tree || !tree.owner.equals(ids.vote)) {
+    context.log("Vote tree account mismatch");
+    throw new LocalProgramError("InvalidSeeds");
+  }
+  if (!isKnownRoot(tree.data, proposalId, voteRoot)) {
+    context.log("Vote root is not a recent root of the proposal's vote tree");
+    throw new LocalProgramError("Unknown vote root", UNKNOWN_VOTE_ROOT);
+  }
+
+  // Likewise the eligibility root comes from the proposal, never the caller
+  const proposalMeta = nextAccount(context, 6);
+  const proposalAccount = context.getAccount(proposalMeta.pubkey);
+  const [proposalAddress] = PublicKey.findProgramAddressSync([PROPOSAL_SEED, u64Le(proposalId)], ids.proposal);
+  if (!proposalMeta.pubkey.equals(proposalAddress) || !proposalAccount || !proposalAccount.owner.equals(ids.proposal)) {
+    context.log("Proposal account mismatch");
+    throw new LocalProgramError("InvalidSeeds");
+  }
+  // The vote transaction hides the choice, so the proven one is checked here
+  if ((unpackProposal(proposalAccount.data).allowedChoices & (1 << voteChoice)) === 0) {
+    context.log("Vote choice not allowed for this proposal");
+    throw new LocalProgramError("InvalidArgument");
+  }
+
+  requirePda(context, 4, [GROTH16_VK_SEED], context.programId, "Verifying key account mismatch");
+  const vkAccount = context.getAccount(nextAccount(context, 4).pubkey);
+  if (!vkAccount || !vkAccount.owner.equals(context.programId) || vkAccount.data.length === 0) {
+    context.log("Groth16 verifying key is not set");
+    throw new LocalProgramError("UninitializedAccount");
+  }
+
+  // groth16_public_inputs: the u64s and the choice widened to 32-byte big-endian fields
+  const publicInputs = Buffer.alloc(32 * GROTH16_PUBLIC_INPUTS);
+  publicInputs.writeBigUInt64BE(data.readBigUInt64LE(1), 24);
+  publicInputs.writeBigUInt64BE(proposalId, 56);
+  voteRoot.copy(publicInputs, 64);
+  eligibilityRoot(proposalAccount.data).copy(publicInputs, 96);
+  publicInputs.writeUInt8(voteChoice, 159);
+  nullifier.copy(publicInputs, 160);
+  publicInputs.writeBigUInt64BE(weight, 216);
+
+  // verify_groth16 and negate_g1 reject these before any syscall
+  for (let offset = 0; offset < publicInputs.length; offset += 32) {
+    if (BigInt("0x" + publicInputs.subarray(offset, offset + 32).toString("hex")) >= BN254_SCALAR_MODULUS) {
+      context.log("Public input is not a field element");
+      throw new LocalProgramError("InvalidInstructionData");
+    }
+  }
+  if (BigInt("0x" + Buffer.from(proof.a.subarray(32)).toString("hex")) >= BN254_FIELD_MODULUS) {
+    context.log("Groth16 proof is malformed");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+  if (!verifyGroth16(decodeGroth16VerifyingKey(vkAccount.data), proof, publicInputs)) {
+    context.log("Groth16 proof verification failed");
+    throw new LocalProgramError("Groth16 proof verification failed", PROOF_VERIFICATION_FAILED);
+  }
+
+  recordVerifiedProof(
+    context,
+    { state: 0, nullifier: 1, payer: 2 },
+    proposalId,
+    voteChoice,
+    weight,
+    nullifier,
+    TRUST_MODEL_GROTH16
+  );
+}
+
+// record_verified_proof: spend the nullifier, then add the vote to the tally
+function recordVerifiedProof(
+  context: LocalInvokeContext,
+  indices: { state: number; nullifier: number; payer: number },
+  proposalId: bigint,
+  voteChoice: number,
+  weight: bigint,
+  nullifier: Buffer,
+  trustModel: number
+) {
+  const stateMeta = nextAccount(context, indices.state);
+  const nullifierMeta = nextAccount(context, indices.nullifier);
+
+  requirePda(context, indices.nullifier, [NULLIFIER_SEED, nullifier], context.programId, "Nullifier account mismatch");
+  if (initializedAccount(context, nullifierMeta.pubkey)) {
+    context.log("Nullifier already spent");
+    throw new LocalProgramError("Nullifier already spent", NULLIFIER_ALREADY_SPENT);
+  }
+  context.createAccount(nullifierMeta.pubkey, 1, context.programId).data.writeUInt8(trustModel, 0);
+
+  requirePda(context, indices.state, [STATE_SEED, u64Le(proposalId)], context.programId, "State account mismatch");
+  if (!stateMeta.isWritable) {
+    context.log("State account must be writable");
+    throw new LocalProgramError("InvalidAccountData");
+  }
+  const state =
+    initializedAccount(context, stateMeta.pubkey) ??
+    context.createAccount(stateMeta.pubkey, STATE_SPACE, context.programId);
+
+  if (state.data.readBigUInt64LE(0) === 0n) {
+    state.data.writeBigUInt64LE(proposalId, 0);
+  }
+  if (state.data.readBigUInt64LE(0) !== proposalId) {
+    context.log("Proposal ID mismatch");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+  if (state.data.length === LEGACY_STATE_SPACE) {
+    // Grow a legacy tally, topping up rent from the payer; its proofs all weighed 1
+    const shortfall = Math.max(0, rentExemptMinimum(STATE_SPACE) - state.lamports);
+    const payer = context.getAccount(nextAccount(context, indices.payer).pubkey);
+    if (!payer || payer.lamports < shortfall) {
+      throw new LocalProgramError("Transfer: insufficient lamports");
+    }
+    payer.lamports -= shortfall;
+    state.lamports += shortfall;
+    state.data = Buffer.concat([state.data, state.data.subarray(8, 32)]);
+  }
+
+  // yes_proofs, no_proofs, abstain_proofs follow proposal_id, then their weights
+  const [offset, label] = voteChoice === 1 ? [8, "YES"] : voteChoice === 0 ? [16, "NO"] : [24, "ABSTAIN"];
+  state.data.writeBigUInt64LE(saturatingAdd(state.data.readBigUInt64LE(offset), 1n), offset);
+  state.data.writeBigUInt64LE(saturatingAdd(state.data.readBigUInt64LE(offset + 24), weight), offset + 24);
+
+  context.log(`Verified anonymous ${label} proof of weight ${weight} for proposal ${proposalId}`);
+}
+
+// u64::saturating_add
+function saturatingAdd(a: bigint, b: bigint): bigint {
+  return a + b > U64_MAX ? U64_MAX : a + b;
+}
+
+function upgradeAuthority(context: LocalInvokeContext, index: number): PublicKey {
+  requirePda(context, index, [context.programId.toBuffer()], BPF_LOADER_UPGRADEABLE_ID, "Program data account mismatch");
+  const programData = context.getAccount(nextAccount(context, index).pubkey);
+  if (!programData || !programData.owner.equals(BPF_LOADER_UPGRADEABLE_ID)) {
+    context.log("Program data account mismatch");
+    throw new LocalProgramError("InvalidSeeds");
+  }
+  const pd = programData.data;
+  if (pd.length < 45 || pd.readUInt32LE(0) !== 3 || pd[12] !== 1) {
+    context.log("Program is not upgradeable");
+    throw new LocalProgramError("InvalidAccountData");
+  }
+  return new PublicKey(pd.subarray(13, 45));
+}
+
+function processInitializeSigners(context: LocalInvokeContext) {
+  const { threshold, signers } = parseSignerSet(context, context.instruction.data);
+  const configMeta = nextAccount(context, 0);
+  const authority = nextAccount(context, 1);
+  requireSystemProgram(context, 3);
+  requireSigner(context, 1, "Authority must sign");
+
+  if (!upgradeAuthority(context, 2).equals(authority.pubkey)) {
+    context.log("Only the upgrade authority may initialize signers");
+    throw new LocalProgramError("MissingRequiredSignature");
+  }
+  validateSignerSet(context, { threshold, signers });
+
+  requirePda(context, 0, [SIGNER_CONFIG_SEED], context.programId, "Signer config account mismatch");
+  if (initializedAccount(context, configMeta.pubkey)) {
+    context.log("Signer config already initialized");
+    throw new LocalProgramError("AccountAlreadyInitialized");
+  }
+  const account = context.createAccount(
+    configMeta.pubkey,
+    SIGNER_CONFIG_SPACE + ATTESTATION_DOMAIN_SPACE,
+    context.programId
+  );
+  encodeSignerConfigAccount({ authority: authority.pubkey, threshold, epoch: 0n, signers }).copy(account.data);
+
+  context.log(`Signer config initialized: ${threshold} of ${signers.length} signers`);
+}
+
+function processRotateSigners(context: LocalInvokeContext) {
+  const { threshold, signers } = parseSignerSet(context, context.instruction.data);
+  const configMeta = nextAccount(context, 0);
+  const authority = nextAccount(context, 1);
+
+  const config = loadSignerConfig(context, 0);
+  if (!authority.isSigner || !authority.pubkey.equals(config.authority)) {
+    context.log("Only the config authority may rotate signers");
+    throw new LocalProgramError("MissingRequiredSignature");
+  }
+  if (!configMeta.isWritable) {
+    context.log("Signer config must be writable");
+    throw new LocalProgramError("InvalidAccountData");
+  }
+  validateSignerSet(context, { threshold, signers });
+
+  const epoch = config.epoch + 1n;
+  const account = context.getAccount(configMeta.pubkey)!;
+  // The attestation domain after the signer list stays
+  encodeSignerConfigAccount({ authority: config.authority, threshold, epoch, signers })
+    .subarray(0, SIGNER_CONFIG_SPACE)
+    .copy(account.data);
+
+  context.log(`Signer set rotated to epoch ${epoch}: ${threshold} of ${signers.length} signers`);
+}
+
+function processSetAttestationDomain(context: LocalInvokeContext) {
+  const { data } = context.instruction;
+  if (data.length !== 1 + ATTESTATION_DOMAIN_SPACE) {
+    context.log("Invalid instruction data length");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+  const configMeta = nextAccount(context, 0);
+  const authority = nextAccount(context, 1);
+  requireSystemProgram(context, 2);
+
+  const config = loadSignerConfig(context, 0);
+  if (!authority.isSigner || !authority.pubkey.equals(config.authority)) {
+    context.log("Only the config authority may set the attestation domain");
+    throw new LocalProgramError("MissingRequiredSignature");
+  }
+  if (!configMeta.isWritable) {
+    context.log("Signer config must be writable");
+    throw new LocalProgramError("InvalidAccountData");
+  }
+  const genesisHash = data.subarray(1, 33);
+  if (genesisHash.every((byte) => byte === 0)) {
+    context.log("Genesis hash must be nonzero");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+
+  const account = context.getAccount(configMeta.pubkey)!;
+  const space = SIGNER_CONFIG_SPACE + ATTESTATION_DOMAIN_SPACE;
+  if (account.data.length < space) {
+    // A config created before VEILPROOF_V2: top up rent from the authority, then realloc
+    const shortfall = Math.max(0, rentExemptMinimum(space) - account.lamports);
+    const payer = context.getAccount(authority.pubkey);
+    if (!payer || payer.lamports < shortfall) {
+      throw new LocalProgramError("Transfer: insufficient lamports");
+    }
+    payer.lamports -= shortfall;
+    account.lamports += shortfall;
+    account.data = Buffer.concat([account.data, Buffer.alloc(space - account.data.length)]);
+  }
+  data.copy(account.data, SIGNER_CONFIG_SPACE, 1);
+
+  context.log(`Attestation domain set: VEILPROOF_V1 accepted before slot ${data.readBigUInt64LE(33)}`);
+}
+
+function processWriteGroth16VerifyingKey(context: LocalInvokeContext) {
+  const { data } = context.instruction;
+  if (data.length < 9 || data.length !== 9 + data.readUInt32LE(5)) {
+    context.log("Invalid instruction data length");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+  const offset = data.readUInt32LE(1);
+  const bytes = data.subarray(9);
+  const vkMeta = nextAccount(context, 0);
+  const authority = nextAccount(context, 1);
+  requireSystemProgram(context, 3);
+  requireSigner(context, 1, "Authority must sign");
+  if (!upgradeAuthority(context, 2).equals(authority.pubkey)) {
+    context.log("Only the upgrade authority may set the verifying key");
+    throw new LocalProgramError("MissingRequiredSignature");
+  }
+
+  requirePda(context, 0, [GROTH16_VK_SEED], context.programId, "Verifying key account mismatch");
+  const end = offset + bytes.length;
+  if (end > GROTH16_VK_BYTES) {
+    context.log("Verifying key write out of bounds");
+    throw new LocalProgramError("InvalidInstructionData");
+  }
+  const account =
+    initializedAccount(context, vkMeta.pubkey) ??
+    context.createAccount(vkMeta.pubkey, GROTH16_VK_BYTES, context.programId);
+  if (account.data.length < GROTH16_VK_BYTES) {
+    // A key for an older circuit with fewer public inputs: top up rent from the authority, then realloc
+    const shortfall = Math.max(0, rentExemptMinimum(GROTH16_VK_BYTES) - account.lamports);
+    const payer = context.getAccount(authority.pubkey);
+    if (!payer || payer.lamports < shortfall) {
+      throw new LocalProgramError("Transfer: insufficient lamports");
+    }
+    payer.lamports -= shortfall;
+    account.lamports += shortfall;
+    account.data = Buffer.concat([account.data, Buffer.alloc(GROTH16_VK_BYTES - account.data.length)]);
+  }
+  bytes.copy(account.data, offset);
+
+  context.log(`Wrote Groth16 verifying key bytes ${offset}..${end}`);
+}
+
+/**
+ * @param ids - VerifyGroth16 reads the vote program's vote trees and the
+ * proposal program's proposals
+ */
+export function createVerifierProgram(ids: LocalProgramIds): LocalProgram {
+  return (context) => {
+    // Borsh tag of VerifierInstruction
+    switch (context.instruction.data[0]) {
+      case 0:
+        return processVerify(context, false);
+      case 1:
+        return processInitializeSigners(context);
+      case 2:
+        return processRotateSigners(context);
+      case 3:
+        return processWriteGroth16VerifyingKey(context);
+      case 4:
+        return processVerifyGroth16(context, ids);
+      case 5:
+        return processVerify(context, true);
+      case 6:
+        return processSetAttestationDomain(context);
+      default:
+        context.log("Invalid instruction data length");
+        throw new LocalProgramError("InvalidInstructionData");
+    }
+  };
+}
+
+// ============================================================================
+// Ed25519 precompile
+// ============================================================================
+
+/**
+ * Verifies every signature in an Ed25519Program instruction whose offsets
+ * point into the instruction itself (all this repo builds).
+ */
+export const ed25519Precompile: LocalProgram = (context) => {
+  const { data } = context.instruction;
+  const count = data.length > 0 ? data[0] : 0;
+  for (let i = 0; i < count; i++) {
+    const base = 2 + i * 14;
+    if (data.length < base + 14) {
+      throw new LocalProgramError("Ed25519 instruction data too short");
+    }
+    const sigOffset = data.readUInt16LE(base);
+    const pubOffset = data.readUInt16LE(base + 4);
+    const msgOffset = data.readUInt16LE(base + 8);
+    const msgSize = data.readUInt16LE(base + 10);
+    const valid = ed25519.verify(
+      data.subarray(sigOffset, sigOffset + 64),
+      data.subarray(msgOffset, msgOffset + msgSize),
+      data.subarray(pubOffset, pubOffset + 32)
+    );
+    if (!valid) {
+      throw new LocalProgramError("Ed25519 signature verification failed");
+    }
+  }
+};
+
+// ============================================================================
+// Compute budget
+// ============================================================================
+
+// Discriminators of SetComputeUnitLimit and SetComputeUnitPrice, the two the sender uses
+const COMPUTE_BUDGET_INSTRUCTIONS = new Set([2, 3]);
+
+/**
+ * Accepts compute budget instructions; the bank meters neither compute nor fees
+ */
+export const computeBudgetProgram: LocalProgram = (context) => {
+  const { data } = context.instruction;
+  if (data.length === 0 || !COMPUTE_BUDGET_INSTRUCTIONS.has(data[0])) {
+    throw new LocalProgramError("Unsupported compute budget instruction");
+  }
+};
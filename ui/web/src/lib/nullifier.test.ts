@@ -0,0 +1,40 @@
+import { ed25519 } from "@noble/curves/ed25519";
+import { sha256 } from "@noble/hashes/sha2";
+import { describe, expect, it } from "vitest";
+import { deriveVoterSecret, voterSecretMessage, type VoterSecretSigner } from "./nullifier";
+
+const PROGRAM_A = "Ed25519SigVerify111111111111111111111111111";
+const PROGRAM_B = "Vote111111111111111111111111111111111111111";
+
+function signer(origin: string, verifierProgramId: string): VoterSecretSigner {
+  const secretKey = new Uint8Array(32).fill(7);
+  return { signMessage: async (message) => ed25519.sign(message, secretKey), origin, verifierProgramId };
+}
+
+describe("deriveVoterSecret", () => {
+  it("shows the origin and verifier program in the wallet prompt", () => {
+    const message = voterSecretMessage("https://vote.example.org", PROGRAM_A);
+    expect(message).toContain("Only sign this on https://vote.example.org.");
+    expect(message).toContain(`Verifier program: ${PROGRAM_A}`);
+  });
+
+  it("gives a wallet the same secret for the same app and program", async () => {
+    const first = await deriveVoterSecret(signer("https://vote.example.org", PROGRAM_A));
+    expect(first).toMatch(/^0x[0-9a-f]{62}$/);
+    expect(await deriveVoterSecret(signer("https://vote.example.org", PROGRAM_A))).toBe(first);
+  });
+
+  it("gives a different secret to another origin or verifier program", async () => {
+    const secret = await deriveVoterSecret(signer("https://vote.example.org", PROGRAM_A));
+    expect(await deriveVoterSecret(signer("https://vote.example.net", PROGRAM_A))).not.toBe(secret);
+    expect(await deriveVoterSecret(signer("https://vote.example.org", PROGRAM_B))).not.toBe(secret);
+  });
+
+  it("still derives v1 secrets from the fixed message", async () => {
+    const v1 = await deriveVoterSecret({ ...signer("https://vote.example.org", PROGRAM_A), version: 1 });
+    const signature = ed25519.sign(new TextEncoder().encode("VeilProof voter secret v1"), new Uint8Array(32).fill(7));
+    const expected = Array.from(sha256(signature).slice(0, 31), (b) => b.toString(16).padStart(2, "0")).join("");
+    expect(v1).toBe(`0x${expected}`);
+    expect(await deriveVoterSecret(signer("https://vote.example.org", PROGRAM_A))).not.toBe(v1);
+  });
+});
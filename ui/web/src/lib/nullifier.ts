@@ -0,0 +1,84 @@
+import { sha256 } from "@noble/hashes/sha2";
+
+const VOTER_SECRET_STORAGE_KEY = "veilproof_voter_secret";
+
+// 31 bytes always fits below the BN254 field modulus.
+const VOTER_SECRET_BYTES = 31;
+
+// v1 signed a fixed text; v2 names the origin and verifier program
+export type VoterSecretVersion = 1 | 2;
+export const VOTER_SECRET_VERSION: VoterSecretVersion = 2;
+const VOTER_SECRET_V1_MESSAGE = "VeilProof voter secret v1";
+
+export interface VoterSecretSigner {
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>;
+  // Origin of the app asking, e.g. https://vote.example.org
+  origin: string;
+  // Base58 verifier program the secret's nullifiers are spent in
+  verifierProgramId: string;
+  // Defaults to VOTER_SECRET_VERSION; 1 re-derives secrets of votes cast before v2
+  version?: VoterSecretVersion;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * The text the wallet shows and signs. It names the app origin and the
+ * verifier program, so a signature a look-alike site or another deployment
+ * collects yields a different secret, and the voter can see which one asks.
+ */
+export function voterSecretMessage(
+  origin: string,
+  verifierProgramId: string,
+  version: VoterSecretVersion = VOTER_SECRET_VERSION
+): string {
+  if (version === 1) {
+    return VOTER_SECRET_V1_MESSAGE;
+  }
+  return [
+    "VeilProof voter secret v2",
+    "",
+    `Only sign this on ${origin}. It derives the private secret behind your votes for verifier program ${verifierProgramId}.`,
+    "",
+    `Origin: ${origin}`,
+    `Verifier program: ${verifierProgramId}`,
+  ].join("\n");
+}
+
+/**
+ * Derive the private voter secret fed to the circuit's nullifier.
+ * With a wallet that can sign messages the secret is deterministic (ed25519
+ * signatures are), so the same voter always gets the same nullifier per proposal
+ * from the same app origin and verifier program. Each message version gives a
+ * different secret, so a vote is proven with the version it was cast with.
+ * Otherwise a random secret is kept in localStorage.
+ * @returns 0x-prefixed field element
+ */
+export async function deriveVoterSecret(signer?: VoterSecretSigner): Promise<string> {
+  if (signer) {
+    const message = voterSecretMessage(signer.origin, signer.verifierProgramId, signer.version);
+    const signature = await signer.signMessage(new TextEncoder().encode(message));
+    return "0x" + toHex(sha256(signature).slice(0, VOTER_SECRET_BYTES));
+  }
+
+  const stored = localStorage.getItem(VOTER_SECRET_STORAGE_KEY);
+  if (stored) {
+    return stored;
+  }
+  const secret = "0x" + toHex(crypto.getRandomValues(new Uint8Array(VOTER_SECRET_BYTES)));
+  localStorage.setItem(VOTER_SECRET_STORAGE_KEY, secret);
+  return secret;
+}
+
+/**
+ * Stand-in nullifier for demo mode. Real nullifiers are computed inside the
+ * circuit as pedersen_hash([voter_secret, proposal_id]). The top three bits
+ * are cleared so it is a BN254 field element, as the Groth16 path requires.
+ */
+export function demoNullifier(voterSecret: string, proposalId: string): string {
+  const digest = sha256(new TextEncoder().encode(`${voterSecret}:${proposalId}`));
+  digest[0] &= 0x1f;
+  return toHex(digest);
+}
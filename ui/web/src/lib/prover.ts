@@ -0,0 +1,149 @@
+import { CIRCUIT_ARTIFACT_URL, CIRCUIT_ID } from "./constants";
+import type { VeilProofClient } from "./client";
+import type { ProverInputs, ProverRequest, ProverResponse } from "./prover.worker";
+import type { ProofData, ProverProgress } from "../types";
+
+export type { ProverInputs };
+
+/**
+ * Makes a vote_proof proof; rejects with ProofCancelledError once `signal` aborts
+ */
+export type Prover = (
+  inputs: ProverInputs,
+  onProgress?: (progress: ProverProgress) => void,
+  signal?: AbortSignal
+) => Promise<ProofData>;
+
+/**
+ * Thrown when proof generation is cancelled before it finished
+ */
+export class ProofCancelledError extends Error {
+  constructor() {
+    super("Proof generation cancelled");
+    this.name = "ProofCancelledError";
+  }
+}
+
+/**
+ * Thrown when a prover service job ends without a proof
+ */
+export class ProofJobFailedError extends Error {
+  readonly jobId: string;
+
+  constructor(jobId: string, message: string) {
+    super(message);
+    this.name = "ProofJobFailedError";
+    this.jobId = jobId;
+  }
+}
+
+/**
+ * Generate a vote_proof proof in a Web Worker.
+ * Private inputs never leave the browser; the worker is torn down after each
+ * proof, or as soon as `signal` aborts.
+ */
+export const proveInBrowser: Prover = (inputs, onProgress, signal) => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ProofCancelledError());
+      return;
+    }
+
+    const worker = new Worker(new URL("./prover.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    const onAbort = () => {
+      worker.terminate();
+      reject(new ProofCancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const finish = () => {
+      signal?.removeEventListener("abort", onAbort);
+      worker.terminate();
+    };
+
+    worker.onmessage = (event: MessageEvent<ProverResponse>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+        return;
+      }
+      finish();
+      if (message.type === "result") {
+        resolve(message.proof);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "Prover worker crashed"));
+    };
+
+    const request: ProverRequest = {
+      type: "prove",
+      circuitUrl: CIRCUIT_ARTIFACT_URL,
+      circuitId: CIRCUIT_ID,
+      inputs,
+    };
+    worker.postMessage(request);
+  });
+};
+
+/**
+ * Prover backed by the prover service's job API. The private inputs are sent
+ * to the service; aborting `signal` cancels the job there too.
+ */
+export function createServiceProver(client: VeilProofClient): Prover {
+  return async (inputs, onProgress, signal) => {
+    if (signal?.aborted) {
+      throw new ProofCancelledError();
+    }
+    const submitted = await client.submitProofJob({
+      proposalId: inputs.proposal_id,
+      programId: inputs.program_id,
+      voteChoice: inputs.vote_choice,
+      voterSecret: inputs.voter_secret,
+      leafIndex: inputs.leaf_index,
+      merklePath: inputs.merkle_path,
+      voteRoot: inputs.vote_root,
+      identityIndex: inputs.identity_index,
+      identityPath: inputs.identity_path,
+      eligibilityRoot: inputs.eligibility_root,
+      balance: inputs.balance,
+      weight: inputs.weight,
+    });
+
+    let job;
+    try {
+      job = await client.followProofJob(submitted.jobId, {
+        signal,
+        onUpdate: (update) =>
+          onProgress?.({
+            stage: update.stage,
+            message:
+              update.queuePosition === undefined
+                ? update.message
+                : `${update.message} (${update.queuePosition} ahead)`,
+            fraction: update.fraction,
+          }),
+      });
+    } catch (err) {
+      if (signal?.aborted) {
+        // The job would otherwise hold a prover slot until it finished
+        await client.cancelProofJob(submitted.jobId).catch(() => undefined);
+        throw new ProofCancelledError();
+      }
+      throw err;
+    }
+
+    if (job.status === "succeeded" && job.proof) {
+      return job.proof;
+    }
+    if (job.status === "cancelled") {
+      throw new ProofCancelledError();
+    }
+    throw new ProofJobFailedError(job.jobId, job.error ?? job.message);
+  };
+}
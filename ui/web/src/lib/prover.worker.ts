@@ -0,0 +1,177 @@
+import { Noir, type CompiledCircuit } from "@noir-lang/noir_js";
+import { UltraPlonkBackend } from "@aztec/bb.js";
+import { sha256 } from "@noble/hashes/sha2";
+import { assertPublicInputsMatch, publicInputSchema } from "./publicInputs";
+import type { ProofData, ProverProgress } from "../types";
+
+export interface ProverInputs {
+  program_id: string;
+  proposal_id: string;
+  vote_choice: number;
+  voter_secret: string;
+  leaf_index: number;
+  merkle_path: string[];
+  expected_program_id: string;
+  expected_proposal_id: string;
+  vote_root: string;
+  // Membership in the proposal's eligibility tree; all zero for open proposals
+  identity_index: number;
+  identity_path: string[];
+  eligibility_root: string;
+  // The member's snapshot balance (private) and the weight it votes with (public); both 1 for open proposals
+  balance: string;
+  weight: string;
+}
+
+export type ProverRequest = {
+  type: "prove";
+  circuitUrl: string;
+  circuitId: string; // Registry entry the artifact at circuitUrl was compiled from
+  inputs: ProverInputs;
+};
+
+export type ProverResponse =
+  | { type: "progress"; progress: ProverProgress }
+  | { type: "result"; proof: ProofData }
+  | { type: "error"; message: string };
+
+const worker = self as unknown as Worker;
+
+// Compiled circuits are cached per URL for the lifetime of the worker.
+const circuitCache = new Map<string, CompiledCircuit>();
+
+function post(message: ProverResponse) {
+  worker.postMessage(message);
+}
+
+// Rough share of the work done once each stage starts; proving dominates
+const STAGE_FRACTIONS: Record<ProverProgress["stage"], number> = {
+  queued: 0,
+  "loading-circuit": 0.1,
+  executing: 0.3,
+  proving: 0.5,
+  done: 1,
+};
+
+function progress(stage: ProverProgress["stage"], message: string) {
+  post({ type: "progress", progress: { stage, message, fraction: STAGE_FRACTIONS[stage] } });
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.startsWith("0x") ? hex.slice(2) : hex;
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) {
+    binary += String.fromCharCode(b);
+  }
+  return btoa(binary);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((len, part) => len + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+async function loadCircuit(url: string): Promise<CompiledCircuit> {
+  const cached = circuitCache.get(url);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load circuit artifact (${response.status})`);
+  }
+  const circuit = (await response.json()) as CompiledCircuit;
+  circuitCache.set(url, circuit);
+  return circuit;
+}
+
+async function prove({ circuitUrl, circuitId, inputs }: ProverRequest): Promise<ProofData> {
+  progress("loading-circuit", "Loading vote_proof circuit");
+  const circuit = await loadCircuit(circuitUrl);
+
+  progress("executing", "Executing circuit to build witness");
+  const noir = new Noir(circuit);
+  const { witness } = await noir.execute({
+    program_id: inputs.program_id,
+    proposal_id: inputs.proposal_id,
+    vote_choice: inputs.vote_choice,
+    voter_secret: inputs.voter_secret,
+    leaf_index: inputs.leaf_index,
+    merkle_path: inputs.merkle_path,
+    expected_program_id: inputs.expected_program_id,
+    expected_proposal_id: inputs.expected_proposal_id,
+    vote_root: inputs.vote_root,
+    eligibility_root: inputs.eligibility_root,
+    identity_index: inputs.identity_index,
+    identity_path: inputs.identity_path,
+    balance: inputs.balance,
+    weight: inputs.weight,
+  });
+
+  progress("proving", "Generating proof with Barretenberg");
+  const threads = self.crossOriginIsolated ? navigator.hardwareConcurrency : 1;
+  const backend = new UltraPlonkBackend(circuit.bytecode, { threads });
+  try {
+    const { proof, publicInputs } = await backend.generateProof(witness);
+    const vk = await backend.getVerificationKey();
+    const raw = concat(publicInputs.map(hexToBytes));
+    // Return values follow the inputs: (vote_choice, nullifier, weight)
+    const nullifier = publicInputs[publicInputs.length - 2].replace(/^0x/, "").padStart(64, "0");
+    const proofInputs = {
+      expected_program_id: inputs.expected_program_id,
+      expected_proposal_id: inputs.expected_proposal_id,
+      vote_choice: String(inputs.vote_choice),
+      nullifier,
+      vote_root: inputs.vote_root.replace(/^0x/, "").padStart(64, "0"),
+      eligibility_root: inputs.eligibility_root.replace(/^0x/, "").padStart(64, "0"),
+      weight: inputs.weight,
+      raw: toBase64(raw),
+    };
+    // The readable fields must say exactly what bb committed to
+    assertPublicInputsMatch(proofInputs, publicInputSchema(circuitId));
+
+    progress("done", "Proof generated");
+    return {
+      publicInputs: proofInputs,
+      // `bb verify` expects the public inputs in front of the proof body.
+      proof: toBase64(concat([raw, proof])),
+      vkHash: toHex(sha256(vk)),
+      circuitId,
+      meta: {
+        mock: false,
+        note: "Generated in-browser with Noir JS + Barretenberg WASM.",
+      },
+    };
+  } finally {
+    await backend.destroy();
+  }
+}
+
+worker.onmessage = async (event: MessageEvent<ProverRequest>) => {
+  if (event.data?.type !== "prove") {
+    return;
+  }
+  try {
+    const proof = await prove(event.data);
+    post({ type: "result", proof });
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  PUBLIC_INPUT_BYTES,
+  PublicInputsError,
+  assertPublicInputsMatch,
+  decodePublicInputs,
+  encodePublicInputs,
+  publicInputSchema,
+  type PublicInputFields,
+} from "./publicInputs";
+
+const schema = publicInputSchema("vote_proof@0.3.0");
+const BN254_SCALAR_MODULUS_HEX = "30644e72e131a029b85045b68181585d2833e84879b9709143e1f593f0000001";
+
+const fields: PublicInputFields = {
+  expected_program_id: "7",
+  expected_proposal_id: "42",
+  vote_root: "0a".repeat(32),
+  eligibility_root: "00".repeat(32),
+  vote_choice: "2",
+  nullifier: "1b".repeat(32),
+  weight: "18446744073709551615",
+};
+
+const base64 = (bytes: Uint8Array) => Buffer.from(bytes).toString("base64");
+
+describe("encodePublicInputs", () => {
+  it("lays out one big-endian field element per input in schema order", () => {
+    const raw = encodePublicInputs(fields, schema);
+    expect(raw.length).toBe(schema.length * PUBLIC_INPUT_BYTES);
+    const word = (name: string) => {
+      const index = schema.findIndex((spec) => spec.name === name);
+      return Buffer.from(raw.subarray(index * PUBLIC_INPUT_BYTES, (index + 1) * PUBLIC_INPUT_BYTES)).toString("hex");
+    };
+    expect(word("expected_proposal_id")).toBe("2a".padStart(64, "0"));
+    expect(word("vote_root")).toBe(fields.vote_root);
+    expect(word("weight")).toBe("ff".repeat(8).padStart(64, "0"));
+  });
+
+  it("round-trips through decodePublicInputs", () => {
+    const upper = { ...fields, nullifier: fields.nullifier.toUpperCase() };
+    expect(decodePublicInputs(encodePublicInputs(upper, schema), schema)).toEqual(fields);
+  });
+
+  it.each([
+    ["a u64 above u64::MAX", { weight: "18446744073709551616" }, "weight"],
+    ["a choice above 2", { vote_choice: "3" }, "vote_choice"],
+    ["a field element that is not 32 bytes of hex", { vote_root: "0a" }, "vote_root"],
+    ["a field element at the BN254 modulus", { nullifier: BN254_SCALAR_MODULUS_HEX }, "nullifier"],
+    ["a missing input", { eligibility_root: undefined }, "eligibility_root"],
+  ])("refuses %s", (_name, change, field) => {
+    expect(() => encodePublicInputs({ ...fields, ...change }, schema)).toThrow(
+      expect.objectContaining({ name: "PublicInputsError", field })
+    );
+  });
+});
+
+describe("decodePublicInputs", () => {
+  it("refuses raw bytes of the wrong length", () => {
+    expect(() => decodePublicInputs(new Uint8Array(PUBLIC_INPUT_BYTES), schema)).toThrow(PublicInputsError);
+  });
+
+  it("refuses an encoded field element at or above the BN254 modulus", () => {
+    const raw = encodePublicInputs(fields, schema);
+    const index = schema.findIndex((spec) => spec.name === "vote_root");
+    raw.set(Buffer.from(BN254_SCALAR_MODULUS_HEX, "hex"), index * PUBLIC_INPUT_BYTES);
+    expect(() => decodePublicInputs(raw, schema)).toThrow(expect.objectContaining({ field: "vote_root" }));
+  });
+});
+
+describe("assertPublicInputsMatch", () => {
+  it("accepts raw bytes that encode the readable fields", () => {
+    expect(() => assertPublicInputsMatch({ ...fields, raw: base64(encodePublicInputs(fields, schema)) }, schema)).not.toThrow();
+  });
+
+  it("names the first field that differs from raw", () => {
+    const raw = base64(encodePublicInputs({ ...fields, nullifier: "2c".repeat(32) }, schema));
+    expect(() => assertPublicInputsMatch({ ...fields, raw }, schema)).toThrow(
+      expect.objectContaining({ field: "nullifier" })
+    );
+  });
+
+  it("refuses raw that is not base64", () => {
+    expect(() => assertPublicInputsMatch({ ...fields, raw: "not base64!" }, schema)).toThrow(
+      expect.objectContaining({ field: "raw" })
+    );
+  });
+});
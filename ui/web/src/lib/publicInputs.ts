@@ -0,0 +1,147 @@
+import { findCircuit } from "./circuits";
+import type { ProofData, PublicInputSpec } from "../types";
+
+// Every public input is one 32-byte big-endian field element, as `bb` lays them out
+export const PUBLIC_INPUT_BYTES = 32;
+
+const U64_MAX = 0xffffffffffffffffn;
+// Field inputs are BN254 scalars; a value at or above the modulus would name
+// the same input as its reduction, so it is refused rather than reduced
+const BN254_SCALAR_MODULUS = 0x30644e72e131a029b85045b68181585d2833e84879b9709143e1f593f0000001n;
+
+// The readable fields of a proof's public inputs, without `raw`
+export type PublicInputFields = Omit<ProofData["publicInputs"], "raw">;
+
+/**
+ * Thrown when public inputs cannot be encoded, or when `raw` and the readable
+ * fields describe different values
+ */
+export class PublicInputsError extends Error {
+  readonly field?: string;
+
+  constructor(message: string, field?: string) {
+    super(message);
+    this.name = "PublicInputsError";
+    this.field = field;
+  }
+}
+
+/**
+ * Schema of the circuit a proof was made with
+ * @throws PublicInputsError if the registry does not know the circuit
+ */
+export function publicInputSchema(circuitId: string): PublicInputSpec[] {
+  const circuit = findCircuit(circuitId);
+  if (!circuit) {
+    throw new PublicInputsError(`No public-input schema for unknown circuit ${circuitId}`);
+  }
+  return circuit.publicInputs;
+}
+
+// No Buffer here: the prover worker uses this module and has no polyfill
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function fromBase64(base64: string): Uint8Array {
+  try {
+    return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  } catch {
+    throw new PublicInputsError("publicInputs.raw must be base64", "raw");
+  }
+}
+
+function maxValue(spec: PublicInputSpec): bigint | undefined {
+  return spec.type === "u64" ? U64_MAX : spec.type === "vote_choice" ? 2n : undefined;
+}
+
+function encodeValue(spec: PublicInputSpec, value: string | undefined): Uint8Array {
+  let n: bigint;
+  if (spec.type === "field") {
+    if (value === undefined || !/^[0-9a-f]{64}$/i.test(value)) {
+      throw new PublicInputsError(`${spec.name} must be 32 bytes of hex`, spec.name);
+    }
+    n = BigInt("0x" + value);
+    if (n >= BN254_SCALAR_MODULUS) {
+      throw new PublicInputsError(`${spec.name} is not below the BN254 scalar modulus`, spec.name);
+    }
+  } else {
+    if (value === undefined || !/^\d+$/.test(value)) {
+      throw new PublicInputsError(`${spec.name} must be a decimal integer`, spec.name);
+    }
+    n = BigInt(value);
+    if (n > maxValue(spec)!) {
+      throw new PublicInputsError(`${spec.name} is out of range for ${spec.type}`, spec.name);
+    }
+  }
+  const bytes = new Uint8Array(PUBLIC_INPUT_BYTES);
+  for (let i = PUBLIC_INPUT_BYTES - 1; i >= 0; i--) {
+    bytes[i] = Number(n & 0xffn);
+    n >>= 8n;
+  }
+  return bytes;
+}
+
+function decodeValue(spec: PublicInputSpec, bytes: Uint8Array): string {
+  const hex = toHex(bytes);
+  if (spec.type === "field") {
+    if (BigInt("0x" + hex) >= BN254_SCALAR_MODULUS) {
+      throw new PublicInputsError(`Encoded ${spec.name} is not below the BN254 scalar modulus`, spec.name);
+    }
+    return hex;
+  }
+  const n = BigInt("0x" + hex);
+  if (n > maxValue(spec)!) {
+    throw new PublicInputsError(`Encoded ${spec.name} is out of range for ${spec.type}`, spec.name);
+  }
+  return n.toString();
+}
+
+/**
+ * Encode the readable fields in schema order: the bytes `bb` takes as public inputs
+ */
+export function encodePublicInputs(fields: PublicInputFields, schema: readonly PublicInputSpec[]): Uint8Array {
+  const values = fields as unknown as Record<string, string | undefined>;
+  const raw = new Uint8Array(schema.length * PUBLIC_INPUT_BYTES);
+  schema.forEach((spec, index) => raw.set(encodeValue(spec, values[spec.name]), index * PUBLIC_INPUT_BYTES));
+  return raw;
+}
+
+/**
+ * Inverse of `encodePublicInputs`. Fields come back normalised: u64s and
+ * choices in decimal, field elements as lowercase hex.
+ */
+export function decodePublicInputs(raw: Uint8Array, schema: readonly PublicInputSpec[]): PublicInputFields {
+  if (raw.length !== schema.length * PUBLIC_INPUT_BYTES) {
+    throw new PublicInputsError(
+      `Expected ${schema.length * PUBLIC_INPUT_BYTES} bytes of public inputs, got ${raw.length}`
+    );
+  }
+  const fields: Record<string, string> = {};
+  schema.forEach((spec, index) => {
+    fields[spec.name] = decodeValue(spec, raw.subarray(index * PUBLIC_INPUT_BYTES, (index + 1) * PUBLIC_INPUT_BYTES));
+  });
+  return fields as unknown as PublicInputFields;
+}
+
+/**
+ * Check that `raw` encodes exactly the readable fields
+ * @throws PublicInputsError naming the first field that differs
+ */
+export function assertPublicInputsMatch(
+  publicInputs: ProofData["publicInputs"],
+  schema: readonly PublicInputSpec[]
+): void {
+  const raw = fromBase64(publicInputs.raw);
+  const decoded = decodePublicInputs(raw, schema) as unknown as Record<string, string>;
+  const values = publicInputs as unknown as Record<string, string | undefined>;
+  schema.forEach((spec, index) => {
+    const expected = toHex(encodeValue(spec, values[spec.name]));
+    if (expected !== toHex(raw.subarray(index * PUBLIC_INPUT_BYTES, (index + 1) * PUBLIC_INPUT_BYTES))) {
+      throw new PublicInputsError(
+        `publicInputs.raw has ${spec.name} = ${decoded[spec.name]}, but publicInputs.${spec.name} is ${values[spec.name]}`,
+        spec.name
+      );
+    }
+  });
+}
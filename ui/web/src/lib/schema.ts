@@ -0,0 +1,392 @@
+import { LEGACY_CIRCUIT_ID, formatCircuitId } from "./circuits";
+import type {
+  CircuitInfo,
+  CircuitStatus,
+  EligibilitySnapshot,
+  HealthStatus,
+  ProofBundle,
+  ProofData,
+  ProofJob,
+  ProofJobStatus,
+  ProofSystem,
+  ProverStage,
+  PublicInputType,
+  RelayResult,
+  VerifierAttestation,
+} from "../types";
+
+/**
+ * Thrown when a verifier service response does not match the expected shape
+ */
+export class SchemaError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = "SchemaError";
+    this.path = path;
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+function expectObject(value: unknown, path: string): JsonObject {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    throw new SchemaError(path, "expected an object");
+  }
+  return value as JsonObject;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") {
+    throw new SchemaError(path, "expected a string");
+  }
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new SchemaError(path, "expected a boolean");
+  }
+  return value;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new SchemaError(path, "expected an array");
+  }
+  return value;
+}
+
+function expectOneOf<T extends string>(value: unknown, path: string, options: readonly T[]): T {
+  const str = expectString(value, path);
+  if (!(options as readonly string[]).includes(str)) {
+    throw new SchemaError(path, `expected one of ${options.join(", ")}`);
+  }
+  return str as T;
+}
+
+function expectHex(value: unknown, path: string, byteLength: number): string {
+  const str = expectString(value, path);
+  if (str.length !== byteLength * 2 || !/^[0-9a-f]*$/i.test(str)) {
+    throw new SchemaError(path, `expected ${byteLength} bytes of hex`);
+  }
+  return str;
+}
+
+function expectBase64(value: unknown, path: string): string {
+  const str = expectString(value, path);
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(str) || str.length % 4 !== 0) {
+    throw new SchemaError(path, "expected base64");
+  }
+  return str;
+}
+
+function expectVoteChoiceString(value: unknown, path: string): string {
+  const str = expectString(value, path);
+  if (!/^[012]$/.test(str)) {
+    throw new SchemaError(path, "expected a vote choice (0, 1 or 2)");
+  }
+  return str;
+}
+
+function expectU64String(value: unknown, path: string): string {
+  const str = expectString(value, path);
+  if (!/^\d+$/.test(str) || BigInt(str) > 0xffffffffffffffffn) {
+    throw new SchemaError(path, "expected a u64 decimal string");
+  }
+  return str;
+}
+
+export function parseHealthStatus(value: unknown, path = "health"): HealthStatus {
+  const obj = expectObject(value, path);
+  if (obj.status !== "ok") {
+    throw new SchemaError(`${path}.status`, 'expected "ok"');
+  }
+  return {
+    status: "ok",
+    service: expectString(obj.service, `${path}.service`),
+    timestamp: expectString(obj.timestamp, `${path}.timestamp`),
+    ...(obj.signer_pubkey_hex !== undefined && {
+      signerPubkeyHex: expectHex(obj.signer_pubkey_hex, `${path}.signer_pubkey_hex`, 32),
+    }),
+  };
+}
+
+export function parseProofData(value: unknown, path = "proof"): ProofData {
+  const obj = expectObject(value, path);
+  const publicInputs = expectObject(obj.publicInputs, `${path}.publicInputs`);
+
+  const proof: ProofData = {
+    publicInputs: {
+      expected_program_id: expectU64String(
+        publicInputs.expected_program_id,
+        `${path}.publicInputs.expected_program_id`
+      ),
+      expected_proposal_id: expectU64String(
+        publicInputs.expected_proposal_id,
+        `${path}.publicInputs.expected_proposal_id`
+      ),
+      vote_choice: expectVoteChoiceString(
+        publicInputs.vote_choice,
+        `${path}.publicInputs.vote_choice`
+      ),
+      nullifier: expectHex(publicInputs.nullifier, `${path}.publicInputs.nullifier`, 32),
+      vote_root: expectHex(publicInputs.vote_root, `${path}.publicInputs.vote_root`, 32),
+      // Proofs from before eligibility roots carry none
+      ...(publicInputs.eligibility_root !== undefined && {
+        eligibility_root: expectHex(publicInputs.eligibility_root, `${path}.publicInputs.eligibility_root`, 32),
+      }),
+      // Likewise for weights
+      ...(publicInputs.weight !== undefined && {
+        weight: expectU64String(publicInputs.weight, `${path}.publicInputs.weight`),
+      }),
+      raw: expectBase64(publicInputs.raw, `${path}.publicInputs.raw`),
+    },
+    proof: expectBase64(obj.proof, `${path}.proof`),
+    vkHash: expectHex(obj.vkHash, `${path}.vkHash`, 32),
+    // Proofs from before the circuit registry carry no ID
+    circuitId: obj.circuitId === undefined ? LEGACY_CIRCUIT_ID : expectString(obj.circuitId, `${path}.circuitId`),
+  };
+
+  if (obj.meta !== undefined) {
+    const meta = expectObject(obj.meta, `${path}.meta`);
+    proof.meta = {
+      mock: expectBoolean(meta.mock, `${path}.meta.mock`),
+      note: expectString(meta.note, `${path}.meta.note`),
+    };
+  }
+
+  return proof;
+}
+
+const CIRCUIT_STATUSES: readonly CircuitStatus[] = ["active", "deprecated", "retired"];
+const PROOF_SYSTEMS: readonly ProofSystem[] = ["ultraplonk", "groth16"];
+const PUBLIC_INPUT_TYPES: readonly PublicInputType[] = ["u64", "field", "vote_choice"];
+
+export function parseCircuitRegistry(value: unknown, path = "registry"): CircuitInfo[] {
+  const obj = expectObject(value, path);
+  return expectArray(obj.circuits, `${path}.circuits`).map((entry, index) => {
+    const at = `${path}.circuits[${index}]`;
+    const circuit = expectObject(entry, at);
+    const name = expectString(circuit.name, `${at}.name`);
+    const version = expectString(circuit.version, `${at}.version`);
+    const id = expectString(circuit.id, `${at}.id`);
+    if (id !== formatCircuitId(name, version)) {
+      throw new SchemaError(`${at}.id`, `expected "${formatCircuitId(name, version)}"`);
+    }
+    return {
+      id,
+      name,
+      version,
+      status: expectOneOf(circuit.status, `${at}.status`, CIRCUIT_STATUSES),
+      // Registries from before the Groth16 path only had ultraplonk circuits
+      proofSystem:
+        circuit.proof_system === undefined
+          ? "ultraplonk"
+          : expectOneOf(circuit.proof_system, `${at}.proof_system`, PROOF_SYSTEMS),
+      vkHash: circuit.vk_hash_hex === null ? null : expectHex(circuit.vk_hash_hex, `${at}.vk_hash_hex`, 32),
+      publicInputs: expectArray(circuit.public_inputs, `${at}.public_inputs`).map((input, inputIndex) => {
+        const spec = expectObject(input, `${at}.public_inputs[${inputIndex}]`);
+        return {
+          name: expectString(spec.name, `${at}.public_inputs[${inputIndex}].name`),
+          type: expectOneOf(spec.type, `${at}.public_inputs[${inputIndex}].type`, PUBLIC_INPUT_TYPES),
+        };
+      }),
+    };
+  });
+}
+
+export function parseVerifierAttestation(
+  value: unknown,
+  path = "attestation"
+): VerifierAttestation {
+  const obj = expectObject(value, path);
+  if (obj.ok !== true) {
+    throw new SchemaError(`${path}.ok`, "expected true");
+  }
+  const attestation = expectObject(obj.attestation, `${path}.attestation`);
+  const scheme = expectString(attestation.scheme, `${path}.attestation.scheme`);
+  if (scheme !== "ed25519") {
+    throw new SchemaError(`${path}.attestation.scheme`, `unsupported scheme "${scheme}"`);
+  }
+
+  return {
+    ok: true,
+    attestation: {
+      scheme,
+      signer_pubkey_hex: expectHex(
+        attestation.signer_pubkey_hex,
+        `${path}.attestation.signer_pubkey_hex`,
+        32
+      ),
+      message_hash_hex: expectHex(
+        attestation.message_hash_hex,
+        `${path}.attestation.message_hash_hex`,
+        32
+      ),
+      expected_program_id: expectU64String(
+        attestation.expected_program_id,
+        `${path}.attestation.expected_program_id`
+      ),
+      expected_proposal_id: expectU64String(
+        attestation.expected_proposal_id,
+        `${path}.attestation.expected_proposal_id`
+      ),
+      vote_choice: expectVoteChoiceString(
+        attestation.vote_choice,
+        `${path}.attestation.vote_choice`
+      ),
+      nullifier_hex: expectHex(attestation.nullifier_hex, `${path}.attestation.nullifier_hex`, 32),
+      vote_root_hex: expectHex(attestation.vote_root_hex, `${path}.attestation.vote_root_hex`, 32),
+      ...(attestation.weight !== undefined && {
+        weight: expectU64String(attestation.weight, `${path}.attestation.weight`),
+      }),
+      vk_hash_hex: expectHex(attestation.vk_hash_hex, `${path}.attestation.vk_hash_hex`, 32),
+      proof_hash_hex: expectHex(
+        attestation.proof_hash_hex,
+        `${path}.attestation.proof_hash_hex`,
+        32
+      ),
+      public_inputs_hash_hex: expectHex(
+        attestation.public_inputs_hash_hex,
+        `${path}.attestation.public_inputs_hash_hex`,
+        32
+      ),
+      // VEILPROOF_V1 signers send none of the VEILPROOF_V2 fields
+      ...(attestation.message_version !== undefined && parseMessageV2Fields(attestation, `${path}.attestation`)),
+    },
+    signature_base64: expectBase64(obj.signature_base64, `${path}.signature_base64`),
+  };
+}
+
+function expectBase58Key(value: unknown, path: string): string {
+  const str = expectString(value, path);
+  if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(str)) {
+    throw new SchemaError(path, "expected a base58 32-byte key or hash");
+  }
+  return str;
+}
+
+function parseMessageV2Fields(attestation: JsonObject, path: string) {
+  if (attestation.message_version !== 2) {
+    throw new SchemaError(`${path}.message_version`, "expected 2");
+  }
+  return {
+    message_version: 2,
+    expiry_slot: expectU64String(attestation.expiry_slot, `${path}.expiry_slot`),
+    verifier_program_id: expectBase58Key(attestation.verifier_program_id, `${path}.verifier_program_id`),
+    genesis_hash: expectBase58Key(attestation.genesis_hash, `${path}.genesis_hash`),
+  };
+}
+
+export function parseRelayResult(value: unknown, path = "relay"): RelayResult {
+  const obj = expectObject(value, path);
+  if (obj.ok !== true) {
+    throw new SchemaError(`${path}.ok`, "expected true");
+  }
+  const signature = expectString(obj.signature, `${path}.signature`);
+  if (!/^[1-9A-HJ-NP-Za-km-z]{64,88}$/.test(signature)) {
+    throw new SchemaError(`${path}.signature`, "expected a base58 transaction signature");
+  }
+  return { ok: true, signature };
+}
+
+const PROOF_JOB_STATUSES: readonly ProofJobStatus[] = ["queued", "running", "succeeded", "failed", "cancelled"];
+const PROVER_STAGES: readonly ProverStage[] = ["queued", "loading-circuit", "executing", "proving", "done"];
+
+export function parseProofJob(value: unknown, path = "job"): ProofJob {
+  const obj = expectObject(value, path);
+  const fraction = obj.fraction;
+  if (typeof fraction !== "number" || !(fraction >= 0 && fraction <= 1)) {
+    throw new SchemaError(`${path}.fraction`, "expected a number from 0 to 1");
+  }
+  const job: ProofJob = {
+    jobId: expectString(obj.job_id, `${path}.job_id`),
+    status: expectOneOf(obj.status, `${path}.status`, PROOF_JOB_STATUSES),
+    stage: expectOneOf(obj.stage, `${path}.stage`, PROVER_STAGES),
+    message: expectString(obj.message, `${path}.message`),
+    fraction,
+    circuitId: expectString(obj.circuit_id, `${path}.circuit_id`),
+    createdAt: expectString(obj.created_at, `${path}.created_at`),
+    updatedAt: expectString(obj.updated_at, `${path}.updated_at`),
+  };
+  if (obj.queue_position !== undefined) {
+    if (!Number.isInteger(obj.queue_position) || (obj.queue_position as number) < 0) {
+      throw new SchemaError(`${path}.queue_position`, "expected a non-negative integer");
+    }
+    job.queuePosition = obj.queue_position as number;
+  }
+  if (obj.proof !== undefined) {
+    job.proof = parseProofData(obj.proof, `${path}.proof`);
+  }
+  if (obj.error !== undefined) {
+    job.error = expectString(obj.error, `${path}.error`);
+  }
+  if (job.status === "succeeded" && !job.proof) {
+    throw new SchemaError(`${path}.proof`, "expected a proof for a succeeded job");
+  }
+  return job;
+}
+
+export function parseProofBundle(value: unknown, path = "bundle"): ProofBundle {
+  const obj = expectObject(value, path);
+  if (obj.version !== 1) {
+    throw new SchemaError(`${path}.version`, `unsupported bundle version ${JSON.stringify(obj.version)}`);
+  }
+  const circuit = expectObject(obj.circuit, `${path}.circuit`);
+
+  const bundle: ProofBundle = {
+    version: 1,
+    circuit: {
+      name: expectString(circuit.name, `${path}.circuit.name`),
+      version: expectString(circuit.version, `${path}.circuit.version`),
+    },
+    proof: parseProofData(obj.proof, `${path}.proof`),
+    createdAt: expectString(obj.createdAt, `${path}.createdAt`),
+  };
+  if (obj.attestations !== undefined) {
+    bundle.attestations = expectArray(obj.attestations, `${path}.attestations`).map((attestation, index) =>
+      parseVerifierAttestation(attestation, `${path}.attestations[${index}]`)
+    );
+  } else if (obj.attestation !== undefined) {
+    // Bundles from before threshold attestations
+    bundle.attestations = [parseVerifierAttestation(obj.attestation, `${path}.attestation`)];
+  }
+
+  return bundle;
+}
+
+export function parseEligibilitySnapshot(value: unknown, path = "snapshot"): EligibilitySnapshot {
+  const obj = expectObject(value, path);
+  if (obj.version !== 1) {
+    throw new SchemaError(`${path}.version`, `unsupported snapshot version ${JSON.stringify(obj.version)}`);
+  }
+  if (!Number.isInteger(obj.depth) || (obj.depth as number) < 1 || (obj.depth as number) > 32) {
+    throw new SchemaError(`${path}.depth`, "expected an integer from 1 to 32");
+  }
+  if (!Number.isSafeInteger(obj.slot) || (obj.slot as number) < 0) {
+    throw new SchemaError(`${path}.slot`, "expected a slot number");
+  }
+  const commitments = expectArray(obj.commitments, `${path}.commitments`).map((commitment, index) =>
+    expectHex(commitment, `${path}.commitments[${index}]`, 32)
+  );
+  let balances: string[] | undefined;
+  if (obj.balances !== undefined) {
+    balances = expectArray(obj.balances, `${path}.balances`).map((balance, index) =>
+      expectU64String(balance, `${path}.balances[${index}]`)
+    );
+    if (balances.length !== commitments.length) {
+      throw new SchemaError(`${path}.balances`, "expected one balance per commitment");
+    }
+  }
+  return {
+    version: 1,
+    depth: obj.depth as number,
+    root: expectHex(obj.root, `${path}.root`, 32),
+    commitments,
+    ...(balances && { balances }),
+    slot: obj.slot as number,
+    createdAt: expectString(obj.createdAt, `${path}.createdAt`),
+  };
+}
@@ -0,0 +1,431 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  type SignatureStatus,
+  type TransactionVersion,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import { PROPOSAL_PROGRAM_ID, VERIFIER_PROGRAM_ID, VOTE_PROGRAM_ID } from "./constants";
+import type { TransactionProgress } from "../types";
+
+// Most compute a transaction may request
+const MAX_COMPUTE_UNITS = 1_400_000;
+// Headroom over the simulated usage, which varies slightly with account state
+const COMPUTE_UNIT_MARGIN = 1.1;
+// Pay what 3 in 4 recent transactions touching the same accounts paid
+const PRIORITY_FEE_PERCENTILE = 0.75;
+// micro-lamports per compute unit; 100k CU at this price is 0.00001 SOL
+const DEFAULT_MAX_PRIORITY_FEE = 100_000;
+const DEFAULT_REBROADCAST_INTERVAL_MS = 2_000;
+const DEFAULT_MAX_RESIGNS = 2;
+// How long to keep watching a confirmed transaction for finalization
+const FINALIZE_TIMEOUT_MS = 60_000;
+// Simulation swaps in a recent blockhash, so any value compiles
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58();
+
+/**
+ * Thrown when a transaction fails simulation, before the wallet is asked to sign
+ */
+export class TransactionSimulationError extends Error {
+  readonly err: unknown;
+  // Raw logs, as on SendTransactionError
+  readonly logs: string[];
+  // One line per program log message, prefixed with the program's name
+  readonly programLogs: string[];
+
+  constructor(err: unknown, logs: string[]) {
+    const programLogs = decodeProgramLogs(logs);
+    // The failing program's last message says why; its "failed" line only has the error code
+    const messages = programLogs.filter((line) => !line.includes(" failed: "));
+    const reason = messages[messages.length - 1] ?? programLogs[programLogs.length - 1] ?? JSON.stringify(err);
+    super(`Transaction simulation failed: ${reason}`);
+    this.name = "TransactionSimulationError";
+    this.err = err;
+    this.logs = logs;
+    this.programLogs = programLogs;
+  }
+}
+
+/**
+ * Thrown when every signed attempt's blockhash expired before it landed
+ */
+export class TransactionExpiredError extends Error {
+  readonly signature: string;
+  readonly attempts: number;
+
+  constructor(signature: string, attempts: number) {
+    super(`Transaction was not confirmed after ${attempts} attempts; the network may be congested`);
+    this.name = "TransactionExpiredError";
+    this.signature = signature;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Thrown when a sent transaction landed but failed, e.g. state changed
+ * between simulation and execution
+ */
+export class TransactionFailedError extends Error {
+  readonly signature: string;
+  readonly err: unknown;
+
+  constructor(signature: string, err: unknown) {
+    super(`Transaction failed: ${JSON.stringify(err)}`);
+    this.name = "TransactionFailedError";
+    this.signature = signature;
+    this.err = err;
+  }
+}
+
+function programName(programId: string): string {
+  const known: [PublicKey | undefined, string][] = [
+    [VOTE_PROGRAM_ID, "vote_program"],
+    [VERIFIER_PROGRAM_ID, "verifier_program"],
+    [PROPOSAL_PROGRAM_ID, "proposal_program"],
+    [ComputeBudgetProgram.programId, "compute_budget"],
+    [new PublicKey("Ed25519SigVerify111111111111111111111111111"), "ed25519"],
+    [PublicKey.default, "system"],
+  ];
+  return known.find(([id]) => id?.toBase58() === programId)?.[1] ?? programId;
+}
+
+/**
+ * Turn raw transaction logs into "program: message" lines, keeping the
+ * `msg!` output and failures and dropping invoke and compute bookkeeping
+ */
+export function decodeProgramLogs(logs: string[]): string[] {
+  const stack: string[] = [];
+  const lines: string[] = [];
+  for (const line of logs) {
+    const invoke = /^Program (\w+) invoke \[\d+\]$/.exec(line);
+    if (invoke) {
+      stack.push(programName(invoke[1]));
+      continue;
+    }
+    const failed = /^Program (\w+) failed: (.*)$/.exec(line);
+    if (failed) {
+      lines.push(`${programName(failed[1])} failed: ${failed[2]}`);
+      stack.pop();
+      continue;
+    }
+    if (/^Program \w+ success$/.test(line)) {
+      stack.pop();
+      continue;
+    }
+    const log = /^Program log: (.*)$/.exec(line);
+    if (log) {
+      lines.push(`${stack[stack.length - 1] ?? "program"}: ${log[1]}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Signs a transaction for the fee payer, like a wallet adapter's `signTransaction`
+ */
+export type TransactionSigner = <T extends Transaction | VersionedTransaction>(transaction: T) => Promise<T>;
+
+export type BatchTransactionSigner = <T extends Transaction | VersionedTransaction>(transactions: T[]) => Promise<T[]>;
+
+export function keypairSigner(keypair: Keypair): TransactionSigner {
+  return async (transaction) => {
+    if (transaction instanceof VersionedTransaction) {
+      transaction.sign([keypair]);
+    } else {
+      transaction.partialSign(keypair);
+    }
+    return transaction;
+  };
+}
+
+interface QueuedSignature {
+  transaction: Transaction | VersionedTransaction;
+  resolve: (signed: Transaction | VersionedTransaction) => void;
+  reject: (err: unknown) => void;
+}
+
+/**
+ * Signs the first transaction of several concurrent sends in one wallet
+ * prompt. Each send takes a `member()` and uses its `sign` in place of the
+ * wallet's; the batch goes to the wallet once every member has queued a
+ * transaction or left. Members must `leave()` when done, so one that fails
+ * before signing does not hold up the rest. Re-signs after an expired
+ * blockhash go to the wallet one at a time.
+ */
+export class SigningBatch {
+  private readonly queued: QueuedSignature[] = [];
+  private remaining: number;
+
+  constructor(
+    private readonly wallet: { signTransaction?: TransactionSigner; signAllTransactions?: BatchTransactionSigner },
+    size: number
+  ) {
+    this.remaining = size;
+  }
+
+  member(): { sign: TransactionSigner; leave: () => void } {
+    let waiting = true;
+    const sign: TransactionSigner = async (transaction) => {
+      if (!waiting) {
+        return this.signOne(transaction);
+      }
+      waiting = false;
+      return new Promise((resolve, reject) => {
+        this.queued.push({ transaction, resolve: resolve as QueuedSignature["resolve"], reject });
+        this.flush();
+      });
+    };
+    const leave = () => {
+      if (waiting) {
+        waiting = false;
+        this.remaining -= 1;
+        this.flush();
+      }
+    };
+    return { sign, leave };
+  }
+
+  private signOne<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T> {
+    if (!this.wallet.signTransaction) {
+      throw new Error("Wallet does not support signing");
+    }
+    return this.wallet.signTransaction(transaction);
+  }
+
+  private flush() {
+    if (this.queued.length === 0 || this.queued.length < this.remaining) {
+      return;
+    }
+    const batch = this.queued.splice(0);
+    this.remaining -= batch.length;
+    const transactions = batch.map((entry) => entry.transaction);
+    // Wallets without signAllTransactions prompt once per transaction
+    const signed = this.wallet.signAllTransactions
+      ? this.wallet.signAllTransactions(transactions)
+      : transactions.reduce<Promise<(Transaction | VersionedTransaction)[]>>(
+          async (done, transaction) => [...(await done), await this.signOne(transaction)],
+          Promise.resolve([])
+        );
+    signed.then(
+      (results) => batch.forEach((entry, i) => entry.resolve(results[i])),
+      (err) => batch.forEach((entry) => entry.reject(err))
+    );
+  }
+}
+
+export interface SendOptions {
+  onProgress?: (progress: TransactionProgress) => void;
+  // "legacy" (default) for any wallet; 0 for a v0 message that can use `lookupTables`
+  version?: TransactionVersion;
+  lookupTables?: AddressLookupTableAccount[];
+  // micro-lamports per compute unit, or "auto" (default) to follow recent fees for the same accounts
+  priorityFee?: "auto" | number;
+  // Cap for the "auto" priority fee
+  maxPriorityFee?: number;
+  // How often to check the status and resend while waiting
+  rebroadcastIntervalMs?: number;
+  // Times to re-sign with a fresh blockhash after one expires
+  maxResigns?: number;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isLanded(status: SignatureStatus | null | undefined) {
+  return status?.confirmationStatus === "confirmed" || status?.confirmationStatus === "finalized";
+}
+
+function compileMessage(
+  instructions: TransactionInstruction[],
+  feePayer: PublicKey,
+  blockhash: string,
+  options: SendOptions
+) {
+  const message = new TransactionMessage({ payerKey: feePayer, recentBlockhash: blockhash, instructions });
+  return options.version === 0 ? message.compileToV0Message(options.lookupTables) : message.compileToLegacyMessage();
+}
+
+async function simulate(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  feePayer: PublicKey,
+  options: SendOptions
+) {
+  const message = compileMessage(instructions, feePayer, PLACEHOLDER_BLOCKHASH, options);
+  const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment: "confirmed",
+  });
+  if (value.err) {
+    throw new TransactionSimulationError(value.err, value.logs ?? []);
+  }
+  return value;
+}
+
+async function pickPriorityFee(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  options: SendOptions
+): Promise<number> {
+  if (typeof options.priorityFee === "number") {
+    return options.priorityFee;
+  }
+  const writable = new Map<string, PublicKey>();
+  for (const key of instructions.flatMap((ix) => ix.keys)) {
+    if (key.isWritable) {
+      writable.set(key.pubkey.toBase58(), key.pubkey);
+    }
+  }
+  let fees: number[];
+  try {
+    const recent = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: [...writable.values()] });
+    fees = recent.map((fee) => fee.prioritizationFee).sort((a, b) => a - b);
+  } catch (err) {
+    // Not every RPC provider serves this; send without a priority fee
+    console.warn("Could not read recent priority fees:", err);
+    return 0;
+  }
+  if (fees.length === 0) {
+    return 0;
+  }
+  const fee = fees[Math.floor((fees.length - 1) * PRIORITY_FEE_PERCENTILE)];
+  return Math.min(fee, options.maxPriorityFee ?? DEFAULT_MAX_PRIORITY_FEE);
+}
+
+/**
+ * Simulate the instructions, then size the compute budget to the simulated
+ * usage and add a priority fee. Instructions that already carry a compute
+ * budget are only simulated.
+ * @throws TransactionSimulationError with decoded program logs
+ */
+async function withComputeBudget(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  feePayer: PublicKey,
+  options: SendOptions
+): Promise<TransactionInstruction[]> {
+  if (instructions.some((ix) => ix.programId.equals(ComputeBudgetProgram.programId))) {
+    await simulate(connection, instructions, feePayer, options);
+    return instructions;
+  }
+  const simulated = await simulate(
+    connection,
+    [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }), ...instructions],
+    feePayer,
+    options
+  );
+  const units = Math.min(
+    MAX_COMPUTE_UNITS,
+    Math.ceil((simulated.unitsConsumed ?? MAX_COMPUTE_UNITS) * COMPUTE_UNIT_MARGIN)
+  );
+  const microLamports = await pickPriorityFee(connection, instructions, options);
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({ units }),
+    ...(microLamports > 0 ? [ComputeBudgetProgram.setComputeUnitPrice({ microLamports })] : []),
+    ...instructions,
+  ];
+}
+
+// Report finalization of a confirmed transaction, giving up after FINALIZE_TIMEOUT_MS
+async function followFinalization(
+  connection: Connection,
+  signature: string,
+  report: (stage: "finalized") => void,
+  intervalMs: number
+) {
+  const deadline = Date.now() + FINALIZE_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await sleep(intervalMs);
+    const { value } = await connection.getSignatureStatuses([signature]);
+    if (value[0]?.confirmationStatus === "finalized") {
+      report("finalized");
+      return;
+    }
+  }
+}
+
+/**
+ * Send a transaction until it lands:
+ * 1. simulate it, failing early with decoded program logs;
+ * 2. set the compute unit limit from the simulation and add a priority fee;
+ * 3. sign and send, rebroadcasting until the blockhash's lastValidBlockHeight;
+ * 4. if it expired unconfirmed, re-sign with a fresh blockhash (up to `maxResigns` times).
+ * The message is legacy unless `options.version` is 0. Progress goes to `onProgress`; finalization is reported after this returns.
+ * @returns Signature of the confirmed transaction
+ */
+export async function sendAndConfirmTransaction(
+  connection: Connection,
+  transaction: Transaction,
+  signTransaction: TransactionSigner,
+  feePayer: PublicKey,
+  options: SendOptions = {}
+): Promise<string> {
+  const intervalMs = options.rebroadcastIntervalMs ?? DEFAULT_REBROADCAST_INTERVAL_MS;
+  const maxResigns = options.maxResigns ?? DEFAULT_MAX_RESIGNS;
+  const instructions = await withComputeBudget(connection, transaction.instructions, feePayer, options);
+
+  for (let attempt = 1; ; attempt++) {
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash("confirmed");
+    const signed = await signTransaction(
+      options.version === 0
+        ? new VersionedTransaction(compileMessage(instructions, feePayer, blockhash, options))
+        : new Transaction({ feePayer, blockhash, lastValidBlockHeight }).add(...instructions)
+    );
+    const feePayerSignature = signed instanceof VersionedTransaction ? signed.signatures[0] : signed.signature;
+    if (!feePayerSignature || feePayerSignature.every((byte) => byte === 0)) {
+      throw new Error("Transaction was not signed by the fee payer");
+    }
+    const signature = bs58.encode(feePayerSignature);
+    const raw = signed.serialize();
+    const report = (stage: TransactionProgress["stage"], message: string) =>
+      options.onProgress?.({ stage, signature, attempt, message });
+
+    report("signed", attempt === 1 ? "Signed" : `Blockhash expired; re-signed (attempt ${attempt})`);
+    // Preflight once; rebroadcasts of the same bytes skip it
+    await connection.sendRawTransaction(raw, { skipPreflight: false, preflightCommitment: "confirmed", maxRetries: 0 });
+    report("sent", "Sent, waiting for confirmation");
+
+    // Checks the status once more after expiry, in case it landed at the last moment
+    for (let expired = false; ; ) {
+      const { value } = await connection.getSignatureStatuses([signature]);
+      const status = value[0];
+      if (status?.err) {
+        throw new TransactionFailedError(signature, status.err);
+      }
+      if (isLanded(status)) {
+        report("confirmed", "Confirmed");
+        if (status?.confirmationStatus === "finalized") {
+          report("finalized", "Finalized");
+        } else if (options.onProgress) {
+          void followFinalization(connection, signature, () => report("finalized", "Finalized"), intervalMs).catch(
+            (err) => console.warn("Finalization check failed:", err)
+          );
+        }
+        return signature;
+      }
+      if (expired) {
+        break;
+      }
+      await sleep(intervalMs);
+      expired = (await connection.getBlockHeight("confirmed")) > lastValidBlockHeight;
+      if (!expired) {
+        await connection
+          .sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 })
+          .catch((err) => console.warn("Rebroadcast failed:", err));
+      }
+    }
+
+    if (attempt > maxResigns) {
+      throw new TransactionExpiredError(signature, attempt);
+    }
+  }
+}
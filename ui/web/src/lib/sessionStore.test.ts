@@ -0,0 +1,76 @@
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { LEGACY_CIRCUIT_ID } from "./circuits";
+import { VoteSessionStore } from "./sessionStore";
+import { newVoteSession } from "./voteFlow";
+import type { ProofData, VerifierAttestation, VoteSession } from "../types";
+
+// One tab's sessionStorage; a new one stands for another tab
+function tabStorage(): Pick<Storage, "getItem" | "setItem"> {
+  const items = new Map<string, string>();
+  return { getItem: (key) => items.get(key) ?? null, setItem: (key, value) => void items.set(key, value) };
+}
+
+const proof: ProofData = {
+  publicInputs: {
+    expected_program_id: "7",
+    expected_proposal_id: "42",
+    vote_choice: "1",
+    nullifier: "11".repeat(32),
+    vote_root: "22".repeat(32),
+    raw: "",
+  },
+  proof: "",
+  vkHash: "33".repeat(32),
+  circuitId: "vote_proof@0.3.0",
+};
+
+const attestation = { ok: true, signature_base64: "c2ln" } as VerifierAttestation;
+
+beforeEach(() => {
+  vi.stubGlobal("indexedDB", new IDBFactory());
+  vi.stubGlobal("sessionStorage", tabStorage());
+});
+
+describe("VoteSessionStore", () => {
+  it("loads the sessions saved for a backend", async () => {
+    const store = await VoteSessionStore.open();
+    const session = { ...newVoteSession("real", "42"), proof };
+    await store.save(session);
+    await store.save(newVoteSession("demo", "42"));
+
+    expect(await store.loadAll("real")).toEqual([session]);
+    await store.remove("real", "42");
+    expect(await store.loadAll("real")).toEqual([]);
+  });
+
+  it("moves a single legacy attestation into the attestation list", async () => {
+    const store = await VoteSessionStore.open();
+    const legacy = { ...newVoteSession("real", "42"), proof, attestation } as VoteSession;
+    await store.save(legacy);
+
+    const [session] = await store.loadAll("real");
+    expect(session.attestations).toEqual([attestation]);
+    expect(session).not.toHaveProperty("attestation");
+  });
+
+  it("gives proofs saved before the circuit registry the legacy circuit ID", async () => {
+    const store = await VoteSessionStore.open();
+    const { circuitId: _, ...legacyProof } = proof;
+    await store.save({ ...newVoteSession("real", "42"), proof: legacyProof as ProofData });
+
+    const [session] = await store.loadAll("real");
+    expect(session.proof?.circuitId).toBe(LEGACY_CIRCUIT_ID);
+  });
+
+  it("skips another tab's sessions and drops them after a week", async () => {
+    const other = await VoteSessionStore.open();
+    await other.save({ ...newVoteSession("real", "1"), updatedAt: Date.now() });
+    await other.save({ ...newVoteSession("real", "2"), updatedAt: Date.now() - 8 * 24 * 60 * 60 * 1000 });
+
+    vi.stubGlobal("sessionStorage", tabStorage());
+    const store = await VoteSessionStore.open();
+    expect(await store.loadAll("real")).toEqual([]);
+    expect((await other.loadAll("real")).map((session) => session.proposalId)).toEqual(["1"]);
+  });
+});
@@ -0,0 +1,165 @@
+import { LEGACY_CIRCUIT_ID } from "./circuits";
+import type { VerifierAttestation, VoteSession } from "../types";
+
+const DB_NAME = "veilproof";
+const DB_VERSION = 1;
+const SESSIONS_STORE = "vote_sessions";
+
+// Per-tab secret the encryption keys are derived from. It lives in
+// sessionStorage, so it survives reloads but not the tab: records written by
+// another tab cannot be read here. They are left alone, since that tab may
+// still be open, and dropped once nothing has written them for a week.
+const SESSION_SECRET_STORAGE_KEY = "veilproof_session_secret";
+const UNREADABLE_RECORD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const HKDF_SALT = utf8("veilproof-vote-session-v1");
+
+interface StoredVoteSession {
+  key: string; // `${mode}:${proposalId}`
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: ArrayBuffer;
+  updatedAt: number;
+}
+
+export function voteSessionKey(mode: VoteSession["mode"], proposalId: string): string {
+  return `${mode}:${proposalId}`;
+}
+
+// WebCrypto wants buffers backed by a plain ArrayBuffer
+function utf8(text: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(new TextEncoder().encode(text));
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(SESSIONS_STORE, { keyPath: "key" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function sessionSecret(): Uint8Array<ArrayBuffer> {
+  const stored = sessionStorage.getItem(SESSION_SECRET_STORAGE_KEY);
+  if (stored) {
+    return Uint8Array.from(atob(stored), (c) => c.charCodeAt(0));
+  }
+  const secret = crypto.getRandomValues(new Uint8Array(32));
+  sessionStorage.setItem(SESSION_SECRET_STORAGE_KEY, btoa(String.fromCharCode(...secret)));
+  return secret;
+}
+
+/**
+ * Encrypted persistence for vote sessions, one record per backend and proposal.
+ * Each record is sealed with AES-GCM under a key derived (HKDF-SHA256) from
+ * the tab's session secret and the record key, which is also bound as
+ * additional data so records cannot be swapped between proposals.
+ */
+export class VoteSessionStore {
+  private readonly db: IDBDatabase;
+  private readonly secret: CryptoKey;
+  private readonly keys = new Map<string, Promise<CryptoKey>>();
+
+  private constructor(db: IDBDatabase, secret: CryptoKey) {
+    this.db = db;
+    this.secret = secret;
+  }
+
+  static async open(): Promise<VoteSessionStore> {
+    const [db, secret] = await Promise.all([
+      openDatabase(),
+      crypto.subtle.importKey("raw", sessionSecret(), "HKDF", false, ["deriveKey"]),
+    ]);
+    return new VoteSessionStore(db, secret);
+  }
+
+  async save(session: VoteSession): Promise<void> {
+    const key = voteSessionKey(session.mode, session.proposalId);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: utf8(key) },
+      await this.recordKey(key),
+      utf8(JSON.stringify(session))
+    );
+    const record: StoredVoteSession = { key, iv, ciphertext, updatedAt: session.updatedAt };
+    await request(this.db.transaction(SESSIONS_STORE, "readwrite").objectStore(SESSIONS_STORE).put(record));
+  }
+
+  async remove(mode: VoteSession["mode"], proposalId: string): Promise<void> {
+    const key = voteSessionKey(mode, proposalId);
+    await request(this.db.transaction(SESSIONS_STORE, "readwrite").objectStore(SESSIONS_STORE).delete(key));
+  }
+
+  /**
+   * All readable sessions for a backend. Records under other tabs' secrets
+   * are skipped, and deleted once they are older than a week.
+   */
+  async loadAll(mode: VoteSession["mode"]): Promise<VoteSession[]> {
+    const records: StoredVoteSession[] = await request(
+      this.db.transaction(SESSIONS_STORE, "readonly").objectStore(SESSIONS_STORE).getAll()
+    );
+    const sessions: VoteSession[] = [];
+    for (const record of records) {
+      if (!record.key.startsWith(`${mode}:`)) {
+        continue;
+      }
+      const session = await this.unseal(record);
+      if (session) {
+        sessions.push(session);
+      } else if (Date.now() - record.updatedAt > UNREADABLE_RECORD_TTL_MS) {
+        await request(
+          this.db.transaction(SESSIONS_STORE, "readwrite").objectStore(SESSIONS_STORE).delete(record.key)
+        );
+      }
+    }
+    return sessions;
+  }
+
+  private async unseal(record: StoredVoteSession): Promise<VoteSession | null> {
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: record.iv, additionalData: utf8(record.key) },
+        await this.recordKey(record.key),
+        record.ciphertext
+      );
+      const session = JSON.parse(new TextDecoder().decode(plaintext)) as VoteSession & {
+        attestation?: VerifierAttestation;
+      };
+      // Sessions saved before the circuit registry hold proofs without an ID
+      if (session.proof && !session.proof.circuitId) {
+        session.proof.circuitId = LEGACY_CIRCUIT_ID;
+      }
+      // ...and before threshold attestations, at most one attestation
+      if (session.attestation) {
+        session.attestations ??= [session.attestation];
+        delete session.attestation;
+      }
+      return session;
+    } catch {
+      return null;
+    }
+  }
+
+  private recordKey(key: string): Promise<CryptoKey> {
+    let derived = this.keys.get(key);
+    if (!derived) {
+      derived = crypto.subtle.deriveKey(
+        { name: "HKDF", hash: "SHA-256", salt: HKDF_SALT, info: utf8(key) },
+        this.secret,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+      );
+      this.keys.set(key, derived);
+    }
+    return derived;
+  }
+}
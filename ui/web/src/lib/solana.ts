@@ -1,74 +1,370 @@
 import {
   Connection,
   PublicKey,
-  Transaction,
   TransactionInstruction,
   SystemProgram,
   SYSVAR_INSTRUCTIONS_PUBKEY,
 } from "@solana/web3.js";
-import { VOTE_PROGRAM_ID, VERIFIER_PROGRAM_ID, VOTE_CHOICE_YES } from "./constants";
+import bs58 from "bs58";
+import {
+  VOTE_PROGRAM_ID,
+  VERIFIER_PROGRAM_ID,
+  PROPOSAL_PROGRAM_ID,
+  PROPOSAL_PAGE_SIZE,
+  VOTE_CHOICES,
+  isValidVoteChoice,
+} from "./constants";
+import { GROTH16_PROOF_BYTES, encodeGroth16VerifyingKey, type Groth16VerifyingKey } from "./groth16";
+import { deriveVoteTreeAddress } from "./voteTree";
+import type {
+  AttestationDomain,
+  IdentityRegistration,
+  Proposal,
+  ProposalPage,
+  ProposalStatus,
+  SignerConfig,
+  TrustModel,
+} from "../types";
+
+// Must match MAX_TITLE_LEN / ELIGIBILITY_ROOT_OFFSET / PROPOSAL_SPACE in proposal_program
+export const MAX_PROPOSAL_TITLE_LEN = 64;
+const ELIGIBILITY_ROOT_OFFSET = 8 + 32 + 8 + 8 + 1 + 4 + MAX_PROPOSAL_TITLE_LEN;
+const PROPOSAL_ACCOUNT_SIZE = ELIGIBILITY_ROOT_OFFSET + 32;
+// Proposals created before eligibility roots end at the root; they are open
+const LEGACY_PROPOSAL_ACCOUNT_SIZE = ELIGIBILITY_ROOT_OFFSET;
+// Must match IDENTITY_SPACE in proposal_program
+const IDENTITY_ACCOUNT_SIZE = 32 + 32 + 8;
+
+/**
+ * Derive the registry account for a proposal
+ */
+export function deriveProposalAddress(proposalId: string): PublicKey {
+  if (!PROPOSAL_PROGRAM_ID) {
+    throw new Error("PROPOSAL_PROGRAM_ID not configured");
+  }
+  const proposalIdLe = Buffer.alloc(8);
+  proposalIdLe.writeBigUInt64LE(BigInt(proposalId));
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from("proposal"), proposalIdLe],
+    PROPOSAL_PROGRAM_ID
+  );
+  return address;
+}
+
+/**
+ * Build instruction to register a proposal
+ * @param openSlot - First slot votes are accepted
+ * @param closeSlot - Votes are rejected from this slot on
+ * @param allowedChoices - Vote choices the proposal accepts
+ * @param eligibilityRoot - Root of an eligibility snapshot (hex) to restrict voting to its members
+ */
+export function buildCreateProposalInstruction(
+  proposalId: string,
+  title: string,
+  openSlot: number,
+  closeSlot: number,
+  allowedChoices: number[],
+  creator: PublicKey,
+  eligibilityRoot?: string
+): TransactionInstruction {
+  if (!PROPOSAL_PROGRAM_ID) {
+    throw new Error("PROPOSAL_PROGRAM_ID not configured");
+  }
+  const titleBuf = Buffer.from(title, "utf8");
+  if (titleBuf.length === 0 || titleBuf.length > MAX_PROPOSAL_TITLE_LEN) {
+    throw new Error(`Title must be 1-${MAX_PROPOSAL_TITLE_LEN} bytes`);
+  }
+  if (closeSlot <= openSlot) {
+    throw new Error("closeSlot must be after openSlot");
+  }
+  if (allowedChoices.length === 0 || !allowedChoices.every(isValidVoteChoice)) {
+    throw new Error("Invalid allowed choices");
+  }
+  const choiceMask = allowedChoices.reduce((mask, choice) => mask | (1 << choice), 0);
+  const root = eligibilityRoot ? Buffer.from(eligibilityRoot, "hex") : Buffer.alloc(32);
+  if (root.length !== 32) {
+    throw new Error("Eligibility root must be 32 bytes");
+  }
+
+  // Borsh ProposalInstruction::CreateProposal (variant 0)
+  const data = Buffer.alloc(1 + 8 + 4 + titleBuf.length + 8 + 8 + 1 + 32);
+  let offset = data.writeUInt8(0, 0);
+  offset = data.writeBigUInt64LE(BigInt(proposalId), offset);
+  offset = data.writeUInt32LE(titleBuf.length, offset);
+  offset += titleBuf.copy(data, offset);
+  offset = data.writeBigUInt64LE(BigInt(openSlot), offset);
+  offset = data.writeBigUInt64LE(BigInt(closeSlot), offset);
+  offset = data.writeUInt8(choiceMask, offset);
+  root.copy(data, offset);
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: deriveProposalAddress(proposalId), isSigner: false, isWritable: true },
+      { pubkey: creator, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    programId: PROPOSAL_PROGRAM_ID,
+    data,
+  });
+}
+
+/**
+ * Decode a proposal_program account (borsh `Proposal`)
+ */
+export function decodeProposal(data: Uint8Array): Proposal {
+  const view = Buffer.from(data);
+  if (view.length < LEGACY_PROPOSAL_ACCOUNT_SIZE - MAX_PROPOSAL_TITLE_LEN) {
+    throw new Error("Proposal account has unexpected size");
+  }
+  const choiceMask = view.readUInt8(56);
+  const titleLen = view.readUInt32LE(57);
+  if (titleLen > MAX_PROPOSAL_TITLE_LEN || view.length < 61 + titleLen) {
+    throw new Error("Proposal account has an invalid title");
+  }
+  const eligibilityRoot =
+    view.length >= PROPOSAL_ACCOUNT_SIZE
+      ? view.subarray(ELIGIBILITY_ROOT_OFFSET, PROPOSAL_ACCOUNT_SIZE).toString("hex")
+      : undefined;
+  return {
+    id: view.readBigUInt64LE(0).toString(),
+    creator: new PublicKey(view.subarray(8, 40)).toBase58(),
+    openSlot: Number(view.readBigUInt64LE(40)),
+    closeSlot: Number(view.readBigUInt64LE(48)),
+    allowedChoices: VOTE_CHOICES.filter((choice) => choiceMask & (1 << choice)),
+    title: view.subarray(61, 61 + titleLen).toString("utf8"),
+    ...(eligibilityRoot && /[^0]/.test(eligibilityRoot) ? { eligibilityRoot } : {}),
+  };
+}
+
+/**
+ * Read a single proposal
+ * @returns The proposal, or null if it was never registered
+ */
+export async function fetchProposal(
+  connection: Connection,
+  proposalId: string
+): Promise<Proposal | null> {
+  const account = await connection.getAccountInfo(deriveProposalAddress(proposalId), "confirmed");
+  if (!account) {
+    return null;
+  }
+  if (PROPOSAL_PROGRAM_ID && !account.owner.equals(PROPOSAL_PROGRAM_ID)) {
+    throw new Error("Proposal account is not owned by the proposal program");
+  }
+  return decodeProposal(account.data);
+}
 
 /**
- * Build instruction to vote on a proposal
+ * Read one page of proposals, ordered by proposal ID.
+ * Only the 8-byte IDs of all proposals are listed; full accounts are fetched
+ * for the requested page alone.
+ */
+export async function fetchProposalPage(
+  connection: Connection,
+  cursor = 0,
+  pageSize = PROPOSAL_PAGE_SIZE
+): Promise<ProposalPage> {
+  if (!PROPOSAL_PROGRAM_ID) {
+    throw new Error("PROPOSAL_PROGRAM_ID not configured");
+  }
+  const programId = PROPOSAL_PROGRAM_ID;
+  const index = (
+    await Promise.all(
+      [PROPOSAL_ACCOUNT_SIZE, LEGACY_PROPOSAL_ACCOUNT_SIZE].map((dataSize) =>
+        connection.getProgramAccounts(programId, {
+          commitment: "confirmed",
+          dataSlice: { offset: 0, length: 8 },
+          filters: [{ dataSize }],
+        })
+      )
+    )
+  ).flat();
+  const sorted = index
+    .map(({ pubkey, account }) => ({ pubkey, id: account.data.readBigUInt64LE(0) }))
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  const page = sorted.slice(cursor, cursor + pageSize);
+  const accounts = await connection.getMultipleAccountsInfo(
+    page.map(({ pubkey }) => pubkey),
+    "confirmed"
+  );
+  const proposals = accounts.flatMap((account) => (account ? [decodeProposal(account.data)] : []));
+
+  const nextCursor = cursor + pageSize;
+  return {
+    proposals,
+    nextCursor: nextCursor < sorted.length ? nextCursor : undefined,
+  };
+}
+
+/**
+ * Derive the account holding a member's identity commitment
+ */
+export function deriveIdentityAddress(member: PublicKey): PublicKey {
+  if (!PROPOSAL_PROGRAM_ID) {
+    throw new Error("PROPOSAL_PROGRAM_ID not configured");
+  }
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from("identity"), member.toBuffer()],
+    PROPOSAL_PROGRAM_ID
+  );
+  return address;
+}
+
+/**
+ * Build instruction to register (or replace) the signer's identity commitment,
+ * which makes them eligible for members-only proposals snapshotted afterwards
+ * @param commitment - poseidon(voter_secret) as 32-byte hex (see lib/eligibility.ts)
+ */
+export function buildRegisterIdentityInstruction(commitment: string, member: PublicKey): TransactionInstruction {
+  if (!PROPOSAL_PROGRAM_ID) {
+    throw new Error("PROPOSAL_PROGRAM_ID not configured");
+  }
+  const commitmentBuf = Buffer.from(commitment, "hex");
+  if (commitmentBuf.length !== 32) {
+    throw new Error("Identity commitment must be 32 bytes");
+  }
+
+  // Borsh ProposalInstruction::RegisterIdentity (variant 1)
+  const data = Buffer.alloc(1 + 32);
+  commitmentBuf.copy(data, data.writeUInt8(1, 0));
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: deriveIdentityAddress(member), isSigner: false, isWritable: true },
+      { pubkey: member, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    programId: PROPOSAL_PROGRAM_ID,
+    data,
+  });
+}
+
+/**
+ * Decode a proposal_program identity account (borsh `Identity`)
+ */
+export function decodeIdentity(data: Uint8Array): IdentityRegistration {
+  const view = Buffer.from(data);
+  if (view.length !== IDENTITY_ACCOUNT_SIZE) {
+    throw new Error("Identity account has unexpected size");
+  }
+  return {
+    member: new PublicKey(view.subarray(0, 32)).toBase58(),
+    commitment: view.subarray(32, 64).toString("hex"),
+    registeredSlot: Number(view.readBigUInt64LE(64)),
+  };
+}
+
+/**
+ * Read a member's registered identity
+ * @returns null if the member never registered
+ */
+export async function fetchIdentity(
+  connection: Connection,
+  member: PublicKey
+): Promise<IdentityRegistration | null> {
+  const account = await connection.getAccountInfo(deriveIdentityAddress(member), "confirmed");
+  return account ? decodeIdentity(account.data) : null;
+}
+
+/**
+ * Read every registered identity, to snapshot into an eligibility tree
+ */
+export async function fetchIdentityRegistrations(connection: Connection): Promise<IdentityRegistration[]> {
+  if (!PROPOSAL_PROGRAM_ID) {
+    throw new Error("PROPOSAL_PROGRAM_ID not configured");
+  }
+  const accounts = await connection.getProgramAccounts(PROPOSAL_PROGRAM_ID, {
+    commitment: "confirmed",
+    filters: [{ dataSize: IDENTITY_ACCOUNT_SIZE }],
+  });
+  return accounts.map(({ account }) => decodeIdentity(account.data));
+}
+
+export function getProposalStatus(proposal: Proposal, slot: number): ProposalStatus {
+  if (slot < proposal.openSlot) {
+    return "upcoming";
+  }
+  return slot < proposal.closeSlot ? "open" : "closed";
+}
+
+/**
+ * Build instruction to vote on a proposal.
+ * The commitment is appended to the proposal's vote tree so a proof can later
+ * show membership without revealing which vote it was. The choice is only
+ * inside the commitment; the verifier checks the proven choice against the
+ * proposal.
  */
 export function buildVoteInstruction(
   proposalId: string,
-  userPublicKey: PublicKey
+  commitment: string,
+  userPublicKey: PublicKey,
+  shard = 0
 ): TransactionInstruction {
   if (!VOTE_PROGRAM_ID) {
     throw new Error("VOTE_PROGRAM_ID not configured");
   }
 
-  // Instruction data: proposal_id (8 bytes LE) + choice (1 byte)
-  const data = Buffer.alloc(9);
+  // Instruction data: proposal_id (8 bytes LE) + commitment (32 bytes BE) + shard (4 bytes LE)
+  const data = Buffer.alloc(44);
   data.writeBigUInt64LE(BigInt(proposalId), 0);
-  data.writeUInt8(VOTE_CHOICE_YES, 8);
+  Buffer.from(commitment, "hex").copy(data, 8);
+  data.writeUInt32LE(shard, 40);
 
   return new TransactionInstruction({
-    keys: [],
+    keys: [
+      { pubkey: deriveVoteTreeAddress(proposalId, shard), isSigner: false, isWritable: true },
+      { pubkey: deriveProposalAddress(proposalId), isSigner: false, isWritable: false },
+      { pubkey: userPublicKey, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
     programId: VOTE_PROGRAM_ID,
     data,
   });
 }
 
+export interface Ed25519Signature {
+  publicKey: Buffer;
+  signature: Buffer;
+}
+
 /**
- * Build Ed25519 signature verification instruction
- * This is required before the verifier program instruction
+ * Build an Ed25519 signature verification instruction with one entry per
+ * signature, all over the same message. It must come before the verifier
+ * program instruction, which counts the signers it carries.
  */
-export function buildEd25519Instruction(
-  publicKey: Buffer,
-  signature: Buffer,
-  message: Buffer
-): TransactionInstruction {
+export function buildEd25519Instruction(signatures: Ed25519Signature[], message: Buffer): TransactionInstruction {
   const ED25519_PROGRAM_ID = new PublicKey(
     "Ed25519SigVerify111111111111111111111111111"
   );
+  if (signatures.length === 0 || signatures.length > 0xff) {
+    throw new Error(`An Ed25519 instruction holds 1-255 signatures, not ${signatures.length}`);
+  }
 
-  // Ed25519 instruction format
-  const numSignatures = 1;
-  const signatureOffset = 16;
-  const publicKeyOffset = 80;
-  const messageOffset = 112;
-  const messageLength = message.length;
-
-  const data = Buffer.alloc(16 + 64 + 32 + messageLength);
+  // Header and offsets, then each signature with its public key, then the shared message
+  const headerLength = 2 + signatures.length * 14;
+  const messageOffset = headerLength + signatures.length * (64 + 32);
+  const data = Buffer.alloc(messageOffset + message.length);
 
-  // Header
-  data.writeUInt8(numSignatures, 0);
+  data.writeUInt8(signatures.length, 0);
   data.writeUInt8(0, 1); // padding
 
-  // Offsets
-  data.writeUInt16LE(signatureOffset, 2);
-  data.writeUInt16LE(0xFFFF, 4); // instruction index
-  data.writeUInt16LE(publicKeyOffset, 6);
-  data.writeUInt16LE(0xFFFF, 8); // instruction index
-  data.writeUInt16LE(messageOffset, 10);
-  data.writeUInt16LE(messageLength, 12);
-  data.writeUInt16LE(0xFFFF, 14); // instruction index
-
-  // Data
-  signature.copy(data, signatureOffset);
-  publicKey.copy(data, publicKeyOffset);
+  signatures.forEach(({ publicKey, signature }, i) => {
+    const base = 2 + i * 14;
+    const signatureOffset = headerLength + i * (64 + 32);
+    const publicKeyOffset = signatureOffset + 64;
+
+    data.writeUInt16LE(signatureOffset, base);
+    data.writeUInt16LE(0xFFFF, base + 2); // instruction index
+    data.writeUInt16LE(publicKeyOffset, base + 4);
+    data.writeUInt16LE(0xFFFF, base + 6); // instruction index
+    data.writeUInt16LE(messageOffset, base + 8);
+    data.writeUInt16LE(message.length, base + 10);
+    data.writeUInt16LE(0xFFFF, base + 12); // instruction index
+
+    signature.copy(data, signatureOffset);
+    publicKey.copy(data, publicKeyOffset);
+  });
   message.copy(data, messageOffset);
 
   return new TransactionInstruction({
@@ -79,26 +375,67 @@ export function buildEd25519Instruction(
 }
 
 /**
- * Build verifier program instruction with proof and attestation
+ * Derive the PDA that marks a nullifier as spent
+ */
+export function deriveNullifierAddress(nullifier: string): PublicKey {
+  if (!VERIFIER_PROGRAM_ID) {
+    throw new Error("VERIFIER_PROGRAM_ID not configured");
+  }
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from("nullifier"), Buffer.from(nullifier, "hex")],
+    VERIFIER_PROGRAM_ID
+  );
+  return address;
+}
+
+/**
+ * Derive the verifier program's per-proposal tally account
+ */
+export function deriveVerifiedStateAddress(proposalId: string): PublicKey {
+  if (!VERIFIER_PROGRAM_ID) {
+    throw new Error("VERIFIER_PROGRAM_ID not configured");
+  }
+  const proposalIdLe = Buffer.alloc(8);
+  proposalIdLe.writeBigUInt64LE(BigInt(proposalId));
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from("veilproof"), proposalIdLe],
+    VERIFIER_PROGRAM_ID
+  );
+  return address;
+}
+
+/**
+ * Build verifier program instruction from an attestation. The proof is too
+ * large for a transaction, so only its attested hash is sent. The signatures
+ * travel in the Ed25519 instruction before it.
+ * @param weight - The proof's vote weight (see proofWeight); must match the attested one
+ * @param expirySlot - The attested expiry of VEILPROOF_V2 attestations; omit for VEILPROOF_V1
  */
 export function buildVerifierInstruction(
   proposalId: string,
   programId: string,
+  voteChoice: number,
+  nullifier: string,
+  voteRoot: string,
   vkHash: string,
   publicInputsHash: string,
-  signature: string,
-  proof: string,
-  userPublicKey: PublicKey
+  proofHash: string,
+  userPublicKey: PublicKey,
+  weight = "1",
+  expirySlot?: string
 ): TransactionInstruction {
   if (!VERIFIER_PROGRAM_ID) {
     throw new Error("VERIFIER_PROGRAM_ID not configured");
   }
+  if (!isValidVoteChoice(voteChoice)) {
+    throw new Error(`Invalid vote choice: ${voteChoice}`);
+  }
 
   // Convert hex strings to buffers
+  const nullifierBuf = Buffer.from(nullifier, "hex");
   const vkHashBuf = Buffer.from(vkHash, "hex");
   const publicInputsHashBuf = Buffer.from(publicInputsHash, "hex");
-  const signatureBuf = Buffer.from(signature, "base64");
-  const proofBuf = Buffer.from(proof, "base64");
+  const proofHashBuf = Buffer.from(proofHash, "hex");
 
   // Build instruction data
   const programIdLe = Buffer.alloc(8);
@@ -107,29 +444,38 @@ export function buildVerifierInstruction(
   const proposalIdLe = Buffer.alloc(8);
   proposalIdLe.writeBigUInt64LE(BigInt(proposalId));
 
-  const proofLen = Buffer.alloc(4);
-  proofLen.writeUInt32LE(proofBuf.length);
+  const weightLe = Buffer.alloc(8);
+  weightLe.writeBigUInt64LE(BigInt(weight));
 
+  // VerifyV2 appends the attested expiry
+  const expiryLe = Buffer.alloc(expirySlot === undefined ? 0 : 8);
+  if (expirySlot !== undefined) {
+    expiryLe.writeBigUInt64LE(BigInt(expirySlot));
+  }
+
+  const tag = expirySlot === undefined ? VERIFIER_INSTRUCTION_VERIFY : VERIFIER_INSTRUCTION_VERIFY_V2;
   const data = Buffer.concat([
+    Buffer.from([tag]), // 1 byte
     programIdLe,      // 8 bytes
     proposalIdLe,     // 8 bytes
+    Buffer.from([voteChoice]), // 1 byte
+    nullifierBuf,     // 32 bytes
+    Buffer.from(voteRoot, "hex"), // 32 bytes
     vkHashBuf,        // 32 bytes
     publicInputsHashBuf, // 32 bytes
-    signatureBuf,     // 64 bytes
-    proofLen,         // 4 bytes
-    proofBuf,         // variable length
+    proofHashBuf,     // 32 bytes
+    weightLe,         // 8 bytes
+    expiryLe,         // 0 or 8 bytes
   ]);
 
-  // State account PDA (deterministic per proposal)
-  const [stateAccount] = PublicKey.findProgramAddressSync(
-    [Buffer.from("veilproof"), proposalIdLe],
-    VERIFIER_PROGRAM_ID
-  );
-
   return new TransactionInstruction({
     keys: [
-      { pubkey: stateAccount, isSigner: false, isWritable: true },
+      { pubkey: deriveVerifiedStateAddress(proposalId), isSigner: false, isWritable: true },
       { pubkey: SYSVAR_INSTRUCTIONS_PUBKEY, isSigner: false, isWritable: false },
+      { pubkey: deriveNullifierAddress(nullifier), isSigner: false, isWritable: true },
+      { pubkey: userPublicKey, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: deriveSignerConfigAddress(), isSigner: false, isWritable: false },
     ],
     programId: VERIFIER_PROGRAM_ID,
     data,
@@ -137,37 +483,332 @@ export function buildVerifierInstruction(
 }
 
 /**
- * Send and confirm transaction with retries
+ * Build the verifier program instruction that checks a Groth16 proof on
+ * chain: no verifier service and no Ed25519 instruction. The public inputs
+ * are rebuilt by the program from these fields and the proposal's eligibility
+ * root, so they must be the ones the proof was made for.
+ * @param proof - A || B || C (see lib/groth16.ts)
+ * @param weight - The proof's vote weight, one of its public inputs
+ * @param voteTreeShard - The vote tree shard whose roots include voteRoot
  */
-export async function sendAndConfirmTransaction(
-  connection: Connection,
-  transaction: Transaction,
-  signTransaction: (tx: Transaction) => Promise<Transaction>,
-  feePayer: PublicKey
-): Promise<string> {
-  // Get recent blockhash
-  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
-  transaction.recentBlockhash = blockhash;
-  transaction.feePayer = feePayer;
-
-  // Sign transaction
-  const signed = await signTransaction(transaction);
-
-  // Send transaction
-  const signature = await connection.sendRawTransaction(signed.serialize(), {
-    skipPreflight: false,
-    preflightCommitment: "confirmed",
+export function buildGroth16VerifierInstruction(
+  proposalId: string,
+  programId: string,
+  voteChoice: number,
+  nullifier: string,
+  voteRoot: string,
+  proof: Uint8Array,
+  userPublicKey: PublicKey,
+  weight = "1",
+  voteTreeShard = 0
+): TransactionInstruction {
+  if (!VERIFIER_PROGRAM_ID) {
+    throw new Error("VERIFIER_PROGRAM_ID not configured");
+  }
+  if (!isValidVoteChoice(voteChoice)) {
+    throw new Error(`Invalid vote choice: ${voteChoice}`);
+  }
+  if (proof.length !== GROTH16_PROOF_BYTES) {
+    throw new Error(`Expected a ${GROTH16_PROOF_BYTES}-byte Groth16 proof, got ${proof.length} bytes`);
+  }
+
+  const data = Buffer.alloc(1 + 8 + 8 + 1 + 32 + 32 + GROTH16_PROOF_BYTES + 8);
+  let offset = data.writeUInt8(VERIFIER_INSTRUCTION_VERIFY_GROTH16, 0);
+  offset = data.writeBigUInt64LE(BigInt(programId), offset);
+  offset = data.writeBigUInt64LE(BigInt(proposalId), offset);
+  offset = data.writeUInt8(voteChoice, offset);
+  offset += Buffer.from(nullifier, "hex").copy(data, offset);
+  offset += Buffer.from(voteRoot, "hex").copy(data, offset);
+  offset += Buffer.from(proof).copy(data, offset);
+  data.writeBigUInt64LE(BigInt(weight), offset);
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: deriveVerifiedStateAddress(proposalId), isSigner: false, isWritable: true },
+      { pubkey: deriveNullifierAddress(nullifier), isSigner: false, isWritable: true },
+      { pubkey: userPublicKey, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: deriveGroth16VkAddress(), isSigner: false, isWritable: false },
+      { pubkey: deriveVoteTreeAddress(proposalId, voteTreeShard), isSigner: false, isWritable: false },
+      { pubkey: deriveProposalAddress(proposalId), isSigner: false, isWritable: false },
+    ],
+    programId: VERIFIER_PROGRAM_ID,
+    data,
   });
+}
 
-  // Confirm transaction
-  await connection.confirmTransaction(
-    {
-      signature,
-      blockhash,
-      lastValidBlockHeight,
-    },
-    "confirmed"
-  );
+// The byte a nullifier account holds: which trust model accepted its proof
+const NULLIFIER_TRUST_MODELS: TrustModel[] = ["attestation", "groth16"];
+
+/**
+ * Read how the proof that spent a nullifier was accepted
+ * @returns null if the nullifier is unspent
+ */
+export async function fetchNullifierTrustModel(connection: Connection, nullifier: string): Promise<TrustModel | null> {
+  const account = await connection.getAccountInfo(deriveNullifierAddress(nullifier), "confirmed");
+  // Anyone can fund the address; only verifier_program owns a spent nullifier
+  if (!account || !account.owner.equals(VERIFIER_PROGRAM_ID!)) {
+    return null;
+  }
+  // Nullifiers spent before the Groth16 path have no data; all were attested
+  return account.data.length === 0 ? "attestation" : NULLIFIER_TRUST_MODELS[account.data[0]] ?? "attestation";
+}
+
+// Borsh tags of VerifierInstruction in verifier_program
+const VERIFIER_INSTRUCTION_VERIFY = 0;
+const VERIFIER_INSTRUCTION_INITIALIZE_SIGNERS = 1;
+const VERIFIER_INSTRUCTION_ROTATE_SIGNERS = 2;
+const VERIFIER_INSTRUCTION_WRITE_GROTH16_VK = 3;
+const VERIFIER_INSTRUCTION_VERIFY_GROTH16 = 4;
+const VERIFIER_INSTRUCTION_VERIFY_V2 = 5;
+const VERIFIER_INSTRUCTION_SET_ATTESTATION_DOMAIN = 6;
+
+// Must match MAX_SIGNERS / SIGNER_CONFIG_SPACE / ATTESTATION_DOMAIN_SPACE in verifier_program
+export const MAX_ATTESTATION_SIGNERS = 10;
+const SIGNER_CONFIG_SPACE = 32 + 1 + 8 + 4 + MAX_ATTESTATION_SIGNERS * 32;
+const ATTESTATION_DOMAIN_SPACE = 32 + 8;
+
+const BPF_LOADER_UPGRADEABLE_PROGRAM_ID = new PublicKey("BPFLoaderUpgradeab1e11111111111111111111111");
+
+/**
+ * Derive the verifier program's signer config account
+ */
+export function deriveSignerConfigAddress(): PublicKey {
+  if (!VERIFIER_PROGRAM_ID) {
+    throw new Error("VERIFIER_PROGRAM_ID not configured");
+  }
+  const [address] = PublicKey.findProgramAddressSync([Buffer.from("signer_config")], VERIFIER_PROGRAM_ID);
+  return address;
+}
+
+/**
+ * Derive the account holding the verifier program's Groth16 verifying key
+ */
+export function deriveGroth16VkAddress(): PublicKey {
+  if (!VERIFIER_PROGRAM_ID) {
+    throw new Error("VERIFIER_PROGRAM_ID not configured");
+  }
+  const [address] = PublicKey.findProgramAddressSync([Buffer.from("groth16_vk")], VERIFIER_PROGRAM_ID);
+  return address;
+}
+
+// The verifier program's ProgramData account, which names its upgrade authority
+function deriveProgramDataAddress(programId: PublicKey): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync([programId.toBuffer()], BPF_LOADER_UPGRADEABLE_PROGRAM_ID);
+  return address;
+}
+
+function encodeSignerSet(tag: number, threshold: number, signers: string[]): Buffer {
+  if (signers.length === 0 || signers.length > MAX_ATTESTATION_SIGNERS) {
+    throw new Error(`A signer set has 1-${MAX_ATTESTATION_SIGNERS} signers`);
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > signers.length) {
+    throw new Error("Threshold must be between 1 and the number of signers");
+  }
+  const keys = signers.map((signer) => {
+    const key = Buffer.from(signer, "hex");
+    if (key.length !== 32) {
+      throw new Error(`Signer ${signer} is not a 32-byte hex public key`);
+    }
+    return key;
+  });
+  const header = Buffer.alloc(6);
+  header.writeUInt8(tag, 0);
+  header.writeUInt8(threshold, 1);
+  header.writeUInt32LE(keys.length, 2);
+  return Buffer.concat([header, ...keys]);
+}
+
+/**
+ * Build the one-time instruction that creates the signer config. Only the
+ * verifier program's upgrade authority can sign it, and it becomes the
+ * config authority.
+ * @param signers - Attestation signer public keys, hex
+ */
+export function buildInitializeSignersInstruction(
+  threshold: number,
+  signers: string[],
+  authority: PublicKey
+): TransactionInstruction {
+  if (!VERIFIER_PROGRAM_ID) {
+    throw new Error("VERIFIER_PROGRAM_ID not configured");
+  }
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: deriveSignerConfigAddress(), isSigner: false, isWritable: true },
+      { pubkey: authority, isSigner: true, isWritable: true },
+      { pubkey: deriveProgramDataAddress(VERIFIER_PROGRAM_ID), isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    programId: VERIFIER_PROGRAM_ID,
+    data: encodeSignerSet(VERIFIER_INSTRUCTION_INITIALIZE_SIGNERS, threshold, signers),
+  });
+}
 
-  return signature;
+/**
+ * Build the instruction that replaces the signer set and threshold
+ * @param authority - The config authority
+ */
+export function buildRotateSignersInstruction(
+  threshold: number,
+  signers: string[],
+  authority: PublicKey
+): TransactionInstruction {
+  if (!VERIFIER_PROGRAM_ID) {
+    throw new Error("VERIFIER_PROGRAM_ID not configured");
+  }
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: deriveSignerConfigAddress(), isSigner: false, isWritable: true },
+      { pubkey: authority, isSigner: true, isWritable: false },
+    ],
+    programId: VERIFIER_PROGRAM_ID,
+    data: encodeSignerSet(VERIFIER_INSTRUCTION_ROTATE_SIGNERS, threshold, signers),
+  });
+}
+
+/**
+ * Build the instruction that sets what VEILPROOF_V2 attestations must name
+ * and when VEILPROOF_V1 attestations stop being accepted. Signer configs
+ * created before attestation domains are grown, the authority paying rent.
+ * @param genesisHash - The cluster's genesis hash, base58 (`getGenesisHash`)
+ * @param v1UntilSlot - The first slot VEILPROOF_V1 attestations are refused at
+ * @param authority - The config authority
+ */
+export function buildSetAttestationDomainInstruction(
+  genesisHash: string,
+  v1UntilSlot: number,
+  authority: PublicKey
+): TransactionInstruction {
+  if (!VERIFIER_PROGRAM_ID) {
+    throw new Error("VERIFIER_PROGRAM_ID not configured");
+  }
+  const genesis = Buffer.from(bs58.decode(genesisHash));
+  if (genesis.length !== 32) {
+    throw new Error(`Genesis hash ${genesisHash} is not 32 bytes`);
+  }
+  if (!Number.isSafeInteger(v1UntilSlot) || v1UntilSlot < 0) {
+    throw new Error("The VEILPROOF_V1 cutoff must be a slot");
+  }
+  const data = Buffer.alloc(1 + 32 + 8);
+  data.writeUInt8(VERIFIER_INSTRUCTION_SET_ATTESTATION_DOMAIN, 0);
+  genesis.copy(data, 1);
+  data.writeBigUInt64LE(BigInt(v1UntilSlot), 33);
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: deriveSignerConfigAddress(), isSigner: false, isWritable: true },
+      { pubkey: authority, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    programId: VERIFIER_PROGRAM_ID,
+    data,
+  });
+}
+
+// Verifying key bytes per WriteGroth16VerifyingKey; the whole key does not fit in a transaction
+export const GROTH16_VK_CHUNK_BYTES = 544;
+
+/**
+ * Build the instructions that set (or replace) the Groth16 verifying key
+ * proofs on the trustless path are checked against, one chunk each; send
+ * them in order, one per transaction. Only the verifier program's upgrade
+ * authority can sign them.
+ */
+export function buildWriteGroth16VerifyingKeyInstructions(
+  verifyingKey: Groth16VerifyingKey,
+  authority: PublicKey
+): TransactionInstruction[] {
+  if (!VERIFIER_PROGRAM_ID) {
+    throw new Error("VERIFIER_PROGRAM_ID not configured");
+  }
+  const programId = VERIFIER_PROGRAM_ID;
+  const encoded = Buffer.from(encodeGroth16VerifyingKey(verifyingKey));
+  const instructions: TransactionInstruction[] = [];
+  for (let offset = 0; offset < encoded.length; offset += GROTH16_VK_CHUNK_BYTES) {
+    const chunk = encoded.subarray(offset, offset + GROTH16_VK_CHUNK_BYTES);
+    const header = Buffer.alloc(9);
+    header.writeUInt8(VERIFIER_INSTRUCTION_WRITE_GROTH16_VK, 0);
+    header.writeUInt32LE(offset, 1);
+    header.writeUInt32LE(chunk.length, 5);
+    instructions.push(
+      new TransactionInstruction({
+        keys: [
+          { pubkey: deriveGroth16VkAddress(), isSigner: false, isWritable: true },
+          { pubkey: authority, isSigner: true, isWritable: true },
+          { pubkey: deriveProgramDataAddress(programId), isSigner: false, isWritable: false },
+          { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+        ],
+        programId,
+        data: Buffer.concat([header, chunk]),
+      })
+    );
+  }
+  return instructions;
+}
+
+/**
+ * Decode a signer config account (borsh `SignerConfig`, then the attestation
+ * domain once one is set)
+ */
+export function decodeSignerConfig(data: Uint8Array): SignerConfig {
+  const view = Buffer.from(data);
+  if (view.length < 45) {
+    throw new Error("Signer config account has unexpected size");
+  }
+  const count = view.readUInt32LE(41);
+  if (count > MAX_ATTESTATION_SIGNERS || view.length < 45 + count * 32) {
+    throw new Error("Signer config account has an invalid signer list");
+  }
+  const domain = decodeAttestationDomain(view);
+  return {
+    authority: new PublicKey(view.subarray(0, 32)).toBase58(),
+    threshold: view.readUInt8(32),
+    epoch: Number(view.readBigUInt64LE(33)),
+    signers: Array.from({ length: count }, (_, i) => view.subarray(45 + i * 32, 77 + i * 32).toString("hex")),
+    ...(domain && { attestationDomain: domain }),
+  };
+}
+
+// An all-zero genesis hash, or a config from before domains, means none is set
+function decodeAttestationDomain(view: Buffer): AttestationDomain | undefined {
+  if (view.length < SIGNER_CONFIG_SPACE + ATTESTATION_DOMAIN_SPACE) {
+    return undefined;
+  }
+  const genesis = view.subarray(SIGNER_CONFIG_SPACE, SIGNER_CONFIG_SPACE + 32);
+  if (genesis.every((byte) => byte === 0)) {
+    return undefined;
+  }
+  return {
+    genesisHash: bs58.encode(genesis),
+    v1UntilSlot: Number(view.readBigUInt64LE(SIGNER_CONFIG_SPACE + 32)),
+  };
+}
+
+/**
+ * Read the attestation signers the verifier program accepts
+ * @returns The config, or null before `buildInitializeSignersInstruction` has run
+ */
+export async function fetchSignerConfig(connection: Connection): Promise<SignerConfig | null> {
+  const account = await connection.getAccountInfo(deriveSignerConfigAddress(), "confirmed");
+  if (!account) {
+    return null;
+  }
+  if (VERIFIER_PROGRAM_ID && !account.owner.equals(VERIFIER_PROGRAM_ID)) {
+    throw new Error("Signer config account is not owned by the verifier program");
+  }
+  return decodeSignerConfig(account.data);
+}
+
+/**
+ * Accounts shared by every vote and verifier transaction, to put in an
+ * address lookup table. Programs a transaction invokes always stay in its
+ * static keys; the rest are loaded from the table and shrink the message.
+ */
+export function lookupTableAddresses(): PublicKey[] {
+  return [
+    SYSVAR_INSTRUCTIONS_PUBKEY,
+    SystemProgram.programId,
+    ...(VERIFIER_PROGRAM_ID ? [deriveSignerConfigAddress(), deriveGroth16VkAddress()] : []),
+    ...[VERIFIER_PROGRAM_ID, VOTE_PROGRAM_ID, PROPOSAL_PROGRAM_ID].filter((id): id is PublicKey => Boolean(id)),
+  ];
 }
@@ -0,0 +1,114 @@
+import { Connection } from "@solana/web3.js";
+import { VERIFIER_PROGRAM_ID } from "./constants";
+import { deriveVerifiedStateAddress } from "./solana";
+
+// Borsh layout of VerifiedVoteState in verifier_program: seven u64 fields
+const VERIFIED_VOTE_STATE_SIZE = 8 * 7;
+// Accounts no proof has touched since weighted votes hold only the counts
+const LEGACY_VERIFIED_VOTE_STATE_SIZE = 8 * 4;
+
+export interface VerifiedVoteState {
+  proposalId: bigint;
+  yesProofs: bigint;
+  noProofs: bigint;
+  abstainProofs: bigint;
+  // Sums of the counted proofs' weights
+  yesWeight: bigint;
+  noWeight: bigint;
+  abstainWeight: bigint;
+}
+
+export function emptyVerifiedVoteState(proposalId: string): VerifiedVoteState {
+  return {
+    proposalId: BigInt(proposalId),
+    yesProofs: 0n,
+    noProofs: 0n,
+    abstainProofs: 0n,
+    yesWeight: 0n,
+    noWeight: 0n,
+    abstainWeight: 0n,
+  };
+}
+
+/**
+ * Add a proof of `weight` for `voteChoice` to a tally, as the verifier program does
+ */
+export function addVerifiedVote(state: VerifiedVoteState, voteChoice: number, weight: bigint): VerifiedVoteState {
+  switch (voteChoice) {
+    case 1:
+      return { ...state, yesProofs: state.yesProofs + 1n, yesWeight: state.yesWeight + weight };
+    case 0:
+      return { ...state, noProofs: state.noProofs + 1n, noWeight: state.noWeight + weight };
+    default:
+      return { ...state, abstainProofs: state.abstainProofs + 1n, abstainWeight: state.abstainWeight + weight };
+  }
+}
+
+/**
+ * Decode a tally account. Every proof a legacy account counted weighed 1.
+ */
+export function decodeVerifiedVoteState(data: Uint8Array): VerifiedVoteState {
+  if (data.length < LEGACY_VERIFIED_VOTE_STATE_SIZE) {
+    throw new Error("Verified vote state account has unexpected size");
+  }
+  const view = Buffer.from(data);
+  const counts = {
+    proposalId: view.readBigUInt64LE(0),
+    yesProofs: view.readBigUInt64LE(8),
+    noProofs: view.readBigUInt64LE(16),
+    abstainProofs: view.readBigUInt64LE(24),
+  };
+  if (data.length < VERIFIED_VOTE_STATE_SIZE) {
+    return { ...counts, yesWeight: counts.yesProofs, noWeight: counts.noProofs, abstainWeight: counts.abstainProofs };
+  }
+  return {
+    ...counts,
+    yesWeight: view.readBigUInt64LE(32),
+    noWeight: view.readBigUInt64LE(40),
+    abstainWeight: view.readBigUInt64LE(48),
+  };
+}
+
+/**
+ * Read the proven tally for a proposal
+ * @returns An all-zero tally if no proof has been accepted yet
+ */
+export async function fetchVerifiedVoteState(
+  connection: Connection,
+  proposalId: string
+): Promise<VerifiedVoteState> {
+  const account = await connection.getAccountInfo(deriveVerifiedStateAddress(proposalId), "confirmed");
+  if (!account) {
+    return emptyVerifiedVoteState(proposalId);
+  }
+  if (VERIFIER_PROGRAM_ID && !account.owner.equals(VERIFIER_PROGRAM_ID)) {
+    throw new Error("Vote state account is not owned by the verifier program");
+  }
+  return decodeVerifiedVoteState(account.data);
+}
+
+/**
+ * Follow the tally through `onAccountChange`. The first accepted proof creates
+ * the account, which also fires the listener.
+ * @returns Unsubscribe function
+ */
+export function subscribeVerifiedVoteState(
+  connection: Connection,
+  proposalId: string,
+  onChange: (state: VerifiedVoteState) => void
+): () => void {
+  const listenerId = connection.onAccountChange(
+    deriveVerifiedStateAddress(proposalId),
+    (account) => {
+      onChange(
+        account.data.length > 0
+          ? decodeVerifiedVoteState(account.data)
+          : emptyVerifiedVoteState(proposalId)
+      );
+    },
+    "confirmed"
+  );
+  return () => {
+    connection.removeAccountChangeListener(listenerId);
+  };
+}
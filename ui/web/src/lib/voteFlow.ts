@@ -0,0 +1,229 @@
+import type {
+  ProofData,
+  StepError,
+  StepStatus,
+  TrustModel,
+  VerifierAttestation,
+  VoteFlowStep,
+  VoteSession,
+} from "../types";
+
+export type VoteFlowEvent =
+  | { type: "cast/start" }
+  | { type: "cast/success"; transactionSignature: string }
+  | { type: "cast/failure"; error?: StepError }
+  | { type: "prove/start" }
+  | { type: "prove/success"; proof: ProofData }
+  | { type: "prove/failure"; error?: StepError }
+  // The voter stopped proof generation; the step can be started again
+  | { type: "prove/cancel" }
+  // A proof made elsewhere, from a proof bundle
+  | { type: "prove/import"; proof: ProofData; attestations?: VerifierAttestation[] }
+  | { type: "submit/start" }
+  | { type: "submit/success"; transactionSignature: string; trustModel: TrustModel }
+  // trustModel: how the earlier proof of an already proven vote was accepted
+  | { type: "submit/failure"; error?: StepError; alreadyProven?: boolean; trustModel?: TrustModel }
+  // Start the proposal over, optionally with another choice
+  | { type: "reset"; voteChoice?: number };
+
+/**
+ * Thrown when an event is not allowed in the session's current state
+ */
+export class VoteFlowTransitionError extends Error {
+  readonly event: VoteFlowEvent["type"];
+
+  constructor(event: VoteFlowEvent["type"], reason: string) {
+    super(`Cannot apply ${event}: ${reason}`);
+    this.name = "VoteFlowTransitionError";
+    this.event = event;
+  }
+}
+
+const STEPS: VoteFlowStep[] = ["cast", "prove", "submit"];
+
+export function newVoteSession(
+  mode: VoteSession["mode"],
+  proposalId: string,
+  voteChoice = 1,
+  programId = "7"
+): VoteSession {
+  return {
+    mode,
+    proposalId,
+    programId,
+    voteChoice,
+    steps: { cast: { status: "idle" }, prove: { status: "idle" }, submit: { status: "idle" } },
+    updatedAt: Date.now(),
+  };
+}
+
+function withSteps(
+  session: VoteSession,
+  steps: Partial<Record<VoteFlowStep, StepStatus>>,
+  fields: Partial<VoteSession> = {}
+): VoteSession {
+  const next = { ...session.steps };
+  for (const [step, status] of Object.entries(steps) as [VoteFlowStep, StepStatus][]) {
+    next[step] = { status };
+  }
+  return { ...session, ...fields, steps: next, updatedAt: Date.now() };
+}
+
+// Mark a step failed, keeping why for the step panel
+function withFailure(session: VoteSession, step: VoteFlowStep, error?: StepError, fields: Partial<VoteSession> = {}) {
+  const next = withSteps(session, { [step]: "error" }, fields);
+  return { ...next, steps: { ...next.steps, [step]: { status: "error", error } } };
+}
+
+function guard(event: VoteFlowEvent, ok: boolean, reason: string) {
+  if (!ok) {
+    throw new VoteFlowTransitionError(event.type, reason);
+  }
+}
+
+/**
+ * Apply an event to a session. Each step runs idle -> working -> success or
+ * error; a step may only start once the previous one succeeded, and starting
+ * a step clears everything after it.
+ * @throws VoteFlowTransitionError when the guard for the event fails
+ */
+export function transition(session: VoteSession, event: VoteFlowEvent): VoteSession {
+  const { cast, prove, submit } = session.steps;
+  const busy = STEPS.some((step) => session.steps[step].status === "working");
+
+  switch (event.type) {
+    case "cast/start":
+      guard(event, !busy, "a step is already running");
+      guard(event, submit.status !== "success", "this vote was already proven");
+      return withSteps(
+        session,
+        { cast: "working", prove: "idle", submit: "idle" },
+        {
+          transactionSignature: undefined,
+          proof: undefined,
+          attestations: undefined,
+          verifySignature: undefined,
+          alreadyProven: undefined,
+          trustModel: undefined,
+        }
+      );
+    case "cast/success":
+      guard(event, cast.status === "working", "no vote is being cast");
+      return withSteps(session, { cast: "success" }, { transactionSignature: event.transactionSignature });
+    case "cast/failure":
+      guard(event, cast.status === "working", "no vote is being cast");
+      return withFailure(session, "cast", event.error);
+
+    case "prove/start":
+      guard(event, !busy, "a step is already running");
+      guard(event, cast.status === "success" && !!session.transactionSignature, "the vote has not been cast");
+      guard(event, submit.status !== "success", "this vote was already proven");
+      return withSteps(
+        session,
+        { prove: "working", submit: "idle" },
+        {
+          proof: undefined,
+          attestations: undefined,
+          verifySignature: undefined,
+          alreadyProven: undefined,
+          trustModel: undefined,
+        }
+      );
+    case "prove/success":
+      guard(event, prove.status === "working", "no proof is being generated");
+      return withSteps(session, { prove: "success" }, { proof: event.proof });
+    case "prove/failure":
+      guard(event, prove.status === "working", "no proof is being generated");
+      return withFailure(session, "prove", event.error);
+    case "prove/cancel":
+      guard(event, prove.status === "working", "no proof is being generated");
+      return withSteps(session, { prove: "idle" });
+    case "prove/import":
+      guard(event, !busy, "a step is already running");
+      guard(event, submit.status !== "success", "this vote was already proven");
+      guard(
+        event,
+        event.proof.publicInputs.expected_proposal_id === session.proposalId,
+        `the proof is for proposal #${event.proof.publicInputs.expected_proposal_id}`
+      );
+      return withSteps(
+        session,
+        { prove: "success", submit: "idle" },
+        {
+          voteChoice: Number(event.proof.publicInputs.vote_choice),
+          programId: event.proof.publicInputs.expected_program_id,
+          proof: event.proof,
+          attestations: event.attestations,
+          verifySignature: undefined,
+          alreadyProven: undefined,
+          trustModel: undefined,
+        }
+      );
+
+    case "submit/start":
+      guard(event, !busy, "a step is already running");
+      guard(event, prove.status === "success" && !!session.proof, "there is no proof to submit");
+      guard(event, submit.status !== "success", "this vote was already proven");
+      return withSteps(session, { submit: "working" }, { alreadyProven: undefined, trustModel: undefined });
+    case "submit/success":
+      guard(event, submit.status === "working", "no proof is being submitted");
+      return withSteps(
+        session,
+        { submit: "success" },
+        { verifySignature: event.transactionSignature, trustModel: event.trustModel }
+      );
+    case "submit/failure":
+      guard(event, submit.status === "working", "no proof is being submitted");
+      return withFailure(session, "submit", event.error, {
+        alreadyProven: event.alreadyProven || undefined,
+        trustModel: event.trustModel,
+      });
+
+    case "reset":
+      return newVoteSession(session.mode, session.proposalId, event.voteChoice ?? session.voteChoice, session.programId);
+  }
+}
+
+export function canTransition(session: VoteSession, event: VoteFlowEvent): boolean {
+  try {
+    transition(session, event);
+    return true;
+  } catch (err) {
+    if (err instanceof VoteFlowTransitionError) {
+      return false;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Bring a stored session back after a reload. Work that was in flight is lost
+ * with the page, so those steps go back to idle and can be retried.
+ */
+export function resumeVoteSession(session: VoteSession): VoteSession {
+  const interrupted = STEPS.filter((step) => session.steps[step].status === "working");
+  if (interrupted.length === 0) {
+    return session;
+  }
+  return withSteps(session, Object.fromEntries(interrupted.map((step) => [step, "idle" as const])));
+}
+
+/**
+ * Where the session stands, for listing sessions in flight
+ */
+export function describeVoteSession(session: VoteSession): string | undefined {
+  const { cast, prove, submit } = session.steps;
+  if (submit.status === "success") {
+    return "proven";
+  }
+  if (session.alreadyProven) {
+    return "already proven";
+  }
+  if (prove.status === "success") {
+    return "proof ready";
+  }
+  if (cast.status === "success") {
+    return "vote cast";
+  }
+  return undefined;
+}
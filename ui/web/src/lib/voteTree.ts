@@ -0,0 +1,172 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { poseidon2, poseidon3 } from "poseidon-lite";
+import { VOTE_PROGRAM_ID } from "./constants";
+
+// Must match TREE_DEPTH in vote_program and noir/vote_proof. A proposal has
+// as many trees of this depth ("shards") as its votes need.
+export const VOTE_TREE_DEPTH = 8;
+export const VOTE_TREE_CAPACITY = 1 << VOTE_TREE_DEPTH;
+export const VOTE_TREE_ROOT_HISTORY = 32;
+
+// Account layout (see programs/vote_program/src/lib.rs)
+const PROPOSAL_ID_OFFSET = 0;
+const NEXT_INDEX_OFFSET = 8;
+const ROOT_CURSOR_OFFSET = 12;
+const FILLED_SUBTREES_OFFSET = 16;
+const ROOTS_OFFSET = FILLED_SUBTREES_OFFSET + VOTE_TREE_DEPTH * 32;
+const LEAVES_OFFSET = ROOTS_OFFSET + VOTE_TREE_ROOT_HISTORY * 32;
+export const VOTE_TREE_ACCOUNT_SIZE = LEAVES_OFFSET + VOTE_TREE_CAPACITY * 32;
+
+export interface VoteTree {
+  proposalId: bigint;
+  leaves: bigint[];
+  // Ring buffer of recent roots; rootCursor is the next slot to overwrite
+  roots: bigint[];
+  rootCursor: number;
+}
+
+export interface VoteMerklePath {
+  leafIndex: number;
+  path: bigint[];
+  root: bigint;
+}
+
+export function fieldToHex(value: bigint): string {
+  return value.toString(16).padStart(64, "0");
+}
+
+function readField(data: Uint8Array, offset: number): bigint {
+  return BigInt("0x" + Buffer.from(data.subarray(offset, offset + 32)).toString("hex"));
+}
+
+/**
+ * Commitment written into the vote tree by vote_program.
+ * Hides the voter secret; the circuit recomputes it to prove membership.
+ */
+export function computeVoteCommitment(
+  voterSecret: string,
+  proposalId: string,
+  voteChoice: number
+): bigint {
+  return poseidon3([BigInt(voterSecret), BigInt(proposalId), BigInt(voteChoice)]);
+}
+
+/**
+ * Derive the PDA of one of a proposal's vote trees. Shard 0 keeps the
+ * address from before shards; later ones add their index to the seeds.
+ */
+export function deriveVoteTreeAddress(proposalId: string, shard = 0): PublicKey {
+  if (!VOTE_PROGRAM_ID) {
+    throw new Error("VOTE_PROGRAM_ID not configured");
+  }
+  const proposalIdLe = Buffer.alloc(8);
+  proposalIdLe.writeBigUInt64LE(BigInt(proposalId));
+  const seeds = [Buffer.from("votes"), proposalIdLe];
+  if (shard !== 0) {
+    const shardLe = Buffer.alloc(4);
+    shardLe.writeUInt32LE(shard);
+    seeds.push(shardLe);
+  }
+  const [address] = PublicKey.findProgramAddressSync(seeds, VOTE_PROGRAM_ID);
+  return address;
+}
+
+export function decodeVoteTree(data: Uint8Array): VoteTree {
+  if (data.length < VOTE_TREE_ACCOUNT_SIZE) {
+    throw new Error("Vote tree account has unexpected size");
+  }
+  const view = Buffer.from(data);
+  const nextIndex = view.readUInt32LE(NEXT_INDEX_OFFSET);
+  const leaves: bigint[] = [];
+  for (let i = 0; i < nextIndex; i++) {
+    leaves.push(readField(data, LEAVES_OFFSET + i * 32));
+  }
+  const roots: bigint[] = [];
+  for (let i = 0; i < VOTE_TREE_ROOT_HISTORY; i++) {
+    roots.push(readField(data, ROOTS_OFFSET + i * 32));
+  }
+  return {
+    proposalId: view.readBigUInt64LE(PROPOSAL_ID_OFFSET),
+    leaves,
+    roots,
+    rootCursor: view.readUInt32LE(ROOT_CURSOR_OFFSET),
+  };
+}
+
+/**
+ * Read a proposal's vote trees, indexed by shard. Voters fill shards in
+ * order, so the first one vote_program does not own ends the list.
+ */
+export async function fetchVoteTrees(connection: Connection, proposalId: string): Promise<VoteTree[]> {
+  const trees: VoteTree[] = [];
+  for (;;) {
+    const account = await connection.getAccountInfo(deriveVoteTreeAddress(proposalId, trees.length), "confirmed");
+    if (!account || !VOTE_PROGRAM_ID || !account.owner.equals(VOTE_PROGRAM_ID)) {
+      return trees;
+    }
+    trees.push(decodeVoteTree(account.data));
+  }
+}
+
+/**
+ * Shard a new vote goes to: the first one with room, or a new one after the last
+ */
+export function openVoteTreeShard(trees: VoteTree[]): number {
+  const shard = trees.findIndex((tree) => tree.leaves.length < VOTE_TREE_CAPACITY);
+  return shard === -1 ? trees.length : shard;
+}
+
+/**
+ * Shard whose recent roots include `root` (hex), which is the tree a proof
+ * with that `vote_root` must be checked against
+ * @returns 0 when no shard has it, so the check fails against the first tree
+ */
+export async function fetchVoteRootShard(connection: Connection, proposalId: string, root: string): Promise<number> {
+  const trees = await fetchVoteTrees(connection, proposalId);
+  const shard = trees.findIndex((tree) => tree.roots.some((known) => fieldToHex(known) === root.toLowerCase()));
+  return Math.max(shard, 0);
+}
+
+/**
+ * Build the merkle path for a commitment. Mirrors the incremental tree in
+ * vote_program: empty slots hash as zero subtrees.
+ */
+export function buildMerklePath(leaves: bigint[], commitment: bigint): VoteMerklePath {
+  const leafIndex = leaves.findIndex((leaf) => leaf === commitment);
+  if (leafIndex === -1) {
+    throw new Error("Vote commitment not found in the on-chain vote tree");
+  }
+
+  let zero = 0n;
+  let level = leaves.slice();
+  let index = leafIndex;
+  const path: bigint[] = [];
+
+  for (let depth = 0; depth < VOTE_TREE_DEPTH; depth++) {
+    const sibling = index ^ 1;
+    path.push(sibling < level.length ? level[sibling] : zero);
+
+    const next: bigint[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i];
+      const right = i + 1 < level.length ? level[i + 1] : zero;
+      next.push(poseidon2([left, right]));
+    }
+    level = next;
+    zero = poseidon2([zero, zero]);
+    index >>= 1;
+  }
+
+  return { leafIndex, path, root: level[0] };
+}
+
+/**
+ * Find the shard holding a commitment and build its merkle path there
+ */
+export function findVoteMerklePath(trees: VoteTree[], commitment: bigint): VoteMerklePath & { shard: number } {
+  const shard = trees.findIndex((tree) => tree.leaves.includes(commitment));
+  if (shard === -1) {
+    throw new Error("Vote commitment not found in the on-chain vote tree");
+  }
+  return { ...buildMerklePath(trees[shard].leaves, commitment), shard };
+}
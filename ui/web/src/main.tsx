@@ -4,14 +4,38 @@ import { Buffer } from "buffer";
 import App from "./App";
 import "./styles.css";
 import { WalletContextProvider } from "./lib/WalletProvider";
+import { VeilProofBackendProvider } from "./lib/BackendProvider";
+import { createRealBackend } from "./lib/api";
+import { createDemoBackend } from "./lib/backends/demo";
+import { LOCAL_HARNESS } from "./lib/constants";
+import type { LocalHarness } from "./lib/local/harness";
 
 // Polyfill Buffer for browser
 window.Buffer = Buffer;
 
-ReactDOM.createRoot(document.getElementById("root")!).render(
-  <React.StrictMode>
-    <WalletContextProvider>
-      <App />
-    </WalletContextProvider>
-  </React.StrictMode>,
-);
+// Real mode without devnet, a wallet extension, nargo/bb or the verifier service.
+// Loaded on demand so the in-memory bank and mock services stay out of other builds.
+async function loadLocalHarness(): Promise<LocalHarness | null> {
+  if (!LOCAL_HARNESS) {
+    return null;
+  }
+  const { createLocalHarness, LOCAL_SAMPLE_PROPOSALS } = await import("./lib/local/harness");
+  return createLocalHarness({ proposals: LOCAL_SAMPLE_PROPOSALS });
+}
+
+loadLocalHarness().then((localHarness) => {
+  const backends = {
+    demo: createDemoBackend(),
+    real: createRealBackend(localHarness ?? {}),
+  };
+
+  ReactDOM.createRoot(document.getElementById("root")!).render(
+    <React.StrictMode>
+      <WalletContextProvider>
+        <VeilProofBackendProvider backends={backends}>
+          <App localHarness={localHarness} />
+        </VeilProofBackendProvider>
+      </WalletContextProvider>
+    </React.StrictMode>,
+  );
+});
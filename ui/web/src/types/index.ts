@@ -1,19 +1,59 @@
+export type VoteFlowStep = "cast" | "prove" | "submit";
+
 export interface VoteSession {
+  mode: "demo" | "real" | "recorded"; // Backend the session was started on
   proposalId: string;
   programId: string;
-  voteChoice: number; // 1 = YES, 0 = NO
-  transactionSignature?: string;
+  voteChoice: number; // 1 = YES, 0 = NO, 2 = ABSTAIN
+  steps: Record<VoteFlowStep, StepState>;
+  transactionSignature?: string; // Vote transaction
   proof?: ProofData;
+  attestations?: VerifierAttestation[]; // Came with an imported proof bundle
+  verifySignature?: string; // Verifier transaction
+  alreadyProven?: boolean; // Submission hit a spent nullifier
+  trustModel?: TrustModel; // How the verifier program accepted the proof, once known
+  updatedAt: number; // ms since epoch
+}
+
+export type ProposalStatus = "upcoming" | "open" | "closed";
+
+export interface Proposal {
+  id: string;
+  title: string;
+  creator: string; // base58
+  openSlot: number;
+  closeSlot: number; // exclusive
+  allowedChoices: number[];
+  // hex root of the eligibility tree; only members-only proposals have one
+  eligibilityRoot?: string;
+}
+
+export interface ProposalPage {
+  proposals: Proposal[];
+  // Pass back to fetch the next page; undefined on the last page
+  nextCursor?: number;
+}
+
+export interface ProposalListing extends ProposalPage {
+  slot: number; // Slot the statuses were computed at
 }
 
 export interface ProofData {
   publicInputs: {
     expected_program_id: string;
     expected_proposal_id: string;
+    vote_choice: string;
+    nullifier: string;
+    vote_root: string;
+    // From vote_proof 0.2.0 on; all zero for proposals open to anyone
+    eligibility_root?: string;
+    // Decimal, from vote_proof 0.3.0 on; earlier proofs weigh 1
+    weight?: string;
     raw: string;
   };
   proof: string;
   vkHash: string;
+  circuitId: string; // "<name>@<version>" in the circuit registry
   meta?: {
     mock: boolean;
     note: string;
@@ -28,16 +68,168 @@ export interface VerifierAttestation {
     message_hash_hex: string;
     expected_program_id: string;
     expected_proposal_id: string;
+    vote_choice: string;
+    nullifier_hex: string;
+    vote_root_hex: string;
+    weight?: string; // Decimal; signers before weighted votes leave it out, meaning 1
     vk_hash_hex: string;
     proof_hash_hex: string;
     public_inputs_hash_hex: string;
+    // 2 for VEILPROOF_V2; VEILPROOF_V1 signers leave it and the fields below out
+    message_version?: number;
+    expiry_slot?: string; // Decimal; the last slot the attestation can be used in
+    verifier_program_id?: string; // base58
+    genesis_hash?: string; // base58, of the cluster the attestation is for
   };
   signature_base64: string;
 }
 
+// The verifier program's on-chain list of trusted attestation signers
+export interface SignerConfig {
+  authority: string; // base58; may rotate the signer set
+  threshold: number; // Distinct signers each proof needs
+  epoch: number; // Bumped on every rotation
+  signers: string[]; // hex ed25519 public keys
+  // Absent until the authority sets it (`scripts/signers.js domain`)
+  attestationDomain?: AttestationDomain;
+}
+
+// What VEILPROOF_V2 attestations must name, kept in the signer config
+export interface AttestationDomain {
+  genesisHash: string; // base58
+  // VEILPROOF_V1 attestations are accepted before this slot
+  v1UntilSlot: number;
+}
+
+// Portable proof for submission from another device, wallet or relayer
+export interface ProofBundle {
+  version: 1;
+  circuit: {
+    name: string;
+    version: string;
+  };
+  proof: ProofData;
+  // One per verifier instance; bundles from before threshold attestations carried a single `attestation`
+  attestations?: VerifierAttestation[];
+  createdAt: string; // ISO 8601
+}
+
+// A member's on-chain identity registration (proposal_program `Identity`)
+export interface IdentityRegistration {
+  member: string; // base58
+  commitment: string; // hex poseidon(voter_secret)
+  registeredSlot: number;
+}
+
+// The identity commitments a members-only proposal's eligibility root was
+// built from, published so members can find their merkle path
+export interface EligibilitySnapshot {
+  version: 1;
+  depth: number;
+  root: string; // hex
+  commitments: string[]; // hex, ordered by leaf
+  // Decimal, one per commitment; only weighted snapshots have them
+  balances?: string[];
+  slot: number; // Registrations up to this slot were considered
+  createdAt: string; // ISO 8601
+}
+
+export interface RelayResult {
+  ok: true;
+  signature: string; // Verifier transaction, paid for and signed by the relayer
+}
+
+// active: new proofs are made with it; deprecated: still verified; retired: refused
+export type CircuitStatus = "active" | "deprecated" | "retired";
+
+export type PublicInputType = "u64" | "field" | "vote_choice";
+
+// ultraplonk proofs are checked off chain by the verifier services, which
+// attest to them; groth16 proofs are checked by the verifier program itself
+export type ProofSystem = "ultraplonk" | "groth16";
+
+// How the verifier program accepted a proof, matching the proof systems above
+export type TrustModel = "attestation" | "groth16";
+
+export interface PublicInputSpec {
+  name: string;
+  type: PublicInputType;
+}
+
+export interface CircuitDefinition {
+  id: string;
+  name: string;
+  version: string;
+  status: CircuitStatus;
+  proofSystem: ProofSystem;
+  publicInputs: PublicInputSpec[]; // In the order the proof commits to them
+}
+
+// A registry entry as served by the verifier service's /circuits
+export interface CircuitInfo extends CircuitDefinition {
+  vkHash: string | null; // null until the service has written the vk
+}
+
+export interface HealthStatus {
+  status: "ok";
+  service: string;
+  timestamp: string;
+  // Attestation key of a verifier service; relayers have none
+  signerPubkeyHex?: string;
+}
+
+// "queued": waiting for a free worker of the prover service
+export type ProverStage = "queued" | "loading-circuit" | "executing" | "proving" | "done";
+
+export interface ProverProgress {
+  stage: ProverStage;
+  message: string;
+  // 0 to 1, when the prover can tell how far along it is
+  fraction?: number;
+}
+
+export type ProofJobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+// A proof generation job on the prover service (POST /proof-jobs)
+export interface ProofJob {
+  jobId: string;
+  status: ProofJobStatus;
+  stage: ProverStage;
+  message: string;
+  fraction: number; // 0 to 1
+  queuePosition?: number; // Jobs ahead of it, while queued
+  proof?: ProofData; // Once succeeded
+  error?: string; // Once failed
+  circuitId: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+export type TransactionStage = "signed" | "sent" | "confirmed" | "finalized";
+
+export interface TransactionProgress {
+  stage: TransactionStage;
+  signature: string;
+  // 1, plus one for every re-sign after a blockhash expired
+  attempt: number;
+  message: string;
+}
+
 export type StepStatus = "idle" | "working" | "success" | "error";
 
+// Where a failure came from; see describeError in lib/errors.ts
+export type StepErrorKind = "wallet" | "rpc" | "verifier-service" | "relayer" | "program" | "prover" | "unknown";
+
+export interface StepError {
+  kind: StepErrorKind;
+  // Stable identifier, e.g. "verifier_program.attestation_threshold"
+  code: string;
+  message: string;
+  // What the voter can do about it
+  hint?: string;
+}
+
 export interface StepState {
   status: StepStatus;
-  error?: string;
+  error?: StepError;
 }
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import { Buffer } from "buffer";
@@ -13,8 +14,25 @@ export default defineConfig({
       buffer: "buffer",
     },
   },
+  // bb.js uses top-level await
+  build: {
+    target: "es2022",
+  },
+  worker: {
+    format: "es",
+  },
+  test: {
+    // The harness runs under its placeholder program IDs (see src/lib/constants.ts)
+    env: { VITE_LOCAL_HARNESS: "true" },
+    // The Node services keep their tests next to them
+    dir: "../..",
+    include: ["ui/web/src/**/*.test.ts", "verifier_service/**/*.test.mjs", "relayer_service/**/*.test.mjs"],
+  },
   optimizeDeps: {
+    // Noir's wasm packages load their .wasm relative to the module URL
+    exclude: ["@noir-lang/noirc_abi", "@noir-lang/acvm_js"],
     esbuildOptions: {
+      target: "es2022",
       define: {
         global: "globalThis",
       },
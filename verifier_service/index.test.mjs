@@ -0,0 +1,169 @@
+import fs from "fs";
+import { createRequire } from "module";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { encodePublicInputs } from "../ui/web/src/lib/publicInputs";
+
+const SCHEMA = [
+  { name: "expected_program_id", type: "u64" },
+  { name: "expected_proposal_id", type: "u64" },
+  { name: "vote_root", type: "field" },
+  { name: "eligibility_root", type: "field" },
+  { name: "vote_choice", type: "vote_choice" },
+  { name: "nullifier", type: "field" },
+  { name: "weight", type: "u64" },
+];
+const VK_HASH = "ab".repeat(32);
+
+const FIELDS = {
+  expected_program_id: "7",
+  expected_proposal_id: "42",
+  vote_root: "11".repeat(32),
+  eligibility_root: "00".repeat(32),
+  vote_choice: "1",
+  nullifier: "22".repeat(32),
+  weight: "1",
+};
+
+let baseUrl;
+let server;
+let tmpDir;
+
+beforeAll(async () => {
+  // A registry with one pinned circuit, and a bb that accepts every proof
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "veilproof-verifier-test-"));
+  const registryPath = path.join(tmpDir, "circuits.json");
+  fs.writeFileSync(
+    registryPath,
+    JSON.stringify({
+      circuits: [
+        {
+          name: "vote_proof",
+          version: "0.3.0",
+          status: "active",
+          vk_path: path.join(tmpDir, "vk"),
+          vk_hash_hex: VK_HASH,
+          public_inputs: SCHEMA,
+        },
+      ],
+    })
+  );
+  const bbPath = path.join(tmpDir, "bb");
+  fs.writeFileSync(bbPath, "#!/bin/sh\nexit 0\n", { mode: 0o755 });
+  Object.assign(process.env, { BB_BIN: bbPath, CIRCUIT_REGISTRY_PATH: registryPath });
+  for (const name of ["VOTE_PROGRAM_ID", "PROPOSAL_PROGRAM_ID", "VERIFIER_PROGRAM_ID"]) {
+    delete process.env[name];
+  }
+
+  server = createRequire(import.meta.url)("./index.js").server;
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function proofFor(fields) {
+  const raw = Buffer.from(encodePublicInputs(fields, SCHEMA));
+  return Buffer.concat([raw, Buffer.from("proof body")]);
+}
+
+async function verify(publicInputs, proofBytes, request = {}) {
+  const response = await fetch(`${baseUrl}/verify`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      proof_bytes_base64: proofBytes.toString("base64"),
+      public_inputs_json: {
+        ...publicInputs,
+        raw: Buffer.from(encodePublicInputs(publicInputs, SCHEMA)).toString("base64"),
+      },
+      vk_hash_hex: VK_HASH,
+      circuit_id: "vote_proof@0.3.0",
+      expected_program_id: publicInputs.expected_program_id,
+      expected_proposal_id: publicInputs.expected_proposal_id,
+      expected_vote_choice: publicInputs.vote_choice,
+      ...request,
+    }),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+describe("POST /verify public inputs", () => {
+  it("signs the fields of a proof made for them", async () => {
+    const { status, body } = await verify(FIELDS, proofFor(FIELDS));
+    expect(status).toBe(200);
+    expect(body.attestation).toMatchObject({ nullifier_hex: FIELDS.nullifier, weight: "1" });
+  });
+
+  it("rejects fields the proof was not made for", async () => {
+    // A valid proof, sent with a fresh nullifier and a bigger weight
+    const forged = { ...FIELDS, nullifier: "13".repeat(32), weight: "1000" };
+    const { status, body } = await verify(forged, proofFor(FIELDS));
+    expect(status).toBe(400);
+    expect(body.code).toBe("public_inputs_mismatch");
+  });
+
+  it("rejects raw bytes that disagree with the readable fields", async () => {
+    const raw = Buffer.from(encodePublicInputs({ ...FIELDS, vote_root: "12".repeat(32) }, SCHEMA));
+    const response = await fetch(`${baseUrl}/verify`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        proof_bytes_base64: Buffer.concat([raw, Buffer.from("proof body")]).toString("base64"),
+        public_inputs_json: { ...FIELDS, raw: raw.toString("base64") },
+        vk_hash_hex: VK_HASH,
+        circuit_id: "vote_proof@0.3.0",
+        expected_program_id: FIELDS.expected_program_id,
+        expected_proposal_id: FIELDS.expected_proposal_id,
+        expected_vote_choice: FIELDS.vote_choice,
+      }),
+    });
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.code).toBe("public_inputs_mismatch");
+    expect(body.error).toContain("vote_root");
+  });
+
+  it("rejects a proof for another proposal than the one expected", async () => {
+    const { status, body } = await verify(FIELDS, proofFor(FIELDS), { expected_proposal_id: "43" });
+    expect(status).toBe(400);
+    expect(body.error).toBe("expected_proposal_id mismatch");
+  });
+
+  it("rejects a field at or above the BN254 scalar modulus", async () => {
+    // The modulus itself: 32 bytes of hex, but not a field element
+    const nullifier = "30644e72e131a029b85045b68181585d2833e84879b9709143e1f593f0000001";
+    const raw = Buffer.from(encodePublicInputs(FIELDS, SCHEMA));
+    raw.write(nullifier, 5 * 32, "hex");
+    const response = await fetch(`${baseUrl}/verify`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        proof_bytes_base64: Buffer.concat([raw, Buffer.from("proof body")]).toString("base64"),
+        public_inputs_json: { ...FIELDS, nullifier, raw: raw.toString("base64") },
+        vk_hash_hex: VK_HASH,
+        circuit_id: "vote_proof@0.3.0",
+        expected_program_id: FIELDS.expected_program_id,
+        expected_proposal_id: FIELDS.expected_proposal_id,
+        expected_vote_choice: FIELDS.vote_choice,
+      }),
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("public_inputs_mismatch");
+  });
+});
+
+describe("request bodies", () => {
+  it("answers 413 to a body over 64 KiB", async () => {
+    const response = await fetch(`${baseUrl}/verify`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ proof_bytes_base64: "A".repeat(64 * 1024) }),
+    });
+    expect(response.status).toBe(413);
+  });
+});